@@ -36,6 +36,7 @@ import WorkoutFeedbackPage from "./pages/WorkoutFeedbackPage";
 import WorkoutSettings from "./pages/WorkoutSettings";
 import EmailVerification from "./pages/email-verification";
 import EmailVerificationSuccess from "./pages/email-verification-success";
+import ResetPassword from "./pages/reset-password";
 import PrivacyPolicy from "./pages/privacy-policy";
 import TermsOfService from "./pages/terms-of-service";
 import Landing from "./pages/Landing";
@@ -164,6 +165,7 @@ function AppRouter({ user, setUser }: { user: User | null; setUser: (user: User
       '/auth',
       '/oauth-success',
       '/email-verification', 
+      '/reset-password',
       '/privacy-policy',
       '/terms-of-service'
     ];
@@ -239,6 +241,12 @@ function AppRouter({ user, setUser }: { user: User | null; setUser: (user: User
             <EmailVerificationSuccess />
           </AnimatedPage>
         </Route>
+
+        <Route path="/reset-password">
+          <AnimatedPage>
+            <ResetPassword />
+          </AnimatedPage>
+        </Route>
         
         <Route path="/">
           <AnimatedPage>
@@ -109,6 +109,8 @@ export function AdvancedMacroManagement({ userId }: AdvancedMacroManagementProps
     mutationFn: async (settings: { autoAdjustmentEnabled: boolean; autoAdjustmentFrequency: 'weekly' | 'biweekly'; resetDate?: boolean }) => {
       const payload = {
         ...settings,
+        // Scheduled adjustments run at 6 AM in the user's own timezone
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         // When enabling auto-adjustment, reset the lastAutoAdjustment date to today
         ...(settings.autoAdjustmentEnabled && settings.resetDate && { resetLastAdjustmentDate: true })
       };
@@ -6,7 +6,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { GripVertical, Plus, Trash2, Search, Filter, CheckCircle } from "lucide-react";
+import { GripVertical, Plus, Trash2, Search, Filter, CheckCircle, Repeat, X } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -37,6 +37,22 @@ interface WorkoutExercise {
   specialMethod?: string;
 }
 
+interface SubstituteSuggestion {
+  exercise: Pick<Exercise, 'id' | 'name' | 'category' | 'primaryMuscle' | 'equipment' | 'movementPattern' | 'difficulty'>;
+  score: number;
+  muscleOverlap: number;
+  reasons: string[];
+  sets: number;
+  estimatedLoad: { weight: number; unit: 'kg' | 'lbs'; reps: number; source: 'history' | 'related' } | null;
+  volume: { muscleGroupId: number; muscleGroup: string; before: number; after: number; target: number | null; mev: number | null; mrv: number | null }[];
+}
+
+interface SubstituteResponse {
+  exerciseId: number;
+  excludedEquipment: string[];
+  suggestions: SubstituteSuggestion[];
+}
+
 interface DraggableExerciseListProps {
   exercises: WorkoutExercise[];
   sessionId: string;
@@ -61,6 +77,8 @@ export const DraggableExerciseList: React.FC<DraggableExerciseListProps> = ({
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [exerciseFilter, setExerciseFilter] = useState('');
   const [categoryFilter, setCategoryFilter] = useState('all');
+  const [swapTarget, setSwapTarget] = useState<WorkoutExercise | null>(null);
+  const [excludedEquipment, setExcludedEquipment] = useState<string[]>([]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -126,6 +144,39 @@ export const DraggableExerciseList: React.FC<DraggableExerciseListProps> = ({
     },
   });
 
+  // Substitutes for the exercise being swapped - the active gym profile's unavailable equipment is excluded server-side
+  const substitutesUrl = swapTarget
+    ? `/api/training/sessions/${sessionId}/exercises/${swapTarget.exerciseId}/substitutes?exclude=${encodeURIComponent(excludedEquipment.join(','))}`
+    : '';
+  const { data: substitutes, isLoading: substitutesLoading } = useQuery<SubstituteResponse>({
+    queryKey: [substitutesUrl],
+    enabled: !!swapTarget,
+  });
+
+  // Substitute exercise mutation
+  const substituteExerciseMutation = useMutation({
+    mutationFn: async ({ oldExerciseId, newExerciseId }: { oldExerciseId: number; newExerciseId: number }) => {
+      return apiRequest("PUT", `/api/training/sessions/${sessionId}/exercises/${oldExerciseId}/substitute`, {
+        newExerciseId
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/training/session", sessionId] });
+      toast({
+        title: "Exercise Swapped",
+        description: "The substitute replaces this exercise here and in future weeks.",
+      });
+      setSwapTarget(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to swap exercise: ${error.message}`,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Reorder exercises mutation
   const reorderExercisesMutation = useMutation({
     mutationFn: async (newOrder: { exerciseId: number; orderIndex: number }[]) => {
@@ -196,6 +247,17 @@ export const DraggableExerciseList: React.FC<DraggableExerciseListProps> = ({
     onExerciseDelete?.(exerciseId);
   };
 
+  const toggleExcludedEquipment = (equipment: string) => {
+    setExcludedEquipment(current => current.includes(equipment)
+      ? current.filter(item => item !== equipment)
+      : [...current, equipment]);
+  };
+
+  const suggestionEquipment = Array.from(new Set(
+    (substitutes?.suggestions || []).map(suggestion => suggestion.exercise.equipment).filter(Boolean)
+  ));
+  const profileExcludedEquipment = (substitutes?.excludedEquipment || []).filter(item => !excludedEquipment.includes(item));
+
   const filteredAvailableExercises = availableExercises.filter(exercise => {
     const matchesName = exercise.name.toLowerCase().includes(exerciseFilter.toLowerCase());
     const matchesCategory = categoryFilter === 'all' || exercise.category === categoryFilter;
@@ -359,6 +421,19 @@ export const DraggableExerciseList: React.FC<DraggableExerciseListProps> = ({
                   </div>
                 </div>
 
+                {/* Swap Button */}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 flex-shrink-0"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setSwapTarget(exercise);
+                  }}
+                >
+                  <Repeat className="h-3.5 w-3.5" />
+                </Button>
+
                 {/* Delete Button */}
                 <AlertDialog>
                   <AlertDialogTrigger asChild>
@@ -397,6 +472,112 @@ export const DraggableExerciseList: React.FC<DraggableExerciseListProps> = ({
         })}
       </div>
 
+      {/* Substitute Suggestions */}
+      <Dialog open={!!swapTarget} onOpenChange={(open) => !open && setSwapTarget(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Swap {swapTarget?.exercise.name}</DialogTitle>
+          </DialogHeader>
+
+          {/* Equipment Exclusions */}
+          <div className="flex flex-wrap items-center gap-1.5 p-4 border-b text-xs">
+            <span className="text-foreground/60 mr-1">Don't have:</span>
+            {profileExcludedEquipment.map(equipment => (
+              <Badge key={equipment} variant="secondary" className="text-xs" title="Unavailable in your active gym profile">
+                {equipment.replace(/_/g, ' ')}
+              </Badge>
+            ))}
+            {excludedEquipment.map(equipment => (
+              <Badge
+                key={equipment}
+                variant="destructive"
+                className="text-xs cursor-pointer"
+                onClick={() => toggleExcludedEquipment(equipment)}
+              >
+                {equipment.replace(/_/g, ' ')}
+                <X className="h-3 w-3 ml-1" />
+              </Badge>
+            ))}
+            {suggestionEquipment.map(equipment => (
+              <Badge
+                key={equipment}
+                variant="outline"
+                className="text-xs cursor-pointer"
+                onClick={() => toggleExcludedEquipment(equipment)}
+              >
+                {equipment.replace(/_/g, ' ')}
+              </Badge>
+            ))}
+          </div>
+
+          {/* Suggestions */}
+          <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {substitutesLoading && (
+              <div className="text-center py-8 text-foreground/60">Finding substitutes...</div>
+            )}
+
+            {substitutes?.suggestions.map(suggestion => {
+              const offTarget = suggestion.volume.filter(volume =>
+                (volume.mrv !== null && volume.after > volume.mrv) ||
+                (volume.mev !== null && volume.after < volume.mev && volume.before >= volume.mev)
+              );
+
+              return (
+                <Card key={suggestion.exercise.id} className="hover:bg-accent/50">
+                  <CardContent className="p-4">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="space-y-1.5 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{suggestion.exercise.name}</span>
+                          <Badge variant="outline" className="text-xs">{suggestion.score}% match</Badge>
+                        </div>
+                        <div className="text-sm text-foreground/70">
+                          {suggestion.sets} sets
+                          {suggestion.estimatedLoad && (
+                            <> • start at {suggestion.estimatedLoad.weight}{suggestion.estimatedLoad.unit} × {suggestion.estimatedLoad.reps}
+                              {suggestion.estimatedLoad.source === 'related' && ' (estimated)'}</>
+                          )}
+                        </div>
+                        <div className="text-xs text-foreground/60">
+                          {suggestion.reasons.join(' • ')}
+                        </div>
+                        <div className="text-xs text-foreground/60">
+                          {suggestion.volume
+                            .filter(volume => volume.before !== volume.after)
+                            .map(volume => `${volume.muscleGroup} ${volume.before} → ${volume.after} sets${volume.target !== null ? ` (target ${volume.target})` : ''}`)
+                            .join(', ')}
+                        </div>
+                        {offTarget.length > 0 && (
+                          <div className="text-xs text-amber-600 dark:text-amber-400">
+                            Moves {offTarget.map(volume => volume.muscleGroup).join(', ')} outside MEV-MRV this week
+                          </div>
+                        )}
+                      </div>
+                      <Button
+                        onClick={() => swapTarget && substituteExerciseMutation.mutate({
+                          oldExerciseId: swapTarget.exerciseId,
+                          newExerciseId: suggestion.exercise.id
+                        })}
+                        disabled={substituteExerciseMutation.isPending}
+                        size="sm"
+                      >
+                        Swap
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+
+            {substitutes && substitutes.suggestions.length === 0 && (
+              <div className="text-center py-8 text-foreground/60">
+                No substitutes found with the equipment available.
+              </div>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {exercises.length === 0 && (
         <Card>
           <CardContent className="p-6 text-center">
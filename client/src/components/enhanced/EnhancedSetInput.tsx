@@ -9,6 +9,8 @@ import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Check, Info, Plus, Minus, Scale, Timer, Zap, Target, History } from "lucide-react";
 import { SpecialMethodHistoryButton } from '@/components/SpecialMethodHistoryButton';
+import type { EquipmentProfile } from '@shared/schema';
+import { calculatePlateBreakdown, getLoadingType } from '@shared/utils/equipment-loads';
 
 interface WorkoutSet {
   setNumber: number;
@@ -17,6 +19,8 @@ interface WorkoutSet {
   weight: number;
   rpe: number;
   completed: boolean;
+  setType?: 'warmup' | 'working';
+  painScore?: number; // 0-10, left unset when nothing hurts
 }
 
 interface SetRecommendation {
@@ -24,6 +28,7 @@ interface SetRecommendation {
   recommendedWeight: number;
   recommendedReps: number;
   recommendedRpe: number;
+  amrap?: boolean; // Percentage wave top sets - reps are the minimum
 }
 
 interface ExerciseRecommendation {
@@ -43,6 +48,7 @@ interface HistoricalSetData {
   rpe: number | string;
   setNumber: number;
   date: string;
+  painScore?: number | null;
 }
 
 interface EnhancedSetInputProps {
@@ -59,6 +65,7 @@ interface EnhancedSetInputProps {
   onWeightUnitChange?: (unit: 'kg' | 'lbs') => void;
   userId?: number;
   isBodyWeightExercise?: boolean;
+  equipment?: string | null; // Exercise library equipment - barbell sets show a plate breakdown
   exerciseId?: number; // For fetching historical data
   // Special Training Methods
   specialMethod?: 'myorep_match' | 'myorep_no_match' | 'drop_set' | 'superset' | 'giant_set' | null;
@@ -83,6 +90,7 @@ export const EnhancedSetInput: React.FC<EnhancedSetInputProps> = ({
   onWeightUnitChange,
   userId = 1,
   isBodyWeightExercise = false,
+  equipment,
   exerciseId,
   specialMethod = null,
   onSpecialMethodChange,
@@ -111,6 +119,13 @@ export const EnhancedSetInput: React.FC<EnhancedSetInputProps> = ({
     enabled: isBodyWeightExercise, // Only fetch for body weight exercises
   });
 
+  // Active gym profile for the plate breakdown
+  const isBarbellExercise = getLoadingType(equipment, isBodyWeightExercise) === 'barbell';
+  const { data: equipmentProfile } = useQuery<EquipmentProfile | null>({
+    queryKey: ['/api/equipment-profiles/active'],
+    enabled: isBarbellExercise,
+  });
+
   // Get latest body weight data
   const latestBodyWeight = bodyMetrics.length > 0 ? bodyMetrics[0] : null;
   const bodyWeightValue = latestBodyWeight?.weight ? parseFloat(latestBodyWeight.weight) : 0;
@@ -156,6 +171,24 @@ export const EnhancedSetInput: React.FC<EnhancedSetInputProps> = ({
     return set.weight;
   };
 
+  // Plates per side in the profile's unit, e.g. "20 + 10 + 2.5"
+  const getPlateBreakdown = () => {
+    if (!isBarbellExercise || !equipmentProfile || !(set.weight > 0)) return null;
+
+    const profileUnit = equipmentProfile.unit;
+    const breakdown = calculatePlateBreakdown(convertWeight(set.weight, weightUnit, profileUnit), {
+      unit: profileUnit,
+      barWeight: parseFloat(equipmentProfile.barWeight),
+      plates: equipmentProfile.plates,
+      dumbbells: equipmentProfile.dumbbells,
+      machineIncrement: parseFloat(equipmentProfile.machineIncrement),
+      machineMax: parseFloat(equipmentProfile.machineMax),
+      microplates: equipmentProfile.microplates,
+    });
+    return { ...breakdown, unit: profileUnit };
+  };
+  const plateBreakdown = getPlateBreakdown();
+
   const handleRepsChange = (value: number) => {
     onUpdateSet('actualReps', value);
   };
@@ -237,10 +270,10 @@ export const EnhancedSetInput: React.FC<EnhancedSetInputProps> = ({
         <div className="flex items-center justify-between min-h-[24px]">
           <div className="flex items-center gap-1.5 flex-1 min-w-0">
             <Badge variant={set.completed ? "default" : "outline"} className="text-xs px-1.5 py-0.5 flex-shrink-0">
-              Set {set.setNumber}
+              {set.setType === 'warmup' ? `Warm-up ${set.setNumber}` : `Set ${set.setNumber}`}
             </Badge>
             <span className="text-xs text-foreground/70 truncate">
-              Target: {setRecommendation?.recommendedReps || set.targetReps}
+              Target: {setRecommendation?.recommendedReps || set.targetReps}{setRecommendation?.amrap && '+'}
               {setRecommendation && (
                 <span className="text-emerald-400 ml-1">(R)</span>
               )}
@@ -283,7 +316,7 @@ export const EnhancedSetInput: React.FC<EnhancedSetInputProps> = ({
               <div className="flex-1 min-w-0">
                 <div className="text-xs text-emerald-300 truncate">
                   {setRecommendation ? (
-                    `${setRecommendation.recommendedWeight}kg • ${setRecommendation.recommendedReps}r • RPE ${setRecommendation.recommendedRpe}`
+                    `${setRecommendation.recommendedWeight}kg • ${setRecommendation.recommendedReps}${setRecommendation.amrap ? '+' : ''}r • RPE ${setRecommendation.recommendedRpe}`
                   ) : recommendation?.sets?.[0] ? (
                     `${recommendation.sets[0].recommendedWeight}kg • ${recommendation.sets[0].recommendedReps}r • RPE ${recommendation.sets[0].recommendedRpe}`
                   ) : (
@@ -314,6 +347,9 @@ export const EnhancedSetInput: React.FC<EnhancedSetInputProps> = ({
                 <div className="flex-1 min-w-0">
                   <div className="text-xs text-blue-300 truncate">
                     Set {set.setNumber} Last: {typeof latestHistoricalData.weight === 'string' ? parseFloat(latestHistoricalData.weight) : latestHistoricalData.weight}kg • {typeof latestHistoricalData.reps === 'string' ? parseInt(latestHistoricalData.reps) : latestHistoricalData.reps}r • RPE {typeof latestHistoricalData.rpe === 'string' ? parseFloat(latestHistoricalData.rpe) : latestHistoricalData.rpe}
+                    {typeof latestHistoricalData.painScore === 'number' && (
+                      <span className="text-amber-400 ml-1">• Pain {latestHistoricalData.painScore}/10</span>
+                    )}
                     <span className="text-blue-300/70 ml-1">
                       ({new Date(latestHistoricalData.date).toLocaleDateString()})
                     </span>
@@ -337,6 +373,9 @@ export const EnhancedSetInput: React.FC<EnhancedSetInputProps> = ({
                       <div className="flex-1 min-w-0">
                         <div className="text-xs text-blue-300/60 truncate">
                           Set {set.setNumber}: {typeof histData.weight === 'string' ? parseFloat(histData.weight) : histData.weight}kg • {typeof histData.reps === 'string' ? parseInt(histData.reps) : histData.reps}r • RPE {typeof histData.rpe === 'string' ? parseFloat(histData.rpe) : histData.rpe}
+                          {typeof histData.painScore === 'number' && (
+                            <span className="text-amber-400/60 ml-1">• Pain {histData.painScore}/10</span>
+                          )}
                           <span className="text-blue-300/40 ml-1">
                             ({new Date(histData.date).toLocaleDateString()})
                           </span>
@@ -970,6 +1009,15 @@ export const EnhancedSetInput: React.FC<EnhancedSetInputProps> = ({
                     </Select>
                   </div>
                 </div>
+                {plateBreakdown && (
+                  <div className={`text-xs ${plateBreakdown.exact ? 'text-muted-foreground' : 'text-amber-500'}`}>
+                    {plateBreakdown.perSide.length > 0
+                      ? `Per side: ${plateBreakdown.perSide.join(' + ')}${plateBreakdown.unit}`
+                      : 'Empty bar'}
+                    {` (${equipmentProfile?.name}, bar ${plateBreakdown.barWeight}${plateBreakdown.unit})`}
+                    {!plateBreakdown.exact && ` - closest load is ${plateBreakdown.total}${plateBreakdown.unit}`}
+                  </div>
+                )}
               </div>
               
               {/* Reps and RPE Row */}
@@ -1023,6 +1071,25 @@ export const EnhancedSetInput: React.FC<EnhancedSetInputProps> = ({
                   </Select>
                 </div>
               </div>
+
+              {/* Pain Section - optional, tracked against recorded injuries */}
+              <div className="flex items-center justify-between gap-2">
+                <label className="text-xs font-medium text-foreground">Pain (optional)</label>
+                <Select
+                  value={set.painScore !== undefined ? set.painScore.toString() : "none"}
+                  onValueChange={(value) => onUpdateSet('painScore', value === "none" ? undefined : parseInt(value))}
+                >
+                  <SelectTrigger className="h-8 w-24 text-xs border border-border/50 bg-background touch-target ios-touch-feedback">
+                    <SelectValue placeholder="None" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {Array.from({ length: 11 }, (_, score) => (
+                      <SelectItem key={score} value={score.toString()}>{score}/10</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
           </div>
         ) : null}
@@ -1035,6 +1102,9 @@ export const EnhancedSetInput: React.FC<EnhancedSetInputProps> = ({
             <Check className="h-3 w-3 text-emerald-400 mr-1" />
             <span className="text-xs text-emerald-300 font-medium">
               {effectiveWeight}{weightUnit} × {set.actualReps} @ RPE {set.rpe}
+              {set.painScore !== undefined && set.painScore > 0 && (
+                <span className="text-amber-400"> • Pain {set.painScore}/10</span>
+              )}
             </span>
             {specialMethod && (
               <Badge variant="outline" className="ml-2 text-xs px-1 py-0 h-4 bg-orange-500/20 text-orange-300 border-orange-500/30">
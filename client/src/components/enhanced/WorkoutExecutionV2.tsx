@@ -13,6 +13,9 @@ import { Target, ArrowLeft, ArrowRight, ListOrdered, Timer, Save, CheckCircle, P
 import { apiRequest } from '@/lib/queryClient';
 import { useWorkoutSetting } from '@/hooks/useSettings';
 import { UnitConverter } from '@shared/utils/unit-conversion';
+import { generateWarmupSets, getWarmupScheme, getWorkingSets, isWarmupSet, renumberSets } from '@shared/utils/warmup-sets';
+import { getLoadingType } from '@shared/utils/equipment-loads';
+import type { EquipmentProfile } from '@shared/schema';
 
 // Enhanced components
 import { RestTimerFAB } from './RestTimerFAB';
@@ -43,6 +46,8 @@ interface WorkoutSet {
   weight: number;
   rpe: number;
   completed: boolean;
+  setType?: 'warmup' | 'working'; // Warm-ups are numbered separately and excluded from volume and progression
+  painScore?: number; // Optional 0-10 pain rating, feeds the injury pain trend
 }
 
 interface Exercise {
@@ -79,6 +84,7 @@ interface SetRecommendation {
   recommendedWeight: number;
   recommendedReps: number;
   recommendedRpe: number;
+  amrap?: boolean; // Percentage wave top sets - reps are the minimum
 }
 
 interface ExerciseRecommendation {
@@ -198,6 +204,11 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
     enabled: !!sessionId,
   });
 
+  // Active gym profile - warm-up loads are rounded to what it can build
+  const { data: equipmentProfile } = useQuery<EquipmentProfile | null>({
+    queryKey: ['/api/equipment-profiles/active'],
+  });
+
   // Initialize session start time accounting for any previously saved duration
   useEffect(() => {
     if (session) {
@@ -782,6 +793,13 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
           return;
         }
         validatedValue = numericValue;
+      } else if (field === 'painScore' && value !== undefined) {
+        const numericValue = typeof value === 'string' ? parseInt(value) : value;
+        if (isNaN(numericValue) || numericValue < 0 || numericValue > 10) {
+          console.error('Invalid pain score:', value);
+          return;
+        }
+        validatedValue = numericValue;
       }
       
       setWorkoutData(prev => {
@@ -798,7 +816,7 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
           duration: sessionStartTime ? Math.round((Date.now() - sessionStartTime) / 1000 / 60) : 0,
           totalVolume: Math.round(Object.values(newData)
             .flat()
-            .filter(set => set?.completed)
+            .filter(set => set?.completed && !isWarmupSet(set))
             .reduce((sum, set) => sum + ((set?.weight || 0) * (set?.actualReps || 0)), 0)),
           isCompleted: false,
           autoSave: true, // Flag to indicate this is an auto-save
@@ -938,7 +956,8 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
         const previousSet = setsForCurrentExercise[previousSetIndex];
         const nextSet = setsForCurrentExercise[nextUncompletedSetIndex];
         
-        if (previousSet && nextSet && !nextSet.completed) {
+        // Warm-ups have their own ramped loads - never copy them to or from working sets
+        if (previousSet && nextSet && !nextSet.completed && !isWarmupSet(previousSet) && !isWarmupSet(nextSet)) {
           // Copy weight, reps, RPE from previous set
           const updatedNextSet = {
             ...nextSet,
@@ -1039,7 +1058,8 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
       workoutContext.setCompleteWorkoutHandler(completeWorkout);
       
       // Check if all sets are completed
-      const allSets = Object.values(workoutData).flat();
+      // Skipped warm-ups don't block finishing the workout
+      const allSets = getWorkingSets(Object.values(workoutData).flat());
       const allCompleted = allSets.length > 0 && allSets.every(set => set?.completed);
       workoutContext.setAllSetsCompleted(allCompleted);
       workoutContext.setCanCompleteWorkout(allCompleted);
@@ -1065,8 +1085,8 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
   }, [currentExercise, currentSetIndex, currentSets.length, activeTab]);
   
   // Calculate progress
-  const totalSets = Object.values(workoutData).reduce((sum, sets) => sum + sets.length, 0);
-  const completedSets = Object.values(workoutData).flat().filter(set => set.completed).length;
+  const totalSets = Object.values(workoutData).reduce((sum, sets) => sum + getWorkingSets(sets).length, 0);
+  const completedSets = getWorkingSets(Object.values(workoutData).flat()).filter(set => set.completed).length;
   const progressPercentage = totalSets > 0 ? (completedSets / totalSets) * 100 : 0;
 
   // Auto-save mutation for individual set completion
@@ -1201,9 +1221,10 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
   const addSet = (exerciseId: number) => {
     setWorkoutData(prev => {
       const currentSets = prev[exerciseId] || [];
-      const lastSet = currentSets[currentSets.length - 1];
+      const workingSets = getWorkingSets(currentSets);
+      const lastSet = workingSets[workingSets.length - 1];
       const newSet: WorkoutSet = {
-        setNumber: currentSets.length + 1,
+        setNumber: workingSets.length + 1,
         targetReps: lastSet?.targetReps || 8,
         actualReps: 0,
         weight: lastSet?.weight || 0,
@@ -1221,7 +1242,7 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
     
     // Toast outside of state setter
     setTimeout(() => {
-      showInfo("Set Added", `Added Set ${workoutData[exerciseId]?.length || 1} to ${currentExercise?.exercise.name}`, {
+      showInfo("Set Added", `Added Set ${getWorkingSets(workoutData[exerciseId] || []).length + 1} to ${currentExercise?.exercise.name}`, {
         autoHideDelay: 2000
       });
     }, 0);
@@ -1230,21 +1251,18 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
   const removeSet = (exerciseId: number, setIndex: number) => {
     const currentSets = workoutData[exerciseId] || [];
     
-    if (currentSets.length <= 1) {
+    const setToRemove = currentSets[setIndex];
+    if (!isWarmupSet(setToRemove) && getWorkingSets(currentSets).length <= 1) {
       showError("Cannot Remove Set", "Each exercise must have at least one set.");
       return;
     }
 
-    const setToRemove = currentSets[setIndex];
     if (setToRemove?.completed) {
       showError("Cannot Remove Completed Set", "You cannot remove a completed set.");
       return;
     }
 
-    const newSets = currentSets.filter((_, i) => i !== setIndex).map((set, i) => ({
-      ...set,
-      setNumber: i + 1
-    }));
+    const newSets = renumberSets(currentSets.filter((_, i) => i !== setIndex));
     
     setWorkoutData(prev => ({
       ...prev,
@@ -1266,6 +1284,54 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
     }, 0);
   };
 
+  // Ramp-up sets before the first working set, from its weight (or the recommended one)
+  const addWarmupSets = (exerciseId: number) => {
+    const workoutExercise = session?.exercises.find(ex => ex.id === exerciseId);
+    const currentSets = workoutData[exerciseId] || [];
+    if (!workoutExercise) return;
+
+    if (currentSets.some(set => set.completed)) {
+      showError("Warm-ups Not Added", "Warm-up sets can only be added before the first set is done.");
+      return;
+    }
+
+    const firstWorkingSet = getWorkingSets(currentSets)[0];
+    const workingWeight = firstWorkingSet?.weight || getSetRecommendation(workoutExercise.exerciseId, 1)?.recommendedWeight || 0;
+    const unit = exerciseWeightUnits[exerciseId] || weightUnit;
+    const warmupSets = generateWarmupSets(workingWeight, workoutExercise.exercise.category, {
+      unit,
+      scheme: getWarmupScheme(workoutExercise.exercise.category, userProfile?.profile?.warmupSchemes),
+      loadingType: getLoadingType(workoutExercise.exercise.equipment, workoutExercise.exercise.isBodyWeight),
+      setup: equipmentProfile ? {
+        unit: equipmentProfile.unit,
+        barWeight: parseFloat(equipmentProfile.barWeight),
+        plates: equipmentProfile.plates,
+        dumbbells: equipmentProfile.dumbbells,
+        machineIncrement: parseFloat(equipmentProfile.machineIncrement),
+        machineMax: parseFloat(equipmentProfile.machineMax),
+        microplates: equipmentProfile.microplates,
+      } : null
+    });
+
+    if (warmupSets.length === 0) {
+      showError("No Warm-ups Needed", workingWeight > 0
+        ? "The working weight is too light for ramp-up sets."
+        : "Enter the first set's weight to generate warm-up sets.");
+      return;
+    }
+
+    // Replace any earlier warm-ups so the ramp always matches the current working weight
+    setWorkoutData(prev => ({
+      ...prev,
+      [exerciseId]: [...warmupSets, ...getWorkingSets(prev[exerciseId] || [])]
+    }));
+    setCurrentSetIndex(0);
+
+    showInfo("Warm-ups Added", `${warmupSets.length} warm-up sets up to ${warmupSets[warmupSets.length - 1].weight}${unit}`, {
+      autoHideDelay: 2000
+    });
+  };
+
   const resetSet = (exerciseId: number, setIndex: number) => {
     setWorkoutData(prev => {
       const currentSets = prev[exerciseId] || [];
@@ -1309,7 +1375,7 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
       const duration = Math.round((Date.now() - sessionStartTime) / 1000 / 60);
       const totalVolume = Math.round(Object.values(workoutData)
         .flat()
-        .filter(set => set?.completed)
+        .filter(set => set?.completed && !isWarmupSet(set))
         .reduce((sum, set) => sum + ((set?.weight || 0) * (set?.actualReps || 0)), 0));
 
       // Get the current session data from React Query cache (includes any reordering)
@@ -1352,8 +1418,8 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
         return;
       }
 
-      // Validation: Check if all sets are completed
-      const allSets = Object.values(workoutData).flat();
+      // Validation: Check if all working sets are completed - warm-ups are optional
+      const allSets = getWorkingSets(Object.values(workoutData).flat());
       const completedSets = allSets.filter(set => set?.completed);
       const incompleteSets = allSets.filter(set => !set?.completed);
       
@@ -1369,7 +1435,7 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
       const duration = Math.round((Date.now() - sessionStartTime) / 1000 / 60);
       const totalVolume = Math.round(Object.values(workoutData)
         .flat()
-        .filter(set => set?.completed)
+        .filter(set => set?.completed && !isWarmupSet(set))
         .reduce((sum, set) => sum + ((set?.weight || 0) * (set?.actualReps || 0)), 0));
 
       // Get the current session data from React Query cache (includes any reordering)
@@ -2040,8 +2106,8 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
               {currentSet && (
                 <EnhancedSetInput
                   set={currentSet}
-                  recommendation={getExerciseRecommendation(currentExercise.exerciseId)}
-                  setRecommendation={getSetRecommendation(currentExercise.exerciseId, currentSet.setNumber)}
+                  recommendation={isWarmupSet(currentSet) ? undefined : getExerciseRecommendation(currentExercise.exerciseId)}
+                  setRecommendation={isWarmupSet(currentSet) ? undefined : getSetRecommendation(currentExercise.exerciseId, currentSet.setNumber)}
                   onUpdateSet={(field, value) => updateSet(currentExercise.id, currentSetIndex, field, value)}
                   onCompleteSet={completeSet}
                   isActive={true}
@@ -2055,6 +2121,7 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
                   userId={session?.userId || 1}
                   exerciseId={currentExercise.exerciseId}
                   isBodyWeightExercise={isBodyWeightExercise(currentExercise.exercise)}
+                  equipment={currentExercise.exercise?.equipment}
                   specialMethod={specialMethods[currentExercise.id] as any}
                   onSpecialMethodChange={(method) => handleSpecialMethodChange(currentExercise.id, method)}
                   specialConfig={specialConfigs[currentExercise.id]}
@@ -2069,11 +2136,21 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
                   <div className="flex items-center gap-1.5">
                     <h4 className="text-xs font-semibold text-foreground">Sets</h4>
                     <div className="text-xs text-muted-foreground bg-muted/50 px-1.5 py-0.5 ">
-                      {currentSets.filter(s => s.completed).length}/{currentSets.length}
+                      {getWorkingSets(currentSets).filter(s => s.completed).length}/{getWorkingSets(currentSets).length}
                     </div>
                   </div>
                   {/* Add/Remove Set Buttons - Compact Style */}
                   <div className="flex items-center gap-1.5">
+                    {!currentSets.some(set => set.completed) && !isBodyWeightExercise(currentExercise.exercise) && (
+                      <button
+                        onClick={() => addWarmupSets(currentExercise.id)}
+                        className="ios-touch-feedback flex items-center gap-0.5 px-1.5 py-1  bg-amber-500/10 border border-amber-500/30 text-amber-600 hover:bg-amber-500/20"
+                        title="Add Warm-up Sets"
+                      >
+                        <Timer className="h-3 w-3" />
+                        <span className="text-xs font-medium">Warm-up</span>
+                      </button>
+                    )}
                     <button
                       onClick={() => addSet(currentExercise.id)}
                       className="ios-touch-feedback flex items-center gap-0.5 px-1.5 py-1  bg-emerald-500/10 border border-emerald-500/30 text-emerald-600 hover:bg-emerald-500/20"
@@ -2120,7 +2197,7 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
                               ? 'bg-emerald-500 text-white'
                               : 'bg-muted text-muted-foreground'
                           }`}>
-                            {set.setNumber}
+                            {isWarmupSet(set) ? `W${set.setNumber}` : set.setNumber}
                           </div>
                           
                           {/* Set Status - Compact */}
@@ -2142,7 +2219,7 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
                                 </div>
                               ) : (
                                 <span className="text-xs text-muted-foreground">
-                                  Pending
+                                  {isWarmupSet(set) ? 'Warm-up' : 'Pending'}
                                 </span>
                               )}
                             </div>
@@ -2156,9 +2233,11 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
                                   {set.weight > 0 ? `${set.weight}${weightUnit}` : 'Weight'}× {set.actualReps > 0 ? `${set.actualReps}` : `${set.targetReps}`}reps
                                                                     {set.rpe > 0 && ` @ RPE ${set.rpe}`}
                                 </>)
+                              ) : isWarmupSet(set) ? (
+                                `${set.weight}${weightUnit} × ${set.targetReps} reps`
                               ) : (
                                 // For pending sets, show target/recommended values
-                                (<>Target: {getSetRecommendation(currentExercise.exerciseId, set.setNumber)?.recommendedReps || set.targetReps}reps
+                                (<>Target: {getSetRecommendation(currentExercise.exerciseId, set.setNumber)?.recommendedReps || set.targetReps}{getSetRecommendation(currentExercise.exerciseId, set.setNumber)?.amrap && '+'}reps
                                                                     {getSetRecommendation(currentExercise.exerciseId, set.setNumber) && (
                                     <span className="text-emerald-500 ml-1 font-medium">(Recommended)</span>
                                   )}
@@ -2167,7 +2246,7 @@ export const WorkoutExecutionV2: React.FC<WorkoutExecutionV2Props> = ({
                             </div>
                             
                             {/* Special Training Method Indicator */}
-                            {specialMethods[currentExercise.id] && specialMethods[currentExercise.id] !== null && (
+                            {specialMethods[currentExercise.id] && specialMethods[currentExercise.id] !== null && !isWarmupSet(set) && (
                               <div className="flex items-center gap-1 mt-1">
                                 <div className={`px-1.5 py-0.5  text-xs font-medium border ${
                                   specialMethods[currentExercise.id] === 'myorep_match' ? 'bg-blue-500/10 border-blue-500/30 text-blue-600' :
@@ -307,8 +307,12 @@ export function IntegratedNutritionOverview({
     }
   });
 
+  // With calorie cycling on, the summary carries the training/rest/refeed targets for the selected date
+  const cycleDayType: 'training' | 'rest' | 'refeed' | undefined = nutritionSummary?.dayType;
+
   // Helper function to intelligently get current target calories (custom or suggested)
   const getCurrentTargetCalories = () => {
+    if (cycleDayType) return nutritionSummary.goalCalories;
     if (!dietGoals) return nutritionSummary?.goalCalories || 2000;
     
     // Always use the current active target calories from the diet goal
@@ -318,6 +322,7 @@ export function IntegratedNutritionOverview({
 
   // Helper functions to intelligently get current macro targets (custom or suggested)
   const getCurrentTargetProtein = () => {
+    if (cycleDayType) return nutritionSummary.goalProtein;
     if (!dietGoals) return nutritionSummary?.goalProtein || 150;
     
     // When custom calories toggle is enabled and custom macros exist, use them
@@ -327,11 +332,13 @@ export function IntegratedNutritionOverview({
   };
 
   const getCurrentTargetCarbs = () => {
+    if (cycleDayType) return nutritionSummary.goalCarbs;
     if (!dietGoals) return nutritionSummary?.goalCarbs || 200;
     return dietGoals.targetCarbs || nutritionSummary?.goalCarbs || 200;
   };
 
   const getCurrentTargetFat = () => {  
+    if (cycleDayType) return nutritionSummary.goalFat;
     if (!dietGoals) return nutritionSummary?.goalFat || 60;
     return dietGoals.targetFat || nutritionSummary?.goalFat || 60;
   };
@@ -1322,6 +1329,14 @@ export function IntegratedNutritionOverview({
       <Card className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 border shadow-lg nutrition-card-ios">
         <CardContent className="p-3">
           <div className="space-y-3">
+            {cycleDayType && (
+              <div className="flex justify-end">
+                <Badge variant="outline" className="text-xs">
+                  {cycleDayType === 'training' ? 'Training day' : cycleDayType === 'refeed' ? 'Refeed day' : 'Rest day'} targets
+                </Badge>
+              </div>
+            )}
+
             {/* Calories Row */}
             <div className="flex items-center gap-3">
               <div className="w-16 text-xs font-medium text-blue-600 dark:text-blue-400">
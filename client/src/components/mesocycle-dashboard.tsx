@@ -75,6 +75,18 @@ interface MesocycleRecommendation {
   };
 }
 
+interface DeloadRecommendation {
+  id: number;
+  mesocycleId: number;
+  week: number;
+  status: 'proposed' | 'scheduled' | 'dismissed';
+  triggers: string[];
+  fatigueScore: string | null;
+  reasons: string[];
+  autoInserted: boolean;
+  createdAt: string;
+}
+
 interface MesocycleDashboardProps {
   userId: number;
 }
@@ -160,6 +172,40 @@ export default function MesocycleDashboard({ userId }: MesocycleDashboardProps)
     },
   });
 
+  // Deload proposals and scheduled deloads with their reasoning
+  const { data: deloadRecommendations = [] } = useQuery<DeloadRecommendation[]>({
+    queryKey: ['/api/training/deload/recommendations', userId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/training/deload/recommendations`);
+      return response.json();
+    },
+  });
+
+  const respondToDeloadMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: number; action: 'schedule' | 'dismiss' }) => {
+      const response = await apiRequest('POST', `/api/training/deload/recommendations/${id}/${action}`);
+      return response.json();
+    },
+    onSuccess: (data: DeloadRecommendation) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/training/deload/recommendations', userId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/training/mesocycles'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/training/sessions'] });
+      toast({
+        title: data.status === 'scheduled' ? "Deload Scheduled" : "Deload Dismissed",
+        description: data.status === 'scheduled'
+          ? `Week ${data.week} is now a deload week. Remaining weeks moved back by one.`
+          : "Training continues as planned.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Deload Update Failed",
+        description: error?.message || "Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
   // Ensure mesocycles is always an array and find active one
   const mesocycleArray = Array.isArray(mesocycles) ? mesocycles : [mesocycles].filter(Boolean);
   const activeMesocycle = mesocycleArray.find((m: Mesocycle) => m?.isActive === true);
@@ -606,8 +652,48 @@ export default function MesocycleDashboard({ userId }: MesocycleDashboardProps)
                     </div>
                   </div>
 
+                  {/* Deload Proposals and Scheduled Deloads */}
+                  {activeMesocycle && deloadRecommendations
+                    .filter((deload) => deload.mesocycleId === activeMesocycle.id && deload.status !== 'dismissed' && deload.week >= activeMesocycle.currentWeek)
+                    .map((deload) => (
+                      <div key={deload.id} className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 space-y-2">
+                        <div className="flex items-center gap-2">
+                          <AlertTriangle className="h-5 w-5 text-yellow-600" />
+                          <p className="text-yellow-800 dark:text-yellow-200 font-medium">
+                            {deload.status === 'scheduled'
+                              ? `Deload scheduled for week ${deload.week}${deload.autoInserted ? ' (automatic)' : ''}`
+                              : `Deload proposed for week ${deload.week}`}
+                          </p>
+                        </div>
+                        <ul className="space-y-1 text-sm text-yellow-800 dark:text-yellow-200">
+                          {deload.reasons.map((reason, index) => (
+                            <li key={index}>• {reason}</li>
+                          ))}
+                        </ul>
+                        {deload.status === 'proposed' && (
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              disabled={respondToDeloadMutation.isPending}
+                              onClick={() => respondToDeloadMutation.mutate({ id: deload.id, action: 'schedule' })}
+                            >
+                              Schedule Deload
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={respondToDeloadMutation.isPending}
+                              onClick={() => respondToDeloadMutation.mutate({ id: deload.id, action: 'dismiss' })}
+                            >
+                              Dismiss
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+
                   {/* Deload Warning */}
-                  {recommendations.shouldDeload && (
+                  {recommendations.shouldDeload && !deloadRecommendations.some((deload) => deload.status !== 'dismissed' && deload.mesocycleId === activeMesocycle?.id) && (
                     <div className="flex items-center gap-2 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 ">
                       <AlertTriangle className="h-5 w-5 text-yellow-600" />
                       <p className="text-yellow-800 dark:text-yellow-200 font-medium">
@@ -13,6 +13,8 @@ import { TimezoneUtils } from "@shared/utils/timezone";
 import { X, Search, Utensils, Brain, Sunrise, Sun, Moon, Apple, Scan, Pill, Save } from "lucide-react";
 import { BarcodeScanner } from "./barcode-scanner";
 
+const GRAMS_PER_OZ = 28.3495;
+
 interface NutritionLoggerProps {
   userId: number;
   selectedDate?: string;
@@ -30,6 +32,7 @@ interface FoodSearchResult {
   servingSize: string;
   category?: string;
   mealSuitability?: string[];
+  recipeId?: number; // set for the user's own recipes
 }
 
 export function NutritionLogger({ userId, selectedDate, onComplete, mealType, onMealTypeChange }: NutritionLoggerProps) {
@@ -181,6 +184,21 @@ export function NutritionLogger({ userId, selectedDate, onComplete, mealType, on
     const finalDate = selectedDate || TimezoneUtils.getCurrentDate();
     console.log('Logging food with selectedDate:', selectedDate, 'finalDate:', finalDate, 'using timezone-aware date');
     
+    // Recipes are logged by servings or cooked weight and the server computes their nutrition
+    if (searchMode === 'search' && selectedFood?.recipeId) {
+      const amount = parseFloat(quantity);
+      logMutation.mutate({
+        userId,
+        date: finalDate,
+        recipeId: selectedFood.recipeId,
+        ...(unit === 'g' || unit === 'oz'
+          ? { grams: unit === 'oz' ? Math.round(amount * GRAMS_PER_OZ * 10) / 10 : amount }
+          : { servings: amount }),
+        mealType: mealType
+      });
+      return;
+    }
+
     const logData = {
       userId,
       date: finalDate,
@@ -192,7 +210,19 @@ export function NutritionLogger({ userId, selectedDate, onComplete, mealType, on
       carbs: nutritionData.carbs.toString(),
       fat: nutritionData.fat.toString(),
       mealType: mealType,
-      micronutrients: nutritionData.micronutrients || null
+      micronutrients: nutritionData.micronutrients || null,
+      // Original AI estimate, used for accuracy stats and to calibrate future estimates
+      ...(searchMode === 'ai' && aiAnalyzeMutation.data && {
+        aiEstimate: {
+          source: 'multi-image-nutrition',
+          calories: aiAnalyzeMutation.data.calories,
+          protein: aiAnalyzeMutation.data.protein,
+          carbs: aiAnalyzeMutation.data.carbs,
+          fat: aiAnalyzeMutation.data.fat,
+          quantity: aiAnalyzeMutation.data.portionWeight ?? null,
+          unit: aiAnalyzeMutation.data.portionUnit ?? null
+        }
+      })
     };
 
     logMutation.mutate(logData);
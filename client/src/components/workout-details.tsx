@@ -18,6 +18,7 @@ import {
 } from "lucide-react";
 import { SpecialMethodBadge } from "@/components/ui/special-method-badge";
 import { getSpecialMethodStyle } from "@/lib/specialMethodUtils";
+import { getWorkingSets, isWarmupSet } from "@shared/utils/warmup-sets";
 
 interface WorkoutSet {
   weight: number;
@@ -123,7 +124,7 @@ export function WorkoutDetails({ sessionId, onBack }: WorkoutDetailsProps) {
     let totalKgVolume = 0;
     
     session.exercises.forEach(workoutExercise => {
-      const setsData = workoutExercise.setsData || [];
+      const setsData = getWorkingSets(workoutExercise.setsData || []);
       const actualRepsArray = setsData.length > 0 
         ? setsData.map(set => set.actualReps) 
         : (workoutExercise.actualReps ? workoutExercise.actualReps.split(',').map((r: string) => parseInt(r)) : []);
@@ -266,8 +267,9 @@ export function WorkoutDetails({ sessionId, onBack }: WorkoutDetailsProps) {
         </CardHeader>
         <CardContent className="space-y-6">
           {session.exercises.map((workoutExercise, index) => {
-            // Use setsData if available, otherwise parse from actualReps
-            const setsData = workoutExercise.setsData || [];
+            // Use setsData if available, otherwise parse from actualReps - warm-ups are listed but not counted
+            const allSetsData = workoutExercise.setsData || [];
+            const setsData = getWorkingSets(allSetsData);
             const actualRepsArray = setsData.length > 0 
               ? setsData.map(set => set.actualReps) 
               : (workoutExercise.actualReps ? workoutExercise.actualReps.split(',').map((r: string) => parseInt(r)) : []);
@@ -338,15 +340,19 @@ export function WorkoutDetails({ sessionId, onBack }: WorkoutDetailsProps) {
                 
                 {/* Sets breakdown */}
                 <div className="grid gap-2">
-                  {(setsData.length > 0 ? setsData : actualRepsArray.map((reps: number, setIndex: number) => ({
+                  {(allSetsData.length > 0 ? allSetsData : actualRepsArray.map((reps: number, setIndex: number) => ({
                     actualReps: reps,
                     weight: exerciseWeight,
                     rpe: exerciseRpe,
                     completed: true
-                  }))).map((setData: any, setIndex: number) => (
+                  }))).map((setData: any, setIndex: number, allSets: any[]) => (
                     <div key={setIndex} className="space-y-2">
-                      <div className="flex items-center justify-between p-3 border bg-green-500/10 dark:bg-green-500/20 border-green-500/30 dark:border-green-500/50">
-                        <span className="text-sm font-medium">Set {setIndex + 1}</span>
+                      <div className={`flex items-center justify-between p-3 border ${isWarmupSet(setData) ? 'bg-muted/30 border-border' : 'bg-green-500/10 dark:bg-green-500/20 border-green-500/30 dark:border-green-500/50'}`}>
+                        <span className="text-sm font-medium">
+                          {isWarmupSet(setData)
+                            ? `Warm-up ${allSets.slice(0, setIndex + 1).filter(isWarmupSet).length}`
+                            : `Set ${allSets.slice(0, setIndex + 1).filter(set => !isWarmupSet(set)).length}`}
+                        </span>
                         <div className="flex items-center gap-4 text-sm">
                           <span>{setData.weight} {setData.weightUnit || exerciseWeightUnit} × {setData.actualReps} reps</span>
                           {setData.rpe > 0 && (
@@ -357,7 +363,7 @@ export function WorkoutDetails({ sessionId, onBack }: WorkoutDetailsProps) {
                       </div>
                       
                       {/* Special Training Method Details for each set */}
-                      {specialMethod && (
+                      {specialMethod && !isWarmupSet(setData) && (
                         <div className="p-2 border text-xs bg-muted/30">
                           <div className="flex items-center gap-2 mb-1">
                             <SpecialMethodBadge method={specialMethod} />
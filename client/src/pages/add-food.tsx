@@ -274,6 +274,7 @@ export function AddFood({ user }: AddFoodProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/nutrition/summary', user.id] });
       queryClient.invalidateQueries({ queryKey: ['/api/activities', user.id] });
       queryClient.invalidateQueries({ queryKey: ['/api/nutrition/history', user.id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/nutrition/ai-accuracy'] });
       
       toast({
         title: "Success",
@@ -363,6 +364,19 @@ export function AddFood({ user }: AddFoodProps) {
     }
   });
 
+  // How far the user's past AI estimates were from what they logged - shown next to new estimates
+  const { data: aiAccuracy } = useQuery<any>({
+    queryKey: ['/api/nutrition/ai-accuracy'],
+    queryFn: async () => {
+      const response = await fetch('/api/nutrition/ai-accuracy', {
+        credentials: 'include'
+      });
+      if (!response.ok) return null;
+      return response.json();
+    },
+    enabled: !!dynamicMacros
+  });
+
   // Database search handler removed - AI-only mode
 
   const handleAIAnalysis = () => {
@@ -819,10 +833,21 @@ export function AddFood({ user }: AddFoodProps) {
 
   const handleLogFood = () => {
     let nutritionData;
+    let aiEstimate;
     
     if (dynamicMacros || aiAnalyzeMutation.data) {
       // Use dynamic macros if available (already volume-adjusted), otherwise fall back to original AI result
       nutritionData = dynamicMacros || aiAnalyzeMutation.data;
+      const estimate = baseAIResult || aiAnalyzeMutation.data;
+      aiEstimate = {
+        source: 'multi-image-nutrition',
+        calories: estimate.calories,
+        protein: estimate.protein,
+        carbs: estimate.carbs,
+        fat: estimate.fat,
+        quantity: estimate.portionWeight ?? null,
+        unit: estimate.portionUnit ?? null
+      };
     } else if (selectedFood) {
       const multiplier = parseFloat(quantity);
       nutritionData = {
@@ -846,7 +871,9 @@ export function AddFood({ user }: AddFoodProps) {
       fat: nutritionData.fat.toString(),
       mealType: mealType,
       // Include micronutrients from AI analysis if available
-      ...(nutritionData.micronutrients && { micronutrients: nutritionData.micronutrients })
+      ...(nutritionData.micronutrients && { micronutrients: nutritionData.micronutrients }),
+      // Keep the unadjusted AI estimate so the server can learn from portion corrections
+      ...(aiEstimate && { aiEstimate })
     };
 
     logMutation.mutate(logData);
@@ -1226,6 +1253,17 @@ export function AddFood({ user }: AddFoodProps) {
                         <p>{dynamicMacros.assumptions}</p>
                       </div>
                     )}
+                    {aiAccuracy && aiAccuracy.totalEstimates >= 3 && aiAccuracy.macros.calories.meanAbsolutePercentError !== null && (
+                      <div className="text-xs text-gray-600 dark:text-gray-400">
+                        <p className="font-medium mb-1">Your AI Estimate Accuracy:</p>
+                        <p>
+                          Calories off by {Math.round(aiAccuracy.macros.calories.meanAbsolutePercentError)}% on average
+                          {' '}({aiAccuracy.correctedEstimates} of {aiAccuracy.totalEstimates} estimates corrected)
+                          {aiAccuracy.portionRatio !== null && Math.abs(aiAccuracy.portionRatio - 1) >= 0.05 &&
+                            ` • Your portions are usually ${Math.round(Math.abs(aiAccuracy.portionRatio - 1) * 100)}% ${aiAccuracy.portionRatio > 1 ? 'larger' : 'smaller'} than estimated`}
+                        </p>
+                      </div>
+                    )}
                     {quantity !== (portionWeight || '1') && (
                       <div className="text-xs text-green-700 dark:text-green-300 bg-green-100 dark:bg-green-900/30 p-2 ">
                         <p className="font-medium">✓ Dynamic Calculation Applied</p>
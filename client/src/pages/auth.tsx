@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -20,6 +21,7 @@ import { motion, AnimatePresence } from "framer-motion";
 import { Link } from "wouter";
 import { Capacitor } from '@capacitor/core';
 import { Browser } from '@capacitor/browser';
+import { getDeviceId } from "@/utils/capacitorAuth";
 import { usePWAInstall } from "@/hooks/usePWAInstall";
 import { PWAInstallGuide } from "@/components/PWAInstallGuide";
 
@@ -39,7 +41,9 @@ export default function Auth({ onSuccess }: AuthProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState("signin");
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
-  const [showAuthForm, setShowAuthForm] = useState(false);
+  // An app OAuth sign-in that still needs the 2FA code lands here with ?two_factor=1
+  const [resumeTwoFactor] = useState(() => new URLSearchParams(window.location.search).get('two_factor') === '1');
+  const [showAuthForm, setShowAuthForm] = useState(resumeTwoFactor);
   
   // PWA Installation
   const { 
@@ -101,7 +105,9 @@ export default function Auth({ onSuccess }: AuthProps) {
       return response.json();
     },
     onSuccess: (data) => {
-      if (data && data.user) {
+      if (data?.twoFactorRequired) {
+        setTwoFactorStep(true);
+      } else if (data && data.user) {
         toast({
           title: t("welcome_back") || "Welcome back",
           description: `${t("welcome_back") || "Welcome back"} ${data.user.name || 'User'}!`
@@ -126,6 +132,39 @@ export default function Auth({ onSuccess }: AuthProps) {
   });
 
   const [signInData, setSignInData] = useState({ email: "", password: "" });
+  const [twoFactorStep, setTwoFactorStep] = useState(resumeTwoFactor);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [rememberDevice, setRememberDevice] = useState(false);
+
+  // Second sign-in step for accounts with two-factor authentication
+  const twoFactorMutation = useMutation({
+    mutationFn: async (data: { code: string; rememberDevice: boolean }) => {
+      const response = await apiRequest("POST", "/api/auth/signin/2fa", data);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setTwoFactorStep(false);
+      setTwoFactorCode("");
+      toast({
+        title: t("welcome_back") || "Welcome back",
+        description: `${t("welcome_back") || "Welcome back"} ${data.user.name || 'User'}!`
+      });
+      onSuccess(data.user);
+    },
+    onError: (error: any) => {
+      const message = error?.message || "Invalid authentication code";
+      // The pending sign-in expired or the account got locked - start over with the password
+      if (message.includes("sign-in expired") || message.startsWith("429")) {
+        setTwoFactorStep(false);
+        setTwoFactorCode("");
+      }
+      toast({
+        title: "Error",
+        description: message,
+        variant: "destructive"
+      });
+    }
+  });
   const [signUpData, setSignUpData] = useState({ email: "", password: "", name: "" });
 
   const handleSignIn = (e: React.FormEvent) => {
@@ -159,7 +198,8 @@ export default function Auth({ onSuccess }: AuthProps) {
         : `/api/auth/apple`;
       
       if (isMyTrainProApp) {
-        authUrl += '?app=1'; // Add app parameter for deep link handling
+        // App parameter for deep link handling, device id so only this install can claim the session
+        authUrl += `?app=1&deviceId=${getDeviceId()}`;
         console.log('[Auth] Added app=1 parameter for Capacitor environment');
       }
       
@@ -694,6 +734,54 @@ export default function Auth({ onSuccess }: AuthProps) {
                       </TabsList>
 
                       <TabsContent value="signin">
+                        {twoFactorStep ? (
+                        <form
+                          onSubmit={(e) => { e.preventDefault(); twoFactorMutation.mutate({ code: twoFactorCode, rememberDevice }); }}
+                          className="space-y-4"
+                        >
+                          <div>
+                            <Label htmlFor="signin-2fa-code" className="text-gray-300">Authentication code</Label>
+                            <Input
+                              id="signin-2fa-code"
+                              value={twoFactorCode}
+                              onChange={(e) => setTwoFactorCode(e.target.value)}
+                              required
+                              autoFocus
+                              autoComplete="one-time-code"
+                              className="bg-gray-700 border-gray-600 text-white"
+                              placeholder="123456"
+                              data-testid="input-signin-2fa-code"
+                            />
+                            <p className="text-xs text-gray-400 mt-1">
+                              Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Checkbox
+                              id="remember-device"
+                              checked={rememberDevice}
+                              onCheckedChange={(checked) => setRememberDevice(checked === true)}
+                            />
+                            <Label htmlFor="remember-device" className="text-gray-300 text-sm">Remember this device for 30 days</Label>
+                          </div>
+                          <Button 
+                            type="submit" 
+                            className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700"
+                            disabled={twoFactorMutation.isPending || !twoFactorCode.trim()}
+                            data-testid="button-signin-2fa-submit"
+                          >
+                            {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            className="w-full text-gray-400"
+                            onClick={() => { setTwoFactorStep(false); setTwoFactorCode(""); }}
+                          >
+                            Back
+                          </Button>
+                        </form>
+                        ) : (
                         <form onSubmit={handleSignIn} className="space-y-4">
                           <div>
                             <Label htmlFor="signin-email" className="text-gray-300">Email</Label>
@@ -720,6 +808,11 @@ export default function Auth({ onSuccess }: AuthProps) {
                               placeholder="••••••••"
                               data-testid="input-signin-password"
                             />
+                            <div className="text-right mt-1">
+                              <Link href="/reset-password" className="text-sm text-blue-400 hover:text-blue-300" data-testid="link-forgot-password">
+                                Forgot password?
+                              </Link>
+                            </div>
                           </div>
                           <Button 
                             type="submit" 
@@ -730,6 +823,7 @@ export default function Auth({ onSuccess }: AuthProps) {
                             {signInMutation.isPending ? "Signing in..." : "Sign In"}
                           </Button>
                         </form>
+                        )}
                       </TabsContent>
 
                       <TabsContent value="signup">
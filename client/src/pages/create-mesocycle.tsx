@@ -12,7 +12,16 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Target, Dumbbell, Play, Loader2 } from "lucide-react";
+import { ArrowLeft, Target, Dumbbell, Play, Loader2, TrendingUp } from "lucide-react";
+import {
+  PROGRESSION_SCHEMES,
+  DEFAULT_TRAINING_MAX_PERCENT,
+  getExerciseScheme,
+  parseRepRange,
+  type ProgressionScheme,
+  type ProgressionSchemeConfig,
+  type ProgressionSchemeMap
+} from "@shared/utils/progression-schemes";
 
 // Muscle group constants
 const ALL_MUSCLE_GROUPS = [
@@ -82,6 +91,7 @@ export default function CreateMesocyclePage() {
   const [trainingDaysPerWeek, setTrainingDaysPerWeek] = useState(3);
   const [buildMode] = useState<"template">("template");
   const [dayTemplates, setDayTemplates] = useState<Record<number, number | null>>({});
+  const [progressionSchemes, setProgressionSchemes] = useState<ProgressionSchemeMap>({});
 
 
 
@@ -125,6 +135,16 @@ export default function CreateMesocyclePage() {
 
 
 
+  // Every exercise in the templates assigned to a training day, first occurrence wins
+  const assignedExercises = Array.from({ length: trainingDaysPerWeek }, (_, index) => dayTemplates[index + 1])
+    .map(templateId => templates.find(t => t.id === templateId))
+    .flatMap((template: any) => template?.exerciseTemplates || [])
+    .filter((exercise: any, index: number, all: any[]) => all.findIndex(e => e.exerciseId === exercise.exerciseId) === index);
+
+  const updateProgressionScheme = (exerciseId: number, config: ProgressionSchemeConfig) => {
+    setProgressionSchemes(prev => ({ ...prev, [exerciseId]: config }));
+  };
+
   const handleCreateMesocycle = () => {
     if (!mesocycleName.trim()) {
       toast({
@@ -146,11 +166,19 @@ export default function CreateMesocyclePage() {
       return;
     }
 
+    // Only send schemes for exercises still in the program - the rest default to RPE-driven
+    const assignedSchemes: ProgressionSchemeMap = {};
+    assignedExercises.forEach((exercise: any) => {
+      const config = progressionSchemes[exercise.exerciseId];
+      if (config && config.scheme !== 'rpe') assignedSchemes[exercise.exerciseId] = config;
+    });
+
     const mesocycleData = {
       name: mesocycleName,
       totalWeeks,
       trainingDaysPerWeek,
-      dayTemplates: dayTemplates
+      dayTemplates: dayTemplates,
+      progressionSchemes: assignedSchemes
     };
 
     createMesocycleMutation.mutate(mesocycleData);
@@ -349,6 +377,123 @@ export default function CreateMesocyclePage() {
             </CardContent>
           </Card>
 
+          {/* Progression Schemes */}
+          {assignedExercises.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <TrendingUp className="h-4 w-4" />
+                  Progression Schemes
+                </CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Choose how load progresses for each exercise. RPE-driven suits hypertrophy work; strength lifts can run linear or percentage waves.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {assignedExercises.map((exercise: any) => {
+                  const exerciseData = exercises.find(e => e.id === exercise.exerciseId);
+                  const config = getExerciseScheme(progressionSchemes, exercise.exerciseId);
+                  const repRange = config.repRange || parseRepRange(exercise.targetReps);
+
+                  return (
+                    <div key={exercise.exerciseId} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium truncate">
+                            {exerciseData?.name || `Exercise ${exercise.exerciseId}`}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {exercise.sets}×{exercise.targetReps}
+                          </div>
+                        </div>
+                        <Select
+                          value={config.scheme}
+                          onValueChange={(value) => updateProgressionScheme(exercise.exerciseId, { scheme: value as ProgressionScheme })}
+                        >
+                          <SelectTrigger className="w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(PROGRESSION_SCHEMES) as ProgressionScheme[]).map(scheme => (
+                              <SelectItem key={scheme} value={scheme}>
+                                {PROGRESSION_SCHEMES[scheme].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {PROGRESSION_SCHEMES[config.scheme].description}
+                      </p>
+
+                      {config.scheme === 'double_progression' && (
+                        <div className="grid grid-cols-2 gap-3">
+                          <div className="space-y-1">
+                            <Label className="text-xs">Min reps</Label>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={repRange.min}
+                              onChange={(e) => updateProgressionScheme(exercise.exerciseId, {
+                                ...config,
+                                repRange: { ...repRange, min: parseInt(e.target.value) || 1 }
+                              })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Max reps</Label>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={repRange.max}
+                              onChange={(e) => updateProgressionScheme(exercise.exerciseId, {
+                                ...config,
+                                repRange: { ...repRange, max: parseInt(e.target.value) || 1 }
+                              })}
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {(config.scheme === 'double_progression' || config.scheme === 'linear') && (
+                        <div className="space-y-1">
+                          <Label className="text-xs">Load increment</Label>
+                          <Input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            placeholder="Smallest step your equipment allows"
+                            value={config.increment ?? ''}
+                            onChange={(e) => updateProgressionScheme(exercise.exerciseId, {
+                              ...config,
+                              increment: parseFloat(e.target.value) || undefined
+                            })}
+                          />
+                        </div>
+                      )}
+
+                      {config.scheme === 'percentage_wave' && (
+                        <div className="space-y-1">
+                          <Label className="text-xs">Training max (% of e1RM)</Label>
+                          <Input
+                            type="number"
+                            min={70}
+                            max={100}
+                            value={config.trainingMaxPercent ?? DEFAULT_TRAINING_MAX_PERCENT}
+                            onChange={(e) => updateProgressionScheme(exercise.exerciseId, {
+                              ...config,
+                              trainingMaxPercent: parseInt(e.target.value) || DEFAULT_TRAINING_MAX_PERCENT
+                            })}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Template Selection Info */}
           <Card>
             <CardHeader>
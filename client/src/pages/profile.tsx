@@ -5,8 +5,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { LogOut, User as UserIcon, Globe, Sun, Moon, Settings, Code, Target, Info, ArrowLeft, Home, Activity, Loader2, Save, Camera, Trash2, X, ChevronDown } from "lucide-react";
+import { LogOut, User as UserIcon, Globe, Sun, Moon, Settings, Code, Target, Info, ArrowLeft, Home, Activity, Loader2, Save, Camera, Trash2, X, ChevronDown, Download, Users, CalendarPlus, Shield, Monitor, Dumbbell, HeartPulse, Flame } from "lucide-react";
 import { useLocation } from "wouter";
 import { useTheme } from "@/components/theme-provider";
 import { useLanguage } from "@/components/language-provider";
@@ -16,6 +18,9 @@ import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { ObjectUploader } from "@/components/ObjectUploader";
 import { useSwipeBack } from "@/hooks/useSwipeBack";
+import type { EquipmentProfile, Injury } from "@shared/schema";
+import { BODY_REGIONS, MOVEMENT_PATTERNS, REGION_PATTERNS, type BodyRegion, type MovementPattern, type PainTrend } from "@shared/utils/injury-constraints";
+import { WARMUP_SCHEMES, formatWarmupScheme, parseWarmupScheme, type WarmupSchemeOverrides } from "@shared/utils/warmup-sets";
 
 interface User {
   id: number;
@@ -203,6 +208,1143 @@ function ActivityGoalsCard() {
   );
 }
 
+// Equipment lists are edited as text: plates as "25x4, 20x4" (weight x pairs), the rest as "2, 4, 6"
+const formatPlates = (plates: EquipmentProfile['plates']) => plates.map(plate => `${plate.weight}x${plate.pairs}`).join(', ');
+const formatWeights = (weights: number[]) => weights.join(', ');
+const parseWeights = (value: string) => value.split(',').map(part => parseFloat(part)).filter(weight => weight > 0);
+const parsePlates = (value: string) => value
+  .split(',')
+  .map(part => part.split('x').map(number => parseFloat(number)))
+  .filter(([weight, pairs]) => weight > 0 && pairs > 0)
+  .map(([weight, pairs]) => ({ weight, pairs: Math.floor(pairs) }));
+
+interface EquipmentProfileForm {
+  name: string;
+  barWeight: string;
+  plates: string;
+  dumbbells: string;
+  machineIncrement: string;
+  machineMax: string;
+  microplates: string;
+  excludedEquipment: string;
+}
+
+// Equipment Profiles Card - gyms the user trains in, recommended loads snap to the active one
+function EquipmentProfilesCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [newName, setNewName] = useState("");
+  const [newUnit, setNewUnit] = useState<'kg' | 'lbs'>('kg');
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<EquipmentProfileForm | null>(null);
+
+  const { data: profilesData } = useQuery<EquipmentProfile[]>({
+    queryKey: ['/api/equipment-profiles'],
+  });
+  const profiles = profilesData || [];
+
+  const invalidateProfiles = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/equipment-profiles'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/equipment-profiles/active'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/training/exercise-recommendations'] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error?.message || "Please check the values and try again.",
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/equipment-profiles', { name: newName.trim(), unit: newUnit }),
+    onSuccess: () => {
+      invalidateProfiles();
+      setNewName("");
+      toast({ title: "Gym Added", description: "Edit it to match the bar, plates and dumbbells you have." });
+    },
+    onError: onError("Add Failed")
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ profileId, values }: { profileId: number; values: EquipmentProfileForm }) => {
+      return apiRequest('PUT', `/api/equipment-profiles/${profileId}`, {
+        name: values.name.trim(),
+        barWeight: parseFloat(values.barWeight) || 0,
+        plates: parsePlates(values.plates),
+        dumbbells: parseWeights(values.dumbbells),
+        machineIncrement: parseFloat(values.machineIncrement) || 0,
+        machineMax: parseFloat(values.machineMax) || 0,
+        microplates: parseWeights(values.microplates),
+        excludedEquipment: values.excludedEquipment.split(',').map(item => item.trim()).filter(Boolean)
+      });
+    },
+    onSuccess: () => {
+      invalidateProfiles();
+      setEditingId(null);
+      setForm(null);
+      toast({ title: "Gym Saved", description: "Recommended loads now match this equipment." });
+    },
+    onError: onError("Save Failed")
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (profileId: number) => apiRequest('POST', `/api/equipment-profiles/${profileId}/activate`),
+    onSuccess: () => invalidateProfiles(),
+    onError: onError("Switch Failed")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (profileId: number) => apiRequest('DELETE', `/api/equipment-profiles/${profileId}`),
+    onSuccess: () => invalidateProfiles(),
+    onError: onError("Delete Failed")
+  });
+
+  const startEditing = (profile: EquipmentProfile) => {
+    setEditingId(profile.id);
+    setForm({
+      name: profile.name,
+      barWeight: String(parseFloat(profile.barWeight)),
+      plates: formatPlates(profile.plates),
+      dumbbells: formatWeights(profile.dumbbells),
+      machineIncrement: String(parseFloat(profile.machineIncrement)),
+      machineMax: String(parseFloat(profile.machineMax)),
+      microplates: formatWeights(profile.microplates),
+      excludedEquipment: profile.excludedEquipment.join(', ')
+    });
+  };
+
+  const formFields: { key: keyof EquipmentProfileForm; label: string; placeholder: string }[] = [
+    { key: 'name', label: 'Name', placeholder: 'Home gym' },
+    { key: 'barWeight', label: 'Bar weight', placeholder: '20' },
+    { key: 'plates', label: 'Plates (weight x pairs)', placeholder: '25x4, 20x4, 10x2, 5x2, 2.5x2' },
+    { key: 'dumbbells', label: 'Dumbbells', placeholder: '2, 4, 6, 8, 10' },
+    { key: 'machineIncrement', label: 'Machine/cable stack step', placeholder: '5' },
+    { key: 'machineMax', label: 'Machine/cable stack max', placeholder: '150' },
+    { key: 'microplates', label: 'Microplates', placeholder: '0.5, 1' },
+    { key: 'excludedEquipment', label: 'Unavailable equipment (never suggested as a swap)', placeholder: 'cable, smith' },
+  ];
+
+  return (
+    <Card className="ios-smooth-transform">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Dumbbell className="w-5 h-5" />
+          Gym Equipment
+        </CardTitle>
+        <CardDescription>
+          Recommended loads are rounded to what the active gym's equipment can build
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {profiles.map((profile) => (
+          <div key={profile.id} className="bg-gray-50 dark:bg-gray-800/50 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-black dark:text-white truncate">
+                  {profile.name}{profile.isActive && <span className="text-green-600 dark:text-green-400"> - active</span>}
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                  Bar {parseFloat(profile.barWeight)}{profile.unit} - plates {formatPlates(profile.plates) || 'none'}
+                </p>
+              </div>
+              {!profile.isActive && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="ios-button touch-target"
+                  disabled={activateMutation.isPending}
+                  onClick={() => activateMutation.mutate(profile.id)}
+                >
+                  Use
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                className="ios-button touch-target"
+                onClick={() => editingId === profile.id ? setEditingId(null) : startEditing(profile)}
+              >
+                {editingId === profile.id ? 'Close' : 'Edit'}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-red-300 dark:border-red-600 text-red-600 dark:text-red-400 ios-button touch-target"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(profile.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {editingId === profile.id && form && (
+              <div className="space-y-2">
+                {formFields.map((field) => (
+                  <div key={field.key}>
+                    <Label htmlFor={`equipment-${field.key}`} className="text-xs">
+                      {field.label}{field.key !== 'name' && field.key !== 'plates' && field.key !== 'excludedEquipment' ? ` (${profile.unit})` : ''}
+                    </Label>
+                    <Input
+                      id={`equipment-${field.key}`}
+                      value={form[field.key]}
+                      placeholder={field.placeholder}
+                      onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+                    />
+                  </div>
+                ))}
+                <Button
+                  size="sm"
+                  className="w-full ios-button touch-target"
+                  disabled={updateMutation.isPending || !form.name.trim()}
+                  onClick={() => updateMutation.mutate({ profileId: profile.id, values: form })}
+                >
+                  {updateMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Input
+            value={newName}
+            placeholder={profiles.length === 0 ? 'Commercial gym' : 'Home gym'}
+            onChange={(e) => setNewName(e.target.value)}
+            className="flex-1"
+          />
+          <Select value={newUnit} onValueChange={(value: 'kg' | 'lbs') => setNewUnit(value)}>
+            <SelectTrigger className="w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="kg">kg</SelectItem>
+              <SelectItem value="lbs">lbs</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            className="ios-button touch-target"
+            disabled={!newName.trim() || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            Add Gym
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Warm-up Schemes Card - per-category ramp-ups used when generating warm-up sets, blank keeps the default
+function WarmupSchemesCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const categories = Object.keys(WARMUP_SCHEMES);
+
+  const { data: userData } = useQuery({
+    queryKey: ['/api/user/profile'],
+    queryFn: async () => {
+      const response = await fetch('/api/user/profile');
+      return response.json();
+    }
+  });
+  const [schemes, setSchemes] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const overrides: WarmupSchemeOverrides = userData?.profile?.warmupSchemes || {};
+    setSchemes(Object.fromEntries(categories.map(category => [
+      category,
+      overrides[category] ? formatWarmupScheme(overrides[category]!) : ''
+    ])));
+  }, [userData]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (warmupSchemes: WarmupSchemeOverrides) => {
+      return apiRequest('PUT', '/api/user/profile', { ...userData?.profile, warmupSchemes });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user/profile'] });
+      toast({ title: "Warm-ups Saved", description: "New warm-up sets follow these schemes." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Save Failed",
+        description: error?.message || "Please check the schemes and try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleSave = () => {
+    const overrides: WarmupSchemeOverrides = {};
+    for (const category of categories) {
+      const text = (schemes[category] || '').trim();
+      if (!text) continue;
+      const steps = parseWarmupScheme(text);
+      if (!steps) {
+        toast({ title: "Invalid Scheme", description: `Use percent x reps for ${category}, e.g. 50x8, 70x5`, variant: "destructive" });
+        return;
+      }
+      overrides[category] = steps;
+    }
+    saveMutation.mutate(overrides);
+  };
+
+  if (!userData?.profile) return null;
+
+  return (
+    <Card className="ios-smooth-transform">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Flame className="w-5 h-5" />
+          Warm-up Sets
+        </CardTitle>
+        <CardDescription>
+          Ramp-up per exercise category as percent of the first working weight x reps - leave blank for the default
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {categories.map((category) => (
+          <div key={category}>
+            <Label className="text-xs text-gray-600 dark:text-gray-400 capitalize">{category}</Label>
+            <Input
+              value={schemes[category] || ''}
+              placeholder={formatWarmupScheme(WARMUP_SCHEMES[category]) || 'No warm-ups'}
+              onChange={(event) => setSchemes(prev => ({ ...prev, [category]: event.target.value }))}
+              className="h-8 text-sm"
+            />
+          </div>
+        ))}
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saveMutation.isPending}>
+            <Save className="w-4 h-4 mr-2" />
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Pain trend for one injury - highest pain per session on the exercises that aggravate it
+function InjuryPainTrend({ injuryId }: { injuryId: number }) {
+  const { data } = useQuery<{ points: { sessionId: number; date: string; exerciseName: string; painScore: number }[]; trend: PainTrend }>({
+    queryKey: [`/api/injuries/pain-trend?injuryId=${injuryId}&limit=12`],
+  });
+
+  if (!data || data.points.length === 0) {
+    return <p className="text-xs text-gray-500 dark:text-gray-400">No pain scores logged on these movements yet</p>;
+  }
+
+  const trendLabel = data.trend.trend === 'improving' ? 'improving' : data.trend.trend === 'worsening' ? 'worsening' : 'steady';
+  const trendColor = data.trend.trend === 'improving'
+    ? 'text-green-600 dark:text-green-400'
+    : data.trend.trend === 'worsening' ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400';
+
+  return (
+    <div className="space-y-1">
+      <p className="text-xs">
+        Pain {data.trend.latest}/10 last session, average {data.trend.average}
+        {data.trend.trend && <span className={trendColor}> - {trendLabel}</span>}
+      </p>
+      <div className="flex items-end gap-0.5 h-6">
+        {data.points.map((point, index) => (
+          <div
+            key={`${point.sessionId}-${index}`}
+            className="w-2 bg-amber-500/70"
+            style={{ height: `${Math.max(point.painScore, 0.5) * 10}%` }}
+            title={`${new Date(point.date).toLocaleDateString()} - ${point.exerciseName}: ${point.painScore}/10`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface InjuryForm {
+  bodyRegion: BodyRegion;
+  side: 'left' | 'right' | 'both' | 'none';
+  severity: 'mild' | 'moderate' | 'severe';
+  aggravatingPatterns: MovementPattern[];
+  startDate: string;
+  notes: string;
+}
+
+const emptyInjuryForm = (): InjuryForm => ({
+  bodyRegion: 'shoulder',
+  side: 'none',
+  severity: 'moderate',
+  aggravatingPatterns: [],
+  startDate: new Date().toISOString().slice(0, 10),
+  notes: ''
+});
+
+// Injuries Card - active injuries keep aggravating exercises out of recommendations and swaps
+function InjuriesCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [form, setForm] = useState<InjuryForm | null>(null);
+
+  const { data: injuriesData } = useQuery<Injury[]>({
+    queryKey: ['/api/injuries'],
+  });
+  const injuries = injuriesData || [];
+
+  const { data: upcomingData } = useQuery<any[]>({
+    queryKey: ['/api/injuries/upcoming-substitutions'],
+    enabled: injuries.some(injury => !injury.resolvedDate),
+  });
+  const upcoming = upcomingData || [];
+
+  const invalidateInjuries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/injuries'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/injuries/upcoming-substitutions'] });
+  };
+
+  const onError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error?.message || "Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (values: InjuryForm) => apiRequest('POST', '/api/injuries', {
+      bodyRegion: values.bodyRegion,
+      side: values.side === 'none' ? null : values.side,
+      severity: values.severity,
+      aggravatingPatterns: values.aggravatingPatterns,
+      startDate: values.startDate,
+      notes: values.notes.trim() || null
+    }),
+    onSuccess: () => {
+      invalidateInjuries();
+      setForm(null);
+      toast({ title: "Injury Recorded", description: "Exercises that aggravate it won't be recommended." });
+    },
+    onError: onError("Save Failed")
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (injuryId: number) => apiRequest('POST', `/api/injuries/${injuryId}/resolve`),
+    onSuccess: () => {
+      invalidateInjuries();
+      toast({ title: "Injury Resolved", description: "Its exercises are back in recommendations." });
+    },
+    onError: onError("Update Failed")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (injuryId: number) => apiRequest('DELETE', `/api/injuries/${injuryId}`),
+    onSuccess: () => invalidateInjuries(),
+    onError: onError("Delete Failed")
+  });
+
+  const swapMutation = useMutation({
+    mutationFn: async ({ sessionId, exerciseId, newExerciseId }: { sessionId: number; exerciseId: number; newExerciseId: number }) =>
+      apiRequest('PUT', `/api/training/sessions/${sessionId}/exercises/${exerciseId}/substitute`, { newExerciseId }),
+    onSuccess: (_, { sessionId }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/injuries/upcoming-substitutions'] });
+      queryClient.invalidateQueries({ queryKey: ["/api/training/session", String(sessionId)] });
+      toast({ title: "Exercise Swapped", description: "Updated in this session and future weeks." });
+    },
+    onError: onError("Swap Failed")
+  });
+
+  const togglePattern = (pattern: MovementPattern) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      aggravatingPatterns: form.aggravatingPatterns.includes(pattern)
+        ? form.aggravatingPatterns.filter(item => item !== pattern)
+        : [...form.aggravatingPatterns, pattern]
+    });
+  };
+
+  // "Left shoulder", or just the region for midline and two-sided injuries
+  const describeInjury = (injury: Injury) => {
+    const region = BODY_REGIONS[injury.bodyRegion];
+    if (!injury.side || injury.side === 'both') return region;
+    return `${injury.side.charAt(0).toUpperCase()}${injury.side.slice(1)} ${region.toLowerCase()}`;
+  };
+
+  return (
+    <Card className="ios-smooth-transform">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HeartPulse className="w-5 h-5" />
+          Injuries & Pain
+        </CardTitle>
+        <CardDescription>
+          Active injuries keep aggravating movements out of recommendations and exercise swaps
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {injuries.map((injury) => (
+          <div key={injury.id} className="bg-gray-50 dark:bg-gray-800/50 p-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-black dark:text-white truncate">
+                  {describeInjury(injury)} - {injury.severity}
+                  {injury.resolvedDate && <span className="text-green-600 dark:text-green-400"> - resolved</span>}
+                </p>
+                <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                  Since {new Date(injury.startDate).toLocaleDateString()}
+                  {injury.resolvedDate && ` until ${new Date(injury.resolvedDate).toLocaleDateString()}`}
+                  {' - '}
+                  {(injury.aggravatingPatterns.length > 0 ? injury.aggravatingPatterns : REGION_PATTERNS[injury.bodyRegion])
+                    .map(pattern => MOVEMENT_PATTERNS[pattern].label.toLowerCase())
+                    .join(', ')}
+                </p>
+              </div>
+              {!injury.resolvedDate && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="ios-button touch-target"
+                  disabled={resolveMutation.isPending}
+                  onClick={() => resolveMutation.mutate(injury.id)}
+                >
+                  Resolved
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-red-300 dark:border-red-600 text-red-600 dark:text-red-400 ios-button touch-target"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(injury.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <InjuryPainTrend injuryId={injury.id} />
+          </div>
+        ))}
+
+        {upcoming.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Upcoming exercises to swap</p>
+            {upcoming.map((entry) => (
+              <div key={`${entry.sessionId}-${entry.exerciseId}`} className="border border-amber-300/50 dark:border-amber-600/50 p-2 space-y-1">
+                <p className="text-xs">
+                  <span className="font-medium">{entry.exerciseName}</span> - {entry.sessionName}, {new Date(entry.date).toLocaleDateString()}
+                  {entry.conflicts.every((conflict: any) => conflict.action === 'caution') && (
+                    <span className="text-amber-600 dark:text-amber-400"> (go easy)</span>
+                  )}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {entry.substitutes.map((substitute: any) => (
+                    <Button
+                      key={substitute.exercise.id}
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs ios-button"
+                      disabled={swapMutation.isPending}
+                      onClick={() => swapMutation.mutate({
+                        sessionId: entry.sessionId,
+                        exerciseId: entry.exerciseId,
+                        newExerciseId: substitute.exercise.id
+                      })}
+                    >
+                      Swap to {substitute.exercise.name}
+                    </Button>
+                  ))}
+                  {entry.substitutes.length === 0 && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400">No safe substitute found</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {form ? (
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-2">
+              <Select value={form.bodyRegion} onValueChange={(value: BodyRegion) => setForm({ ...form, bodyRegion: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(BODY_REGIONS) as BodyRegion[]).map(region => (
+                    <SelectItem key={region} value={region}>{BODY_REGIONS[region]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={form.side} onValueChange={(value: InjuryForm['side']) => setForm({ ...form, side: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No side</SelectItem>
+                  <SelectItem value="left">Left</SelectItem>
+                  <SelectItem value="right">Right</SelectItem>
+                  <SelectItem value="both">Both</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={form.severity} onValueChange={(value: InjuryForm['severity']) => setForm({ ...form, severity: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mild">Mild</SelectItem>
+                  <SelectItem value="moderate">Moderate</SelectItem>
+                  <SelectItem value="severe">Severe</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Hurts on (leave empty for the usual {BODY_REGIONS[form.bodyRegion].toLowerCase()} movements)</Label>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {(Object.keys(MOVEMENT_PATTERNS) as MovementPattern[]).map(pattern => (
+                  <Badge
+                    key={pattern}
+                    variant={form.aggravatingPatterns.includes(pattern) ? "default" : "outline"}
+                    className="text-xs cursor-pointer"
+                    onClick={() => togglePattern(pattern)}
+                  >
+                    {MOVEMENT_PATTERNS[pattern].label}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="injury-start" className="text-xs">Started</Label>
+              <Input
+                id="injury-start"
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+              />
+            </div>
+            <Input
+              value={form.notes}
+              placeholder="Notes (optional)"
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1 ios-button touch-target"
+                onClick={() => setForm(null)}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                className="flex-1 ios-button touch-target"
+                disabled={createMutation.isPending || !form.startDate}
+                onClick={() => createMutation.mutate(form)}
+              >
+                {createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full ios-button touch-target"
+            onClick={() => setForm(emptyInjuryForm())}
+          >
+            Record Injury
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Coaching Card - pending coach invitations and coaches with access to this account
+function CoachingCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: invitationsData } = useQuery<any[]>({
+    queryKey: ['/api/coach/invitations/received'],
+  });
+
+  const { data: coachesData } = useQuery<any[]>({
+    queryKey: ['/api/coach/coaches'],
+  });
+
+  const invitations = invitationsData || [];
+  const coaches = coachesData || [];
+
+  const invalidateCoaching = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/coach/invitations/received'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/coach/coaches'] });
+  };
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ invitationId, accept }: { invitationId: number; accept: boolean }) => {
+      return apiRequest('POST', `/api/coach/invitations/${accept ? 'accept' : 'decline'}`, { invitationId });
+    },
+    onSuccess: (_, { accept }) => {
+      invalidateCoaching();
+      toast({
+        title: accept ? "Coach Connected" : "Invitation Declined",
+        description: accept ? "Your coach can now view the data you shared." : "The coaching invitation was declined.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Request Failed",
+        description: error?.message || "Failed to respond to the invitation. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (relationshipId: number) => {
+      return apiRequest('DELETE', `/api/coach/relationships/${relationshipId}`);
+    },
+    onSuccess: () => {
+      invalidateCoaching();
+      toast({
+        title: "Access Revoked",
+        description: "Your coach can no longer view your data.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Revoke Failed",
+        description: error?.message || "Failed to revoke coach access. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (invitations.length === 0 && coaches.length === 0) return null;
+
+  return (
+    <Card className="ios-smooth-transform">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Coaching
+        </CardTitle>
+        <CardDescription>
+          Coaches get read-only access to the data you share and can assign mesocycles
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="bg-gray-50 dark:bg-gray-800/50 p-3 space-y-2">
+            <div>
+              <p className="text-sm font-medium text-black dark:text-white">{invitation.coachName} invited you</p>
+              <p className="text-xs text-gray-600 dark:text-gray-400">Access: {invitation.permissions.join(', ')}</p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1 ios-button touch-target"
+                disabled={respondMutation.isPending}
+                onClick={() => respondMutation.mutate({ invitationId: invitation.id, accept: true })}
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1 ios-button touch-target"
+                disabled={respondMutation.isPending}
+                onClick={() => respondMutation.mutate({ invitationId: invitation.id, accept: false })}
+              >
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {coaches.map((coach) => (
+          <div key={coach.id} className="flex items-center justify-between gap-3 bg-gray-50 dark:bg-gray-800/50 p-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-black dark:text-white truncate">{coach.coachName}</p>
+              <p className="text-xs text-gray-600 dark:text-gray-400">Access: {coach.permissions.join(', ')}</p>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="border-red-300 dark:border-red-600 text-red-600 dark:text-red-400 ios-button touch-target"
+              disabled={revokeMutation.isPending}
+              onClick={() => revokeMutation.mutate(coach.id)}
+            >
+              Revoke
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Two-factor section of the Account Security Card - enrolment, recovery codes and trusted devices
+function TwoFactorSettings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+
+  const { data: status } = useQuery<{ enabled: boolean; recoveryCodesRemaining: number; trustedDevices: number }>({
+    queryKey: ['/api/auth/2fa'],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Request Failed",
+      description: error?.message || "Something went wrong. Please try again.",
+      variant: "destructive"
+    });
+  };
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async ({ action }: { action: 'setup' | 'enable' | 'recovery-codes' | 'disable' }) => {
+      const response = await apiRequest('POST', `/api/auth/2fa/${action}`, action === 'setup' ? {} : { code });
+      return response.json();
+    },
+    onSuccess: (data: any, { action }) => {
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] });
+      if (action === 'setup') {
+        setEnrollment(data);
+        return;
+      }
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes || null);
+      toast({
+        title: action === 'disable' ? "Two-Factor Disabled" : action === 'enable' ? "Two-Factor Enabled" : "Recovery Codes Replaced",
+        description: action === 'disable' ? "Sign-in now only needs your password." : "Save your recovery codes somewhere safe - they are only shown once.",
+      });
+    },
+    onError
+  });
+
+  const forgetDevicesMutation = useMutation({
+    mutationFn: async () => apiRequest('DELETE', '/api/auth/2fa/trusted-devices'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/2fa'] });
+      toast({ title: "Devices Forgotten", description: "Every device will ask for a code at the next sign-in." });
+    },
+    onError
+  });
+
+  const codeInput = (
+    <Input
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      placeholder={status?.enabled ? "Code or recovery code" : "6-digit code"}
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+    />
+  );
+
+  return (
+    <div className="space-y-2 pt-3 border-t border-gray-200 dark:border-gray-800">
+      <Label>Two-factor authentication</Label>
+
+      {recoveryCodes && (
+        <div className="bg-gray-50 dark:bg-gray-800/50 p-3 space-y-2">
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Recovery codes - each works once if you lose your authenticator app. They won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-1 font-mono text-sm text-black dark:text-white">
+            {recoveryCodes.map((recoveryCode) => <span key={recoveryCode}>{recoveryCode}</span>)}
+          </div>
+          <Button size="sm" variant="outline" className="w-full ios-button touch-target" onClick={() => setRecoveryCodes(null)}>
+            I've Saved These Codes
+          </Button>
+        </div>
+      )}
+
+      {!status?.enabled && !enrollment && (
+        <>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Ask for a code from an authenticator app when signing in with your password.
+          </p>
+          <Button
+            size="sm"
+            className="w-full ios-button touch-target"
+            disabled={twoFactorMutation.isPending}
+            onClick={() => twoFactorMutation.mutate({ action: 'setup' })}
+          >
+            Set Up Two-Factor
+          </Button>
+        </>
+      )}
+
+      {!status?.enabled && enrollment && (
+        <>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Add TrainPro to your authenticator app, then enter the code it shows.
+          </p>
+          <a href={enrollment.otpauthUrl} className="block text-sm text-blue-600 dark:text-blue-400 underline">
+            Open in authenticator app
+          </a>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Or enter this key manually: <span className="font-mono break-all text-black dark:text-white">{enrollment.secret}</span>
+          </p>
+          {codeInput}
+          <Button
+            size="sm"
+            className="w-full ios-button touch-target"
+            disabled={!code || twoFactorMutation.isPending}
+            onClick={() => twoFactorMutation.mutate({ action: 'enable' })}
+          >
+            Verify and Enable
+          </Button>
+        </>
+      )}
+
+      {status?.enabled && (
+        <>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            On - {status.recoveryCodesRemaining} recovery codes left, {status.trustedDevices} remembered devices.
+          </p>
+          {codeInput}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1 ios-button touch-target"
+              disabled={!code || twoFactorMutation.isPending}
+              onClick={() => twoFactorMutation.mutate({ action: 'recovery-codes' })}
+            >
+              New Recovery Codes
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1 border-red-300 dark:border-red-600 text-red-600 dark:text-red-400 ios-button touch-target"
+              disabled={!code || twoFactorMutation.isPending}
+              onClick={() => twoFactorMutation.mutate({ action: 'disable' })}
+            >
+              Turn Off
+            </Button>
+          </div>
+          {status.trustedDevices > 0 && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="w-full ios-button touch-target"
+              disabled={forgetDevicesMutation.isPending}
+              onClick={() => forgetDevicesMutation.mutate()}
+            >
+              Forget Remembered Devices
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+// Account Security Card - email change (confirmed from the new address) and two-factor authentication
+function AccountSecurityCard({ currentEmail }: { currentEmail: string }) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [newEmail, setNewEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Result of the confirmation link, which redirects back here
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const changeError = params.get('email-change-error');
+    if (params.get('email-changed')) {
+      toast({ title: "Email Changed", description: "Your account now uses your new email address." });
+    } else if (changeError) {
+      toast({ title: "Email Not Changed", description: changeError, variant: "destructive" });
+    }
+    if (params.get('email-changed') || changeError) setLocation('/profile');
+  }, []);
+
+  const changeEmailMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/change-email', { newEmail, password });
+      return response.json();
+    },
+    onSuccess: (data: any) => {
+      setNewEmail("");
+      setPassword("");
+      toast({ title: "Check Your Inbox", description: data.message });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Request Failed",
+        description: error?.message || "Failed to request the email change. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Card className="ios-smooth-transform">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="w-5 h-5" />
+          Account Security
+        </CardTitle>
+        <CardDescription>
+          Signed in as {currentEmail}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="new-email">Change email</Label>
+          <Input
+            id="new-email"
+            type="email"
+            placeholder="new@example.com"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+          />
+          <Input
+            type="password"
+            placeholder="Current password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <Button
+            size="sm"
+            className="w-full ios-button touch-target"
+            disabled={!newEmail || changeEmailMutation.isPending}
+            onClick={() => changeEmailMutation.mutate()}
+          >
+            {changeEmailMutation.isPending ? "Sending..." : "Send Confirmation Link"}
+          </Button>
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            We'll email a link to the new address. Your email changes once you open it.
+          </p>
+        </div>
+
+        <TwoFactorSettings />
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ActiveSession {
+  id: string;
+  current: boolean;
+  provider: string;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+}
+
+const PROVIDER_LABELS: Record<string, string> = {
+  password: 'Email & password',
+  google: 'Google',
+  apple: 'Apple',
+  oauth: 'Google/Apple (app)',
+  replit: 'Replit'
+};
+
+// Active Sessions Card - devices signed in to this account
+function ActiveSessionsCard({ onSignOutEverywhere, signingOut }: { onSignOutEverywhere: () => void; signingOut: boolean }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: sessionsData } = useQuery<ActiveSession[]>({
+    queryKey: ['/api/auth/sessions'],
+  });
+  const sessions = sessionsData || [];
+  const otherSessions = sessions.filter(session => !session.current);
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId?: string) => {
+      return apiRequest('DELETE', sessionId ? `/api/auth/sessions/${sessionId}` : '/api/auth/sessions');
+    },
+    onSuccess: (_, sessionId) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      toast({
+        title: sessionId ? "Device Signed Out" : "Other Devices Signed Out",
+        description: sessionId ? "That device has to sign in again." : "Every other device has to sign in again.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Sign Out Failed",
+        description: error?.message || "Failed to sign out the device. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const formatTime = (value: string | null) => value ? new Date(value).toLocaleString() : 'Unknown';
+
+  return (
+    <Card className="ios-smooth-transform">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Monitor className="w-5 h-5" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices signed in to your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sessions.map((session) => (
+          <div key={session.id} className="flex items-center justify-between gap-3 bg-gray-50 dark:bg-gray-800/50 p-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-black dark:text-white truncate">
+                {session.device}{session.current && <span className="text-green-600 dark:text-green-400"> - this device</span>}
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 truncate">
+                {PROVIDER_LABELS[session.provider] || session.provider}{session.ipAddress ? ` - ${session.ipAddress}` : ''}
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                Last seen {formatTime(session.lastSeenAt)}
+              </p>
+            </div>
+            {!session.current && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="border-red-300 dark:border-red-600 text-red-600 dark:text-red-400 ios-button touch-target"
+                disabled={revokeMutation.isPending}
+                onClick={() => revokeMutation.mutate(session.id)}
+              >
+                Sign Out
+              </Button>
+            )}
+          </div>
+        ))}
+
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1 ios-button touch-target"
+            disabled={otherSessions.length === 0 || revokeMutation.isPending}
+            onClick={() => revokeMutation.mutate(undefined)}
+          >
+            Sign Out Other Devices
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1 border-red-300 dark:border-red-600 text-red-600 dark:text-red-400 ios-button touch-target"
+            disabled={signingOut}
+            onClick={onSignOutEverywhere}
+          >
+            Sign Out Everywhere
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
 
 export function ProfilePage({ user, onSignOut }: ProfilePageProps) {
   const [, setLocation] = useLocation();
@@ -349,13 +1491,14 @@ export function ProfilePage({ user, onSignOut }: ProfilePageProps) {
 
   // Enhanced signout mutation with complete session cleanup
   const signoutMutation = useMutation({
-    mutationFn: async () => {
+    mutationFn: async ({ everywhere = false }: { everywhere?: boolean } = {}) => {
       const response = await fetch('/api/auth/signout', { 
         method: 'POST',
         credentials: 'include', // Include cookies for session cleanup
         headers: {
           'Content-Type': 'application/json'
-        }
+        },
+        body: JSON.stringify({ everywhere })
       });
       if (!response.ok) throw new Error('Failed to sign out');
       return response.json();
@@ -428,8 +1571,34 @@ export function ProfilePage({ user, onSignOut }: ProfilePageProps) {
 
   const handleSignOut = () => {
     // Use the secure signout mutation instead of just client-side navigation
-    signoutMutation.mutate();
+    signoutMutation.mutate({});
   };
+
+  // Copy the private .ics subscription URL for Google/Apple Calendar
+  const calendarFeedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('GET', '/api/calendar/feed-url');
+      return response.json() as Promise<{ url: string; webcalUrl: string }>;
+    },
+    onSuccess: async (data) => {
+      try {
+        await navigator.clipboard.writeText(data.url);
+        toast({
+          title: "Calendar Link Copied",
+          description: "Add it in Google Calendar (From URL) or Apple Calendar (New Subscription). Keep it private.",
+        });
+      } catch {
+        window.location.href = data.webcalUrl;
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Calendar Feed Failed",
+        description: error?.message || "Failed to get your calendar link. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
   return (
     <div className="min-h-screen bg-background text-foreground ios-pwa-container pl-[0px] pr-[0px] ml-[0px] mr-[0px]">
       <div className="container mx-auto p-4 space-y-6 pl-[0px] pr-[0px] pt-[0px] pb-[0px] mt-[0px] mb-[0px]">
@@ -549,6 +1718,29 @@ export function ProfilePage({ user, onSignOut }: ProfilePageProps) {
                 </div>
               </div>
               
+              {/* Data Export - downloads a zip of all logged data */}
+              <Button
+                onClick={() => { window.location.href = '/api/export'; }}
+                variant="outline"
+                className="w-full ios-button touch-target"
+                data-testid="button-export-data"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export My Data
+              </Button>
+
+              {/* Calendar Subscription - sessions, meals and deload weeks as an .ics feed */}
+              <Button
+                onClick={() => calendarFeedMutation.mutate()}
+                disabled={calendarFeedMutation.isPending}
+                variant="outline"
+                className="w-full ios-button touch-target"
+                data-testid="button-calendar-feed"
+              >
+                <CalendarPlus className="w-4 h-4 mr-2" />
+                Subscribe in Calendar
+              </Button>
+
               {/* Sign Out Button - Full Width on Mobile */}
               <Button
                 onClick={handleSignOut}
@@ -691,6 +1883,27 @@ export function ProfilePage({ user, onSignOut }: ProfilePageProps) {
         {/* Activity & Goals Card - Moved Above Diet Goals */}
         <ActivityGoalsCard />
 
+        {/* Equipment Profiles Card - gyms and the equipment in them */}
+        <EquipmentProfilesCard />
+
+        {/* Warm-up Schemes Card - ramp-up sets per exercise category */}
+        <WarmupSchemesCard />
+
+        {/* Injuries Card - injuries, pain trends and swaps for upcoming sessions */}
+        <InjuriesCard />
+
+        {/* Coaching Card - invitations and coach access */}
+        <CoachingCard />
+
+        {/* Account Security Card - email change and two-factor authentication */}
+        <AccountSecurityCard currentEmail={currentUser.email} />
+
+        {/* Active Sessions Card - signed-in devices */}
+        <ActiveSessionsCard
+          onSignOutEverywhere={() => signoutMutation.mutate({ everywhere: true })}
+          signingOut={signoutMutation.isPending}
+        />
+
 
         {/* Profile Component */}
         <UserProfile />
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Mail, CheckCircle, ArrowLeft } from "lucide-react";
+
+// apiRequest throws on non-2xx with the raw body, so read the server's error message directly
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const requirements: string[] = data.passwordFeedback?.requirements || [];
+    throw new Error([data.error || data.message || "Request failed", ...requirements].join(". "));
+  }
+  return data;
+}
+
+/**
+ * Forgot password (no token) and set new password (token from the reset email) in one page
+ */
+export default function ResetPassword() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const [email, setEmail] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [done, setDone] = useState(false);
+
+  const requestLinkMutation = useMutation({
+    mutationFn: () => postJson("/api/auth/forgot-password", { email }),
+    onSuccess: () => setDone(true),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: () => postJson("/api/auth/reset-password", { token, newPassword }),
+    onSuccess: () => setDone(true),
+    onError: (error: Error) => {
+      toast({ title: "Password not reset", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const handleReset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      toast({ title: "Passwords don't match", description: "Enter the same password twice.", variant: "destructive" });
+      return;
+    }
+    resetMutation.mutate();
+  };
+
+  return (
+    <div className="min-h-screen bg-white dark:bg-black flex items-center justify-center p-4">
+      <Card className="w-full max-w-md bg-white dark:bg-gray-900 border-gray-200 dark:border-gray-800">
+        <CardHeader className="text-center">
+          <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/20 rounded-full flex items-center justify-center mx-auto mb-4">
+            {done ? (
+              <CheckCircle className="w-8 h-8 text-green-600 dark:text-green-400" />
+            ) : token ? (
+              <KeyRound className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+            ) : (
+              <Mail className="w-8 h-8 text-blue-600 dark:text-blue-400" />
+            )}
+          </div>
+          <CardTitle className="text-2xl font-bold text-black dark:text-white">
+            {done ? (token ? "Password Reset" : "Check Your Email") : token ? "Choose a New Password" : "Forgot Password"}
+          </CardTitle>
+          <CardDescription className="text-gray-600 dark:text-gray-400">
+            {done
+              ? token
+                ? "Your password has been changed and you've been signed out on all other devices."
+                : "If an account exists for that email, a reset link is on its way. It expires in 30 minutes."
+              : token
+                ? "Use at least 12 characters with upper and lower case letters, numbers and a symbol."
+                : "Enter your account email and we'll send you a link to reset your password."}
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {!done && !token && (
+            <form onSubmit={(e) => { e.preventDefault(); requestLinkMutation.mutate(); }} className="space-y-4">
+              <div>
+                <Label htmlFor="reset-email">Email</Label>
+                <Input
+                  id="reset-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  placeholder="john@example.com"
+                  data-testid="input-reset-email"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={requestLinkMutation.isPending} data-testid="button-send-reset-link">
+                {requestLinkMutation.isPending ? "Sending..." : "Send Reset Link"}
+              </Button>
+            </form>
+          )}
+
+          {!done && token && (
+            <form onSubmit={handleReset} className="space-y-4">
+              <div>
+                <Label htmlFor="new-password">New password</Label>
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                  data-testid="input-new-password"
+                />
+              </div>
+              <div>
+                <Label htmlFor="confirm-password">Confirm new password</Label>
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  data-testid="input-confirm-password"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={resetMutation.isPending} data-testid="button-reset-password">
+                {resetMutation.isPending ? "Saving..." : "Reset Password"}
+              </Button>
+            </form>
+          )}
+
+          <Button variant="outline" className="w-full" onClick={() => setLocation("/auth")}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Sign In
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
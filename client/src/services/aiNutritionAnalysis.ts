@@ -78,6 +78,22 @@ interface FoodAnalysisResponse {
   suggestions: string[];
 }
 
+// Sent as `aiEstimate` with the nutrition log so corrections feed back into later prompts
+interface FoodAnalysisEstimate {
+  source: 'food-analysis';
+  requestId?: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  quantity: number | null;
+  unit: string | null;
+}
+
+interface FoodAnalysisResult extends FoodAnalysisResponse {
+  aiEstimate: FoodAnalysisEstimate;
+}
+
 export class AINutritionAnalysisService {
   
   /**
@@ -108,15 +124,16 @@ export class AINutritionAnalysisService {
   }
 
   /**
-   * Analyze food from image
+   * Analyze food from image. Log the entry with the returned `aiEstimate` and the same food name.
    */
   static async analyzeFood(
     base64Image: string,
-    context?: {
+    context: {
+      foodName: string; // matches the user's past corrections of similar foods
       mealType?: string;
       estimatedPortion?: string;
     }
-  ): Promise<FoodAnalysisResponse> {
+  ): Promise<FoodAnalysisResult> {
     try {
       const response = await fetch('/api/ai/food-analysis', {
         method: 'POST',
@@ -134,7 +151,22 @@ export class AINutritionAnalysisService {
         throw new Error(`Failed to analyze food image: ${response.statusText}`);
       }
 
-      return await response.json();
+      const result: FoodAnalysisResponse = await response.json();
+      const totalWeight = result.foodItems.reduce((sum, item) => sum + (item.estimatedWeight || 0), 0);
+
+      return {
+        ...result,
+        aiEstimate: {
+          source: 'food-analysis',
+          requestId: response.headers.get('X-AI-Request-Id') || undefined,
+          calories: result.totalNutrition.calories,
+          protein: result.totalNutrition.protein,
+          carbs: result.totalNutrition.carbs,
+          fat: result.totalNutrition.fat,
+          quantity: totalWeight > 0 ? totalWeight : null,
+          unit: totalWeight > 0 ? 'g' : null
+        }
+      };
     } catch (error: any) {
       console.error('Error analyzing food image:', error);
       throw new Error(`Failed to analyze food image: ${error?.message || 'Unknown error'}`);
@@ -118,56 +118,42 @@ export function setupCapacitorOAuthListener() {
 }
 
 /**
- * Restore OAuth session using fetch API to avoid infinite redirect loop
+ * Random id of this app install, sent when OAuth starts - only this device can claim the
+ * resulting pending session. Ids from older builds were too short to be secret and are replaced.
  */
-async function restoreSessionAndNavigate(sessionId: string, userId: string) {
-  try {
-    console.log('[Capacitor Auth] Calling session restore API...');
-    
-    // Call the session restore endpoint
-    const response = await fetch(`/api/auth/restore-session?sessionId=${sessionId}&userId=${userId}&redirect=/`, {
-      method: 'GET',
-      credentials: 'include', // Important: include cookies
-      redirect: 'manual' // Don't follow redirects automatically
-    });
-    
-    console.log('[Capacitor Auth] Session restore response:', response.status);
-    
-    if (response.status === 0 || response.status === 302 || response.ok) {
-      // Session restored successfully
-      console.log('[Capacitor Auth] ✅ Session restored successfully!');
-      
-      // Mark session as successfully restored
-      localStorage.setItem('last-successful-oauth-session', sessionId);
-      localStorage.setItem('trainpro-onboarding-completed', 'true');
-      localStorage.setItem('mytrainpro-onboarding-completed', 'true');
-      
-      // Close the in-app browser automatically (only works if opened with Browser.open)
-      if (Capacitor.isNativePlatform()) {
-        try {
-          await Browser.close();
-          console.log('[Capacitor Auth] ✅ Closed OAuth browser automatically');
-        } catch (err) {
-          console.log('[Capacitor Auth] Could not close browser (might be already closed):', err);
-          // Not critical - browser might already be closed or user might have manually closed it
-        }
-      }
-      
-      // Navigate to home page WITHOUT reloading the entire WebView
-      console.log('[Capacitor Auth] Navigating to home page...');
-      
-      // Force a hard reload to ensure cookies are picked up
-      window.location.replace('/');
-    } else {
-      console.error('[Capacitor Auth] Session restore failed:', response.status);
-      alert('Login failed. Please try again.');
-      window.location.replace('/auth');
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem('device-id');
+  if (!deviceId || !/^[A-Za-z0-9-]{16,128}$/.test(deviceId)) {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    deviceId = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem('device-id', deviceId);
+  }
+  return deviceId;
+}
+
+/**
+ * The server signed the WebView in (or started the 2FA step) - close the OAuth browser and reload
+ */
+async function finishOAuthSignIn(twoFactorRequired: boolean) {
+  console.log('[Capacitor Auth] ✅ OAuth session claimed', twoFactorRequired ? '- 2FA required' : '');
+
+  localStorage.setItem('trainpro-onboarding-completed', 'true');
+  localStorage.setItem('mytrainpro-onboarding-completed', 'true');
+
+  // Close the in-app browser automatically (only works if opened with Browser.open)
+  if (Capacitor.isNativePlatform()) {
+    try {
+      await Browser.close();
+      console.log('[Capacitor Auth] ✅ Closed OAuth browser automatically');
+    } catch (err) {
+      console.log('[Capacitor Auth] Could not close browser (might be already closed):', err);
+      // Not critical - browser might already be closed or user might have manually closed it
     }
-  } catch (error) {
-    console.error('[Capacitor Auth] Error restoring session:', error);
-    alert('Login failed. Please try again.');
-    window.location.replace('/auth');
   }
+
+  // Force a hard reload to ensure cookies are picked up
+  window.location.replace(twoFactorRequired ? '/auth?two_factor=1' : '/');
 }
 
 // Helper function to handle deep links
@@ -183,20 +169,9 @@ function handleDeepLink(urlString: string) {
       
       if (sessionId && userId) {
         console.log('[Capacitor Auth] OAuth callback detected');
-        console.log('[Capacitor Auth] Deep link contains valid OAuth data - Session:', sessionId, 'User:', userId);
-        
-        // Check if this session is different from last successful login
-        const lastSuccessfulSession = localStorage.getItem('last-successful-oauth-session');
-        if (lastSuccessfulSession === sessionId) {
-          console.log('[Capacitor Auth] Session already successfully restored, skipping to prevent duplicate login');
-          return;
-        }
         
-        // Visual feedback with friendly message
-        console.log('[Capacitor Auth] Processing new OAuth session...');
-        
-        // Restore session using fetch API instead of redirect to avoid infinite loop
-        restoreSessionAndNavigate(sessionId, userId);
+        // The pending session is claimed with this device's id, not the ids in the link
+        checkPendingOAuthSession();
       } else {
         console.error('[Capacitor Auth] Missing session or userId in callback');
         alert('OAuth Error: Missing session or userId');
@@ -220,12 +195,7 @@ async function checkPendingOAuthSession(retryCount = 0, maxRetries = 6) {
   try {
     console.log(`[Capacitor Auth] Checking server for pending OAuth session... (attempt ${retryCount + 1}/${maxRetries})`);
     
-    // Generate or retrieve device ID
-    let deviceId = localStorage.getItem('device-id');
-    if (!deviceId) {
-      deviceId = Math.random().toString(36).substring(7);
-      localStorage.setItem('device-id', deviceId);
-    }
+    const deviceId = getDeviceId();
     
     // Check server for pending sessions
     const response = await fetch('/api/auth/check-pending-oauth', {
@@ -248,18 +218,9 @@ async function checkPendingOAuthSession(retryCount = 0, maxRetries = 6) {
     const data = await response.json();
     
     if (data.hasPending) {
-      console.log(`[Capacitor Auth] ✅ Found pending OAuth session for user ${data.userId}!`);
-      
-      // Check if this session is different from last successful login
-      const lastSuccessfulSession = localStorage.getItem('last-successful-oauth-session');
-      if (lastSuccessfulSession === data.sessionId) {
-        console.log('[Capacitor Auth] Session already successfully restored, skipping to prevent duplicate login');
-        return;
-      }
-      
-      // Restore session using fetch API instead of redirect to avoid infinite loop
-      console.log('[Capacitor Auth] Restoring session via API...');
-      restoreSessionAndNavigate(data.sessionId, data.userId);
+      // The server claimed the session and set this WebView's cookie in the same request
+      console.log(`[Capacitor Auth] ✅ Found pending ${data.provider} OAuth session!`);
+      finishOAuthSignIn(!!data.twoFactorRequired);
     } else {
       console.log('[Capacitor Auth] No pending OAuth sessions found');
       
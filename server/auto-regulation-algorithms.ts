@@ -3,6 +3,7 @@ import { eq, and, desc, gte } from "drizzle-orm";
 import { autoRegulationFeedback, workoutSessions, volumeLandmarks, exerciseMuscleMapping, workoutExercises, muscleGroups } from "../shared/schema";
 import { SciAlgorithmCore } from "./services/scientific-algorithm-core";
 import { convertRPEtoRIR, RP_TRAINING_GUIDELINES } from "../shared/utils/rpe-rir-conversion";
+import { isWarmupSet } from "../shared/utils/warmup-sets";
 
 interface VolumeRecommendation {
   muscleGroupId: number;
@@ -227,7 +228,7 @@ async function calculateMuscleGroupVolume(
               
               // Validate that setsData is an array and has the expected structure
               if (Array.isArray(setsData)) {
-                const completedSets = setsData.filter((set: any) => set && set.completed === true).length;
+                const completedSets = setsData.filter((set: any) => set && set.completed === true && !isWarmupSet(set)).length;
                 totalSets += completedSets;
                 console.log(`Exercise ${exercise.exerciseId}: ${completedSets} completed sets for muscle group ${muscleGroupId}`);
               } else {
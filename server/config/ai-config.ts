@@ -1,9 +1,14 @@
 // AI Model Configuration System
 // Supports dynamic model switching and A/B testing for GPT migration
 
+// openai: OpenAI API (chat.completions / responses)
+// openai-compatible: any server exposing /v1/chat/completions (Ollama, llama.cpp, vLLM, LM Studio)
+// fixture: deterministic replay of recorded responses from AI_FIXTURES_DIR, no network access
+export type AIProviderName = 'openai' | 'openai-compatible' | 'fixture';
+
 export interface AIModelConfig {
   name: string;
-  provider: 'openai';
+  provider: AIProviderName;
   version: string;
   maxTokens: number;
   temperature: number;
@@ -31,6 +36,7 @@ export interface AIServiceConfig {
   foodAnalysis: AIModelConfig;
   programOptimization: AIModelConfig;
   multiImageNutrition: AIModelConfig;
+  coach: AIModelConfig;
 }
 
 // Model definitions
@@ -73,27 +79,141 @@ export const AI_MODELS: Record<string, AIModelConfig> = {
       input: 0.0000015, // $1.5 per 1M input tokens (70% cost reduction)
       output: 0.000006, // $6 per 1M output tokens (60% cost reduction)
     }
+  },
+  // Self-hosted model behind an OpenAI-compatible server (AI_COMPATIBLE_BASE_URL)
+  'local': {
+    name: process.env.AI_LOCAL_MODEL || 'llama3.1',
+    provider: 'openai-compatible',
+    version: 'local',
+    maxTokens: 4000,
+    temperature: 0.7,
+    capabilities: {
+      vision: process.env.AI_LOCAL_VISION === 'true',
+      jsonMode: true,
+      functionCalling: false,
+    },
+    costPerToken: {
+      input: 0,
+      output: 0,
+    }
+  },
+  // Recorded responses for tests and offline development
+  'fixture': {
+    name: 'fixture',
+    provider: 'fixture',
+    version: 'fixture',
+    maxTokens: 4000,
+    temperature: 0,
+    capabilities: {
+      vision: true,
+      jsonMode: true,
+      functionCalling: false,
+    },
+    costPerToken: {
+      input: 0,
+      output: 0,
+    }
   }
 };
 
+// Default model for each provider when AI_MODEL is not set
+const PROVIDER_DEFAULT_MODELS: Record<AIProviderName, string> = {
+  'openai': 'gpt-5-mini',
+  'openai-compatible': 'local',
+  'fixture': 'fixture',
+};
+
 // Environment-based configuration with GPT-5-mini as default
 export const getAIConfig = (): AIServiceConfig => {
+  // AI_PROVIDER picks the default model family (e.g. AI_PROVIDER=fixture runs without an API key)
+  const provider = process.env.AI_PROVIDER as AIProviderName | undefined;
+  const defaultModel = process.env.AI_MODEL || (provider && PROVIDER_DEFAULT_MODELS[provider]) || 'gpt-5-mini';
+
   // Allow per-service model override via environment variables
-  const exerciseModel = process.env.AI_MODEL_EXERCISE || process.env.AI_MODEL || 'gpt-5-mini';
-  const nutritionModel = process.env.AI_MODEL_NUTRITION || process.env.AI_MODEL || 'gpt-5-mini';
-  const foodAnalysisModel = process.env.AI_MODEL_FOOD || process.env.AI_MODEL || 'gpt-5-mini';
-  const programOptimizationModel = process.env.AI_MODEL_PROGRAM || process.env.AI_MODEL || 'gpt-5-mini';
-  const multiImageModel = process.env.AI_MODEL_MULTI_IMAGE || process.env.AI_MODEL || 'gpt-5-mini';
+  const exerciseModel = process.env.AI_MODEL_EXERCISE || defaultModel;
+  const nutritionModel = process.env.AI_MODEL_NUTRITION || defaultModel;
+  const foodAnalysisModel = process.env.AI_MODEL_FOOD || defaultModel;
+  const programOptimizationModel = process.env.AI_MODEL_PROGRAM || defaultModel;
+  const multiImageModel = process.env.AI_MODEL_MULTI_IMAGE || defaultModel;
+  const coachModel = process.env.AI_MODEL_COACH || defaultModel;
+  const fallbackModel = AI_MODELS[defaultModel] || AI_MODELS['gpt-5-mini'];
 
   return {
-    exerciseRecommendations: AI_MODELS[exerciseModel] || AI_MODELS['gpt-5-mini'],
-    nutritionAnalysis: AI_MODELS[nutritionModel] || AI_MODELS['gpt-5-mini'],
-    foodAnalysis: AI_MODELS[foodAnalysisModel] || AI_MODELS['gpt-5-mini'],
-    programOptimization: AI_MODELS[programOptimizationModel] || AI_MODELS['gpt-5-mini'],
-    multiImageNutrition: AI_MODELS[multiImageModel] || AI_MODELS['gpt-5-mini'],
+    exerciseRecommendations: AI_MODELS[exerciseModel] || fallbackModel,
+    nutritionAnalysis: AI_MODELS[nutritionModel] || fallbackModel,
+    foodAnalysis: AI_MODELS[foodAnalysisModel] || fallbackModel,
+    programOptimization: AI_MODELS[programOptimizationModel] || fallbackModel,
+    multiImageNutrition: AI_MODELS[multiImageModel] || fallbackModel,
+    coach: AI_MODELS[coachModel] || fallbackModel,
   };
 };
 
+// Per-user AI allowance. Usage resets at 00:00 UTC (daily) and on the 1st of the month (monthly);
+// null means no limit for that dimension
+export interface AIQuotaTier {
+  name: string;
+  dailyTokens: number | null;
+  monthlyTokens: number | null;
+  dailyCost: number | null; // USD, from costPerToken
+  monthlyCost: number | null;
+  requestsPerMinute: number;
+  maxImageBytes: number; // total decoded size of all images in one request
+}
+
+export const AI_QUOTA_TIERS: Record<string, AIQuotaTier> = {
+  free: {
+    name: 'free',
+    dailyTokens: 50_000,
+    monthlyTokens: 750_000,
+    dailyCost: 0.25,
+    monthlyCost: 3,
+    requestsPerMinute: 5,
+    maxImageBytes: 8 * 1024 * 1024
+  },
+  premium: {
+    name: 'premium',
+    dailyTokens: 250_000,
+    monthlyTokens: 4_000_000,
+    dailyCost: 1.5,
+    monthlyCost: 20,
+    requestsPerMinute: 20,
+    maxImageBytes: 20 * 1024 * 1024
+  },
+  unlimited: {
+    name: 'unlimited',
+    dailyTokens: null,
+    monthlyTokens: null,
+    dailyCost: null,
+    monthlyCost: null,
+    requestsPerMinute: 60,
+    maxImageBytes: 40 * 1024 * 1024
+  }
+};
+
+// Tiers can be overridden or added with AI_QUOTA_TIERS='{"free":{"dailyCost":0.1},"team":{...}}'
+export const getAIQuotaTiers = (): Record<string, AIQuotaTier> => {
+  if (!process.env.AI_QUOTA_TIERS) return AI_QUOTA_TIERS;
+
+  try {
+    const overrides: Record<string, Partial<AIQuotaTier>> = JSON.parse(process.env.AI_QUOTA_TIERS);
+    const tiers = { ...AI_QUOTA_TIERS };
+    Object.entries(overrides).forEach(([name, override]) => {
+      tiers[name] = { ...(tiers[name] || AI_QUOTA_TIERS.free), ...override, name };
+    });
+    return tiers;
+  } catch (error) {
+    console.error('Invalid AI_QUOTA_TIERS, using defaults:', error);
+    return AI_QUOTA_TIERS;
+  }
+};
+
+// Tier for users without an explicit users.aiQuotaTier
+export const getDefaultAIQuotaTier = (): string => process.env.AI_DEFAULT_QUOTA_TIER || 'free';
+
+// Users allowed to edit prompts, run experiments and see everyone's metrics - AI_OPERATOR_USER_IDS='1,42'
+export const getAIOperatorUserIds = (): string[] =>
+  (process.env.AI_OPERATOR_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+
 // A/B Testing Configuration
 export interface ABTestConfig {
   enabled: boolean;
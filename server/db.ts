@@ -12,4 +12,6 @@ if (!process.env.DATABASE_URL) {
 }
 
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
\ No newline at end of file
+export const db = drizzle({ client: pool, schema });
+// Handle passed to services that take part in a caller's db.transaction
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
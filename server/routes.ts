@@ -14,7 +14,7 @@ import { initializeVolumeLandmarks } from "./init-volume-landmarks";
 import { searchFoodDatabase, getFoodByBarcode } from "./data/foods";
 import { getNutritionSummary, logFood, generateNutritionGoal, searchFood } from "./services/nutrition";
 import { getTrainingStats, processAutoRegulation, createWorkoutSession, getWorkoutPlan } from "./services/training";
-import { insertUserSchema, insertUserProfileSchema, insertNutritionLogSchema, insertAutoRegulationFeedbackSchema, insertWeightLogSchema } from "@shared/schema";
+import { insertUserSchema, insertUserProfileSchema, insertNutritionLogSchema, insertAutoRegulationFeedbackSchema, insertWeightLogSchema, type FoodItem, type Recipe } from "@shared/schema";
 import bcrypt from "bcrypt";
 import crypto from "crypto";
 import { db } from "./db";
@@ -22,11 +22,37 @@ import { generateVolumeRecommendations, getFatigueAnalysis, getVolumeRecommendat
 import { MesocyclePeriodization } from "./services/mesocycle-periodization";
 import { TemplateEngine } from "./services/template-engine";
 import { LoadProgression } from "./services/load-progression";
+import { EquipmentProfileService } from "./services/equipment-profiles";
+import { getLoadingType } from "@shared/utils/equipment-loads";
+import { getWorkingSets, validateWarmupSchemes } from "@shared/utils/warmup-sets";
+import { getWeightIncrement } from "@shared/utils/metric-conversion";
+import { DEFAULT_PROGRESSION_SCHEME, PROGRESSION_SCHEMES, getExerciseScheme } from "@shared/utils/progression-schemes";
+import { StrengthTracking, type DetectedRecord } from "./services/strength-tracking";
+import { FoodDatabaseService } from "./services/food-database";
+import { RecipeService } from "./services/recipes";
+import { DataExportService } from "./services/data-export";
+import { WorkoutImportService } from "./services/workout-import";
+import { CalendarFeedService } from "./services/calendar-feed";
+import { DeloadAutomation } from "./services/deload-automation";
+import { CalorieCyclingService } from "./services/calorie-cycling";
+import { NutritionEstimateFeedbackService } from "./services/nutrition-estimate-feedback";
+import { aiUsageGuard } from "./services/ai-usage";
 import { AnalyticsService } from "./services/analytics-service";
 import { SciAlgorithmCore } from "./services/scientific-algorithm-core";
+import { getAIConfig } from "./config/ai-config";
+import { promptRegistry } from "./services/ai-prompt-registry";
 import analyticsRoutes from "./routes/analytics-simple.js";
 import aiRoutes from "./routes/ai.js";
+import aiCoachRoutes from "./routes/ai-coach.js";
+import { AuthSecurityService, authRateLimit, getClientIP, normalizeEmail } from "./services/auth-security";
+import { TwoFactorService, TRUSTED_DEVICE_COOKIE, TWO_FACTOR_CHALLENGE_TTL } from "./services/two-factor";
+import twoFactorRoutes from "./routes/two-factor.js";
+import sessionRoutes from "./routes/sessions.js";
+import { UserSessionService } from "./services/user-sessions";
 import aiMonitoringRoutes from "./routes/ai-monitoring.js";
+import coachRoutes from "./routes/coach.js";
+import equipmentProfileRoutes from "./routes/equipment-profiles.js";
+import injuryRoutes from "./routes/injuries.js";
 import { validateAndCleanupTemplates } from "./validate-templates";
 import { workoutExercises, workoutSessions, exercises, mesocycles, userProfiles, users, nutritionLogs, nutritionGoals, weeklyNutritionGoals, bodyMetrics, weightLogs, volumeLandmarks, autoRegulationFeedback, loadProgressionTracking, trainingPrograms, trainingTemplates, dietGoals, dietPhases, muscleGroups, savedWorkoutTemplates, emailVerificationTokens, registrationAttempts, pendingOAuthSessions } from "@shared/schema";
 import { 
@@ -38,7 +64,9 @@ import {
   validateEmailFormat
 } from "./services/enhanced-registration";
 import { emailService } from "./services/email-service";
-import { eq, and, desc, sql, lt, inArray, gt, isNotNull } from "drizzle-orm";
+import { TimezoneUtils } from "@shared/utils/timezone";
+import { normalizeCalorieCyclingSettings } from "@shared/utils/calorie-cycling";
+import { eq, and, desc, sql, lt, inArray, gt, isNotNull, isNull } from "drizzle-orm";
 
 // Extend Request type to include userId
 declare global {
@@ -287,6 +315,63 @@ function getMealSuitability(category: string, protein: number, carbs: number, fa
   return suitability;
 }
 
+// Below this many local matches the food search also queries the remote APIs
+const FOOD_SEARCH_REMOTE_THRESHOLD = 10;
+
+// Shape a food_items row (values per 100 g) the way the food search clients expect
+function toFoodSearchResult(food: FoodItem) {
+  const calories = parseFloat(food.calories);
+  const protein = parseFloat(food.protein);
+  const carbs = parseFloat(food.carbs);
+  const fat = parseFloat(food.fat);
+
+  const foodCategory = categorizeFoodByRP(calories, protein, carbs, fat);
+  const suitability = getMealSuitability(foodCategory, protein, carbs, fat);
+
+  return {
+    id: food.source === 'usda' ? `usda_${food.sourceId}` : (food.barcode || `local_${food.id}`),
+    foodItemId: food.id,
+    name: food.name,
+    brand: food.brand,
+    calories,
+    protein,
+    carbs,
+    fat,
+    serving_size: `${food.servingSize}${food.servingUnit}`,
+    barcode: food.barcode,
+    source: food.source,
+    category: foodCategory,
+    mealSuitability: suitability,
+    micronutrients: food.micronutrients,
+    ...(food.source === 'usda' ? { fdcId: Number(food.sourceId) } : {})
+  };
+}
+
+// Recipes appear in food search with per-100g values, like imported foods
+function toRecipeSearchResult(recipe: Recipe & { nutrition: ReturnType<typeof RecipeService.getNutrition> }) {
+  const { calories, protein, carbs, fat, micronutrients } = recipe.nutrition.per100g;
+  const foodCategory = categorizeFoodByRP(calories, protein, carbs, fat);
+
+  return {
+    id: `recipe_${recipe.id}`,
+    recipeId: recipe.id,
+    name: recipe.name,
+    brand: null,
+    calories,
+    protein,
+    carbs,
+    fat,
+    serving_size: '100g',
+    barcode: null,
+    source: 'recipe',
+    category: foodCategory,
+    mealSuitability: getMealSuitability(foodCategory, protein, carbs, fat),
+    micronutrients,
+    perServing: recipe.nutrition.perServing,
+    servings: parseFloat(recipe.servings)
+  };
+}
+
 // Enhanced password validation function
 function validatePasswordStrength(password: string): { isValid: boolean; requirements: string[] } {
   const requirements = [];
@@ -352,42 +437,6 @@ function validatePasswordStrength(password: string): { isValid: boolean; require
   return { isValid, requirements };
 }
 
-// Security event logging function
-function logSecurityEvent(event: string, userId?: string, details?: any) {
-  const timestamp = new Date().toISOString();
-  console.log(`[SECURITY EVENT] ${timestamp} - ${event}`, {
-    userId,
-    details,
-    timestamp
-  });
-}
-
-// Rate limiting for password reset and account operations
-const accountOperationLimits = new Map<string, { count: number, lastAttempt: number }>();
-const MAX_ACCOUNT_OPERATIONS = 3;
-const ACCOUNT_OPERATION_WINDOW = 60 * 60 * 1000; // 1 hour
-
-function checkAccountOperationRate(identifier: string): boolean {
-  const now = Date.now();
-  const operationData = accountOperationLimits.get(identifier);
-  
-  if (operationData) {
-    if (now - operationData.lastAttempt > ACCOUNT_OPERATION_WINDOW) {
-      accountOperationLimits.delete(identifier);
-    } else if (operationData.count >= MAX_ACCOUNT_OPERATIONS) {
-      return false;
-    }
-  }
-  
-  const currentData = accountOperationLimits.get(identifier) || { count: 0, lastAttempt: 0 };
-  accountOperationLimits.set(identifier, {
-    count: currentData.count + 1,
-    lastAttempt: now
-  });
-  
-  return true;
-}
-
 // Hybrid middleware to extract user ID from either auth system
 function getUserId(req: Request, res: Response, next: NextFunction) {
   // Try Replit Auth first
@@ -618,7 +667,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // OAuth state management for CSRF protection
-  const oauthStates = new Map<string, { timestamp: number; redirectUrl?: string; isApp?: boolean }>();
+  const oauthStates = new Map<string, { timestamp: number; redirectUrl?: string; isApp?: boolean; deviceId?: string }>();
+
+  // The app's random install id - the pending OAuth session is claimed with it
+  const OAUTH_DEVICE_ID_PATTERN = /^[A-Za-z0-9-]{16,128}$/;
+  const parseOAuthDeviceId = (value: unknown): string | undefined =>
+    typeof value === 'string' && OAUTH_DEVICE_ID_PATTERN.test(value) ? value : undefined;
   
   // Clean up expired states every hour
   setInterval(() => {
@@ -646,17 +700,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const state = randomBytes(32).toString('hex');
     const redirectUrl = req.query.redirect as string || '/';
     const isApp = req.query.app === '1'; // Check if from Capacitor app
+    const deviceId = isApp ? parseOAuthDeviceId(req.query.deviceId) : undefined;
     
     console.log('📝 [Google OAuth] Storing state:', {
       state: state.substring(0, 10) + '...',
       redirectUrl,
-      isApp
+      isApp,
+      hasDeviceId: !!deviceId
     });
     
     oauthStates.set(state, { 
       timestamp: Date.now(),
       redirectUrl,
-      isApp // Store app flag
+      isApp, // Store app flag
+      deviceId
     });
 
     console.log('🔐 [Google OAuth] Calling passport.authenticate...');
@@ -735,16 +792,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.log(`📱 App detected, creating pending OAuth session for user: ${user.userId}`);
           
           try {
-            // Create pending session that app can poll for
-            const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes - plenty of time
-            await db.insert(pendingOAuthSessions).values({
-              userId: user.userId,
-              sessionId: req.sessionID,
-              provider: 'google',
-              deviceInfo: req.get('User-Agent'),
-              expiresAt
-            });
-            console.log(`✅ Pending OAuth session created for user ${user.userId}, session: ${req.sessionID}, expires in 30 min`);
+            // Create pending session that only the app install that started the flow can claim
+            if (stateData.deviceId) {
+              const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes - plenty of time
+              await db.insert(pendingOAuthSessions).values({
+                userId: user.userId,
+                sessionId: req.sessionID,
+                provider: 'google',
+                deviceInfo: req.get('User-Agent'),
+                deviceId: stateData.deviceId,
+                expiresAt
+              });
+              console.log(`✅ Pending OAuth session created for user ${user.userId}, session: ${req.sessionID}, expires in 30 min`);
+            } else {
+              console.warn(`⚠️ No device id in OAuth state, skipping pending OAuth session for user ${user.userId}`);
+            }
           } catch (err) {
             console.error('Failed to create pending OAuth session:', err);
           }
@@ -763,47 +825,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     })(req, res, next);
   });
 
-  // Check for pending OAuth sessions (for mobile app polling)
+  /**
+   * Sign the app's WebView in as the user of a claimed pending OAuth session. Accounts with 2FA
+   * get the same pending challenge as password sign-in unless the device is trusted.
+   */
+  async function establishOAuthSession(req: Request, userId: number): Promise<'signed_in' | 'two_factor_required' | 'user_not_found'> {
+    const user = await storage.getUser(userId);
+    if (!user) return 'user_not_found';
+
+    const twoFactorRequired = await TwoFactorService.isEnabled(user.id) &&
+      !(await TwoFactorService.isTrustedDevice(user.id, req.cookies?.[TRUSTED_DEVICE_COOKIE]));
+
+    await new Promise<void>((resolve, reject) => {
+      req.session.regenerate((err) => err ? reject(err) : resolve());
+    });
+
+    const session = req.session as any;
+    if (twoFactorRequired) {
+      // Not signed in yet - /api/auth/signin/2fa finishes the sign-in
+      session.pendingTwoFactor = { userId: user.id, email: normalizeEmail(user.email), createdAt: Date.now() };
+    } else {
+      session.userId = user.id;
+      session.provider = 'oauth';
+      session.loginTime = Date.now();
+      session.userAgent = req.get('User-Agent') || 'unknown';
+      session.clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      req.session.save((err) => err ? reject(err) : resolve());
+    });
+
+    return twoFactorRequired ? 'two_factor_required' : 'signed_in';
+  }
+
+  // Claim this device's pending OAuth session (for mobile app polling) and sign the app in with it
   app.post('/api/auth/check-pending-oauth', async (req, res) => {
-    const { deviceId } = req.body;
+    const deviceId = parseOAuthDeviceId(req.body?.deviceId);
     
-    console.log('[Pending OAuth Check] Request received from device:', deviceId);
+    if (!deviceId) {
+      return res.status(400).json({ error: 'Invalid device ID' });
+    }
     
     try {
-      console.log('[Pending OAuth Check] Querying database...');
-      
-      // Find the most recent unconsumed pending session
-      const pending = await db.query.pendingOAuthSessions.findFirst({
-        where: and(
-          isNotNull(pendingOAuthSessions.sessionId),
-          sql`${pendingOAuthSessions.consumedAt} IS NULL`,
-          sql`${pendingOAuthSessions.expiresAt} > NOW()`
-        ),
-        orderBy: [desc(pendingOAuthSessions.createdAt)]
-      });
-      
-      console.log('[Pending OAuth Check] Query result:', pending);
+      // Newest unconsumed session this device started, consumed in the same statement so it
+      // can only be claimed once
+      const [pending] = await db.update(pendingOAuthSessions)
+        .set({ consumedAt: new Date() })
+        .where(and(
+          inArray(pendingOAuthSessions.id, db
+            .select({ id: pendingOAuthSessions.id })
+            .from(pendingOAuthSessions)
+            .where(and(
+              eq(pendingOAuthSessions.deviceId, deviceId),
+              isNull(pendingOAuthSessions.consumedAt),
+              sql`${pendingOAuthSessions.expiresAt} > NOW()`
+            ))
+            .orderBy(desc(pendingOAuthSessions.createdAt))
+            .limit(1)),
+          isNull(pendingOAuthSessions.consumedAt)
+        ))
+        .returning();
       
       if (!pending) {
-        console.log('[Pending OAuth Check] No pending sessions found');
         return res.json({ hasPending: false });
       }
       
-      console.log(`[Pending OAuth Check] Found pending session for user ${pending.userId}, provider: ${pending.provider}`);
-      
-      // Mark as consumed
-      await db.update(pendingOAuthSessions)
-        .set({ consumedAt: new Date() })
-        .where(eq(pendingOAuthSessions.id, pending.id));
+      console.log(`[Pending OAuth Check] Claimed pending session for user ${pending.userId}, provider: ${pending.provider}`);
       
-      console.log('[Pending OAuth Check] Marked session as consumed');
+      const result = await establishOAuthSession(req, pending.userId);
+      if (result === 'user_not_found') {
+        return res.json({ hasPending: false });
+      }
       
-      // Return session info so app can restore it
       res.json({
         hasPending: true,
-        sessionId: pending.sessionId,
-        userId: pending.userId,
-        provider: pending.provider
+        provider: pending.provider,
+        twoFactorRequired: result === 'two_factor_required'
       });
       
     } catch (error) {
@@ -813,79 +911,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Session restoration endpoint for OAuth deep link returns
+  // Session restoration endpoint for OAuth deep link returns - needs the device that started the flow
   app.get('/api/auth/restore-session', async (req, res) => {
     const { sessionId, userId, redirect } = req.query;
+    const deviceId = parseOAuthDeviceId(req.query.deviceId);
     
     console.log('[Session Restore] Request received:', {
       sessionId: sessionId ? (sessionId as string).substring(0, 10) + '...' : 'missing',
       userId,
       redirect,
-      currentSessionId: req.sessionID
+      hasDeviceId: !!deviceId
     });
     
-    if (!sessionId || !userId) {
+    if (!sessionId || !userId || !deviceId) {
       console.error('[Session Restore] Missing required parameters');
       return res.redirect('/auth?error=invalid_session');
     }
     
     try {
-      console.log('[Session Restore] Step 1: Getting user from database...');
+      console.log('[Session Restore] Step 1: Claiming pending OAuth session...');
+      
+      // Only a completed OAuth login started on this device can be restored, once - consumed,
+      // expired and revoked ones are refused
+      const [pending] = await db.update(pendingOAuthSessions)
+        .set({ consumedAt: new Date() })
+        .where(and(
+          eq(pendingOAuthSessions.sessionId, sessionId as string),
+          eq(pendingOAuthSessions.userId, parseInt(userId as string) || 0),
+          eq(pendingOAuthSessions.deviceId, deviceId),
+          isNull(pendingOAuthSessions.consumedAt),
+          sql`${pendingOAuthSessions.expiresAt} > NOW()`
+        ))
+        .returning();
       
-      // Validate that the user exists
-      const user = await storage.getUser(parseInt(userId as string));
+      if (!pending) {
+        console.error('[Session Restore] No unconsumed pending session:', userId);
+        return res.redirect('/auth?error=invalid_session');
+      }
       
-      console.log('[Session Restore] Step 2: User retrieved:', user ? `userId=${user.id}` : 'null');
+      console.log('[Session Restore] Step 2: Setting up session...');
       
-      if (!user) {
+      const result = await establishOAuthSession(req, pending.userId);
+      if (result === 'user_not_found') {
         console.error('[Session Restore] User not found:', userId);
         return res.redirect('/auth?error=user_not_found');
       }
-      
-      console.log('[Session Restore] Step 3: Setting up session...');
-      
-      // Set up the session
-      const session = req.session as any;
-      session.userId = user.id;
-      session.provider = 'oauth';
-      session.loginTime = Date.now();
-      session.userAgent = req.get('User-Agent') || 'unknown';
-      session.clientIP = req.ip || req.connection.remoteAddress || 'unknown';
-      
-      console.log('[Session Restore] Step 4: Saving session...');
-      
-      // Save session before redirecting
-      await new Promise<void>((resolve, reject) => {
-        session.save((err: any) => {
-          if (err) {
-            console.error('[Session Restore] Failed to save session:', err);
-            console.error('[Session Restore] Session save error details:', {
-              errorType: err.constructor.name,
-              errorMessage: err.message,
-              errorStack: err.stack
-            });
-            reject(err);
-          } else {
-            console.log(`[Session Restore] ✅ Session restored for user ${user.id}`);
-            resolve();
-          }
-        });
-      });
-      
-      console.log('[Session Restore] Step 5: Marking pending session as consumed...');
-      
-      // Mark the pending OAuth session as consumed to prevent reuse
-      try {
-        await db.update(pendingOAuthSessions)
-          .set({ consumedAt: new Date() })
-          .where(eq(pendingOAuthSessions.sessionId, sessionId as string));
-        console.log(`[Session Restore] Marked pending session as consumed: ${sessionId}`);
-      } catch (err) {
-        console.error('[Session Restore] Failed to mark session as consumed:', err);
-        // Don't fail the entire request if this fails
+      if (result === 'two_factor_required') {
+        console.log(`[Session Restore] 2FA required for user ${pending.userId}`);
+        return res.redirect('/auth?two_factor=1');
       }
       
-      console.log('[Session Restore] Step 6: Redirecting to dashboard...');
+      console.log(`[Session Restore] ✅ Session restored for user ${pending.userId}`);
       
       // Redirect to the requested path with success flag
       // This allows the frontend to mark the session as successfully restored
@@ -935,11 +1011,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const redirectUrl = req.query.redirect as string || req.body.redirect || '/';
     // Check if from Capacitor app - from query param or User-Agent
     const isApp = req.query.app === '1' || req.get('user-agent')?.includes('MyTrainPro-iOS');
+    const deviceId = isApp ? parseOAuthDeviceId(req.query.deviceId || req.body?.deviceId) : undefined;
     
     oauthStates.set(state, { 
       timestamp: Date.now(),
       redirectUrl,
-      isApp // Store app flag
+      isApp, // Store app flag
+      deviceId
     });
 
     console.log('🍎 [Apple OAuth] Calling passport.authenticate with state:', state.substring(0, 10) + '...', 'isApp:', isApp);
@@ -1032,16 +1110,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
           console.log(`📱 App detected, creating pending OAuth session for user: ${user.userId}`);
           
           try {
-            // Create pending session that app can poll for
-            const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes - plenty of time
-            await db.insert(pendingOAuthSessions).values({
-              userId: user.userId,
-              sessionId: req.sessionID,
-              provider: 'apple',
-              deviceInfo: req.get('User-Agent'),
-              expiresAt
-            });
-            console.log(`✅ Pending OAuth session created for user ${user.userId}, session: ${req.sessionID}, expires in 30 min`);
+            // Create pending session that only the app install that started the flow can claim
+            if (stateData.deviceId) {
+              const expiresAt = new Date(Date.now() + 30 * 60 * 1000); // 30 minutes - plenty of time
+              await db.insert(pendingOAuthSessions).values({
+                userId: user.userId,
+                sessionId: req.sessionID,
+                provider: 'apple',
+                deviceInfo: req.get('User-Agent'),
+                deviceId: stateData.deviceId,
+                expiresAt
+              });
+              console.log(`✅ Pending OAuth session created for user ${user.userId}, session: ${req.sessionID}, expires in 30 min`);
+            } else {
+              console.warn(`⚠️ No device id in OAuth state, skipping pending OAuth session for user ${user.userId}`);
+            }
           } catch (err) {
             console.error('Failed to create pending OAuth session:', err);
           }
@@ -1351,6 +1434,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize data
   await initializeExercises();
   await initializeNutritionDatabase();
+  await FoodDatabaseService.ensureSearchExtensions();
   await initializeVolumeLandmarks();
   
   // Initialize training templates
@@ -1361,6 +1445,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log("Training templates already initialized");
   }
 
+  // Apply stored AI prompt versions over the built-in prompts
+  try {
+    await promptRegistry.load();
+  } catch (error) {
+    console.error("Failed to load stored AI prompt versions:", error);
+  }
+
   // Debug endpoint to investigate session data (temporary)
   app.get("/api/debug/session", async (req, res) => {
     try {
@@ -1414,9 +1505,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Temporary password reset endpoint for account recovery
-  app.post("/api/debug/reset-password", async (req, res) => {
+  // Temporary password reset endpoint for account recovery - superseded by /api/auth/forgot-password,
+  // kept for local development only
+  app.post("/api/debug/reset-password", authRateLimit('passwordReset'), async (req, res) => {
     try {
+      if (process.env.NODE_ENV === 'production') {
+        return res.status(404).json({ message: "Not found" });
+      }
+
       const { email, newPassword } = req.body;
       
       if (!email || !newPassword) {
@@ -1432,6 +1528,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       `);
       
       console.log(`Password reset for ${email}`);
+      await AuthSecurityService.logEvent('password_reset', {
+        email,
+        ipAddress: getClientIP(req),
+        userAgent: req.get('User-Agent') || null,
+        details: { via: 'debug-endpoint', rowsUpdated: result.rowCount ?? null }
+      });
       
       res.json({ 
         message: "Password reset successfully",
@@ -1565,7 +1667,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Resend verification email endpoint with rate limiting
-  app.post("/api/auth/resend-verification", async (req, res) => {
+  app.post("/api/auth/resend-verification", authRateLimit('resendVerification'), async (req, res) => {
     try {
       const { email } = req.body;
       const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
@@ -1884,18 +1986,282 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Enhanced login attempt tracking
-  const loginAttempts = new Map<string, { count: number, lastAttempt: number, lockedUntil?: number }>();
-  const MAX_LOGIN_ATTEMPTS = 5;
-  const LOCKOUT_DURATION = 15 * 60 * 1000; // 15 minutes
-  const ATTEMPT_WINDOW = 15 * 60 * 1000; // 15 minutes window
-  
-  app.post("/api/auth/signin", async (req, res) => {
+  // Forgot password - answers the same way whether or not the account exists
+  app.post("/api/auth/forgot-password", authRateLimit('passwordReset'), async (req, res) => {
+    try {
+      const email = normalizeEmail(req.body.email);
+      if (!email) {
+        return res.status(400).json({ success: false, error: 'Email is required' });
+      }
+
+      const clientIP = getClientIP(req);
+      const userAgent = req.get('User-Agent') || 'unknown';
+      const user = await storage.getUserByEmail(email);
+
+      if (user) {
+        const baseUrl = process.env.BASE_URL || process.env.REPLIT_DOMAIN || 'https://mytrainpro.com';
+        // Not awaited, so response time doesn't reveal whether the account exists
+        createEmailVerificationToken(user.id, user.email, user.name, baseUrl, 'password_reset', { ipAddress: clientIP, userAgent })
+          .then(result => {
+            if (!result.success) console.error(`Password reset email failed for user ${user.id}:`, result.error);
+          });
+      }
+
+      await AuthSecurityService.logEvent('password_reset_requested', {
+        userId: user?.id ?? null,
+        email,
+        ipAddress: clientIP,
+        userAgent,
+        details: { accountFound: !!user }
+      });
+
+      res.json({
+        success: true,
+        message: "If an account exists for this email, we've sent a link to reset your password."
+      });
+    } catch (error: any) {
+      console.error('Forgot password error:', error);
+      res.status(500).json({ success: false, error: 'Failed to process request' });
+    }
+  });
+
+  // Set a new password with a reset link token; signs the account out everywhere else
+  app.post("/api/auth/reset-password", authRateLimit('passwordReset'), async (req, res) => {
+    try {
+      const { token, newPassword } = req.body;
+
+      if (!token || typeof token !== 'string' || !newPassword || typeof newPassword !== 'string') {
+        return res.status(400).json({ success: false, error: 'Reset token and new password are required' });
+      }
+
+      // Check the password before consuming the single-use token
+      const passwordValidation = validatePasswordStrength(newPassword);
+      if (!passwordValidation.isValid) {
+        return res.status(400).json({
+          success: false,
+          error: "Password does not meet security requirements",
+          passwordFeedback: passwordValidation
+        });
+      }
+
+      const verification = await verifyEmailToken(token, 'password_reset');
+      if (!verification.success || !verification.userId) {
+        return res.status(400).json({ success: false, error: verification.error || 'Invalid or expired token' });
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, 12);
+      await db
+        .update(users)
+        .set({
+          password: hashedPassword,
+          emailVerified: true, // The reset link proves the address
+          updatedAt: new Date()
+        })
+        .where(eq(users.id, verification.userId));
+
+      const sessionsRevoked = await UserSessionService.revokeSessions(verification.userId, req.sessionID);
+      // A remembered device must not skip 2FA for whoever reset the password
+      await TwoFactorService.revokeTrustedDevices(verification.userId);
+
+      await AuthSecurityService.logEvent('password_reset', {
+        userId: verification.userId,
+        email: verification.email,
+        ipAddress: getClientIP(req),
+        userAgent: req.get('User-Agent') || null,
+        details: { sessionsRevoked }
+      });
+
+      res.json({
+        success: true,
+        message: 'Your password has been reset. Please sign in with your new password.',
+        sessionsRevoked
+      });
+    } catch (error: any) {
+      console.error('Reset password error:', error);
+      res.status(500).json({ success: false, error: 'Failed to reset password' });
+    }
+  });
+
+  // Request an email change - the new address has to confirm it
+  app.post("/api/auth/change-email", requireAuth, authRateLimit('emailChange'), async (req, res) => {
+    try {
+      const userId = Number(req.userId);
+      const { newEmail, password } = req.body;
+
+      if (!newEmail || typeof newEmail !== 'string') {
+        return res.status(400).json({ success: false, error: 'New email is required' });
+      }
+
+      const emailValidation = validateEmailFormat(newEmail);
+      if (!emailValidation.valid) {
+        return res.status(400).json({ success: false, error: emailValidation.error });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+
+      const clientIP = getClientIP(req);
+      const userAgent = req.get('User-Agent') || 'unknown';
+
+      // Accounts with a password must re-enter it; OAuth-only accounts are already re-authenticated by their provider
+      if (user.password) {
+        const isValid = typeof password === 'string' && await bcrypt.compare(password, user.password);
+        if (!isValid) {
+          await AuthSecurityService.logEvent('email_change_denied', {
+            userId, email: user.email, ipAddress: clientIP, userAgent, details: { reason: 'invalid_password' }
+          });
+          return res.status(401).json({ success: false, error: 'Password is incorrect' });
+        }
+      }
+
+      if (emailValidation.normalized === user.email.toLowerCase()) {
+        return res.status(400).json({ success: false, error: 'This is already your email address' });
+      }
+
+      const existingUser = await storage.getUserByEmail(emailValidation.normalized);
+      if (existingUser) {
+        return res.status(409).json({ success: false, error: 'This email is already in use' });
+      }
+
+      const baseUrl = process.env.BASE_URL || process.env.REPLIT_DOMAIN || 'https://mytrainpro.com';
+      const result = await createEmailVerificationToken(
+        userId,
+        emailValidation.normalized,
+        user.name,
+        baseUrl,
+        'email_change',
+        { ipAddress: clientIP, userAgent }
+      );
+      if (!result.success) {
+        return res.status(500).json({ success: false, error: result.error || 'Failed to send confirmation email' });
+      }
+
+      await AuthSecurityService.logEvent('email_change_requested', {
+        userId, email: user.email, ipAddress: clientIP, userAgent, details: { newEmail: emailValidation.normalized }
+      });
+
+      res.json({
+        success: true,
+        message: `We sent a confirmation link to ${emailValidation.normalized}. Your email changes once you open it.`
+      });
+    } catch (error: any) {
+      console.error('Change email error:', error);
+      res.status(500).json({ success: false, error: 'Failed to request email change' });
+    }
+  });
+
+  // Email change confirmation link
+  app.get("/api/auth/confirm-email-change", async (req, res) => {
+    try {
+      const { token } = req.query;
+      if (!token || typeof token !== 'string') {
+        return res.redirect(`/profile?email-change-error=${encodeURIComponent('Confirmation token is required')}`);
+      }
+
+      const verification = await verifyEmailToken(token, 'email_change');
+      if (!verification.success || !verification.userId || !verification.email) {
+        return res.redirect(`/profile?email-change-error=${encodeURIComponent(verification.error || 'Confirmation failed')}`);
+      }
+
+      const user = await storage.getUser(verification.userId);
+      if (!user) {
+        return res.redirect(`/profile?email-change-error=${encodeURIComponent('User not found')}`);
+      }
+
+      // The address may have been taken since the change was requested
+      const existingUser = await storage.getUserByEmail(verification.email);
+      if (existingUser && existingUser.id !== user.id) {
+        return res.redirect(`/profile?email-change-error=${encodeURIComponent('This email is already in use')}`);
+      }
+
+      await db
+        .update(users)
+        .set({ email: verification.email, emailVerified: true, updatedAt: new Date() })
+        .where(eq(users.id, user.id));
+
+      await emailService.sendEmailChangedNotice(user.email, user.name, verification.email);
+
+      await AuthSecurityService.logEvent('email_changed', {
+        userId: user.id,
+        email: verification.email,
+        ipAddress: getClientIP(req),
+        userAgent: req.get('User-Agent') || null,
+        details: { previousEmail: user.email }
+      });
+
+      res.redirect('/profile?email-changed=1');
+    } catch (error) {
+      console.error('Email change confirmation error:', error);
+      res.redirect(`/profile?email-change-error=server-error`);
+    }
+  });
+
+  // Start the signed-in session after all sign-in checks passed
+  function completeSignIn(
+    req: Request,
+    res: Response,
+    user: { id: number; email: string; name: string; emailVerified?: boolean | null },
+    clientIP: string,
+    userAgent: string
+  ) {
+    const now = Date.now();
+
+    // Successful login - resets the failure count and alerts the user when it looks suspicious
+    AuthSecurityService.recordSuccessfulSignIn(user, clientIP, userAgent);
+    
+    // Enhanced security logging
+    console.log(`Successful login for ${user.email} from IP ${clientIP} with User-Agent: ${userAgent}`);
+    
+    // Force regenerate session to ensure clean state and prevent session fixation
+    req.session.regenerate((err) => {
+      if (err) {
+        console.error('Session regeneration error:', err);
+        return res.status(500).json({ message: "Session regeneration failed" });
+      }
+      
+      // Set security headers and session data
+      (req.session as any).userId = user.id;
+      (req.session as any).provider = 'password';
+      (req.session as any).loginTime = now;
+      (req.session as any).userAgent = userAgent;
+      (req.session as any).clientIP = clientIP;
+      
+      console.log('Session userId set to:', user.id);
+      console.log('Session ID:', req.sessionID);
+      
+      // Ensure session is saved
+      req.session.save((err) => {
+        if (err) {
+          console.error('Session save error:', err);
+          return res.status(500).json({ message: "Session save failed" });
+        }
+        console.log('Session saved successfully');
+        
+        // Enhanced response with security info
+        res.json({ 
+          user: { 
+            id: user.id, 
+            email: user.email, 
+            name: user.name,
+            emailVerified: user.emailVerified || false
+          },
+          sessionInfo: {
+            loginTime: now,
+            expiresIn: 7 * 24 * 60 * 60 * 1000 // 1 week
+          }
+        });
+      });
+    });
+  }
+
+  // Sign-in is throttled per IP and account; repeated failures lock the account with growing lockouts
+  app.post("/api/auth/signin", authRateLimit('signin'), async (req, res) => {
     try {
       const { email, password } = req.body;
-      const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
+      const clientIP = getClientIP(req);
       const userAgent = req.get('User-Agent') || 'unknown';
-      const attemptKey = `${email}_${clientIP}`;
       
       console.log('Signin attempt for email:', email);
       console.log('Client IP:', clientIP);
@@ -1918,36 +2284,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid credentials" });
       }
       
-      // Check rate limiting and account lockout
+      // Check account lockout
       const now = Date.now();
-      const attemptData = loginAttempts.get(attemptKey);
-      
-      if (attemptData) {
-        // Check if account is currently locked
-        if (attemptData.lockedUntil && now < attemptData.lockedUntil) {
-          const remainingTime = Math.ceil((attemptData.lockedUntil - now) / 1000 / 60);
-          console.log(`Account locked for ${email}, ${remainingTime} minutes remaining`);
-          return res.status(429).json({ 
-            message: "Account temporarily locked due to multiple failed attempts", 
-            retryAfter: remainingTime 
-          });
-        }
-        
-        // Reset attempt count if outside time window
-        if (now - attemptData.lastAttempt > ATTEMPT_WINDOW) {
-          loginAttempts.delete(attemptKey);
-        }
+      const normalizedEmail = normalizeEmail(email)!;
+      const lockout = await AuthSecurityService.getLockout(normalizedEmail);
+      if (lockout.locked) {
+        const remainingTime = Math.ceil(lockout.retryAfter! / 60);
+        console.log(`Account locked for ${email}, ${remainingTime} minutes remaining`);
+        res.setHeader('Retry-After', String(lockout.retryAfter));
+        return res.status(429).json({ 
+          message: "Account temporarily locked due to multiple failed attempts", 
+          retryAfter: remainingTime 
+        });
       }
       
-      const user = await storage.getUserByEmail(email.toLowerCase().trim());
+      const user = await storage.getUserByEmail(normalizedEmail);
       console.log('Retrieved user:', user ? { id: user.id, email: user.email, hasPassword: !!user.password } : 'null');
       
       if (!user || !user.password) {
         // Record failed attempt even for non-existent users to prevent enumeration
-        recordFailedAttempt(attemptKey, now);
         console.log('User not found or no password for:', email);
         // Simulate password comparison time to prevent timing attacks
         await bcrypt.compare('dummy_password', '$2b$10$dummy_hash_to_prevent_timing_attack');
+        await AuthSecurityService.recordFailedSignIn(normalizedEmail, {
+          userId: user?.id ?? null,
+          ipAddress: clientIP,
+          userAgent,
+          reason: user ? 'no_password' : 'unknown_account'
+        });
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
@@ -1956,8 +2320,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('Password comparison result:', isValid);
       
       if (!isValid) {
-        recordFailedAttempt(attemptKey, now);
         console.log('Invalid password for user:', email);
+        const failure = await AuthSecurityService.recordFailedSignIn(normalizedEmail, {
+          userId: user.id,
+          ipAddress: clientIP,
+          userAgent,
+          reason: 'invalid_password'
+        });
+        if (failure.locked) {
+          console.log(`Account locked for ${email} until ${failure.lockedUntil!.toISOString()}`);
+        }
         return res.status(401).json({ message: "Invalid credentials" });
       }
 
@@ -1973,101 +2345,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Successful login - clear any failed attempts
-      loginAttempts.delete(attemptKey);
-      
-      // Enhanced security logging
-      console.log(`Successful login for ${email} from IP ${clientIP} with User-Agent: ${userAgent}`);
-      
-      // Force regenerate session to ensure clean state and prevent session fixation
-      req.session.regenerate((err) => {
-        if (err) {
-          console.error('Session regeneration error:', err);
-          return res.status(500).json({ message: "Session regeneration failed" });
-        }
-        
-        // Set security headers and session data
-        (req.session as any).userId = user.id;
-        (req.session as any).loginTime = now;
-        (req.session as any).userAgent = userAgent;
-        (req.session as any).clientIP = clientIP;
-        
-        console.log('Session userId set to:', user.id);
-        console.log('Session ID:', req.sessionID);
-        
-        // Ensure session is saved
-        req.session.save((err) => {
+      // Second factor, unless this device was trusted after an earlier 2FA sign-in
+      if (await TwoFactorService.isEnabled(user.id) &&
+          !(await TwoFactorService.isTrustedDevice(user.id, req.cookies?.[TRUSTED_DEVICE_COOKIE]))) {
+        return req.session.regenerate((err) => {
           if (err) {
-            console.error('Session save error:', err);
-            return res.status(500).json({ message: "Session save failed" });
+            console.error('Session regeneration error:', err);
+            return res.status(500).json({ message: "Session regeneration failed" });
           }
-          console.log('Session saved successfully');
-          
-          // Enhanced response with security info
-          res.json({ 
-            user: { 
-              id: user.id, 
-              email: user.email, 
-              name: user.name,
-              emailVerified: user.emailVerified || false
-            },
-            sessionInfo: {
-              loginTime: now,
-              expiresIn: 7 * 24 * 60 * 60 * 1000 // 1 week
+
+          // Not signed in yet - /api/auth/signin/2fa finishes the sign-in
+          (req.session as any).pendingTwoFactor = { userId: user.id, email: normalizedEmail, createdAt: now };
+          req.session.save((err) => {
+            if (err) {
+              console.error('Session save error:', err);
+              return res.status(500).json({ message: "Session save failed" });
             }
+            res.json({ twoFactorRequired: true });
           });
         });
-      });
+      }
+
+      completeSignIn(req, res, user, clientIP, userAgent);
     } catch (error: any) {
       console.error('Signin error:', error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  // Helper function to record failed login attempts
-  function recordFailedAttempt(attemptKey: string, now: number) {
-    const currentData = loginAttempts.get(attemptKey) || { count: 0, lastAttempt: 0 };
-    const newCount = currentData.count + 1;
-    
-    if (newCount >= MAX_LOGIN_ATTEMPTS) {
-      loginAttempts.set(attemptKey, {
-        count: newCount,
-        lastAttempt: now,
-        lockedUntil: now + LOCKOUT_DURATION
-      });
-      console.log(`Account locked for ${attemptKey} after ${newCount} failed attempts`);
-    } else {
-      loginAttempts.set(attemptKey, {
-        count: newCount,
-        lastAttempt: now
-      });
-      console.log(`Failed attempt ${newCount} for ${attemptKey}`);
+  // Second sign-in step for accounts with 2FA - a TOTP or recovery code for the pending sign-in
+  app.post("/api/auth/signin/2fa", authRateLimit('twoFactor'), async (req, res) => {
+    try {
+      const { code, rememberDevice } = req.body;
+      const pending = (req.session as any)?.pendingTwoFactor;
+      const clientIP = getClientIP(req);
+      const userAgent = req.get('User-Agent') || 'unknown';
+
+      if (!pending || Date.now() - pending.createdAt > TWO_FACTOR_CHALLENGE_TTL) {
+        delete (req.session as any).pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in expired - please sign in again" });
+      }
+
+      if (!code || typeof code !== 'string') {
+        return res.status(400).json({ message: "Authentication code is required" });
+      }
+
+      const lockout = await AuthSecurityService.getLockout(pending.email);
+      if (lockout.locked) {
+        delete (req.session as any).pendingTwoFactor;
+        res.setHeader('Retry-After', String(lockout.retryAfter));
+        return res.status(429).json({ 
+          message: "Account temporarily locked due to multiple failed attempts", 
+          retryAfter: Math.ceil(lockout.retryAfter! / 60)
+        });
+      }
+
+      const verification = await TwoFactorService.verify(pending.userId, code);
+      if (!verification.valid) {
+        // Counts toward the same lockout as wrong passwords
+        await AuthSecurityService.recordFailedSignIn(pending.email, {
+          userId: pending.userId,
+          ipAddress: clientIP,
+          userAgent,
+          reason: 'invalid_2fa_code'
+        });
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      if (verification.method === 'recovery_code') {
+        await AuthSecurityService.logEvent('recovery_code_used', {
+          userId: user.id,
+          email: user.email,
+          ipAddress: clientIP,
+          userAgent,
+          details: { recoveryCodesRemaining: verification.recoveryCodesRemaining }
+        });
+      }
+
+      if (rememberDevice) {
+        const device = await TwoFactorService.trustDevice(user.id, userAgent, clientIP);
+        res.cookie(TRUSTED_DEVICE_COOKIE, device.token, {
+          path: '/',
+          httpOnly: true,
+          secure: process.env.NODE_ENV === 'production',
+          sameSite: 'lax',
+          expires: device.expiresAt
+        });
+      }
+
+      completeSignIn(req, res, user, clientIP, userAgent);
+    } catch (error: any) {
+      console.error('2FA signin error:', error);
+      res.status(500).json({ message: "Internal server error" });
     }
-  }
+  });
 
+  // Sign out this session, or every session of the account with { everywhere: true }
   app.post("/api/auth/signout", async (req, res) => {
     try {
       const sessionId = req.sessionID;
-      const userId = (req.session as any).userId;
+      const userId = (req.session as any).userId || (req.user as any)?.claims?.sub;
+      const everywhere = req.body?.everywhere === true;
       
       console.log(`Starting logout process for user ${userId} with session ${sessionId}`);
       
-      // Clear any cached login attempts for this user's email if available
+      let otherSessionsRevoked = 0;
       if (userId) {
-        try {
-          const user = await storage.getUser(userId);
-          if (user && user.email) {
-            const clientIP = req.ip || req.connection.remoteAddress || 'unknown';
-            const attemptKey = `${user.email}_${clientIP}`;
-            if (loginAttempts.has(attemptKey)) {
-              loginAttempts.delete(attemptKey);
-              console.log(`Cleared login attempts cache for ${user.email}`);
-            }
-          }
-        } catch (error) {
-          console.log('Could not clear login attempts cache:', error);
-          // Continue with logout even if this fails
+        if (everywhere) {
+          otherSessionsRevoked = await UserSessionService.revokeSessions(Number(userId), sessionId);
         }
+        AuthSecurityService.logEvent(everywhere ? 'signout_everywhere' : 'signout', {
+          userId: Number(userId),
+          ipAddress: getClientIP(req),
+          userAgent: req.get('User-Agent') || null,
+          ...(everywhere && { details: { otherSessionsRevoked } })
+        });
       }
       
       // Clear session cookie and destroy session data
@@ -2104,6 +2501,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         res.json({ 
           message: "Signed out successfully",
           sessionCleared: true,
+          otherSessionsRevoked,
           timestamp: new Date().toISOString()
         });
       });
@@ -2197,6 +2595,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.userId;
       const profileData = insertUserProfileSchema.parse(req.body);
+      if (profileData.warmupSchemes !== undefined) {
+        profileData.warmupSchemes = validateWarmupSchemes(profileData.warmupSchemes);
+      }
       
       // Get current profile to check if fitness goal changed
       const currentProfile = await storage.getUserProfile(userId);
@@ -2358,6 +2759,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         autoAdjustmentEnabled: settings.autoAdjustmentEnabled || false,
         autoAdjustmentFrequency: settings.autoAdjustmentFrequency || 'weekly',
         lastAutoAdjustment: settings.lastAutoAdjustment || null,
+        timezone: settings.timezone || 'UTC',
         updatedAt: settings.updatedAt || null
       });
     } catch (error: any) {
@@ -2368,14 +2770,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/auto-adjustment-settings", requireAuth, async (req, res) => {
     try {
       const userId = req.userId;
-      const { autoAdjustmentEnabled, autoAdjustmentFrequency, resetLastAdjustmentDate } = req.body;
+      const { autoAdjustmentEnabled, autoAdjustmentFrequency, resetLastAdjustmentDate, timezone } = req.body;
       
       console.log('🔧 Updating auto-adjustment settings in database:', {
         userId,
         autoAdjustmentEnabled,
         autoAdjustmentFrequency,
-        resetLastAdjustmentDate
+        resetLastAdjustmentDate,
+        timezone
       });
+
+      if (timezone !== undefined && !TimezoneUtils.isValidTimezone(timezone)) {
+        return res.status(400).json({ message: "Invalid timezone" });
+      }
       
       // Get current settings to preserve other data
       const currentUser = await storage.getUser(userId);
@@ -2385,6 +2792,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...currentSettings,
         autoAdjustmentEnabled,
         autoAdjustmentFrequency,
+        timezone: timezone || currentSettings.timezone || 'UTC',
         // Reset lastAutoAdjustment when user enables or explicitly requests reset
         lastAutoAdjustment: (autoAdjustmentEnabled && resetLastAdjustmentDate) 
           ? new Date().toISOString() 
@@ -2406,6 +2814,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         autoAdjustmentEnabled: settings.autoAdjustmentEnabled,
         autoAdjustmentFrequency: settings.autoAdjustmentFrequency,
         lastAutoAdjustment: settings.lastAutoAdjustment,
+        timezone: settings.timezone,
         updatedAt: settings.updatedAt,
         message: resetLastAdjustmentDate 
           ? "Settings updated and adjustment date reset to today"
@@ -2429,6 +2838,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Auto-adjustment run history (persisted job queue)
+  app.get("/api/auto-adjustment-history", requireAuth, async (req, res) => {
+    try {
+      const userId = Number(req.userId);
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const { autoAdjustmentScheduler } = await import("./services/auto-adjustment-scheduler");
+      const history = await autoAdjustmentScheduler.getJobHistory(userId, limit);
+      res.json(history);
+    } catch (error: any) {
+      console.error('❌ Error fetching auto-adjustment history:', error);
+      res.status(500).json({ message: "Failed to fetch auto-adjustment history" });
+    }
+  });
+
   // Workout settings endpoints
   app.get("/api/workout-settings", requireAuth, async (req, res) => {
     try {
@@ -2591,8 +3014,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const dataToValidate = {
         ...req.body,
         userId: Number(userId),
-        date: req.body.date ? new Date(req.body.date) : new Date()
+        date: req.body.date ? new Date(req.body.date) : new Date(),
+        // Original AI estimate, kept next to the (possibly corrected) values the user logged
+        aiEstimate: req.body.recipeId ? null : NutritionEstimateFeedbackService.normalizeEstimate(req.body.aiEstimate)
       };
+
+      // Recipe entries are logged by servings or cooked grams; the server computes the nutrition
+      if (req.body.recipeId) {
+        const recipe = await RecipeService.getRecipeForUser(Number(userId), Number(req.body.recipeId));
+        const portion = RecipeService.calculatePortion(recipe, {
+          servings: req.body.servings !== undefined ? Number(req.body.servings) : undefined,
+          grams: req.body.grams !== undefined ? Number(req.body.grams) : undefined
+        });
+
+        Object.assign(dataToValidate, {
+          recipeId: recipe.id,
+          foodName: recipe.name,
+          quantity: portion.quantity.toString(),
+          unit: portion.unit,
+          calories: portion.calories.toString(),
+          protein: portion.protein.toString(),
+          carbs: portion.carbs.toString(),
+          fat: portion.fat.toString(),
+          micronutrients: portion.micronutrients,
+          category: categorizeFoodByRP(portion.calories, portion.protein, portion.carbs, portion.fat)
+        });
+        req.body.micronutrients = portion.micronutrients;
+      }
       
       // Use safeParse for proper validation
       const validationResult = insertNutritionLogSchema.safeParse(dataToValidate);
@@ -2628,6 +3076,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // How close AI nutrition estimates were to what the user actually logged
+  app.get("/api/nutrition/ai-accuracy", requireAuth, async (req, res) => {
+    try {
+      const days = req.query.days ? Math.min(Math.max(parseInt(req.query.days as string) || 90, 1), 365) : 90;
+      const stats = await NutritionEstimateFeedbackService.getAccuracyStats(Number(req.userId), days);
+      res.json(stats);
+    } catch (error: any) {
+      console.error('Error getting AI estimate accuracy:', error);
+      res.status(500).json({ message: "Failed to get AI estimate accuracy" });
+    }
+  });
+
   app.get("/api/nutrition/logs", requireAuth, async (req, res) => {
     try {
       const userId = req.userId;
@@ -2765,7 +3225,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // AI nutrition analysis with multi-image support
-  app.post("/api/nutrition/analyze", async (req, res) => {
+  app.post("/api/nutrition/analyze", requireAuth, aiUsageGuard('multi-image-nutrition', { cache: true }), async (req, res) => {
     try {
       const { 
         foodName, // New: required food name
@@ -2791,7 +3251,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         analysisType
       });
       
-      if (!process.env.OPENAI_API_KEY) {
+      if (getAIConfig().multiImageNutrition.provider === 'openai' && !process.env.OPENAI_API_KEY) {
         return res.status(400).json({ message: "OpenAI API key not configured" });
       }
 
@@ -3162,12 +3622,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Enhanced Food search with Open Food Facts + USDA FoodData Central integration
+  // Recipes - nutrition is computed from the ingredients, recipes can nest other recipes
+  app.get("/api/recipes", requireAuth, async (req, res) => {
+    try {
+      const userId = Number(req.userId);
+      const query = req.query.q as string | undefined;
+      const userRecipes = query
+        ? await RecipeService.searchRecipes(userId, query, 50)
+        : await RecipeService.getRecipes(userId);
+      res.json(userRecipes);
+    } catch (error: any) {
+      console.error('Get recipes error:', error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/recipes/:id", requireAuth, async (req, res) => {
+    try {
+      const recipe = await RecipeService.getRecipe(Number(req.userId), parseInt(req.params.id));
+      res.json(recipe);
+    } catch (error: any) {
+      console.error('Get recipe error:', error);
+      res.status(error.message.includes('not found') ? 404 : 500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/recipes", requireAuth, async (req, res) => {
+    try {
+      const recipe = await RecipeService.createRecipe(Number(req.userId), req.body);
+      res.json(recipe);
+    } catch (error: any) {
+      console.error('Create recipe error:', error);
+      res.status(error.message.includes('not found') ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/recipes/:id", requireAuth, async (req, res) => {
+    try {
+      const recipe = await RecipeService.updateRecipe(Number(req.userId), parseInt(req.params.id), req.body);
+      res.json(recipe);
+    } catch (error: any) {
+      console.error('Update recipe error:', error);
+      res.status(error.message.includes('not found') ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/recipes/:id", requireAuth, async (req, res) => {
+    try {
+      await RecipeService.deleteRecipe(Number(req.userId), parseInt(req.params.id));
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Delete recipe error:', error);
+      res.status(error.message.includes('not found') ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  // Food search served from the local food database, with OpenFoodFacts/USDA filling the cache
   app.get("/api/food/search", async (req, res) => {
     try {
       const query = req.query.q as string;
       const category = req.query.category as string; // protein, carb, fat, mixed
       const mealType = req.query.mealType as string; // pre-workout, post-workout, regular, snack
+      const language = req.query.lang as string | undefined;
       
       console.log('Enhanced food search:', { query, category, mealType });
       
@@ -3175,30 +3691,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json([]);
       }
 
-      // Search both APIs concurrently
-      const [openFoodFactsResults, usdaResults] = await Promise.allSettled([
-        searchOpenFoodFacts(query),
-        searchUSDAFoodData(query)
-      ]);
-
-      let allFoods: any[] = [];
-
-      // Process Open Food Facts results
-      if (openFoodFactsResults.status === 'fulfilled') {
-        allFoods.push(...openFoodFactsResults.value);
-      } else {
-        console.error('Open Food Facts search failed:', openFoodFactsResults.reason);
-      }
+      let localFoods = await FoodDatabaseService.search(query, { limit: 50, language });
 
-      // Process USDA results
-      if (usdaResults.status === 'fulfilled') {
-        allFoods.push(...usdaResults.value);
-      } else {
-        console.error('USDA FoodData search failed:', usdaResults.reason);
+      // Only go remote when the local index has too few matches; results are cached for next time
+      if (localFoods.length < FOOD_SEARCH_REMOTE_THRESHOLD && process.env.FOOD_SEARCH_OFFLINE !== 'true') {
+        try {
+          const cached = await FoodDatabaseService.searchRemote(query);
+          if (cached > 0) {
+            localFoods = await FoodDatabaseService.search(query, { limit: 50, language });
+          }
+        } catch (remoteError) {
+          console.error('Remote food search fallback failed:', remoteError);
+        }
       }
 
-      // Apply category/meal type filters
-      let filteredFoods = allFoods;
+      let filteredFoods = localFoods.map(toFoodSearchResult);
       
       if (category) {
         filteredFoods = filteredFoods.filter(food => food.category === category);
@@ -3210,21 +3717,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
       }
 
-      // Sort by relevance and limit results
-      const sortedFoods = filteredFoods
-        .sort((a, b) => {
-          // Prioritize exact matches, then USDA (more accurate), then Open Food Facts
-          const aExact = a.name.toLowerCase().includes(query.toLowerCase()) ? 1 : 0;
-          const bExact = b.name.toLowerCase().includes(query.toLowerCase()) ? 1 : 0;
-          if (aExact !== bExact) return bExact - aExact;
-          
-          const aUSDA = a.source === 'usda' ? 1 : 0;
-          const bUSDA = b.source === 'usda' ? 1 : 0;
-          return bUSDA - aUSDA;
-        })
-        .slice(0, 30);
+      // Results are already ranked by relevance
+      const sortedFoods: Array<ReturnType<typeof toFoodSearchResult> | ReturnType<typeof toRecipeSearchResult>> = filteredFoods.slice(0, 30);
+
+      // Signed-in users also get their own recipes, listed first
+      const sessionUserId = (req.session as any)?.userId;
+      if (sessionUserId) {
+        const userRecipes = await RecipeService.searchRecipes(Number(sessionUserId), query);
+        const recipeResults = userRecipes
+          .map(toRecipeSearchResult)
+          .filter(recipe => !category || recipe.category === category)
+          .filter(recipe => !mealType || recipe.mealSuitability.includes(mealType));
+        sortedFoods.unshift(...recipeResults);
+      }
 
-      console.log(`Returning ${sortedFoods.length} foods from combined search (${openFoodFactsResults.status === 'fulfilled' ? openFoodFactsResults.value.length : 0} OFF + ${usdaResults.status === 'fulfilled' ? usdaResults.value.length : 0} USDA)`);
+      console.log(`Returning ${sortedFoods.length} foods from local food database`);
       res.json(sortedFoods);
     } catch (error: any) {
       console.error('Enhanced food search error:', error);
@@ -3232,156 +3739,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Helper function for Open Food Facts search
-  async function searchOpenFoodFacts(query: string) {
-    const url = `https://world.openfoodfacts.org/cgi/search.pl?search_terms=${encodeURIComponent(query)}&search_simple=1&action=process&json=1&page_size=15&fields=product_name,brands,nutriments,serving_size,code`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`Open Food Facts API returned ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    // Transform and categorize foods using RP methodology
-    const foods = await Promise.all(data.products?.map(async (product: any) => {
-      const calories = Math.round(product.nutriments?.['energy-kcal_100g'] || 0);
-      const protein = Math.round(product.nutriments?.['proteins_100g'] || 0);
-      const carbs = Math.round(product.nutriments?.['carbohydrates_100g'] || 0);
-      const fat = Math.round(product.nutriments?.['fat_100g'] || 0);
-      
-      if (calories === 0) return null;
-      
-      // Apply RP categorization logic
-      const foodCategory = categorizeFoodByRP(calories, protein, carbs, fat);
-      const suitability = getMealSuitability(foodCategory, protein, carbs, fat);
-      
-      return {
-        id: product.code || `off_${Date.now()}_${Math.random()}`,
-        name: product.product_name || 'Unknown Product',
-        brand: product.brands,
-        calories,
-        protein,
-        carbs,
-        fat,
-        serving_size: product.serving_size || '100g',
-        barcode: product.code,
-        source: 'openfoodfacts',
-        category: foodCategory,
-        mealSuitability: suitability
-      };
-    }) || []);
-
-    return foods.filter(food => food !== null);
-  }
-
-  // Helper function for USDA FoodData Central search
-  async function searchUSDAFoodData(query: string) {
-    const apiKey = 'ei8k1PRVVKgTotTTOf12HbZEUndz5UUAO8ilo8j5';
-    const url = `https://api.nal.usda.gov/fdc/v1/foods/search?query=${encodeURIComponent(query)}&dataType=Foundation,SR%20Legacy&pageSize=15&api_key=${apiKey}`;
-    
-    const response = await fetch(url);
-    
-    if (!response.ok) {
-      throw new Error(`USDA FoodData API returned ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    // Transform USDA foods to our format
-    const foods = data.foods?.map((food: any) => {
-      // Extract nutrients from USDA format
-      const nutrients = food.foodNutrients || [];
-      const energyNutrient = nutrients.find((n: any) => n.nutrientId === 1008 || n.nutrientName?.includes('Energy')); // Energy (kcal)
-      const proteinNutrient = nutrients.find((n: any) => n.nutrientId === 1003 || n.nutrientName?.includes('Protein'));
-      const carbNutrient = nutrients.find((n: any) => n.nutrientId === 1005 || n.nutrientName?.includes('Carbohydrate'));
-      const fatNutrient = nutrients.find((n: any) => n.nutrientId === 1004 || n.nutrientName?.includes('Total lipid'));
-      
-      const calories = Math.round(energyNutrient?.value || 0);
-      const protein = Math.round(proteinNutrient?.value || 0);
-      const carbs = Math.round(carbNutrient?.value || 0);
-      const fat = Math.round(fatNutrient?.value || 0);
-      
-      if (calories === 0) return null;
-      
-      // Apply RP categorization logic
-      const foodCategory = categorizeFoodByRP(calories, protein, carbs, fat);
-      const suitability = getMealSuitability(foodCategory, protein, carbs, fat);
-      
-      return {
-        id: `usda_${food.fdcId}`,
-        name: food.description || 'Unknown Food',
-        brand: food.brandOwner || food.brandName,
-        calories,
-        protein,
-        carbs,
-        fat,
-        serving_size: '100g',
-        source: 'usda',
-        category: foodCategory,
-        mealSuitability: suitability,
-        fdcId: food.fdcId
-      };
-    }) || [];
-
-    return foods.filter((food: any) => food !== null);
-  }
-
-  // Enhanced barcode lookup with Open Food Facts integration
+  // Barcode lookup: local food database first, OpenFoodFacts as a cache-filling fallback
   app.get("/api/food/barcode/:barcode", async (req, res) => {
     try {
       const barcode = req.params.barcode;
       
       console.log('Barcode lookup for:', barcode);
       
-      // Search Open Food Facts by barcode
-      const url = `https://world.openfoodfacts.org/api/v0/product/${barcode}.json`;
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`Open Food Facts API returned ${response.status}`);
+      let food = await FoodDatabaseService.getByBarcode(barcode);
+
+      if (!food && process.env.FOOD_SEARCH_OFFLINE !== 'true') {
+        food = await FoodDatabaseService.fetchRemoteBarcode(barcode);
       }
       
-      const data = await response.json();
-      
-      if (!data.product) {
+      if (!food) {
         return res.status(404).json({ message: "Product not found" });
       }
-      
-      const product = data.product;
-      const calories = Math.round(product.nutriments?.['energy-kcal_100g'] || 0);
-      const protein = Math.round(product.nutriments?.['proteins_100g'] || 0);
-      const carbs = Math.round(product.nutriments?.['carbohydrates_100g'] || 0);
-      const fat = Math.round(product.nutriments?.['fat_100g'] || 0);
-      
-      if (calories === 0) {
-        return res.status(404).json({ message: "No nutritional data available" });
-      }
-      
-      // Apply RP categorization logic
-      const foodCategory = categorizeFoodByRP(calories, protein, carbs, fat);
-      const suitability = getMealSuitability(foodCategory, protein, carbs, fat);
-      
-      const foodData = {
-        id: product.code || barcode,
-        name: product.product_name || 'Unknown Product',
-        brand: product.brands,
-        calories,
-        protein,
-        carbs,
-        fat,
-        serving_size: product.serving_size || '100g',
-        barcode: product.code,
-        source: 'openfoodfacts',
-        category: foodCategory,
-        mealSuitability: suitability,
-        images: {
-          front: product.image_front_url,
-          nutrition: product.image_nutrition_url
-        }
-      };
+
+      const foodData = toFoodSearchResult(food);
 
       console.log('Barcode lookup successful:', foodData.name);
       res.json(foodData);
@@ -3647,10 +4022,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const workoutExercise = workoutExercises.find(we => we.exerciseId === exerciseData.exerciseId);
         
         if (workoutExercise && exerciseData.sets.length > 0) {
-          const completedSets = exerciseData.sets.filter((set: any) => set.completed);
+          // Warm-up sets are stored in setsData but don't count as sets, volume or load
+          const workingSets = getWorkingSets<any>(exerciseData.sets);
+          const completedSets = workingSets.filter((set: any) => set.completed);
           
           // Update set count if it has changed dynamically
-          const currentSetCount = exerciseData.sets.length;
+          const currentSetCount = workingSets.length;
           const updateData: any = {
             sets: currentSetCount, // Update dynamic set count
             setsData: exerciseData.sets, // Store individual set completion states
@@ -3759,7 +4136,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             updateData.actualReps = actualReps;
             updateData.weight = parseFloat(avgWeight.toFixed(2)); // Convert to number for decimal field
             updateData.rpe = avgRpe;
-            updateData.isCompleted = completedSets.length === exerciseData.sets.length; // Mark exercise complete only if all sets done
+            updateData.isCompleted = completedSets.length === workingSets.length; // Mark exercise complete only if all working sets done
             
             // CRITICAL FIX: Preserve the weight unit from the exercise data
             // This ensures that 44lbs is stored as 44lbs, not assumed as 44kg
@@ -3796,6 +4173,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid completion data: exercises array required" });
       }
 
+      // Verify the session belongs to the user
+      const existingSession = isNaN(sessionId) ? undefined : await storage.getWorkoutSession(sessionId);
+      if (!existingSession || existingSession.userId !== Number(req.userId)) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
       // Update session with completion data
       const updatedSession = await storage.updateWorkoutSession(sessionId, {
         isCompleted: true,
@@ -3822,11 +4205,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           continue;
         }
         
-        const completedSets = exerciseData.sets.filter((set: any) => set.completed);
-        console.log('Completed sets:', completedSets.length, 'out of', exerciseData.sets.length);
+        // Warm-up sets are stored in setsData but don't count as sets, volume or load
+        const workingSets = getWorkingSets<any>(exerciseData.sets);
+        const completedSets = workingSets.filter((set: any) => set.completed);
+        console.log('Completed sets:', completedSets.length, 'out of', workingSets.length);
         
         // Update set count for completed workout
-        const currentSetCount = exerciseData.sets.length;
+        const currentSetCount = workingSets.length;
         const updateData: any = {
           sets: currentSetCount, // Update dynamic set count
           isCompleted: true
@@ -3854,7 +4239,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const session = await storage.getWorkoutSession(sessionId);
         if (session) {
           for (const exerciseData of completionData.exercises) {
-            const completedSets = exerciseData.sets?.filter((set: any) => set.completed) || [];
+            const completedSets = getWorkingSets<any>(exerciseData.sets || []).filter((set: any) => set.completed);
             if (completedSets.length > 0) {
               const avgWeight = completedSets.reduce((sum: number, set: any) => sum + (parseFloat(set.weight) || 0), 0) / completedSets.length;
               const avgRpe = completedSets.reduce((sum: number, set: any) => sum + (parseInt(set.rpe) || 7), 0) / completedSets.length;
@@ -3887,7 +4272,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 previousWeight = 0;
               }
               
-              // Record progression data
+              // Record progression data under the scheme the mesocycle assigns this exercise
+              const { config: schemeConfig } = session.mesocycleId
+                ? await LoadProgression.getExerciseScheme(session.userId, exerciseData.exerciseId, session.mesocycleId)
+                : { config: DEFAULT_PROGRESSION_SCHEME };
               await LoadProgression.recordProgression(
                 session.userId,
                 exerciseData.exerciseId,
@@ -3896,7 +4284,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 avgWeight,
                 avgRpe,
                 avgRir,
-                avgWeight > previousWeight ? 'weight' : 'volume',
+                schemeConfig.scheme,
                 'Auto-recorded from workout completion'
               );
             }
@@ -3907,8 +4295,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Don't fail the workout completion if progression recording fails
       }
 
+      // Flag new e1RM, rep and volume PRs for this session
+      let newPersonalRecords: DetectedRecord[] = [];
+      try {
+        newPersonalRecords = await StrengthTracking.detectPersonalRecords(Number(req.userId), sessionId);
+      } catch (error) {
+        console.error('Error detecting personal records:', error);
+        // Don't fail the workout completion if PR detection fails
+      }
+
+      // Check whether fatigue or key-lift regression calls for a deload week
+      let deloadRecommendation = null;
+      try {
+        deloadRecommendation = await DeloadAutomation.evaluate(Number(req.userId));
+      } catch (error) {
+        console.error('Error evaluating deload trigger:', error);
+        // Don't fail the workout completion if the deload check fails
+      }
+
       console.log('Workout completion successful for session:', sessionId);
-      res.json(updatedSession);
+      res.json({ ...updatedSession, personalRecords: newPersonalRecords, deloadRecommendation });
     } catch (error: any) {
       console.error('Workout completion error details:', error);
       console.error('Error stack:', error.stack);
@@ -4283,7 +4689,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Continue without recommendations rather than failing the entire request
       }
       
-      res.json({ feedback, recommendations });
+      // New fatigue data may push the user over the deload threshold
+      let deloadRecommendation = null;
+      try {
+        deloadRecommendation = await DeloadAutomation.evaluate(Number(feedbackData.userId));
+      } catch (deloadError) {
+        console.error('Deload trigger evaluation error:', deloadError);
+      }
+      
+      res.json({ feedback, recommendations, deloadRecommendation });
     } catch (error: any) {
       console.error('Auto-regulation feedback error:', error);
       res.status(400).json({ message: error.message });
@@ -4590,21 +5004,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/food/barcode/:barcode", async (req, res) => {
-    try {
-      const barcode = req.params.barcode;
-      const item = await storage.getFoodItemByBarcode(barcode);
-      
-      if (!item) {
-        return res.status(404).json({ message: "Food item not found" });
-      }
-      
-      res.json(item);
-    } catch (error: any) {
-      res.status(400).json({ message: error.message });
-    }
-  });
-
   // Meal Planning
   app.get("/api/meal-plans", requireAuth, async (req, res) => {
     try {
@@ -4988,6 +5387,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
 
+  // Data export - zip with every logged entity as JSON and CSV
+  app.get("/api/export", requireAuth, async (req, res) => {
+    try {
+      const userId = Number(req.userId);
+      const units = req.query.units === 'imperial' ? 'imperial' : 'metric';
+
+      const archive = await DataExportService.buildArchive(userId, units);
+      const filename = `mytrainpro-export-${new Date().toISOString().split('T')[0]}.zip`;
+
+      console.log(`📦 Data export for user ${userId}: ${archive.length} bytes (${units})`);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(archive);
+    } catch (error: any) {
+      console.error('Data export error:', error);
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
+
+  // Calendar feed - per-user token-protected .ics subscription
+  app.get("/api/calendar/feed-url", requireAuth, async (req, res) => {
+    try {
+      const token = await CalendarFeedService.getOrCreateToken(Number(req.userId));
+      const baseUrl = process.env.BASE_URL || process.env.REPLIT_DOMAIN || 'https://mytrainpro.com';
+      const url = `${baseUrl}/api/calendar/feed/${token}.ics`;
+      res.json({ url, webcalUrl: url.replace(/^https?:\/\//, 'webcal://') });
+    } catch (error: any) {
+      console.error('Calendar feed URL error:', error);
+      res.status(error.message?.includes('not found') ? 404 : 500).json({ message: "Failed to get calendar feed URL" });
+    }
+  });
+
+  app.post("/api/calendar/feed-url/regenerate", requireAuth, async (req, res) => {
+    try {
+      const token = await CalendarFeedService.regenerateToken(Number(req.userId));
+      const baseUrl = process.env.BASE_URL || process.env.REPLIT_DOMAIN || 'https://mytrainpro.com';
+      const url = `${baseUrl}/api/calendar/feed/${token}.ics`;
+      res.json({ url, webcalUrl: url.replace(/^https?:\/\//, 'webcal://') });
+    } catch (error: any) {
+      console.error('Calendar feed regenerate error:', error);
+      res.status(500).json({ message: "Failed to regenerate calendar feed URL" });
+    }
+  });
+
+  app.delete("/api/calendar/feed-url", requireAuth, async (req, res) => {
+    try {
+      await CalendarFeedService.revokeToken(Number(req.userId));
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Calendar feed revoke error:', error);
+      res.status(500).json({ message: "Failed to disable calendar feed" });
+    }
+  });
+
+  // Public - calendar apps cannot send session cookies, the token is the credential
+  app.get("/api/calendar/feed/:token.ics", async (req, res) => {
+    try {
+      const userId = await CalendarFeedService.getUserIdByToken(req.params.token);
+      if (!userId) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      const feed = await CalendarFeedService.buildFeed(userId);
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="trainpro.ics"');
+      res.setHeader('Cache-Control', 'private, max-age=900');
+      res.send(feed);
+    } catch (error: any) {
+      console.error('Calendar feed error:', error);
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+
   // Body Metrics
   app.get("/api/body-metrics", requireAuth, async (req, res) => {
     try {
@@ -5066,12 +5538,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Analytics routes - apply auth middleware
   app.use('/api/analytics', requireAuth, analyticsRoutes);
   
+  // AI coach chat - mounted before /api/ai so its paths are not shadowed
+  app.use('/api/ai/coach', requireAuth, aiCoachRoutes);
+
   // AI routes - apply auth middleware
   app.use('/api/ai', requireAuth, aiRoutes);
   
   // AI Monitoring routes - apply auth middleware (for baseline metrics and A/B testing)
   app.use('/api/ai-monitoring', requireAuth, aiMonitoringRoutes);
 
+  // Two-factor authentication settings for the signed-in user
+  app.use('/api/auth/2fa', requireAuth, twoFactorRoutes);
+
+  // Signed-in devices of the current user
+  app.use('/api/auth/sessions', requireAuth, sessionRoutes);
+
+  // Coach routes - athlete data access is permission-checked per relationship
+  app.use('/api/coach', requireAuth, coachRoutes);
+
+  // Gym equipment profiles - recommended loads snap to what the active profile can build
+  app.use('/api/equipment-profiles', requireAuth, equipmentProfileRoutes);
+
+  // Injuries and pain - active injuries filter recommendations and substitutes
+  app.use('/api/injuries', requireAuth, injuryRoutes);
+
   // Nutrition Progression
   app.get("/api/nutrition/progression", requireAuth, async (req, res) => {
     try {
@@ -5194,6 +5684,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (cleanedGoal.updatedAt && typeof cleanedGoal.updatedAt === 'string') {
         cleanedGoal.updatedAt = new Date(cleanedGoal.updatedAt);
       }
+      if (cleanedGoal.calorieCycling !== undefined) {
+        cleanedGoal.calorieCycling = normalizeCalorieCyclingSettings(cleanedGoal.calorieCycling);
+      }
       
       const goal = await storage.updateDietGoal(userId, cleanedGoal);
       
@@ -5226,6 +5719,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Calorie cycling plan for the week containing ?date (training / rest / refeed targets per day)
+  app.get("/api/diet-goals/calorie-cycling", requireAuth, async (req, res) => {
+    try {
+      const userId = Number(req.userId);
+      const date = req.query.date ? new Date(req.query.date as string) : new Date();
+      if (isNaN(date.getTime())) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+
+      const dietGoal = await storage.getDietGoal(userId);
+      const weeks = await CalorieCyclingService.getWeeks(userId, dietGoal, date);
+
+      res.json({
+        settings: normalizeCalorieCyclingSettings(dietGoal?.calorieCycling),
+        week: weeks ? weeks[0] : null
+      });
+    } catch (error: any) {
+      console.error('Calorie cycling plan error:', error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
   // Advanced Macro Management API endpoints
   const { AdvancedMacroManagementService } = await import("./services/advanced-macro-management");
 
@@ -5672,128 +6187,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/training/mesocycles", requireAuth, async (req, res) => {
     try {
       const userId = req.userId;
-      const { name, totalWeeks, trainingDaysPerWeek, dayTemplates } = req.body;
+      const { name, totalWeeks, trainingDaysPerWeek, dayTemplates, progressionSchemes } = req.body;
       
-      console.log('Creating mesocycle with day templates:', { name, totalWeeks, trainingDaysPerWeek, dayTemplates });
+      console.log('Creating mesocycle with day templates:', { name, totalWeeks, trainingDaysPerWeek, dayTemplates, progressionSchemes });
       
-      // Create mesocycle with training schedule
-      const mesocycleData = {
-        userId: Number(userId),
+      const { mesocycle, sessionsCreated } = await UnifiedMesocycleTemplate.createMesocycleFromSavedTemplates(Number(userId), {
         name,
         totalWeeks,
-        currentWeek: 1,
-        startDate: new Date(),
-        endDate: new Date(Date.now() + totalWeeks * 7 * 24 * 60 * 60 * 1000),
-        programId: null,
-        templateId: null
-      };
-      
-      const [mesocycle] = await db.insert(mesocycles).values(mesocycleData).returning();
-      
-      // Generate workout sessions for the entire mesocycle based on day templates
-      if (dayTemplates && Object.keys(dayTemplates).length > 0) {
-        console.log('Generating workout sessions for mesocycle...');
-        
-        const sessionsToCreate = [];
-        const startDate = new Date(mesocycle.startDate);
-        
-        // Only generate sessions for Week 1 - subsequent weeks created via "Advance Week"
-        const week = 1;
-        const weekStartDate = new Date(startDate);
-        
-        // Generate sessions for each training day in Week 1
-        for (let day = 1; day <= trainingDaysPerWeek; day++) {
-          const templateId = dayTemplates[day.toString()];
-          
-          if (templateId) {
-            // Get the saved workout template
-            const savedTemplate = await db.select().from(savedWorkoutTemplates).where(eq(savedWorkoutTemplates.id, templateId)).limit(1);
-            if (savedTemplate.length > 0) {
-              const template = savedTemplate[0];
-              // Calculate session date (distribute training days across the week)
-              const sessionDate = new Date(weekStartDate);
-              const dayOffset = Math.floor((day - 1) * 7 / trainingDaysPerWeek);
-              sessionDate.setDate(weekStartDate.getDate() + dayOffset);
-              
-              const sessionData = {
-                userId: Number(userId),
-                mesocycleId: mesocycle.id,
-                programId: null,
-                date: sessionDate,
-                name: `${template.name} - Week ${week} Day ${day}`,
-                isCompleted: false,
-                totalVolume: 0,
-                duration: template.estimatedDuration,
-                version: "2.0",
-                features: { spinnerSetInput: true, gestureNavigation: true },
-                algorithm: "RP_BASED",
-                week: week
-              };
-              
-              sessionsToCreate.push(sessionData);
-            }
-          }
-        }
-        
-        // Create all sessions at once
-        if (sessionsToCreate.length > 0) {
-          try {
-            const createdSessions = await db.insert(workoutSessions).values(sessionsToCreate).returning();
-            console.log(`✅ Created ${createdSessions.length} workout sessions for mesocycle`);
-            
-            // Create exercises for each Week 1 session based on the template
-            for (let i = 0; i < createdSessions.length; i++) {
-              const session = createdSessions[i];
-              const day = i + 1; // Since we only have Week 1 sessions
-              const templateId = dayTemplates[day.toString()];
-              
-              if (templateId) {
-                try {
-                  const savedTemplateResult = await db.select().from(savedWorkoutTemplates).where(eq(savedWorkoutTemplates.id, templateId)).limit(1);
-                  const savedTemplate = savedTemplateResult.length > 0 ? savedTemplateResult[0] : null;
-                  
-                  if (savedTemplate && savedTemplate.exerciseTemplates) {
-                    const exerciseTemplates = Array.isArray(savedTemplate.exerciseTemplates) 
-                      ? savedTemplate.exerciseTemplates 
-                      : JSON.parse(savedTemplate.exerciseTemplates as string);
-                    
-                    const exerciseInserts = exerciseTemplates.map((exercise: any, index: number) => ({
-                      sessionId: session.id,
-                      exerciseId: exercise.exerciseId,
-                      orderIndex: exercise.orderIndex || index,
-                      sets: exercise.sets,
-                      targetReps: exercise.targetReps,
-                      weight: null,
-                      restPeriod: exercise.restPeriod,
-                      specialMethod: exercise.specialMethod || null,
-                      specialConfig: exercise.specialConfig || null,
-                      notes: exercise.notes || null
-                    }));
-                    
-                    if (exerciseInserts.length > 0) {
-                      await db.insert(workoutExercises).values(exerciseInserts);
-                      console.log(`✅ Created ${exerciseInserts.length} exercises for session: ${session.name}`);
-                    }
-                  }
-                } catch (exerciseError) {
-                  console.error(`Error creating exercises for session ${session.id}:`, exerciseError);
-                  // Continue with other sessions even if one fails
-                }
-              }
-            }
-          } catch (sessionError) {
-            console.error('Error creating workout sessions:', sessionError);
-            throw new Error(`Failed to create workout sessions: ${sessionError instanceof Error ? sessionError.message : 'Unknown error'}`);
-          }
-        }
-      }
+        trainingDaysPerWeek,
+        dayTemplates: dayTemplates || {},
+        progressionSchemes
+      });
       
       res.json({ 
         id: mesocycle.id, 
         message: "Mesocycle created successfully with Week 1 sessions",
         trainingDaysPerWeek,
         dayTemplates,
-        sessionsCreated: Object.keys(dayTemplates).filter(day => dayTemplates[day]).length, // Only Week 1 sessions
+        sessionsCreated, // Only Week 1 sessions
         note: "Subsequent weeks will be generated via Advance Week with AI-driven adjustments"
       });
     } catch (error) {
@@ -5880,6 +6291,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Deload automation - proposals, scheduling and trigger settings
+  app.get("/api/training/deload/recommendations", requireAuth, async (req, res) => {
+    try {
+      const mesocycleId = req.query.mesocycleId ? parseInt(req.query.mesocycleId as string) : undefined;
+      const recommendations = await DeloadAutomation.getRecommendations(Number(req.userId), mesocycleId);
+      res.json(recommendations);
+    } catch (error) {
+      console.error("Error fetching deload recommendations:", error);
+      res.status(500).json({ message: "Failed to fetch deload recommendations" });
+    }
+  });
+
+  app.post("/api/training/deload/evaluate", requireAuth, async (req, res) => {
+    try {
+      const recommendation = await DeloadAutomation.evaluate(Number(req.userId));
+      res.json({ recommendation });
+    } catch (error) {
+      console.error("Error evaluating deload trigger:", error);
+      res.status(500).json({ message: "Failed to evaluate deload trigger" });
+    }
+  });
+
+  app.post("/api/training/deload/recommendations/:id/schedule", requireAuth, async (req, res) => {
+    try {
+      const recommendation = await DeloadAutomation.scheduleDeload(Number(req.userId), parseInt(req.params.id));
+      res.json(recommendation);
+    } catch (error: any) {
+      console.error("Error scheduling deload:", error);
+      res.status(error.message?.includes('not found') ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/training/deload/recommendations/:id/dismiss", requireAuth, async (req, res) => {
+    try {
+      const recommendation = await DeloadAutomation.dismissDeload(Number(req.userId), parseInt(req.params.id));
+      res.json(recommendation);
+    } catch (error: any) {
+      console.error("Error dismissing deload:", error);
+      res.status(error.message?.includes('not found') ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/training/deload/settings", requireAuth, async (req, res) => {
+    try {
+      const settings = await DeloadAutomation.getSettings(Number(req.userId));
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching deload settings:", error);
+      res.status(500).json({ message: "Failed to fetch deload settings" });
+    }
+  });
+
+  app.put("/api/training/deload/settings", requireAuth, async (req, res) => {
+    try {
+      const settings = await DeloadAutomation.updateSettings(Number(req.userId), req.body);
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating deload settings:", error);
+      res.status(500).json({ message: "Failed to update deload settings" });
+    }
+  });
+
   // Training templates
   app.get("/api/training/templates", requireAuth, async (req, res) => {
     try {
@@ -6297,7 +6770,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       for (const exercise of historicalExercises) {
         if (exercise.setsData && Array.isArray(exercise.setsData)) {
-          for (const set of exercise.setsData as any[]) {
+          for (const set of getWorkingSets(exercise.setsData as any[])) {
             // If setNumber is provided, only include matching set numbers
             if (!isNaN(setNumber) && setNumber > 0 && set.setNumber !== setNumber) {
               continue;
@@ -6311,7 +6784,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 rpe: set.rpe,
                 setNumber: set.setNumber,
                 date: exercise.date,
-                weightUnit: exercise.weightUnit || 'kg' // CRITICAL FIX: Include weight unit in historical data
+                weightUnit: exercise.weightUnit || 'kg', // CRITICAL FIX: Include weight unit in historical data
+                painScore: typeof set.painScore === 'number' ? set.painScore : null
               });
             }
           }
@@ -6328,6 +6802,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get estimated 1RM strength curve for an exercise
+  app.get("/api/training/exercise-history/:exerciseId/e1rm", requireAuth, async (req, res) => {
+    try {
+      const exerciseId = parseInt(req.params.exerciseId);
+      const userId = Number(req.userId);
+      const unit = req.query.unit === 'lbs' ? 'lbs' : 'kg';
+      const formula = req.query.formula as string | undefined;
+      const limit = parseInt(req.query.limit as string) || 50;
+
+      if (isNaN(exerciseId)) {
+        return res.status(400).json({ message: "Invalid exercise ID" });
+      }
+
+      if (formula && !['epley', 'brzycki', 'rpe_table'].includes(formula)) {
+        return res.status(400).json({ message: "Invalid formula. Use epley, brzycki or rpe_table" });
+      }
+
+      const curve = await StrengthTracking.getE1RMHistory(userId, exerciseId, {
+        unit,
+        formula: formula as 'epley' | 'brzycki' | 'rpe_table' | undefined,
+        limit
+      });
+
+      res.json(curve);
+    } catch (error: any) {
+      console.error('E1RM history error:', error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Get personal records (optionally filtered by exercise)
+  app.get("/api/training/personal-records", requireAuth, async (req, res) => {
+    try {
+      const userId = Number(req.userId);
+      const exerciseId = req.query.exerciseId ? parseInt(req.query.exerciseId as string) : undefined;
+
+      if (exerciseId !== undefined && isNaN(exerciseId)) {
+        return res.status(400).json({ message: "Invalid exercise ID" });
+      }
+
+      const records = await StrengthTracking.getPersonalRecords(userId, exerciseId);
+      res.json(records);
+    } catch (error: any) {
+      console.error('Personal records error:', error);
+      res.status(500).json({ message: "Failed to fetch personal records" });
+    }
+  });
+
+  // Workout history import from Strong / Hevy / FitNotes CSV exports
+  // Step 1: parse and match exercise names, nothing is written to the training log yet
+  app.post("/api/training/import/preview", requireAuth, async (req, res) => {
+    try {
+      const userId = Number(req.userId);
+      const { content, source, weightUnit, fileName } = req.body;
+
+      if (!content || typeof content !== 'string') {
+        return res.status(400).json({ message: "CSV content is required" });
+      }
+      if (source && !['strong', 'hevy', 'fitnotes'].includes(source)) {
+        return res.status(400).json({ message: "Unsupported source" });
+      }
+
+      const preview = await WorkoutImportService.createPreview(userId, content, {
+        source,
+        weightUnit: weightUnit === 'lbs' ? 'lbs' : weightUnit === 'kg' ? 'kg' : undefined,
+        fileName
+      });
+      res.json(preview);
+    } catch (error: any) {
+      console.error('Workout import preview error:', error);
+      res.status(400).json({ message: error.message });
+    }
+  });
+
+  // Step 2: confirm the reviewed exercise mapping ({ [sourceName]: exerciseId | null to skip })
+  app.post("/api/training/import/:importId/confirm", requireAuth, async (req, res) => {
+    try {
+      const userId = Number(req.userId);
+      const importId = parseInt(req.params.importId);
+
+      if (isNaN(importId)) {
+        return res.status(400).json({ message: "Invalid import ID" });
+      }
+
+      const result = await WorkoutImportService.confirmImport(userId, importId, req.body.mapping || {});
+      res.json(result);
+    } catch (error: any) {
+      console.error('Workout import confirm error:', error);
+      res.status(error.message.includes('not found') ? 404 : 400).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/training/imports", requireAuth, async (req, res) => {
+    try {
+      const imports = await WorkoutImportService.getImports(Number(req.userId));
+      res.json(imports);
+    } catch (error: any) {
+      console.error('Workout imports error:', error);
+      res.status(500).json({ message: "Failed to fetch imports" });
+    }
+  });
+
   // Get exercise recommendations for specific session (for workout execution recommendations)
   app.get("/api/training/exercise-recommendations/:sessionId", requireAuth, async (req, res) => {
     try {
@@ -6373,6 +6949,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           primaryMuscle: exercises.primaryMuscle,
           muscleGroups: exercises.muscleGroups,
           equipment: exercises.equipment,
+          isBodyWeight: exercises.isBodyWeight,
+          weightUnit: workoutExercises.weightUnit,
           difficulty: exercises.difficulty,
           instructions: exercises.instructions,
           translations: exercises.translations
@@ -6385,6 +6963,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (sessionExercises.length === 0) {
         return res.json([]);
       }
+
+      // Recommended loads snap to what the user's active gym profile can build
+      const equipmentSetup = await EquipmentProfileService.getActiveSetup(session.userId);
       
       // Get mesocycle details to determine current week
       const mesocycle = await storage.getMesocycle(session.mesocycleId);
@@ -6395,6 +6976,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get exercise recommendations for each exercise in the session with set-specific recommendations
       const recommendations = await Promise.all(
         sessionExercises.map(async (exercise) => {
+          const loadingType = getLoadingType(exercise.equipment, exercise.isBodyWeight);
+          const roundLoad = (weight: number) => equipmentSetup
+            ? EquipmentProfileService.snapLoad(weight, exercise.weightUnit || 'kg', loadingType, equipmentSetup)
+            : Math.round(weight * 4) / 4; // Round to nearest 0.25kg
+
           try {
             // Get recent performance data for this exercise
             const recentPerformance = await db
@@ -6432,6 +7018,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
               minReps = Math.max(1, targetNum - 2);
               maxReps = targetNum + 2;
             }
+
+            // Exercises the mesocycle puts on double progression, linear or a percentage wave take their sets from the scheme
+            const schemeConfig = getExerciseScheme(mesocycle.progressionSchemes, exercise.exerciseId);
+            if (schemeConfig.scheme !== 'rpe' && recentPerformance.length > 0) {
+              const weightUnit = exercise.weightUnit || 'kg';
+              const lastWeight = parseFloat(recentPerformance[0].weight || '0');
+              const prescription = await LoadProgression.prescribeSets(session.userId, exercise.exerciseId, schemeConfig, {
+                week: mesocycle.currentWeek,
+                totalSets: parseInt(exercise.sets?.toString() || '3'),
+                targetReps: exercise.targetReps,
+                currentWeight: lastWeight,
+                setReps: (recentPerformance[0].reps || '').split(',').map(r => parseInt(r)).filter(r => !isNaN(r)),
+                averageRir: recentPerformance[0].rir,
+                increment: getWeightIncrement(exercise.exerciseName, loadingType, lastWeight, weightUnit, equipmentSetup),
+                weightUnit
+              });
+
+              return {
+                exerciseId: exercise.exerciseId,
+                exerciseName: exercise.exerciseName,
+                sets: prescription.sets.map(set => ({
+                  setNumber: set.setNumber,
+                  recommendedWeight: roundLoad(set.weight),
+                  recommendedReps: set.reps,
+                  recommendedRpe: set.rpe,
+                  amrap: set.amrap
+                })),
+                week: mesocycle.currentWeek,
+                scheme: prescription.scheme,
+                reasoning: `Week ${mesocycle.currentWeek} ${PROGRESSION_SCHEMES[prescription.scheme].label} - ${prescription.reasoning.join('. ')}`,
+                movementPattern: exercise.movementPattern,
+                primaryMuscle: exercise.primaryMuscle,
+                difficulty: exercise.difficulty
+              };
+            }
             
             if (recentPerformance.length === 0) {
               // No previous data, generate progressive set recommendations
@@ -6469,7 +7090,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 
                 return {
                   setNumber,
-                  recommendedWeight: Math.round(setWeight * 4) / 4,
+                  recommendedWeight: roundLoad(setWeight),
                   recommendedReps: setReps,
                   recommendedRpe: Math.round(setRpe * 2) / 2 // Round to 0.5
                 };
@@ -6590,7 +7211,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               
               return {
                 setNumber,
-                recommendedWeight: Math.round(setWeight * 4) / 4, // Round to nearest 0.25kg
+                recommendedWeight: roundLoad(setWeight),
                 recommendedReps: Math.max(1, setReps),
                 recommendedRpe: Math.max(6, Math.min(9.5, Math.round(setRpe * 2) / 2)) // Round to 0.5, clamp 6-9.5
               };
@@ -6717,7 +7338,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Check if setsData contains data for the specific set number
           const setsData = record.setsData as any;
           if (setsData && Array.isArray(setsData)) {
-            return setsData.some((setData: any) => setData.setNumber === setNumber);
+            return getWorkingSets<any>(setsData).some((setData: any) => setData.setNumber === setNumber);
           }
           return true; // Include if no setsData filtering is possible
         });
@@ -6831,6 +7452,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Session Customization API Routes
   const { SessionCustomization } = await import("./services/session-customization");
+  const { ExerciseSubstitutionService } = await import("./services/exercise-substitution");
   const { MesocycleSessionGenerator } = await import("./services/mesocycle-session-generator");
   const { UnifiedMesocycleTemplate } = await import("./services/unified-mesocycle-template");
 
@@ -6884,6 +7506,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ranked substitutes for an exercise in a session
+  app.get("/api/training/sessions/:sessionId/exercises/:exerciseId/substitutes", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      const exerciseId = parseInt(req.params.exerciseId);
+      const excludeEquipment = typeof req.query.exclude === 'string'
+        ? req.query.exclude.split(',').filter(Boolean)
+        : [];
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      
+      const result = await ExerciseSubstitutionService.suggestSubstitutes(
+        Number(req.userId),
+        sessionId,
+        exerciseId,
+        { excludeEquipment, limit }
+      );
+      
+      res.json(result);
+    } catch (error: any) {
+      console.error("Error suggesting substitutes:", error);
+      res.status(error.message?.includes('not found') ? 404 : 500).json({ error: error.message });
+    }
+  });
+
   // Substitute exercise in session
   app.put("/api/training/sessions/:sessionId/exercises/:exerciseId/substitute", requireAuth, async (req, res) => {
     try {
@@ -6891,19 +7537,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const oldExerciseId = parseInt(req.params.exerciseId);
       const { newExerciseId } = req.body;
       
-      await SessionCustomization.substituteExercise(
+      const plan = await SessionCustomization.substituteExercise(
         sessionId, 
         oldExerciseId, 
-        newExerciseId
+        newExerciseId,
+        Number(req.userId)
       );
       
       res.json({ 
         success: true,
-        message: "Exercise substituted in session and future weeks"
+        message: "Exercise substituted in session and future weeks",
+        ...plan
       });
     } catch (error: any) {
       console.error("Error substituting exercise:", error);
-      res.status(500).json({ error: error.message });
+      res.status(error.message?.includes('not found') ? 404 : 500).json({ error: error.message });
     }
   });
 
@@ -0,0 +1,130 @@
+import { Router } from 'express';
+import { AICoachService, COACH_SERVICE } from '../services/ai-coach';
+import { aiUsageGuard } from '../services/ai-usage';
+
+const router = Router();
+
+// Use the global auth middleware - routes are mounted behind requireAuth
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+function errorStatus(error: any): number {
+  return error.message?.includes('not found') ? 404 : 400;
+}
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+// Conversations of the signed-in user, most recently active first
+router.get('/conversations', async (req, res) => {
+  try {
+    const conversations = await AICoachService.getConversations(Number(req.userId));
+    res.json(conversations);
+  } catch (error) {
+    console.error('Get coach conversations error:', error);
+    res.status(500).json({ message: 'Failed to fetch conversations' });
+  }
+});
+
+router.post('/conversations', async (req, res) => {
+  try {
+    const conversation = await AICoachService.createConversation(Number(req.userId), req.body?.title);
+    res.status(201).json(conversation);
+  } catch (error) {
+    console.error('Create coach conversation error:', error);
+    res.status(500).json({ message: 'Failed to create conversation' });
+  }
+});
+
+// Conversation with its messages (including tool results the answers cite) and proposed actions
+router.get('/conversations/:id', async (req, res) => {
+  try {
+    const conversationId = parseId(req.params.id);
+    if (conversationId === null) {
+      return res.status(400).json({ message: 'Invalid conversation ID' });
+    }
+
+    const conversation = await AICoachService.getConversation(Number(req.userId), conversationId);
+    res.json(conversation);
+  } catch (error: any) {
+    console.error('Get coach conversation error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to fetch conversation' });
+  }
+});
+
+router.delete('/conversations/:id', async (req, res) => {
+  try {
+    const conversationId = parseId(req.params.id);
+    if (conversationId === null) {
+      return res.status(400).json({ message: 'Invalid conversation ID' });
+    }
+
+    await AICoachService.deleteConversation(Number(req.userId), conversationId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete coach conversation error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to delete conversation' });
+  }
+});
+
+// Ask the coach - answers cite the tool results they used, write tools come back as pending actions
+router.post('/conversations/:id/messages', aiUsageGuard(COACH_SERVICE), async (req, res) => {
+  try {
+    const conversationId = parseId(req.params.id);
+    if (conversationId === null) {
+      return res.status(400).json({ message: 'Invalid conversation ID' });
+    }
+
+    const { content } = req.body;
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ message: 'Message content is required' });
+    }
+    if (content.length > MAX_MESSAGE_LENGTH) {
+      return res.status(400).json({ message: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` });
+    }
+
+    const reply = await AICoachService.sendMessage(Number(req.userId), conversationId, content.trim());
+    res.json(reply);
+  } catch (error: any) {
+    console.error('Coach message error:', error);
+    if (error.message?.includes('not found')) {
+      return res.status(404).json({ message: error.message });
+    }
+    res.status(500).json({ message: 'The coach could not answer right now', error: error.message });
+  }
+});
+
+// Confirm or reject a write action the coach proposed
+router.post('/actions/:actionId/confirm', async (req, res) => {
+  try {
+    const actionId = parseId(req.params.actionId);
+    if (actionId === null) {
+      return res.status(400).json({ message: 'Invalid action ID' });
+    }
+
+    const action = await AICoachService.confirmAction(Number(req.userId), actionId);
+    res.status(action.status === 'failed' ? 422 : 200).json(action);
+  } catch (error: any) {
+    console.error('Confirm coach action error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to confirm action' });
+  }
+});
+
+router.post('/actions/:actionId/reject', async (req, res) => {
+  try {
+    const actionId = parseId(req.params.actionId);
+    if (actionId === null) {
+      return res.status(400).json({ message: 'Invalid action ID' });
+    }
+
+    const action = await AICoachService.rejectAction(Number(req.userId), actionId);
+    res.json(action);
+  } catch (error: any) {
+    console.error('Reject coach action error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to reject action' });
+  }
+});
+
+export default router;
@@ -1,13 +1,25 @@
 // AI Monitoring Dashboard and Baseline Metrics API
 // Provides endpoints for tracking AI performance during migration
 
-import { Router } from 'express';
+import { Router, type Request, type Response, type NextFunction } from 'express';
 import { aiPerformanceMonitor } from '../services/ai-performance-monitor';
 import { promptRegistry, getCurrentBaselineMetrics } from '../services/ai-prompt-registry';
-import { AI_CONFIG, AB_TEST_CONFIG } from '../config/ai-config';
+import { AI_CONFIG, AB_TEST_CONFIG, getAIOperatorUserIds } from '../config/ai-config';
+import { AIExperimentService } from '../services/ai-experiments';
 
 const router = Router();
 
+// Prompts, experiments, config and cross-user metrics are for operators only
+function requireAIOperator(req: Request, res: Response, next: NextFunction) {
+  if (req.userId && getAIOperatorUserIds().includes(String(req.userId))) {
+    return next();
+  }
+  res.status(403).json({ message: 'AI operator access required' });
+}
+
+// Every route here exposes cross-user metrics, prompts or config - new ones are covered by default
+router.use(requireAIOperator);
+
 // Get current AI configuration
 router.get('/config', (req, res) => {
   try {
@@ -23,19 +35,19 @@ router.get('/config', (req, res) => {
 });
 
 // Get performance metrics dashboard
-router.get('/performance', (req, res) => {
+router.get('/performance', async (req, res) => {
   try {
     const hours = parseInt(req.query.hours as string) || 24;
     const service = req.query.service as string;
     const model = req.query.model as string;
 
-    const report = aiPerformanceMonitor.generateReport(hours);
-    const recentMetrics = aiPerformanceMonitor.getRecentMetrics(service, model, hours);
+    const report = await aiPerformanceMonitor.generateReport(hours);
+    const recentMetrics = await aiPerformanceMonitor.getRecentMetrics(service, model, hours, 50);
 
     res.json({
       timeframe: `${hours} hours`,
       report,
-      recentMetrics: recentMetrics.slice(0, 50), // Last 50 requests
+      recentMetrics, // Last 50 requests
       filters: { service, model },
       timestamp: new Date().toISOString()
     });
@@ -45,16 +57,24 @@ router.get('/performance', (req, res) => {
   }
 });
 
-// Get A/B test comparison report
-router.get('/ab-test-report', (req, res) => {
+// Get A/B test comparison report from stored metrics
+// ?experiment=<name> (defaults to the latest experiment, then the env A/B test), ?hours=<n> (defaults to all history)
+router.get('/ab-test-report', async (req, res) => {
   try {
-    const hours = parseInt(req.query.hours as string) || 24;
-    const report = aiPerformanceMonitor.generateABTestReport(hours);
+    const hours = parseInt(req.query.hours as string) || undefined;
+    let experimentName = req.query.experiment as string | undefined;
+    if (!experimentName) {
+      const [latest] = await AIExperimentService.getExperiments();
+      experimentName = latest?.name || AB_TEST_CONFIG.testName;
+    }
+
+    const report = await AIExperimentService.generateReport(experimentName, hours);
 
     res.json({
-      timeframe: `${hours} hours`,
+      timeframe: hours ? `${hours} hours` : 'all history',
+      experimentName,
       abTestConfig: AB_TEST_CONFIG,
-      comparison: report,
+      ...report,
       recommendations: generateABTestRecommendations(report),
       timestamp: new Date().toISOString()
     });
@@ -65,12 +85,12 @@ router.get('/ab-test-report', (req, res) => {
 });
 
 // Get baseline metrics for current GPT-4o performance
-router.get('/baseline', (req, res) => {
+router.get('/baseline', async (req, res) => {
   try {
     const hours = parseInt(req.query.hours as string) || 168; // Default 1 week
     
     // Get current performance metrics
-    const performanceReport = aiPerformanceMonitor.generateReport(hours);
+    const performanceReport = await aiPerformanceMonitor.generateReport(hours);
     
     // Get prompt templates and their current status
     const promptBaselines = getCurrentBaselineMetrics();
@@ -113,6 +133,83 @@ router.get('/prompts', (req, res) => {
   }
 });
 
+// Store an edited prompt as a new active version
+router.put('/prompts/:promptId', async (req, res) => {
+  try {
+    const { systemPrompt, userPromptTemplate, parameters, description } = req.body;
+    const prompt = await promptRegistry.updatePrompt(
+      req.params.promptId,
+      { systemPrompt, userPromptTemplate, parameters, description },
+      Number(req.userId)
+    );
+    res.json(prompt);
+  } catch (error: any) {
+    console.error('Error updating prompt:', error);
+    res.status(error.message?.includes('not found') ? 404 : 400).json({ message: error.message || 'Failed to update prompt' });
+  }
+});
+
+// Version history of a prompt
+router.get('/prompts/:promptId/versions', async (req, res) => {
+  try {
+    const history = await promptRegistry.getPromptVersions(req.params.promptId);
+    if (!history.builtIn && history.versions.length === 0) {
+      return res.status(404).json({ message: `Prompt '${req.params.promptId}' not found` });
+    }
+    res.json(history);
+  } catch (error) {
+    console.error('Error fetching prompt versions:', error);
+    res.status(500).json({ message: 'Failed to fetch prompt versions' });
+  }
+});
+
+// Make a stored (or the built-in) version the active one
+router.post('/prompts/:promptId/versions/:version/activate', async (req, res) => {
+  try {
+    const prompt = await promptRegistry.activateVersion(req.params.promptId, req.params.version);
+    res.json(prompt);
+  } catch (error: any) {
+    console.error('Error activating prompt version:', error);
+    res.status(error.message?.includes('not found') ? 404 : 400).json({ message: error.message || 'Failed to activate prompt version' });
+  }
+});
+
+// Experiments - prompt or model variants with deterministic user assignment
+router.get('/experiments', async (req, res) => {
+  try {
+    const experiments = await AIExperimentService.getExperiments();
+    res.json(experiments);
+  } catch (error) {
+    console.error('Error fetching experiments:', error);
+    res.status(500).json({ message: 'Failed to fetch experiments' });
+  }
+});
+
+router.post('/experiments', async (req, res) => {
+  try {
+    const { name, service, variants, description } = req.body;
+    const experiment = await AIExperimentService.createExperiment({ name, service, variants, description }, Number(req.userId));
+    res.status(201).json(experiment);
+  } catch (error: any) {
+    console.error('Error creating experiment:', error);
+    res.status(400).json({ message: error.message || 'Failed to create experiment' });
+  }
+});
+
+router.put('/experiments/:id/status', async (req, res) => {
+  try {
+    const { status } = req.body;
+    if (!['active', 'paused', 'completed'].includes(status)) {
+      return res.status(400).json({ message: 'Status must be active, paused or completed' });
+    }
+    const experiment = await AIExperimentService.updateStatus(parseInt(req.params.id), status);
+    res.json(experiment);
+  } catch (error: any) {
+    console.error('Error updating experiment:', error);
+    res.status(error.message?.includes('not found') ? 404 : 400).json({ message: error.message || 'Failed to update experiment' });
+  }
+});
+
 // Export prompt templates for backup/documentation
 router.get('/prompts/export', (req, res) => {
   try {
@@ -128,9 +225,9 @@ router.get('/prompts/export', (req, res) => {
 });
 
 // Health check for monitoring systems
-router.get('/health', (req, res) => {
+router.get('/health', async (req, res) => {
   try {
-    const recentMetrics = aiPerformanceMonitor.getRecentMetrics(undefined, undefined, 1);
+    const recentMetrics = await aiPerformanceMonitor.getRecentMetrics(undefined, undefined, 1, 1000);
     const promptCount = Object.keys(promptRegistry.getAllPrompts()).length;
     
     const healthStatus = {
@@ -159,39 +256,50 @@ router.get('/health', (req, res) => {
   }
 });
 
-// Generate A/B test recommendations
-function generateABTestRecommendations(report: any): string[] {
+// Generate A/B test recommendations - only differences that pass the significance test are called out
+function generateABTestRecommendations(report: Awaited<ReturnType<typeof AIExperimentService.generateReport>>): string[] {
   const recommendations: string[] = [];
-  const { controlGroup, testGroup, comparison } = report;
+  const { variants, comparisons } = report;
 
-  if (testGroup.requests === 0) {
-    recommendations.push('No test group data available - ensure A/B testing is properly configured');
+  if (variants.length < 2 || variants.slice(1).every(variant => variant.requests === 0)) {
+    recommendations.push('No test group data available - ensure the experiment is active and receiving traffic');
     return recommendations;
   }
 
-  if (comparison.responseTimeDiff < -50) {
-    recommendations.push(`Test model is ${Math.abs(comparison.responseTimeDiff)}ms faster - positive performance indicator`);
-  } else if (comparison.responseTimeDiff > 100) {
-    recommendations.push(`Test model is ${comparison.responseTimeDiff}ms slower - consider optimization`);
-  }
-
-  if (comparison.successRateDiff < -2) {
-    recommendations.push(`Test model success rate is ${Math.abs(comparison.successRateDiff).toFixed(1)}% lower - investigate failure causes`);
-  } else if (comparison.successRateDiff > 2) {
-    recommendations.push(`Test model success rate is ${comparison.successRateDiff.toFixed(1)}% higher - positive reliability indicator`);
-  }
+  for (const comparison of comparisons) {
+    const untested = comparison.tests.every(test => test.pValue === null);
+    if (untested) {
+      recommendations.push(`Variant '${comparison.variant}' needs at least 30 requests per group before significance can be assessed`);
+      continue;
+    }
 
-  if (comparison.costDiff < 0) {
-    const costSavings = Math.abs(comparison.costDiff * 1000000).toFixed(2);
-    recommendations.push(`Test model saves $${costSavings} per million tokens - significant cost benefit`);
-  }
+    for (const test of comparison.tests.filter(test => test.significant)) {
+      const direction = test.difference > 0 ? 'higher' : 'lower';
+      switch (test.metric) {
+        case 'responseTime':
+          recommendations.push(`Variant '${comparison.variant}' is ${Math.abs(test.difference)}ms ${test.difference > 0 ? 'slower' : 'faster'} (p=${test.pValue})`);
+          break;
+        case 'successRate':
+          recommendations.push(`Variant '${comparison.variant}' success rate is ${Math.abs(test.difference).toFixed(1)}% ${direction} (p=${test.pValue})`);
+          break;
+        case 'jsonParseRate':
+          recommendations.push(`Variant '${comparison.variant}' JSON parse rate is ${Math.abs(test.difference).toFixed(1)}% ${direction} (p=${test.pValue})${test.difference < 0 ? ' - may need prompt optimization' : ''}`);
+          break;
+        case 'rating':
+          recommendations.push(`Variant '${comparison.variant}' user rating is ${Math.abs(test.difference)} points ${direction} (p=${test.pValue})`);
+          break;
+      }
+    }
 
-  if (comparison.jsonParseRateDiff < -1) {
-    recommendations.push(`Test model JSON parse rate is ${Math.abs(comparison.jsonParseRateDiff).toFixed(1)}% lower - may need prompt optimization`);
+    const control = variants[0];
+    const variant = variants.find(stats => stats.variant === comparison.variant);
+    if (variant && variant.avgCost < control.avgCost) {
+      recommendations.push(`Variant '${comparison.variant}' costs $${(control.avgCost - variant.avgCost).toFixed(6)} less per request`);
+    }
   }
 
   if (recommendations.length === 0) {
-    recommendations.push('Performance metrics are within acceptable variance ranges');
+    recommendations.push('No statistically significant differences between variants');
   }
 
   return recommendations;
@@ -1,24 +1,47 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import OpenAI from 'openai';
-import { selectModelForUser } from '../config/ai-config';
-import { monitorAICall, aiPerformanceMonitor } from '../services/ai-performance-monitor';
-import { promptRegistry } from '../services/ai-prompt-registry';
+import { monitorAICall, aiPerformanceMonitor, createAIRequestId } from '../services/ai-performance-monitor';
+import { AIExperimentService } from '../services/ai-experiments';
+import { aiClient } from '../services/ai-provider';
+import { NutritionEstimateFeedbackService } from '../services/nutrition-estimate-feedback';
+import { AIUsageService, aiUsageGuard } from '../services/ai-usage';
+import {
+  parseWithRepair,
+  exerciseRecommendationsResponseSchema,
+  foodImageAnalysisSchema,
+  nutritionReportSchema,
+  ExerciseNameValidator
+} from '../services/ai-output-validation';
+import { InjuryService } from '../services/injuries';
+import { describeInjuries, shouldAvoidExercise, type InjuryConstraint } from '@shared/utils/injury-constraints';
 
 const router = Router();
 
 // Use the global auth middleware - no need for custom auth in AI routes
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Active injuries go into the body ahead of the usage guard, so a new or resolved injury misses the response cache
+async function attachActiveInjuries(req: Request, res: Response, next: NextFunction) {
+  try {
+    req.body = { ...req.body, activeInjuries: await InjuryService.getActiveConstraints(Number(req.userId)) };
+  } catch (error) {
+    console.error('Failed to load active injuries:', error);
+  }
+  next();
+}
 
 // AI Exercise Recommendations
-router.post('/exercise-recommendations', async (req, res) => {
+router.post('/exercise-recommendations', attachActiveInjuries, aiUsageGuard('exercise-recommendations', { cache: true }), async (req, res) => {
   try {
     const { userGoals, currentExercises, trainingHistory, muscleGroupFocus, experienceLevel, availableEquipment, timeConstraints, injuryRestrictions } = req.body;
+    const activeInjuries: InjuryConstraint[] = req.body.activeInjuries || [];
     const userId = req.userId;
 
+    // Free-text restrictions from the request plus the recorded injuries; library exercises they rule out aren't offered
+    const restrictions = [
+      ...(Array.isArray(injuryRestrictions) ? injuryRestrictions : [injuryRestrictions]).filter((item: unknown) => typeof item === 'string' && item.trim()),
+      ...describeInjuries(activeInjuries)
+    ];
+    const allowedExercises = (currentExercises || []).filter((ex: any) => !shouldAvoidExercise(ex.name || '', activeInjuries));
+
     // Debug logging
     console.log('AI Exercise Recommendations Request:');
     console.log('- User Goals:', userGoals);
@@ -28,14 +51,14 @@ router.post('/exercise-recommendations', async (req, res) => {
     console.log('- Current Exercises count:', currentExercises?.length || 0);
     console.log('- Current Exercises sample:', currentExercises?.slice(0, 3)?.map((ex: any) => ({ name: ex.name, category: ex.category })) || 'None');
     console.log('- Training History count:', trainingHistory?.length || 0);
+    console.log('- Injury Restrictions:', restrictions);
 
-    // Select appropriate model for user (with A/B testing support)
-    const modelConfig = selectModelForUser('exerciseRecommendations', userId);
-    const abTestGroup = process.env.AI_AB_TEST_ENABLED === 'true' ? 
-      (modelConfig.name === process.env.AI_AB_TEST_MODEL ? 'test' : 'control') : 
-      undefined;
+    // Model and prompt for this user - experiment variant when one is running for the service
+    const assignment = await AIExperimentService.resolve('exercise-recommendations', 'exerciseRecommendations', userId);
+    const modelConfig = assignment.model;
+    const requestId = createAIRequestId();
 
-    const systemPrompt = `You are an expert fitness coach. You MUST always respond with valid JSON containing a recommendations array with at least 4 exercises.
+    const systemPrompt = assignment.prompt?.systemPrompt || `You are an expert fitness coach. You MUST always respond with valid JSON containing a recommendations array with at least 4 exercises.
 
     Your response MUST follow this exact format:
     {
@@ -70,15 +93,17 @@ router.post('/exercise-recommendations', async (req, res) => {
     - Muscle Focus: ${muscleGroupFocus?.join(', ') || 'Full body'}
     - Experience: ${experienceLevel || 'intermediate'}
     - Equipment: ${availableEquipment?.join(', ') || 'Full gym'}
+    - Injury Restrictions: ${restrictions.join('; ') || 'None'}
 
     Exercise Library (MUST use exact names):
-    ${currentExercises?.slice(0, 50).map((ex: any) => `"${ex.name}"`).join(', ') || 'Bench Press, Squats, Deadlifts, Pull-ups, Rows'}
+    ${allowedExercises.slice(0, 50).map((ex: any) => `"${ex.name}"`).join(', ') || 'Bench Press, Squats, Deadlifts, Pull-ups, Rows'}
 
     Requirements:
     1. MUST return JSON with "recommendations" array containing exactly 4-5 exercises
     2. MUST use exact exercise names from library above
     3. MUST target muscle groups: ${muscleGroupFocus?.join(', ') || 'all'}
     4. Each exercise needs: exerciseName, category, primaryMuscle, muscleGroups, equipment, difficulty, sets, reps, restPeriod, reasoning, progressionNotes, specialMethod, specialConfig, rpIntensity, volumeContribution
+    5. MUST NOT recommend exercises that load the injury restrictions above
 
     Respond with JSON only - no other text.`;
 
@@ -87,80 +112,83 @@ router.post('/exercise-recommendations', async (req, res) => {
       service: 'exercise-recommendations',
       model: modelConfig.name,
       userId,
-      abTestGroup,
+      requestId,
+      provider: modelConfig.provider,
+      promptVersion: assignment.promptVersion,
+      experimentName: assignment.experimentName,
+      variant: assignment.variant,
+      abTestGroup: assignment.abTestGroup,
       inputTokens: Math.ceil((systemPrompt + userPrompt).length / 4), // Rough estimate
       costPerInputToken: modelConfig.costPerToken.input,
       costPerOutputToken: modelConfig.costPerToken.output
     }, async () => {
-      const params: any = {
-        model: modelConfig.name,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-        response_format: { type: "json_object" },
-        max_completion_tokens: modelConfig.maxTokens
-      };
+      const response = await aiClient.createCompletion({
+        model: modelConfig,
+        systemPrompt,
+        userPrompt,
+        responseFormat: { type: "json_object" }
+      });
+      
+      console.log('Raw AI response content:', response.content);
 
-      // Only add temperature for non-GPT-5 models (GPT-5 only supports default value of 1)
-      if (!modelConfig.name.startsWith('gpt-5')) {
-        params.temperature = modelConfig.temperature;
-      }
+      // The prompt asks for library names only - enforce it, with one repair round for schema or name problems
+      const library = await ExerciseNameValidator.getLibrary(Number(userId));
+      const aiResponse = await parseWithRepair(exerciseRecommendationsResponseSchema, response.content, {
+        label: 'exercise recommendations',
+        model: modelConfig,
+        systemPrompt,
+        userPrompt,
+        check: data => ExerciseNameValidator.findUnknownNames(data.recommendations, library, index => `recommendations.${index}`)
+      });
+
+      const resolved = ExerciseNameValidator.resolveRecommendations(aiResponse.recommendations, library);
+
+      // The model doesn't always respect the restrictions - drop anything an active injury rules out
+      const injuryExcluded = resolved.items
+        .filter(recommendation => shouldAvoidExercise(recommendation.exerciseName, activeInjuries))
+        .map(recommendation => recommendation.exerciseName);
+      const recommendations = resolved.items
+        .filter(recommendation => !injuryExcluded.includes(recommendation.exerciseName))
+        .map((recommendation, index) => ({
+          ...recommendation,
+          orderInSession: recommendation.orderInSession ?? index + 1
+        }));
 
-      const response = await openai.chat.completions.create(params);
-      
-      console.log('Raw AI response content:', response.choices[0].message.content);
-      
-      let aiResponse;
-      try {
-        aiResponse = JSON.parse(response.choices[0].message.content || '{}');
-      } catch (parseError) {
-        console.error('JSON parsing error:', parseError);
-        console.error('Raw content that failed to parse:', response.choices[0].message.content);
-        // Return a fallback response
-        aiResponse = {
-          recommendations: [],
-          reasoning: "Failed to parse AI response",
-          rpConsiderations: "Error in AI processing",
-          progressionPlan: "Please try again"
-        };
-      }
-      
-      // Validate and ensure we have recommendations
-      const recommendations = aiResponse.recommendations || [];
       console.log('AI Response validation:');
       console.log('- Recommendations count:', recommendations.length);
       console.log('- Requested muscle groups:', muscleGroupFocus);
-      console.log('- Recommended exercises with muscles:', recommendations.map((r: any) => ({ 
+      console.log('- Recommended exercises with muscles:', recommendations.map(r => ({ 
         name: r.exerciseName, 
         primary: r.primaryMuscle, 
         groups: r.muscleGroups 
       })));
       
       // Check muscle group coverage
-      const targetedMuscles = new Set();
-      recommendations.forEach((rec: any) => {
-        if (rec.primaryMuscle) targetedMuscles.add(rec.primaryMuscle);
-        if (rec.muscleGroups && Array.isArray(rec.muscleGroups)) {
-          rec.muscleGroups.forEach((muscle: string) => targetedMuscles.add(muscle));
-        }
+      const targetedMuscles = new Set<string>();
+      recommendations.forEach(rec => {
+        targetedMuscles.add(rec.primaryMuscle);
+        rec.muscleGroups.forEach(muscle => targetedMuscles.add(muscle));
       });
       console.log('- Muscle groups covered:', Array.from(targetedMuscles));
       
       if (recommendations.length === 0) {
-        console.warn('AI returned no recommendations - this should not happen');
-        // Log the full AI response for debugging
-        console.log('Full AI response:', JSON.stringify(aiResponse, null, 2));
+        throw new Error(injuryExcluded.length > 0
+          ? 'Every recommended exercise conflicts with an active injury'
+          : 'None of the recommended exercises are in the exercise library');
       }
       
       return {
         recommendations: recommendations,
         reasoning: aiResponse.reasoning || 'AI analysis completed successfully.',
         rpConsiderations: aiResponse.rpConsiderations || 'Applied evidence-based training principles.',
-        progressionPlan: aiResponse.progressionPlan || 'Progress gradually with consistent training.'
+        progressionPlan: aiResponse.progressionPlan || 'Progress gradually with consistent training.',
+        mappedExercises: resolved.mapped,
+        rejectedExercises: resolved.rejected,
+        injuryExcludedExercises: injuryExcluded
       };
     });
 
+    res.setHeader('X-AI-Request-Id', requestId);
     res.json(result);
 
   } catch (error: any) {
@@ -173,7 +201,7 @@ router.post('/exercise-recommendations', async (req, res) => {
 });
 
 // AI Nutrition Analysis
-router.post('/nutrition-analysis', async (req, res) => {
+router.post('/nutrition-analysis', aiUsageGuard('nutrition-analysis'), async (req, res) => {
   try {
     const { userProfile, nutritionData, timeRange, healthConditions, primaryGoal } = req.body;
     const userId = Number(req.userId);
@@ -389,13 +417,12 @@ router.post('/nutrition-analysis', async (req, res) => {
       });
     });
 
-    // Select appropriate model for user (with A/B testing support)
-    const modelConfig = selectModelForUser('nutritionAnalysis', userId ? userId.toString() : '1');
-    const abTestGroup = process.env.AI_AB_TEST_ENABLED === 'true' ? 
-      (modelConfig.name === process.env.AI_AB_TEST_MODEL ? 'test' : 'control') : 
-      undefined;
+    // Model and prompt for this user - experiment variant when one is running for the service
+    const assignment = await AIExperimentService.resolve('nutrition-analysis', 'nutritionAnalysis', userId ? userId.toString() : '1');
+    const modelConfig = assignment.model;
+    const requestId = createAIRequestId();
 
-    const systemPrompt = `You are an expert nutrition scientist and registered dietitian specializing in comprehensive nutritional analysis. You provide detailed micronutrient analysis, RDA comparisons, and personalized nutrition recommendations based on individual health profiles and dietary intake data.
+    const systemPrompt = assignment.prompt?.systemPrompt || `You are an expert nutrition scientist and registered dietitian specializing in comprehensive nutritional analysis. You provide detailed micronutrient analysis, RDA comparisons, and personalized nutrition recommendations based on individual health profiles and dietary intake data.
 
     Your expertise includes:
     1. Micronutrient analysis and deficiency identification
@@ -489,34 +516,37 @@ router.post('/nutrition-analysis', async (req, res) => {
       "nextSteps": ["string"]
     }`;
 
-    // Monitor AI call performance using GPT-5 Adapter
-    const { GPT5Adapter } = await import('../services/gpt5-adapter');
-    const gpt5Adapter = new GPT5Adapter();
-
+    // Monitor AI call performance
     const result = await monitorAICall({
       service: 'nutrition-analysis',
       model: modelConfig.name,
       userId: userId ? userId.toString() : '1',
-      abTestGroup,
+      requestId,
+      provider: modelConfig.provider,
+      promptVersion: assignment.promptVersion,
+      experimentName: assignment.experimentName,
+      variant: assignment.variant,
+      abTestGroup: assignment.abTestGroup,
       inputTokens: Math.ceil((systemPrompt + userPrompt).length / 4), // Rough estimate
       costPerInputToken: modelConfig.costPerToken.input,
       costPerOutputToken: modelConfig.costPerToken.output
     }, async () => {
-      const response = await gpt5Adapter.createCompletion({
+      const response = await aiClient.createCompletion({
         model: modelConfig,
         systemPrompt,
         userPrompt,
         responseFormat: { type: "json_object" }
       });
 
-      const responseContent = response.content;
-      if (!responseContent) {
-        throw new Error('Empty response from AI');
-      }
-
-      return JSON.parse(responseContent);
+      return parseWithRepair(nutritionReportSchema, response.content, {
+        label: 'nutrition analysis',
+        model: modelConfig,
+        systemPrompt,
+        userPrompt
+      });
     });
 
+    res.setHeader('X-AI-Request-Id', requestId);
     res.json(result);
 
   } catch (error: any) {
@@ -529,23 +559,31 @@ router.post('/nutrition-analysis', async (req, res) => {
 });
 
 // AI Food Analysis from Image
-router.post('/food-analysis', async (req, res) => {
+router.post('/food-analysis', aiUsageGuard('food-analysis', { cache: true }), async (req, res) => {
   try {
     const { image, context } = req.body;
     const userId = req.userId;
 
-    // Select appropriate model for user (with A/B testing support)
-    const modelConfig = selectModelForUser('foodAnalysis', userId);
-    const abTestGroup = process.env.AI_AB_TEST_ENABLED === 'true' ? 
-      (modelConfig.name === process.env.AI_AB_TEST_MODEL ? 'test' : 'control') : 
-      undefined;
+    // Model and prompt for this user - experiment variant when one is running for the service
+    const assignment = await AIExperimentService.resolve('food-analysis', 'foodAnalysis', userId);
+    const modelConfig = assignment.model;
+    const requestId = createAIRequestId();
 
-    const systemPrompt = `You are an expert food recognition and nutrition analysis AI. You can identify foods from images and provide detailed nutritional information. Analyze food images with high accuracy and provide comprehensive nutrition data.`;
+    const systemPrompt = assignment.prompt?.systemPrompt || `You are an expert food recognition and nutrition analysis AI. You can identify foods from images and provide detailed nutritional information. Analyze food images with high accuracy and provide comprehensive nutrition data.`;
+
+    // The user's past corrections teach the model their typical portion sizes
+    const correctionContext = await NutritionEstimateFeedbackService.buildPromptContext(
+      Number(userId),
+      context?.foodName,
+      'food-analysis'
+    );
 
     const userPrompt = `Analyze this food image and provide detailed nutritional information:
 
+    ${context?.foodName ? `Food: ${context.foodName}` : ''}
     ${context?.mealType ? `Meal Type: ${context.mealType}` : ''}
     ${context?.estimatedPortion ? `Estimated Portion: ${context.estimatedPortion}` : ''}
+    ${correctionContext}
 
     Provide analysis in JSON format:
     {
@@ -574,21 +612,23 @@ router.post('/food-analysis', async (req, res) => {
       "suggestions": ["string"]
     }`;
 
-    // Monitor AI call performance using GPT-5 Adapter
-    const { GPT5Adapter } = await import('../services/gpt5-adapter');
-    const gpt5Adapter = new GPT5Adapter();
-
+    // Monitor AI call performance
     const result = await monitorAICall({
       service: 'food-analysis',
       model: modelConfig.name,
       userId,
-      abTestGroup,
+      requestId,
+      provider: modelConfig.provider,
+      promptVersion: assignment.promptVersion,
+      experimentName: assignment.experimentName,
+      variant: assignment.variant,
+      abTestGroup: assignment.abTestGroup,
       inputTokens: Math.ceil((systemPrompt + userPrompt).length / 4), // Rough estimate
       costPerInputToken: modelConfig.costPerToken.input,
       costPerOutputToken: modelConfig.costPerToken.output
     }, async () => {
       // For image analysis, we need to use the vision capabilities
-      const response = await gpt5Adapter.createVisionCompletion(
+      const response = await aiClient.createVisionCompletion(
         modelConfig,
         systemPrompt,
         userPrompt,
@@ -596,14 +636,15 @@ router.post('/food-analysis', async (req, res) => {
         { type: "json_object" }
       );
 
-      const responseContent = response.content;
-      if (!responseContent) {
-        throw new Error('Empty response from AI');
-      }
-
-      return JSON.parse(responseContent);
+      return parseWithRepair(foodImageAnalysisSchema, response.content, {
+        label: 'food image analysis',
+        model: modelConfig,
+        systemPrompt,
+        userPrompt
+      });
     });
 
+    res.setHeader('X-AI-Request-Id', requestId);
     res.json(result);
 
   } catch (error: any) {
@@ -616,18 +657,17 @@ router.post('/food-analysis', async (req, res) => {
 });
 
 // Program Optimization Analysis
-router.post('/program-optimization', async (req, res) => {
+router.post('/program-optimization', aiUsageGuard('program-optimization', { cache: true }), async (req, res) => {
   try {
     const { currentProgram, userGoals, performanceData } = req.body;
     const userId = req.userId;
 
-    // Select appropriate model for user (with A/B testing support)
-    const modelConfig = selectModelForUser('programOptimization', userId);
-    const abTestGroup = process.env.AI_AB_TEST_ENABLED === 'true' ? 
-      (modelConfig.name === process.env.AI_AB_TEST_MODEL ? 'test' : 'control') : 
-      undefined;
+    // Model and prompt for this user - experiment variant when one is running for the service
+    const assignment = await AIExperimentService.resolve('program-optimization', 'programOptimization', userId);
+    const modelConfig = assignment.model;
+    const requestId = createAIRequestId();
 
-    const systemPrompt = `You are an expert evidence-based fitness analyst. Analyze training programs for optimization opportunities based on:
+    const systemPrompt = assignment.prompt?.systemPrompt || `You are an expert evidence-based fitness analyst. Analyze training programs for optimization opportunities based on:
     1. Volume distribution across muscle groups
     2. Exercise selection efficiency 
     3. Fatigue management
@@ -652,31 +692,27 @@ router.post('/program-optimization', async (req, res) => {
       service: 'program-optimization',
       model: modelConfig.name,
       userId,
-      abTestGroup,
+      requestId,
+      provider: modelConfig.provider,
+      promptVersion: assignment.promptVersion,
+      experimentName: assignment.experimentName,
+      variant: assignment.variant,
+      abTestGroup: assignment.abTestGroup,
       inputTokens: Math.ceil((systemPrompt + userPrompt).length / 4), // Rough estimate
       costPerInputToken: modelConfig.costPerToken.input,
       costPerOutputToken: modelConfig.costPerToken.output
     }, async () => {
-      const params: any = {
-        model: modelConfig.name,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt }
-        ],
-        response_format: { type: "json_object" },
-        max_completion_tokens: modelConfig.maxTokens
-      };
-
-      // Only add temperature for non-GPT-5 models
-      if (!modelConfig.name.startsWith('gpt-5')) {
-        params.temperature = modelConfig.temperature;
-      }
-
-      const response = await openai.chat.completions.create(params);
+      const response = await aiClient.createCompletion({
+        model: modelConfig,
+        systemPrompt,
+        userPrompt,
+        responseFormat: { type: "json_object" }
+      });
 
-      return JSON.parse(response.choices[0].message.content || '{}');
+      return JSON.parse(response.content || '{}');
     });
 
+    res.setHeader('X-AI-Request-Id', requestId);
     res.json(result);
 
   } catch (error: any) {
@@ -688,4 +724,37 @@ router.post('/program-optimization', async (req, res) => {
   }
 });
 
+// Rate an AI response (1-5) - the request ID comes from the X-AI-Request-Id response header
+router.post('/requests/:requestId/rating', async (req, res) => {
+  try {
+    const rating = Number(req.body.rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return res.status(400).json({ message: 'Rating must be an integer from 1 to 5' });
+    }
+
+    await aiPerformanceMonitor.recordQuality(
+      req.params.requestId,
+      Number(req.userId),
+      rating,
+      typeof req.body.feedback === 'string' ? req.body.feedback.slice(0, 1000) : undefined
+    );
+
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error rating AI response:', error);
+    res.status(error.message?.includes('not found') ? 404 : 400).json({ message: error.message || 'Failed to save rating' });
+  }
+});
+
+// Remaining daily/monthly AI allowance for the current user
+router.get('/usage', async (req, res) => {
+  try {
+    const usage = await AIUsageService.getUsageSummary(Number(req.userId));
+    res.json(usage);
+  } catch (error: any) {
+    console.error('Error getting AI usage:', error);
+    res.status(500).json({ message: 'Failed to get AI usage' });
+  }
+});
+
 export default router;
\ No newline at end of file
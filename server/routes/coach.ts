@@ -0,0 +1,214 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { CoachAccessService, type CoachPermission } from '../services/coach-access';
+import { emailService } from '../services/email-service';
+
+const router = Router();
+
+// Use the global auth middleware - routes are mounted behind requireAuth
+
+/**
+ * Every athlete-data route goes through this check. The coach must have an active
+ * relationship with the athlete in :athleteId that grants the given permission.
+ */
+function requireCoachPermission(permission: CoachPermission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const coachId = Number(req.userId);
+      const athleteId = parseInt(req.params.athleteId);
+      if (isNaN(athleteId)) {
+        return res.status(400).json({ message: 'Invalid athlete ID' });
+      }
+
+      const relationship = await CoachAccessService.checkPermission(coachId, athleteId, permission);
+      if (!relationship) {
+        return res.status(403).json({ message: `You do not have ${permission} access for this athlete` });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Coach permission check error:', error);
+      res.status(500).json({ message: 'Failed to verify coach access' });
+    }
+  };
+}
+
+function parseDateRange(query: Request['query']) {
+  const from = typeof query.from === 'string' ? new Date(query.from) : undefined;
+  const to = typeof query.to === 'string' ? new Date(query.to) : undefined;
+  return {
+    from: from && !isNaN(from.getTime()) ? from : undefined,
+    to: to && !isNaN(to.getTime()) ? to : undefined
+  };
+}
+
+function errorStatus(error: any): number {
+  return error.message?.includes('not found') ? 404 : 400;
+}
+
+// --- Coach side ---
+
+// Invite an athlete by email
+router.post('/invitations', async (req, res) => {
+  try {
+    const coachId = Number(req.userId);
+    const { email, permissions, message } = req.body;
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ message: 'Athlete email is required' });
+    }
+
+    const { invitation, coach } = await CoachAccessService.inviteAthlete(coachId, email, permissions, message);
+
+    const baseUrl = process.env.BASE_URL || process.env.REPLIT_DOMAIN || 'https://mytrainpro.com';
+    const emailSent = await emailService.sendCoachInvitationEmail(
+      invitation.inviteEmail,
+      coach.name,
+      `${baseUrl}/profile?coachInvite=${invitation.inviteToken}`
+    );
+
+    const { inviteToken, ...invitationData } = invitation;
+    res.status(201).json({ invitation: invitationData, emailSent });
+  } catch (error: any) {
+    console.error('Coach invitation error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to send invitation' });
+  }
+});
+
+// Athletes and pending invitations for the signed-in coach
+router.get('/athletes', async (req, res) => {
+  try {
+    const athletes = await CoachAccessService.getAthletes(Number(req.userId));
+    res.json(athletes);
+  } catch (error) {
+    console.error('Get coach athletes error:', error);
+    res.status(500).json({ message: 'Failed to fetch athletes' });
+  }
+});
+
+router.get('/athletes/:athleteId/nutrition-logs', requireCoachPermission('nutrition'), async (req, res) => {
+  try {
+    const logs = await CoachAccessService.getAthleteNutritionLogs(parseInt(req.params.athleteId), parseDateRange(req.query));
+    res.json(logs);
+  } catch (error) {
+    console.error('Get athlete nutrition logs error:', error);
+    res.status(500).json({ message: 'Failed to fetch nutrition logs' });
+  }
+});
+
+router.get('/athletes/:athleteId/wellness-checkins', requireCoachPermission('wellness'), async (req, res) => {
+  try {
+    const checkins = await CoachAccessService.getAthleteWellnessCheckins(parseInt(req.params.athleteId), parseDateRange(req.query));
+    res.json(checkins);
+  } catch (error) {
+    console.error('Get athlete wellness checkins error:', error);
+    res.status(500).json({ message: 'Failed to fetch wellness check-ins' });
+  }
+});
+
+router.get('/athletes/:athleteId/sessions', requireCoachPermission('training'), async (req, res) => {
+  try {
+    const sessions = await CoachAccessService.getAthleteSessions(parseInt(req.params.athleteId), parseDateRange(req.query));
+    res.json(sessions);
+  } catch (error) {
+    console.error('Get athlete sessions error:', error);
+    res.status(500).json({ message: 'Failed to fetch session history' });
+  }
+});
+
+// Assign a mesocycle from a training template or saved workout templates
+router.post('/athletes/:athleteId/mesocycles', requireCoachPermission('assign_programs'), async (req, res) => {
+  try {
+    const { trainingTemplateId, savedWorkoutTemplateId, savedWorkoutTemplateIds, name, startDate, totalWeeks } = req.body;
+    const parsedStartDate = startDate ? new Date(startDate) : undefined;
+    if (parsedStartDate && isNaN(parsedStartDate.getTime())) {
+      return res.status(400).json({ message: 'Invalid start date' });
+    }
+
+    const result = await CoachAccessService.assignMesocycle(Number(req.userId), parseInt(req.params.athleteId), {
+      trainingTemplateId: trainingTemplateId ? Number(trainingTemplateId) : undefined,
+      savedWorkoutTemplateIds: Array.isArray(savedWorkoutTemplateIds)
+        ? savedWorkoutTemplateIds.map(Number)
+        : savedWorkoutTemplateId ? [Number(savedWorkoutTemplateId)] : undefined,
+      name,
+      startDate: parsedStartDate,
+      totalWeeks: totalWeeks ? Number(totalWeeks) : undefined
+    });
+
+    res.status(201).json(result);
+  } catch (error: any) {
+    console.error('Assign mesocycle error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to assign mesocycle' });
+  }
+});
+
+// --- Athlete side ---
+
+router.get('/invitations/received', async (req, res) => {
+  try {
+    const invitations = await CoachAccessService.getReceivedInvitations(Number(req.userId));
+    res.json(invitations);
+  } catch (error: any) {
+    console.error('Get coach invitations error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to fetch invitations' });
+  }
+});
+
+router.post('/invitations/accept', async (req, res) => {
+  try {
+    const { invitationId, token } = req.body;
+    const relationship = await CoachAccessService.acceptInvitation(Number(req.userId), {
+      id: invitationId ? Number(invitationId) : undefined,
+      token
+    });
+    res.json({ id: relationship.id, coachId: relationship.coachId, permissions: relationship.permissions, status: relationship.status });
+  } catch (error: any) {
+    console.error('Accept coach invitation error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to accept invitation' });
+  }
+});
+
+router.post('/invitations/decline', async (req, res) => {
+  try {
+    const { invitationId, token } = req.body;
+    await CoachAccessService.declineInvitation(Number(req.userId), {
+      id: invitationId ? Number(invitationId) : undefined,
+      token
+    });
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Decline coach invitation error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to decline invitation' });
+  }
+});
+
+router.get('/coaches', async (req, res) => {
+  try {
+    const coaches = await CoachAccessService.getCoaches(Number(req.userId));
+    res.json(coaches);
+  } catch (error) {
+    console.error('Get coaches error:', error);
+    res.status(500).json({ message: 'Failed to fetch coaches' });
+  }
+});
+
+router.put('/relationships/:id/permissions', async (req, res) => {
+  try {
+    const relationship = await CoachAccessService.updatePermissions(Number(req.userId), parseInt(req.params.id), req.body.permissions);
+    res.json({ id: relationship.id, permissions: relationship.permissions });
+  } catch (error: any) {
+    console.error('Update coach permissions error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to update permissions' });
+  }
+});
+
+// Revoke access (athlete) or end the relationship / cancel the invite (coach)
+router.delete('/relationships/:id', async (req, res) => {
+  try {
+    await CoachAccessService.revokeRelationship(Number(req.userId), parseInt(req.params.id));
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Revoke coach access error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to revoke access' });
+  }
+});
+
+export default router;
@@ -0,0 +1,108 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { EquipmentProfileService } from '../services/equipment-profiles';
+
+const router = Router();
+
+// Use the global auth middleware - routes are mounted behind requireAuth
+
+function errorStatus(error: any): number {
+  return error.message?.includes('not found') ? 404 : 400;
+}
+
+function errorMessage(error: any, fallback: string): string {
+  if (error instanceof z.ZodError) {
+    return error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+  }
+  return error.message || fallback;
+}
+
+function parseProfileId(value: string): number | null {
+  const profileId = parseInt(value);
+  return isNaN(profileId) ? null : profileId;
+}
+
+// All of the user's gyms, active profile first
+router.get('/', async (req, res) => {
+  try {
+    const profiles = await EquipmentProfileService.listProfiles(Number(req.userId));
+    res.json(profiles);
+  } catch (error) {
+    console.error('Get equipment profiles error:', error);
+    res.status(500).json({ message: 'Failed to fetch equipment profiles' });
+  }
+});
+
+// The profile recommendations and plate math use - null until the user creates one
+router.get('/active', async (req, res) => {
+  try {
+    const profile = await EquipmentProfileService.getActiveProfile(Number(req.userId));
+    res.json(profile);
+  } catch (error) {
+    console.error('Get active equipment profile error:', error);
+    res.status(500).json({ message: 'Failed to fetch active equipment profile' });
+  }
+});
+
+// Create a profile - omitted equipment is filled from the default commercial gym setup for the unit
+router.post('/', async (req, res) => {
+  try {
+    if (!req.body?.name || typeof req.body.name !== 'string') {
+      return res.status(400).json({ message: 'Profile name is required' });
+    }
+
+    const profile = await EquipmentProfileService.createProfile(Number(req.userId), req.body);
+    res.status(201).json(profile);
+  } catch (error: any) {
+    console.error('Create equipment profile error:', error);
+    res.status(errorStatus(error)).json({ message: errorMessage(error, 'Failed to create equipment profile') });
+  }
+});
+
+router.put('/:id', async (req, res) => {
+  try {
+    const profileId = parseProfileId(req.params.id);
+    if (profileId === null) {
+      return res.status(400).json({ message: 'Invalid profile ID' });
+    }
+
+    const profile = await EquipmentProfileService.updateProfile(Number(req.userId), profileId, req.body);
+    res.json(profile);
+  } catch (error: any) {
+    console.error('Update equipment profile error:', error);
+    res.status(errorStatus(error)).json({ message: errorMessage(error, 'Failed to update equipment profile') });
+  }
+});
+
+// Switch gyms
+router.post('/:id/activate', async (req, res) => {
+  try {
+    const profileId = parseProfileId(req.params.id);
+    if (profileId === null) {
+      return res.status(400).json({ message: 'Invalid profile ID' });
+    }
+
+    const profile = await EquipmentProfileService.activateProfile(Number(req.userId), profileId);
+    res.json(profile);
+  } catch (error: any) {
+    console.error('Activate equipment profile error:', error);
+    res.status(errorStatus(error)).json({ message: errorMessage(error, 'Failed to activate equipment profile') });
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const profileId = parseProfileId(req.params.id);
+    if (profileId === null) {
+      return res.status(400).json({ message: 'Invalid profile ID' });
+    }
+
+    await EquipmentProfileService.deleteProfile(Number(req.userId), profileId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete equipment profile error:', error);
+    res.status(errorStatus(error)).json({ message: errorMessage(error, 'Failed to delete equipment profile') });
+  }
+});
+
+export default router;
@@ -0,0 +1,141 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { InjuryService } from '../services/injuries';
+import { ExerciseSubstitutionService } from '../services/exercise-substitution';
+
+const router = Router();
+
+// Use the global auth middleware - routes are mounted behind requireAuth
+
+function errorStatus(error: any): number {
+  return error.message?.includes('not found') ? 404 : 400;
+}
+
+function errorMessage(error: any, fallback: string): string {
+  if (error instanceof z.ZodError) {
+    return error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ');
+  }
+  return error.message || fallback;
+}
+
+function parseId(value: unknown): number | null {
+  const id = parseInt(value as string);
+  return isNaN(id) ? null : id;
+}
+
+// All of the user's injuries, active ones first
+router.get('/', async (req, res) => {
+  try {
+    const injuries = await InjuryService.listInjuries(Number(req.userId));
+    res.json(injuries);
+  } catch (error) {
+    console.error('Get injuries error:', error);
+    res.status(500).json({ message: 'Failed to fetch injuries' });
+  }
+});
+
+router.get('/active', async (req, res) => {
+  try {
+    const injuries = await InjuryService.getActiveInjuries(Number(req.userId));
+    res.json(injuries);
+  } catch (error) {
+    console.error('Get active injuries error:', error);
+    res.status(500).json({ message: 'Failed to fetch active injuries' });
+  }
+});
+
+// Session pain scores with their trend - for one exercise, or the exercises aggravating one injury
+router.get('/pain-trend', async (req, res) => {
+  try {
+    const exerciseId = req.query.exerciseId ? parseId(req.query.exerciseId) : undefined;
+    const injuryId = req.query.injuryId ? parseId(req.query.injuryId) : undefined;
+    if (exerciseId === null || injuryId === null) {
+      return res.status(400).json({ message: 'Invalid exercise or injury ID' });
+    }
+
+    const history = await InjuryService.getPainHistory(Number(req.userId), {
+      exerciseId,
+      injuryId,
+      limit: parseId(req.query.limit) || undefined
+    });
+    res.json(history);
+  } catch (error: any) {
+    console.error('Get pain trend error:', error);
+    res.status(errorStatus(error)).json({ message: errorMessage(error, 'Failed to fetch pain trend') });
+  }
+});
+
+// Planned exercises an active injury rules out, with substitutes that avoid it
+router.get('/upcoming-substitutions', async (req, res) => {
+  try {
+    const days = Math.min(Math.max(parseId(req.query.days) || 14, 1), 42);
+    const substitutions = await ExerciseSubstitutionService.suggestInjurySubstitutions(Number(req.userId), days);
+    res.json(substitutions);
+  } catch (error) {
+    console.error('Get injury substitutions error:', error);
+    res.status(500).json({ message: 'Failed to fetch injury substitutions' });
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    const injury = await InjuryService.createInjury(Number(req.userId), req.body);
+    res.status(201).json(injury);
+  } catch (error: any) {
+    console.error('Create injury error:', error);
+    res.status(errorStatus(error)).json({ message: errorMessage(error, 'Failed to record injury') });
+  }
+});
+
+router.put('/:id', async (req, res) => {
+  try {
+    const injuryId = parseId(req.params.id);
+    if (injuryId === null) {
+      return res.status(400).json({ message: 'Invalid injury ID' });
+    }
+
+    const injury = await InjuryService.updateInjury(Number(req.userId), injuryId, req.body || {});
+    res.json(injury);
+  } catch (error: any) {
+    console.error('Update injury error:', error);
+    res.status(errorStatus(error)).json({ message: errorMessage(error, 'Failed to update injury') });
+  }
+});
+
+// Mark resolved - defaults to today
+router.post('/:id/resolve', async (req, res) => {
+  try {
+    const injuryId = parseId(req.params.id);
+    if (injuryId === null) {
+      return res.status(400).json({ message: 'Invalid injury ID' });
+    }
+
+    const resolvedDate = req.body?.resolvedDate ? new Date(req.body.resolvedDate) : new Date();
+    if (isNaN(resolvedDate.getTime())) {
+      return res.status(400).json({ message: 'Invalid resolved date' });
+    }
+
+    const injury = await InjuryService.resolveInjury(Number(req.userId), injuryId, resolvedDate);
+    res.json(injury);
+  } catch (error: any) {
+    console.error('Resolve injury error:', error);
+    res.status(errorStatus(error)).json({ message: errorMessage(error, 'Failed to resolve injury') });
+  }
+});
+
+router.delete('/:id', async (req, res) => {
+  try {
+    const injuryId = parseId(req.params.id);
+    if (injuryId === null) {
+      return res.status(400).json({ message: 'Invalid injury ID' });
+    }
+
+    await InjuryService.deleteInjury(Number(req.userId), injuryId);
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Delete injury error:', error);
+    res.status(errorStatus(error)).json({ message: errorMessage(error, 'Failed to delete injury') });
+  }
+});
+
+export default router;
@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { UserSessionService } from '../services/user-sessions';
+import { AuthSecurityService, getClientIP } from '../services/auth-security';
+
+const router = Router();
+
+// Use the global auth middleware - routes are mounted behind requireAuth
+
+function errorStatus(error: any): number {
+  return error.message?.includes('not found') ? 404 : 400;
+}
+
+// Active sessions of the signed-in user, current one first
+router.get('/', async (req, res) => {
+  try {
+    const sessions = await UserSessionService.listSessions(Number(req.userId), req.sessionID);
+    res.json(sessions);
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ message: 'Failed to fetch sessions' });
+  }
+});
+
+// Sign out every other device
+router.delete('/', async (req, res) => {
+  try {
+    const userId = Number(req.userId);
+    const revoked = await UserSessionService.revokeSessions(userId, req.sessionID);
+    await AuthSecurityService.logEvent('sessions_revoked', {
+      userId,
+      ipAddress: getClientIP(req),
+      userAgent: req.get('User-Agent') || null,
+      details: { revoked, scope: 'others' }
+    });
+    res.json({ revoked });
+  } catch (error) {
+    console.error('Revoke other sessions error:', error);
+    res.status(500).json({ message: 'Failed to sign out other devices' });
+  }
+});
+
+// Sign out one other device
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = Number(req.userId);
+    await UserSessionService.revokeSession(userId, req.params.id, req.sessionID);
+    await AuthSecurityService.logEvent('sessions_revoked', {
+      userId,
+      ipAddress: getClientIP(req),
+      userAgent: req.get('User-Agent') || null,
+      details: { revoked: 1, scope: 'single' }
+    });
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Revoke session error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to sign out device' });
+  }
+});
+
+export default router;
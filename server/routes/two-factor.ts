@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import { TwoFactorService, TRUSTED_DEVICE_COOKIE } from '../services/two-factor';
+import { AuthSecurityService, authRateLimit, getClientIP } from '../services/auth-security';
+import { storage } from '../storage-db';
+
+const router = Router();
+
+// Use the global auth middleware - routes are mounted behind requireAuth
+
+function errorStatus(error: any): number {
+  if (error.message?.includes('not found')) return 404;
+  return error.message?.includes('Invalid authentication code') ? 401 : 400;
+}
+
+function securityContext(req: any) {
+  return {
+    userId: Number(req.userId),
+    ipAddress: getClientIP(req),
+    userAgent: req.get('User-Agent') || null
+  };
+}
+
+// Whether 2FA is on, recovery codes left and remembered devices
+router.get('/', async (req, res) => {
+  try {
+    const status = await TwoFactorService.getStatus(Number(req.userId));
+    res.json(status);
+  } catch (error) {
+    console.error('Get 2FA status error:', error);
+    res.status(500).json({ message: 'Failed to fetch two-factor status' });
+  }
+});
+
+// Start enrolment - the otpauth:// URI is what the authenticator app scans as a QR code
+router.post('/setup', async (req, res) => {
+  try {
+    const user = await storage.getUser(Number(req.userId));
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const enrollment = await TwoFactorService.beginEnrollment(user.id, user.email);
+    res.json(enrollment);
+  } catch (error: any) {
+    console.error('2FA setup error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm enrolment with a first code - the recovery codes are only returned here
+router.post('/enable', authRateLimit('twoFactor'), async (req, res) => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ message: 'Authentication code is required' });
+    }
+
+    const recoveryCodes = await TwoFactorService.confirmEnrollment(Number(req.userId), code);
+    await AuthSecurityService.logEvent('two_factor_enabled', securityContext(req));
+    res.json({ enabled: true, recoveryCodes });
+  } catch (error: any) {
+    console.error('2FA enable error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to enable two-factor authentication' });
+  }
+});
+
+// Replace all recovery codes
+router.post('/recovery-codes', authRateLimit('twoFactor'), async (req, res) => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ message: 'Authentication code is required' });
+    }
+
+    const recoveryCodes = await TwoFactorService.regenerateRecoveryCodes(Number(req.userId), code);
+    await AuthSecurityService.logEvent('recovery_codes_regenerated', securityContext(req));
+    res.json({ recoveryCodes });
+  } catch (error: any) {
+    console.error('2FA recovery codes error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to regenerate recovery codes' });
+  }
+});
+
+// Turn 2FA off - needs a current code or a recovery code
+router.post('/disable', authRateLimit('twoFactor'), async (req, res) => {
+  try {
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ message: 'Authentication code is required' });
+    }
+
+    await TwoFactorService.disable(Number(req.userId), code);
+    await AuthSecurityService.logEvent('two_factor_disabled', securityContext(req));
+    res.clearCookie(TRUSTED_DEVICE_COOKIE, { path: '/' });
+    res.json({ enabled: false });
+  } catch (error: any) {
+    console.error('2FA disable error:', error);
+    res.status(errorStatus(error)).json({ message: error.message || 'Failed to disable two-factor authentication' });
+  }
+});
+
+// Forget all remembered devices, so every sign-in asks for a code again
+router.delete('/trusted-devices', async (req, res) => {
+  try {
+    const revoked = await TwoFactorService.revokeTrustedDevices(Number(req.userId));
+    await AuthSecurityService.logEvent('trusted_devices_revoked', { ...securityContext(req), details: { revoked } });
+    res.clearCookie(TRUSTED_DEVICE_COOKIE, { path: '/' });
+    res.json({ revoked });
+  } catch (error) {
+    console.error('Revoke trusted devices error:', error);
+    res.status(500).json({ message: 'Failed to forget trusted devices' });
+  }
+});
+
+export default router;
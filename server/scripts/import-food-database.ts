@@ -0,0 +1,182 @@
+/**
+ * Food Database Import Script
+ * Loads OpenFoodFacts and USDA FoodData Central bulk dumps into food_items
+ * so food search can be served locally.
+ *
+ * Usage:
+ *   tsx server/scripts/import-food-database.ts --source=openfoodfacts <file.csv|file.tsv|file.jsonl>
+ *   tsx server/scripts/import-food-database.ts --source=usda <file.json|file.jsonl>
+ *
+ * OpenFoodFacts: the products CSV/TSV export or the JSONL dump.
+ * USDA: the FoodData Central JSON downloads (Foundation, SR Legacy, Branded) or one food per JSONL line.
+ * Re-running an import refreshes existing rows instead of duplicating them.
+ */
+
+import { createReadStream, readFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { extname } from 'path';
+import type { InsertFoodItem } from '@shared/schema';
+import { FoodDatabaseService } from '../services/food-database';
+import { parseCSVLine, detectDelimiter } from '../utils/csv';
+
+const BATCH_SIZE = 500;
+
+type ImportSource = 'openfoodfacts' | 'usda';
+
+interface ImportStats {
+  read: number;
+  imported: number;
+  skipped: number;
+}
+
+class FoodImportBatcher {
+  private batch: InsertFoodItem[] = [];
+  stats: ImportStats = { read: 0, imported: 0, skipped: 0 };
+
+  async add(food: InsertFoodItem | null): Promise<void> {
+    this.stats.read++;
+    if (!food) {
+      this.stats.skipped++;
+      return;
+    }
+
+    this.batch.push(food);
+    if (this.batch.length >= BATCH_SIZE) {
+      await this.flush();
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.batch.length === 0) return;
+    this.stats.imported += await FoodDatabaseService.upsertFoods(this.batch);
+    this.batch = [];
+
+    if (this.stats.imported % (BATCH_SIZE * 20) < BATCH_SIZE) {
+      console.log(`📦 ${this.stats.imported} foods imported (${this.stats.read} rows read)`);
+    }
+  }
+}
+
+function normalize(source: ImportSource, record: any): InsertFoodItem | null {
+  return source === 'usda'
+    ? FoodDatabaseService.fromUSDAFood(record)
+    : FoodDatabaseService.fromOpenFoodFactsProduct(record);
+}
+
+/**
+ * Stream a CSV/TSV export line by line - OpenFoodFacts dumps are several GB
+ */
+async function importDelimited(filePath: string, source: ImportSource, batcher: FoodImportBatcher): Promise<void> {
+  const lines = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+  let headers: string[] | null = null;
+  let delimiter = extname(filePath) === '.tsv' ? '\t' : ',';
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    if (!headers) {
+      if (extname(filePath) !== '.tsv') delimiter = detectDelimiter(line);
+      headers = parseCSVLine(line, delimiter).map(header => header.trim());
+      continue;
+    }
+
+    const values = parseCSVLine(line, delimiter);
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = values[index] ?? '';
+    });
+
+    await batcher.add(normalize(source, record));
+  }
+}
+
+async function importJsonLines(filePath: string, source: ImportSource, batcher: FoodImportBatcher): Promise<void> {
+  const lines = createInterface({ input: createReadStream(filePath), crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      batcher.stats.read++;
+      batcher.stats.skipped++;
+      continue;
+    }
+
+    await batcher.add(normalize(source, record));
+  }
+}
+
+/**
+ * USDA JSON downloads wrap the foods in a single top-level array
+ * (FoundationFoods, SRLegacyFoods, BrandedFoods, SurveyFoods)
+ */
+async function importUSDAJson(filePath: string, batcher: FoodImportBatcher): Promise<void> {
+  const data = JSON.parse(readFileSync(filePath, 'utf-8'));
+  const foods: any[] = Array.isArray(data)
+    ? data
+    : Object.values(data).find(Array.isArray) as any[] || [];
+
+  for (const food of foods) {
+    await batcher.add(FoodDatabaseService.fromUSDAFood(food));
+  }
+}
+
+async function importFoodDatabase(source: ImportSource, filePath: string): Promise<ImportStats> {
+  console.log(`🍎 Importing ${source} foods from ${filePath}...`);
+
+  await FoodDatabaseService.ensureSearchExtensions();
+
+  const batcher = new FoodImportBatcher();
+  const extension = extname(filePath).toLowerCase();
+
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    await importJsonLines(filePath, source, batcher);
+  } else if (extension === '.json') {
+    if (source !== 'usda') {
+      throw new Error('Whole-file JSON is only supported for USDA downloads; use the OpenFoodFacts JSONL dump');
+    }
+    await importUSDAJson(filePath, batcher);
+  } else if (extension === '.csv' || extension === '.tsv') {
+    if (source !== 'openfoodfacts') {
+      throw new Error('CSV import is only supported for OpenFoodFacts; use the USDA JSON download');
+    }
+    await importDelimited(filePath, source, batcher);
+  } else {
+    throw new Error(`Unsupported file type: ${extension}`);
+  }
+
+  await batcher.flush();
+
+  console.log(`📊 Rows read: ${batcher.stats.read}`);
+  console.log(`✅ Foods imported: ${batcher.stats.imported}`);
+  console.log(`⏭️ Rows skipped (missing or implausible nutrition data): ${batcher.stats.skipped}`);
+
+  return batcher.stats;
+}
+
+export { importFoodDatabase };
+
+// Run import if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const sourceArg = args.find(arg => arg.startsWith('--source='))?.split('=')[1];
+  const filePath = args.find(arg => !arg.startsWith('--'));
+
+  if ((sourceArg !== 'openfoodfacts' && sourceArg !== 'usda') || !filePath) {
+    console.error('Usage: tsx server/scripts/import-food-database.ts --source=openfoodfacts|usda <file>');
+    process.exit(1);
+  }
+
+  importFoodDatabase(sourceArg, filePath)
+    .then(() => {
+      console.log('✅ Food database import completed successfully');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Food database import failed:', error);
+      process.exit(1);
+    });
+}
@@ -3,6 +3,7 @@ import { weeklyNutritionGoals, dailyWellnessCheckins, weeklyWellnessSummaries, m
 import { eq, and, gte, lte, lt, desc } from 'drizzle-orm';
 import { UnitConverter } from '../../shared/utils/unit-conversion';
 import { DailyWellnessService } from './daily-wellness-service';
+import { CalorieCyclingService } from './calorie-cycling';
 
 export class AdvancedMacroManagementService {
   
@@ -35,9 +36,10 @@ export class AdvancedMacroManagementService {
           lte(nutritionLogs.date, weekEnd)
         ));
 
-      // Calculate adherence percentage
+      // Calculate adherence percentage - against the cycled day targets when calorie cycling is on
       const dailyTotals = AdvancedMacroManagementService.calculateDailyTotals(weeklyLogs);
-      const adherencePercentage = AdvancedMacroManagementService.calculateAdherence(dailyTotals, currentGoal);
+      const dailyCalorieTargets = await CalorieCyclingService.getDailyCalorieTargets(userId, currentGoal, weekStart, weekEnd);
+      const adherencePercentage = AdvancedMacroManagementService.calculateAdherence(dailyTotals, currentGoal, dailyCalorieTargets);
 
       // Get wellness data using the new daily wellness service
       const { DailyWellnessService } = await import('./daily-wellness-service');
@@ -151,7 +153,8 @@ export class AdvancedMacroManagementService {
   }
 
   // Calculate adherence percentage using intelligent target detection - only for past days
-  private static calculateAdherence(dailyTotals: any, targetGoals: any) {
+  // dailyCalorieTargets overrides the flat target per date (calorie cycling)
+  private static calculateAdherence(dailyTotals: any, targetGoals: any, dailyCalorieTargets?: Record<string, number> | null) {
     const allDays = Object.keys(dailyTotals);
     if (allDays.length === 0) return 0;
 
@@ -186,7 +189,8 @@ export class AdvancedMacroManagementService {
 
     completedDays.forEach(date => {
       const actualCalories = dailyTotals[date].calories;
-      const deviation = Math.abs((actualCalories - targetCalories) / targetCalories * 100);
+      const dayTargetCalories = dailyCalorieTargets?.[date] || targetCalories;
+      const deviation = Math.abs((actualCalories - dayTargetCalories) / dayTargetCalories * 100);
       const adherence = Math.max(0, 100 - deviation);
       adherenceSum += adherence;
     });
@@ -464,7 +468,8 @@ export class AdvancedMacroManagementService {
         
         // Calculate daily totals for smart adherence calculation
         const dailyTotals = AdvancedMacroManagementService.calculateDailyTotals(logs);
-        adherencePercentage = AdvancedMacroManagementService.calculateAdherence(dailyTotals, currentDietGoal);
+        const dailyCalorieTargets = await CalorieCyclingService.getDailyCalorieTargets(userId, currentDietGoal, weekStart, weekEnd);
+        adherencePercentage = AdvancedMacroManagementService.calculateAdherence(dailyTotals, currentDietGoal, dailyCalorieTargets);
       }
 
       // Get weight data for RP analysis (14-day lookback for more accurate weight trend)
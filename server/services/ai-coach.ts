@@ -0,0 +1,634 @@
+import { z } from "zod";
+import { db } from "../db";
+import {
+  aiConversations,
+  aiConversationMessages,
+  aiPendingActions,
+  nutritionLogs,
+  workoutSessions,
+  workoutExercises,
+  exercises,
+  insertNutritionLogSchema,
+  type AiConversation,
+  type AiConversationMessage,
+  type AiPendingAction
+} from "@shared/schema";
+import { eq, and, asc, desc, gte, lte, inArray } from "drizzle-orm";
+import { getNutritionSummary } from "./nutrition";
+import { AnalyticsService } from "./analytics-service";
+import { LoadProgression } from "./load-progression";
+import { MesocyclePeriodization } from "./mesocycle-periodization";
+import { FoodDatabaseService } from "./food-database";
+import { StrengthTracking } from "./strength-tracking";
+import { SessionCustomization } from "./session-customization";
+import { AIExperimentService } from "./ai-experiments";
+import { aiClient } from "./ai-provider";
+import { monitorAICall, createAIRequestId } from "./ai-performance-monitor";
+import { parseWithRepair, ExerciseNameValidator } from "./ai-output-validation";
+
+/**
+ * AI coach - a chat where the model answers from the user's own data.
+ *
+ * Each turn the model replies with JSON: either { toolCalls: [{ tool, arguments }] } to fetch data, or
+ * { answer, citations } once it can answer. Tool results are stored as conversation messages and referenced
+ * as [d<messageId>], which is what the answer cites. This protocol works on every provider, including
+ * local models and fixture replay, without native function calling.
+ *
+ * Write tools never change anything themselves - they create an ai_pending_actions row that the user
+ * confirms or rejects.
+ */
+
+export const COACH_SERVICE = 'ai-coach';
+
+const MAX_TOOL_STEPS = 4;
+const MAX_TOOL_CALLS_PER_STEP = 5;
+const MAX_HISTORY_MESSAGES = 30;
+const MAX_TOOL_RESULT_CHARS = 6000;
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+interface ToolContext {
+  userId: number;
+  conversationId: number;
+}
+
+interface CoachTool<S extends z.ZodTypeAny> {
+  description: string;
+  parameters: string; // argument description shown to the model
+  schema: S;
+  write?: boolean;
+  run: (args: z.infer<S>, context: ToolContext) => Promise<unknown>;
+}
+
+const defineTool = <S extends z.ZodTypeAny>(tool: CoachTool<S>) => tool;
+
+export interface CoachCitation {
+  ref: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface CoachReply {
+  message: AiConversationMessage;
+  pendingActions: AiPendingAction[];
+}
+
+const coachStepSchema = z.object({
+  toolCalls: z.array(z.object({
+    tool: z.string().min(1),
+    arguments: z.record(z.unknown()).nullish().transform(args => args ?? {})
+  })).max(MAX_TOOL_CALLS_PER_STEP).nullish(),
+  answer: z.string().nullish(),
+  citations: z.array(z.string()).nullish()
+}).refine(step => (step.toolCalls?.length ?? 0) > 0 || !!step.answer?.trim(), {
+  message: 'Provide either toolCalls or an answer'
+});
+
+const logFoodSchema = z.object({
+  foodName: z.string().trim().min(1),
+  quantity: z.number().positive(),
+  unit: z.string().trim().min(1),
+  calories: z.number().min(0),
+  protein: z.number().min(0),
+  carbs: z.number().min(0),
+  fat: z.number().min(0),
+  mealType: z.enum(['breakfast', 'lunch', 'dinner', 'snack']),
+  date: dateString.optional()
+});
+
+const swapExerciseSchema = z.object({
+  sessionId: z.number().int().positive(),
+  fromExercise: z.string().trim().min(1),
+  toExercise: z.string().trim().min(1)
+});
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Upcoming, not yet completed session owned by the user
+ */
+async function getOwnedOpenSession(userId: number, sessionId: number) {
+  const [session] = await db
+    .select()
+    .from(workoutSessions)
+    .where(and(eq(workoutSessions.id, sessionId), eq(workoutSessions.userId, userId)))
+    .limit(1);
+
+  if (!session) throw new Error('Workout session not found');
+  if (session.isCompleted) throw new Error('Completed sessions cannot be changed');
+  return session;
+}
+
+const TOOLS = {
+  get_nutrition_summary: defineTool({
+    description: "Calories and macros logged on a day next to that day's targets (cycled targets when calorie cycling is on)",
+    parameters: '{ "date"?: "YYYY-MM-DD" (default today) }',
+    schema: z.object({ date: dateString.optional() }),
+    run: async ({ date }, { userId }) => ({
+      date: date || toDateKey(new Date()),
+      ...(await getNutritionSummary(userId, date ? new Date(date) : new Date()))
+    })
+  }),
+
+  get_training_analytics: defineTool({
+    description: 'Completed sessions, weekly volume and training frequency over a period',
+    parameters: '{ "days"?: number 7-180 (default 30) }',
+    schema: z.object({ days: z.number().int().min(7).max(180).optional() }),
+    run: async ({ days }, { userId }) => {
+      const analytics = await AnalyticsService.getTrainingAnalytics(userId, days || 30);
+      return {
+        summary: analytics.summary,
+        weeklyData: analytics.weeklyData,
+        recentSessions: analytics.data.slice(0, 10).map((session: any) => ({
+          id: session.id,
+          date: session.date,
+          name: session.name,
+          totalVolume: session.total_volume
+        }))
+      };
+    }
+  }),
+
+  analyze_performance: defineTool({
+    description: 'Overall strength and volume trend (improving/plateauing/declining), consistency and recommendations',
+    parameters: '{ "days"?: number 14-120 (default 28) }',
+    schema: z.object({ days: z.number().int().min(14).max(120).optional() }),
+    run: ({ days }, { userId }) => LoadProgression.analyzePerformance(userId, days || 28)
+  }),
+
+  get_exercise_history: defineTool({
+    description: 'Estimated 1RM per session, top sets and RPE for one exercise - use for questions about a specific lift stalling or progressing',
+    parameters: '{ "exercise": string (exercise name), "limit"?: number 3-30 (default 12) }',
+    schema: z.object({ exercise: z.string().trim().min(1), limit: z.number().int().min(3).max(30).optional() }),
+    run: async ({ exercise, limit }, { userId }) => {
+      const match = ExerciseNameValidator.match(exercise, await ExerciseNameValidator.getLibrary(userId));
+      if (!match) return { error: `No exercise named "${exercise}" in the library` };
+
+      const curve = await StrengthTracking.getE1RMHistory(userId, match.exerciseId, { limit: limit || 12 });
+      return {
+        exerciseName: curve.exerciseName,
+        unit: curve.unit,
+        currentE1RM: curve.currentE1RM,
+        bestE1RM: curve.bestE1RM,
+        changePercentage: curve.changePercentage,
+        sessions: curve.points.map(point => ({
+          date: point.date,
+          e1rm: point.e1rm,
+          topSet: `${point.topSetWeight} x ${point.topSetReps}`,
+          rpe: point.topSetRpe,
+          volume: point.volume
+        }))
+      };
+    }
+  }),
+
+  analyze_fatigue: defineTool({
+    description: 'Accumulated fatigue score, whether a deload is recommended and why',
+    parameters: '{}',
+    schema: z.object({}),
+    run: (_args, { userId }) => MesocyclePeriodization.analyzeFatigueAccumulation(userId)
+  }),
+
+  search_foods: defineTool({
+    description: 'Search the food database for nutrition values',
+    parameters: '{ "query": string, "limit"?: number 1-10 (default 5) }',
+    schema: z.object({ query: z.string().trim().min(1), limit: z.number().int().min(1).max(10).optional() }),
+    run: async ({ query, limit }) => {
+      const foods = await FoodDatabaseService.search(query, { limit: limit || 5 });
+      return foods.map(food => ({
+        id: food.id,
+        name: food.name,
+        brand: food.brand,
+        servingSize: food.servingSize,
+        servingUnit: food.servingUnit,
+        calories: Number(food.calories),
+        protein: Number(food.protein),
+        carbs: Number(food.carbs),
+        fat: Number(food.fat)
+      }));
+    }
+  }),
+
+  get_upcoming_sessions: defineTool({
+    description: 'Planned, not yet completed workout sessions with their exercises - needed before proposing an exercise swap',
+    parameters: '{ "days"?: number 1-14 (default 7) }',
+    schema: z.object({ days: z.number().int().min(1).max(14).optional() }),
+    run: async ({ days }, { userId }) => {
+      const from = new Date();
+      from.setHours(0, 0, 0, 0);
+      const to = new Date(from);
+      to.setDate(to.getDate() + (days || 7));
+
+      const sessions = await db
+        .select({ id: workoutSessions.id, date: workoutSessions.date, name: workoutSessions.name })
+        .from(workoutSessions)
+        .where(and(
+          eq(workoutSessions.userId, userId),
+          eq(workoutSessions.isCompleted, false),
+          gte(workoutSessions.date, from),
+          lte(workoutSessions.date, to)
+        ))
+        .orderBy(asc(workoutSessions.date))
+        .limit(10);
+      if (sessions.length === 0) return [];
+
+      const sessionExercises = await db
+        .select({ sessionId: workoutExercises.sessionId, name: exercises.name, sets: workoutExercises.sets, targetReps: workoutExercises.targetReps })
+        .from(workoutExercises)
+        .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+        .where(inArray(workoutExercises.sessionId, sessions.map(session => session.id)))
+        .orderBy(asc(workoutExercises.orderIndex));
+
+      return sessions.map(session => ({
+        ...session,
+        exercises: sessionExercises
+          .filter(exercise => exercise.sessionId === session.id)
+          .map(({ name, sets, targetReps }) => ({ name, sets, targetReps }))
+      }));
+    }
+  }),
+
+  log_food: defineTool({
+    description: 'Propose logging a food entry - the user has to confirm it before anything is saved',
+    parameters: '{ "foodName": string, "quantity": number, "unit": string, "calories": number, "protein": number, "carbs": number, "fat": number, "mealType": "breakfast"|"lunch"|"dinner"|"snack", "date"?: "YYYY-MM-DD" }',
+    schema: logFoodSchema,
+    write: true,
+    run: async (args, context) => AICoachService.proposeAction(context, 'log_food', { ...args, date: args.date || toDateKey(new Date()) },
+      `Log ${args.quantity} ${args.unit} ${args.foodName} as ${args.mealType} (${Math.round(args.calories)} kcal, ` +
+      `${Math.round(args.protein)}g protein, ${Math.round(args.carbs)}g carbs, ${Math.round(args.fat)}g fat)`)
+  }),
+
+  swap_exercise: defineTool({
+    description: 'Propose replacing an exercise in a planned session (and the same slot in later mesocycle weeks) - the user has to confirm it',
+    parameters: '{ "sessionId": number (from get_upcoming_sessions), "fromExercise": string, "toExercise": string (exercise library name) }',
+    schema: swapExerciseSchema,
+    write: true,
+    run: async ({ sessionId, fromExercise, toExercise }, context) => {
+      const session = await getOwnedOpenSession(context.userId, sessionId);
+      const library = await ExerciseNameValidator.getLibrary(context.userId);
+      const from = ExerciseNameValidator.match(fromExercise, library);
+      const to = ExerciseNameValidator.match(toExercise, library);
+      if (!from) return { error: `No exercise named "${fromExercise}" in the library` };
+      if (!to) return { error: `No exercise named "${toExercise}" in the library` };
+
+      const [planned] = await db
+        .select({ id: workoutExercises.id })
+        .from(workoutExercises)
+        .where(and(eq(workoutExercises.sessionId, sessionId), eq(workoutExercises.exerciseId, from.exerciseId)))
+        .limit(1);
+      if (!planned) return { error: `${from.name} is not part of session "${session.name}"` };
+
+      return AICoachService.proposeAction(context, 'swap_exercise', {
+        sessionId,
+        fromExerciseId: from.exerciseId,
+        toExerciseId: to.exerciseId
+      }, `Replace ${from.name} with ${to.name} in "${session.name}" on ${toDateKey(session.date)}`);
+    }
+  })
+};
+
+type ToolName = keyof typeof TOOLS;
+
+const isToolName = (name: string): name is ToolName => Object.prototype.hasOwnProperty.call(TOOLS, name);
+
+const truncate = (text: string, maxLength: number) => text.length > maxLength ? `${text.slice(0, maxLength)}... (truncated)` : text;
+
+const DEFAULT_SYSTEM_PROMPT = `You are the in-app training and nutrition coach. Answer the user's questions about their training and diet using ONLY their own data, which you fetch with tools. Never invent numbers.
+
+Available tools:
+${Object.entries(TOOLS).map(([name, tool]) => `- ${name}${'write' in tool && tool.write ? ' (write - only proposes, the user confirms)' : ''}: ${tool.description}. Arguments: ${tool.parameters}`).join('\n')}
+
+Respond with a JSON object, one of:
+1. {"toolCalls": [{"tool": "<name>", "arguments": {...}}]} - to fetch data (up to ${MAX_TOOL_CALLS_PER_STEP} calls at once)
+2. {"answer": "<reply to the user>", "citations": ["d12", ...]} - when you can answer
+
+Tool results arrive as "Tool result [d<id>]". Cite the ids of every result your answer relies on. When you propose a write action, tell the user it is waiting for their confirmation. Keep answers short, specific and practical.`;
+
+export class AICoachService {
+
+  static async getConversations(userId: number): Promise<AiConversation[]> {
+    return db
+      .select()
+      .from(aiConversations)
+      .where(eq(aiConversations.userId, userId))
+      .orderBy(desc(aiConversations.updatedAt));
+  }
+
+  static async createConversation(userId: number, title?: string): Promise<AiConversation> {
+    const [conversation] = await db
+      .insert(aiConversations)
+      .values({ userId, title: title?.trim().slice(0, 120) || 'New conversation' })
+      .returning();
+    return conversation;
+  }
+
+  static async getOwnedConversation(userId: number, conversationId: number): Promise<AiConversation> {
+    const [conversation] = await db
+      .select()
+      .from(aiConversations)
+      .where(and(eq(aiConversations.id, conversationId), eq(aiConversations.userId, userId)))
+      .limit(1);
+
+    if (!conversation) throw new Error('Conversation not found');
+    return conversation;
+  }
+
+  static async getConversation(userId: number, conversationId: number) {
+    const conversation = await this.getOwnedConversation(userId, conversationId);
+
+    const messages = await db
+      .select()
+      .from(aiConversationMessages)
+      .where(eq(aiConversationMessages.conversationId, conversationId))
+      .orderBy(asc(aiConversationMessages.createdAt), asc(aiConversationMessages.id));
+
+    const actions = await db
+      .select()
+      .from(aiPendingActions)
+      .where(eq(aiPendingActions.conversationId, conversationId))
+      .orderBy(asc(aiPendingActions.createdAt));
+
+    return { ...conversation, messages, actions };
+  }
+
+  static async deleteConversation(userId: number, conversationId: number) {
+    await this.getOwnedConversation(userId, conversationId);
+    await db.delete(aiConversations).where(eq(aiConversations.id, conversationId));
+  }
+
+  /**
+   * Store a proposed write action; the tool result tells the model it is awaiting confirmation
+   */
+  static async proposeAction(context: ToolContext, type: AiPendingAction['type'], payload: Record<string, unknown>, summary: string) {
+    const [action] = await db
+      .insert(aiPendingActions)
+      .values({ conversationId: context.conversationId, userId: context.userId, type, payload, summary })
+      .returning();
+
+    return { actionId: action.id, status: 'awaiting_user_confirmation', summary };
+  }
+
+  private static async runTool(name: string, args: Record<string, unknown>, context: ToolContext): Promise<unknown> {
+    if (!isToolName(name)) {
+      return { error: `Unknown tool "${name}". Available: ${Object.keys(TOOLS).join(', ')}` };
+    }
+
+    const tool = TOOLS[name] as unknown as CoachTool<z.ZodTypeAny>;
+    const parsed = tool.schema.safeParse(args);
+    if (!parsed.success) {
+      return { error: 'Invalid arguments', issues: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) };
+    }
+
+    try {
+      return await tool.run(parsed.data, context);
+    } catch (error: any) {
+      console.error(`[AI Coach] Tool ${name} failed:`, error);
+      return { error: error.message || 'Tool failed' };
+    }
+  }
+
+  /**
+   * Stored messages as chat turns for the model - tool results and action notes become user-side context
+   */
+  private static toModelMessages(messages: AiConversationMessage[]): { role: string; content: string }[] {
+    return messages.map(message => {
+      const data = (message.data || {}) as Record<string, any>;
+      if (message.role === 'tool' && data.tool) {
+        return {
+          role: 'user',
+          content: `Tool result [d${message.id}] ${data.tool}(${JSON.stringify(data.arguments || {})}):\n${truncate(JSON.stringify(data.result ?? null), MAX_TOOL_RESULT_CHARS)}`
+        };
+      }
+      if (message.role === 'tool') {
+        return { role: 'user', content: `[Note] ${message.content}` };
+      }
+      return { role: message.role, content: message.content };
+    });
+  }
+
+  /**
+   * Add a user message and run the tool loop until the model answers
+   */
+  static async sendMessage(userId: number, conversationId: number, text: string): Promise<CoachReply> {
+    const conversation = await this.getOwnedConversation(userId, conversationId);
+    const context: ToolContext = { userId, conversationId };
+
+    await db.insert(aiConversationMessages).values({ conversationId, role: 'user', content: text });
+
+    // First message names the conversation
+    if (conversation.title === 'New conversation') {
+      await db.update(aiConversations).set({ title: truncate(text.trim(), 80) }).where(eq(aiConversations.id, conversationId));
+    }
+
+    const history = (await db
+      .select()
+      .from(aiConversationMessages)
+      .where(eq(aiConversationMessages.conversationId, conversationId))
+      .orderBy(desc(aiConversationMessages.createdAt), desc(aiConversationMessages.id))
+      .limit(MAX_HISTORY_MESSAGES)).reverse();
+
+    const assignment = await AIExperimentService.resolve(COACH_SERVICE, 'coach', String(userId));
+    const modelConfig = assignment.model;
+    const systemPrompt = assignment.prompt?.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+
+    const messages: { role: string; content: string }[] = [
+      { role: 'system', content: systemPrompt },
+      ...this.toModelMessages(history)
+    ];
+
+    // Every tool result this conversation has seen can be cited
+    const citable = new Map<string, CoachCitation>();
+    history.forEach(message => {
+      const data = (message.data || {}) as Record<string, any>;
+      if (message.role === 'tool' && data.tool) {
+        citable.set(`d${message.id}`, { ref: `d${message.id}`, tool: data.tool, arguments: data.arguments || {} });
+      }
+    });
+
+    const usedThisTurn: string[] = [];
+    const actionIds: number[] = [];
+    let answer: { text: string; citations: string[]; requestId: string } | null = null;
+
+    for (let step = 0; step <= MAX_TOOL_STEPS && !answer; step++) {
+      if (step === MAX_TOOL_STEPS) {
+        messages.push({ role: 'user', content: 'Answer now with the data you already have - do not call more tools.' });
+      }
+
+      const requestId = createAIRequestId();
+      const promptText = messages.map(message => message.content).join('\n');
+      const result = await monitorAICall({
+        service: COACH_SERVICE,
+        model: modelConfig.name,
+        userId: String(userId),
+        requestId,
+        provider: modelConfig.provider,
+        promptVersion: assignment.promptVersion,
+        experimentName: assignment.experimentName,
+        variant: assignment.variant,
+        abTestGroup: assignment.abTestGroup,
+        inputTokens: Math.ceil(promptText.length / 4),
+        costPerInputToken: modelConfig.costPerToken.input,
+        costPerOutputToken: modelConfig.costPerToken.output
+      }, async () => {
+        const response = await aiClient.createCompletion({
+          model: modelConfig,
+          systemPrompt,
+          userPrompt: text,
+          messages,
+          responseFormat: { type: "json_object" }
+        });
+
+        return parseWithRepair(coachStepSchema, response.content, {
+          label: 'coach reply',
+          model: modelConfig,
+          systemPrompt,
+          userPrompt: messages[messages.length - 1].content
+        });
+      });
+
+      const toolCalls = step < MAX_TOOL_STEPS ? result.toolCalls || [] : [];
+      if (toolCalls.length === 0) {
+        answer = { text: result.answer?.trim() || "I couldn't find an answer in your data.", citations: result.citations || [], requestId };
+        break;
+      }
+
+      messages.push({ role: 'assistant', content: JSON.stringify({ toolCalls }) });
+
+      for (const call of toolCalls) {
+        const output = await this.runTool(call.tool, call.arguments, context);
+        const [stored] = await db
+          .insert(aiConversationMessages)
+          .values({
+            conversationId,
+            role: 'tool',
+            content: `${call.tool} result`,
+            data: { tool: call.tool, arguments: call.arguments, result: output ?? null },
+            requestId
+          })
+          .returning();
+
+        const ref = `d${stored.id}`;
+        citable.set(ref, { ref, tool: call.tool, arguments: call.arguments });
+        usedThisTurn.push(ref);
+        if (output && typeof output === 'object' && 'actionId' in output) {
+          actionIds.push(Number((output as any).actionId));
+        }
+        messages.push(...this.toModelMessages([stored]));
+      }
+    }
+
+    // Keep only citations of real tool results; an uncited answer cites what this turn fetched
+    const citedRefs = answer!.citations.filter(ref => citable.has(ref));
+    const citations = (citedRefs.length ? citedRefs : usedThisTurn).map(ref => citable.get(ref)!);
+
+    const [message] = await db
+      .insert(aiConversationMessages)
+      .values({
+        conversationId,
+        role: 'assistant',
+        content: answer!.text,
+        data: { citations, actionIds },
+        requestId: answer!.requestId
+      })
+      .returning();
+
+    await db.update(aiConversations).set({ updatedAt: new Date() }).where(eq(aiConversations.id, conversationId));
+
+    const pendingActions = actionIds.length
+      ? await db.select().from(aiPendingActions).where(inArray(aiPendingActions.id, actionIds))
+      : [];
+
+    return { message, pendingActions };
+  }
+
+  // Move a pending action to its new status in one statement, so a double click can't run it twice
+  private static async claimPendingAction(userId: number, actionId: number, status: 'confirmed' | 'rejected'): Promise<AiPendingAction> {
+    const [claimed] = await db
+      .update(aiPendingActions)
+      .set({ status })
+      .where(and(
+        eq(aiPendingActions.id, actionId),
+        eq(aiPendingActions.userId, userId),
+        eq(aiPendingActions.status, 'pending')
+      ))
+      .returning();
+    if (claimed) return claimed;
+
+    const [action] = await db
+      .select({ status: aiPendingActions.status })
+      .from(aiPendingActions)
+      .where(and(eq(aiPendingActions.id, actionId), eq(aiPendingActions.userId, userId)))
+      .limit(1);
+
+    if (!action) throw new Error('Action not found');
+    throw new Error(`Action was already ${action.status}`);
+  }
+
+  private static async executeAction(action: AiPendingAction): Promise<unknown> {
+    if (action.type === 'log_food') {
+      const payload = logFoodSchema.parse(action.payload);
+      const log = insertNutritionLogSchema.parse({
+        userId: action.userId,
+        date: new Date(payload.date || toDateKey(new Date())),
+        foodName: payload.foodName,
+        quantity: payload.quantity.toString(),
+        unit: payload.unit,
+        calories: payload.calories.toString(),
+        protein: payload.protein.toString(),
+        carbs: payload.carbs.toString(),
+        fat: payload.fat.toString(),
+        mealType: payload.mealType
+      });
+      const [created] = await db.insert(nutritionLogs).values(log).returning();
+      return { nutritionLogId: created.id };
+    }
+
+    const payload = action.payload as { sessionId: number; fromExerciseId: number; toExerciseId: number };
+    await getOwnedOpenSession(action.userId, payload.sessionId);
+    await SessionCustomization.substituteExercise(payload.sessionId, payload.fromExerciseId, payload.toExerciseId);
+    return { sessionId: payload.sessionId, exerciseId: payload.toExerciseId };
+  }
+
+  /**
+   * Run a proposed action the user approved - failures are stored on the action rather than thrown
+   */
+  static async confirmAction(userId: number, actionId: number): Promise<AiPendingAction> {
+    const action = await this.claimPendingAction(userId, actionId, 'confirmed');
+
+    let status: AiPendingAction['status'] = 'confirmed';
+    let result: unknown;
+    try {
+      result = await this.executeAction(action);
+    } catch (error: any) {
+      console.error(`[AI Coach] Action ${actionId} failed:`, error);
+      status = 'failed';
+      result = { error: error.message || 'Action failed' };
+    }
+
+    return this.resolveAction(action, status, result);
+  }
+
+  static async rejectAction(userId: number, actionId: number): Promise<AiPendingAction> {
+    const action = await this.claimPendingAction(userId, actionId, 'rejected');
+    return this.resolveAction(action, 'rejected', null);
+  }
+
+  // Record the outcome and leave a note in the conversation so the coach knows what happened
+  private static async resolveAction(action: AiPendingAction, status: AiPendingAction['status'], result: unknown): Promise<AiPendingAction> {
+    const [updated] = await db
+      .update(aiPendingActions)
+      .set({ status, result: result ?? null, resolvedAt: new Date() })
+      .where(eq(aiPendingActions.id, action.id))
+      .returning();
+
+    const outcome = status === 'confirmed' ? 'confirmed' : status === 'rejected' ? 'rejected' : `confirmed, but it failed (${(result as any)?.error})`;
+    await db.insert(aiConversationMessages).values({
+      conversationId: action.conversationId,
+      role: 'tool',
+      content: `User ${outcome}: ${action.summary}`,
+      data: { actionId: action.id, status }
+    });
+
+    return updated;
+  }
+}
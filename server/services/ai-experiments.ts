@@ -0,0 +1,295 @@
+import { db } from '../db';
+import { aiExperiments, aiRequestMetrics, type AiExperiment } from '@shared/schema';
+import { eq, and, gte, desc, sql } from 'drizzle-orm';
+import { createHash } from 'crypto';
+import { AI_MODELS, getABTestConfig, selectModelForUser, type AIModelConfig, type AIServiceConfig } from '../config/ai-config';
+import { promptRegistry, type PromptTemplate } from './ai-prompt-registry';
+
+export interface ExperimentVariant {
+  name: string;
+  weight: number; // relative share of users
+  model?: string; // key of AI_MODELS
+  promptVersion?: string; // version of the service's registry prompt
+}
+
+export interface AIAssignment {
+  model: AIModelConfig;
+  prompt: PromptTemplate | null; // set when the variant pins a prompt version
+  promptVersion?: string;
+  experimentName?: string;
+  variant?: string;
+  abTestGroup?: 'control' | 'test';
+}
+
+export interface VariantStats {
+  variant: string;
+  requests: number;
+  successRate: number;
+  jsonParseRate: number;
+  avgResponseTime: number;
+  avgCost: number;
+  avgTokens: number;
+  ratedRequests: number;
+  avgRating: number | null;
+}
+
+export interface SignificanceTest {
+  metric: 'successRate' | 'jsonParseRate' | 'responseTime' | 'rating';
+  test: 'two-proportion z' | 'welch t';
+  difference: number; // variant minus control
+  pValue: number | null; // null when either group is too small to test
+  significant: boolean; // p < 0.05
+}
+
+// Below this many samples per group the normal approximations are not meaningful
+const MIN_SAMPLES = 30;
+const SIGNIFICANCE_LEVEL = 0.05;
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+const twoSidedP = (z: number) => 2 * (1 - normalCdf(Math.abs(z)));
+
+const round = (value: number, digits: number = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export class AIExperimentService {
+
+  /**
+   * Deterministic variant for a user - the same user always lands in the same bucket of an experiment
+   */
+  static assignVariant(experimentName: string, variants: ExperimentVariant[], userId: string): ExperimentVariant {
+    const hash = createHash('sha256').update(`${experimentName}:${userId}`).digest();
+    const bucket = hash.readUInt32BE(0) / 0x100000000; // [0, 1)
+
+    const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+    let cumulative = 0;
+    for (const variant of variants) {
+      cumulative += variant.weight / totalWeight;
+      if (bucket < cumulative) return variant;
+    }
+    return variants[variants.length - 1];
+  }
+
+  /**
+   * Model and prompt for a request: the user's variant of the active experiment for the service,
+   * otherwise the configured model (with the env-based A/B split when enabled)
+   */
+  static async resolve(service: string, modelKey: keyof AIServiceConfig, userId: string): Promise<AIAssignment> {
+    const defaultModel = selectModelForUser(modelKey, userId);
+
+    const [experiment] = await db
+      .select()
+      .from(aiExperiments)
+      .where(and(eq(aiExperiments.service, service), eq(aiExperiments.status, 'active')))
+      .orderBy(desc(aiExperiments.createdAt))
+      .limit(1);
+
+    if (experiment) {
+      const variant = this.assignVariant(experiment.name, experiment.variants as ExperimentVariant[], userId);
+      const prompt = variant.promptVersion ? await promptRegistry.getPromptVersion(service, variant.promptVersion) : null;
+
+      return {
+        model: (variant.model && AI_MODELS[variant.model]) || defaultModel,
+        prompt,
+        promptVersion: prompt?.version || promptRegistry.getPrompt(service)?.version,
+        experimentName: experiment.name,
+        variant: variant.name
+      };
+    }
+
+    const abConfig = getABTestConfig();
+    const abTestGroup = abConfig.enabled
+      ? (defaultModel.name === AI_MODELS[abConfig.testModel]?.name ? 'test' : 'control')
+      : undefined;
+
+    return {
+      model: defaultModel,
+      prompt: null,
+      promptVersion: promptRegistry.getPrompt(service)?.version,
+      experimentName: abTestGroup ? abConfig.testName : undefined,
+      variant: abTestGroup,
+      abTestGroup
+    };
+  }
+
+  static validateVariants(input: unknown): ExperimentVariant[] {
+    if (!Array.isArray(input) || input.length < 2) {
+      throw new Error('An experiment needs at least two variants');
+    }
+
+    const variants = input.map((variant: any) => ({
+      name: String(variant?.name || '').trim(),
+      weight: variant?.weight === undefined ? 1 : Number(variant.weight),
+      ...(variant?.model && { model: String(variant.model) }),
+      ...(variant?.promptVersion && { promptVersion: String(variant.promptVersion) })
+    }));
+
+    variants.forEach(variant => {
+      if (!variant.name) throw new Error('Every variant needs a name');
+      if (!(variant.weight > 0)) throw new Error(`Variant '${variant.name}' needs a positive weight`);
+      if (variant.model && !AI_MODELS[variant.model]) throw new Error(`Unknown model '${variant.model}'`);
+    });
+    if (new Set(variants.map(variant => variant.name)).size !== variants.length) {
+      throw new Error('Variant names must be unique');
+    }
+
+    return variants;
+  }
+
+  static async createExperiment(
+    data: { name: string; service: string; variants: unknown; description?: string },
+    createdBy: number
+  ): Promise<AiExperiment> {
+    if (!data.name || !data.service) {
+      throw new Error('Experiment name and service are required');
+    }
+    const variants = this.validateVariants(data.variants);
+
+    for (const variant of variants) {
+      if (variant.promptVersion && !(await promptRegistry.getPromptVersion(data.service, variant.promptVersion))) {
+        throw new Error(`Prompt version ${variant.promptVersion} for ${data.service} not found`);
+      }
+    }
+
+    const [existing] = await db.select({ id: aiExperiments.id }).from(aiExperiments).where(eq(aiExperiments.name, data.name)).limit(1);
+    if (existing) {
+      throw new Error(`Experiment '${data.name}' already exists`);
+    }
+
+    const [experiment] = await db.insert(aiExperiments).values({
+      name: data.name,
+      service: data.service,
+      variants,
+      description: data.description,
+      createdBy
+    }).returning();
+
+    return experiment;
+  }
+
+  static async getExperiments(): Promise<AiExperiment[]> {
+    return db.select().from(aiExperiments).orderBy(desc(aiExperiments.createdAt));
+  }
+
+  static async updateStatus(id: number, status: 'active' | 'paused' | 'completed'): Promise<AiExperiment> {
+    const [experiment] = await db.update(aiExperiments)
+      .set({ status, endedAt: status === 'completed' ? new Date() : null })
+      .where(eq(aiExperiments.id, id))
+      .returning();
+
+    if (!experiment) {
+      throw new Error('Experiment not found');
+    }
+    return experiment;
+  }
+
+  /**
+   * Per-variant results and significance tests against the control (first variant) over stored metrics.
+   * Without hours the whole history of the experiment is used.
+   */
+  static async generateReport(experimentName: string, hours?: number) {
+    const [experiment] = await db.select().from(aiExperiments).where(eq(aiExperiments.name, experimentName)).limit(1);
+
+    const rows = await db
+      .select({
+        variant: aiRequestMetrics.variant,
+        requests: sql<number>`count(*)::int`,
+        successes: sql<number>`count(*) filter (where ${aiRequestMetrics.success})::int`,
+        jsonParseable: sql<number>`count(*) filter (where ${aiRequestMetrics.jsonParseable})::int`,
+        avgResponseTime: sql<number>`coalesce(avg(${aiRequestMetrics.responseTimeMs}), 0)::float`,
+        varResponseTime: sql<number>`coalesce(var_samp(${aiRequestMetrics.responseTimeMs}), 0)::float`,
+        avgCost: sql<number>`coalesce(avg(${aiRequestMetrics.cost}), 0)::float`,
+        avgTokens: sql<number>`coalesce(avg(${aiRequestMetrics.totalTokens}), 0)::float`,
+        ratedRequests: sql<number>`count(${aiRequestMetrics.userRating})::int`,
+        avgRating: sql<number | null>`avg(${aiRequestMetrics.userRating})::float`,
+        varRating: sql<number>`coalesce(var_samp(${aiRequestMetrics.userRating}), 0)::float`,
+      })
+      .from(aiRequestMetrics)
+      .where(and(
+        eq(aiRequestMetrics.experimentName, experimentName),
+        hours ? gte(aiRequestMetrics.createdAt, new Date(Date.now() - hours * 60 * 60 * 1000)) : undefined
+      ))
+      .groupBy(aiRequestMetrics.variant);
+
+    // Keep the experiment's variant order so the first variant is the control
+    const variantOrder = experiment
+      ? (experiment.variants as ExperimentVariant[]).map(variant => variant.name)
+      : ['control', 'test'];
+    const ordered = variantOrder
+      .map(name => rows.find(row => row.variant === name))
+      .concat(rows.filter(row => !variantOrder.includes(row.variant || '')));
+
+    const groups = ordered.map((row, index) => row || {
+      variant: variantOrder[index], requests: 0, successes: 0, jsonParseable: 0, avgResponseTime: 0,
+      varResponseTime: 0, avgCost: 0, avgTokens: 0, ratedRequests: 0, avgRating: null, varRating: 0
+    });
+
+    const variants: VariantStats[] = groups.map(group => ({
+      variant: group.variant || 'unassigned',
+      requests: group.requests,
+      successRate: group.requests > 0 ? round(group.successes / group.requests * 100) : 0,
+      jsonParseRate: group.requests > 0 ? round(group.jsonParseable / group.requests * 100) : 0,
+      avgResponseTime: Math.round(group.avgResponseTime),
+      avgCost: round(group.avgCost, 8),
+      avgTokens: Math.round(group.avgTokens),
+      ratedRequests: group.ratedRequests,
+      avgRating: group.avgRating !== null ? round(group.avgRating) : null
+    }));
+
+    const control = groups[0];
+    const comparisons = groups.slice(1).map(group => ({
+      variant: group.variant || 'unassigned',
+      against: control.variant,
+      tests: [
+        this.proportionTest('successRate', control.successes, control.requests, group.successes, group.requests),
+        this.proportionTest('jsonParseRate', control.jsonParseable, control.requests, group.jsonParseable, group.requests),
+        this.welchTest('responseTime', control.avgResponseTime, control.varResponseTime, control.requests, group.avgResponseTime, group.varResponseTime, group.requests),
+        this.welchTest('rating', control.avgRating ?? 0, control.varRating, control.ratedRequests, group.avgRating ?? 0, group.varRating, group.ratedRequests)
+      ]
+    }));
+
+    return { experiment: experiment || null, variants, comparisons };
+  }
+
+  private static proportionTest(
+    metric: 'successRate' | 'jsonParseRate',
+    controlHits: number, controlTotal: number,
+    variantHits: number, variantTotal: number
+  ): SignificanceTest {
+    const controlRate = controlTotal > 0 ? controlHits / controlTotal : 0;
+    const variantRate = variantTotal > 0 ? variantHits / variantTotal : 0;
+    const difference = round((variantRate - controlRate) * 100);
+
+    if (controlTotal < MIN_SAMPLES || variantTotal < MIN_SAMPLES) {
+      return { metric, test: 'two-proportion z', difference, pValue: null, significant: false };
+    }
+
+    const pooled = (controlHits + variantHits) / (controlTotal + variantTotal);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / controlTotal + 1 / variantTotal));
+    const pValue = standardError > 0 ? twoSidedP((variantRate - controlRate) / standardError) : 1;
+
+    return { metric, test: 'two-proportion z', difference, pValue: round(pValue, 4), significant: pValue < SIGNIFICANCE_LEVEL };
+  }
+
+  // Welch's t with a normal approximation - adequate at MIN_SAMPLES and above
+  private static welchTest(
+    metric: 'responseTime' | 'rating',
+    controlMean: number, controlVariance: number, controlCount: number,
+    variantMean: number, variantVariance: number, variantCount: number
+  ): SignificanceTest {
+    const difference = round(variantMean - controlMean);
+
+    if (controlCount < MIN_SAMPLES || variantCount < MIN_SAMPLES) {
+      return { metric, test: 'welch t', difference, pValue: null, significant: false };
+    }
+
+    const standardError = Math.sqrt(controlVariance / controlCount + variantVariance / variantCount);
+    const pValue = standardError > 0 ? twoSidedP((variantMean - controlMean) / standardError) : 1;
+
+    return { metric, test: 'welch t', difference, pValue: round(pValue, 4), significant: pValue < SIGNIFICANCE_LEVEL };
+  }
+}
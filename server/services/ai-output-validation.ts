@@ -0,0 +1,376 @@
+import { z } from "zod";
+import { db } from "../db";
+import { exercises } from "@shared/schema";
+import { eq, or, isNull } from "drizzle-orm";
+import type { AIModelConfig } from '../config/ai-config';
+import { aiClient } from './ai-provider';
+import { scoreExerciseMatch } from './workout-import';
+
+/**
+ * Zod schemas for structured model output, plus a single repair round-trip when a response does not match.
+ * Schemas accept the harmless variations models produce (numeric strings, null for "unknown") and reject
+ * anything the calling code would otherwise have to guess around.
+ */
+
+// Numbers sometimes come back as "12.5"
+const numeric = z
+  .union([z.number(), z.string().trim().regex(/^-?\d+(\.\d+)?$/).transform(Number)], {
+    errorMap: () => ({ message: 'Expected a number' })
+  })
+  .pipe(z.number().finite());
+
+const nonNegative = numeric.pipe(z.number().min(0));
+
+// Drop null values (one level of nesting) so "unknown" nutrients count as missing rather than invalid
+const withoutNulls = (value: unknown): unknown => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, entry]) => entry !== null)
+      .map(([key, entry]) => [key, entry && typeof entry === 'object' && !Array.isArray(entry)
+        ? Object.fromEntries(Object.entries(entry).filter(([, nested]) => nested !== null))
+        : entry])
+  );
+};
+
+const MICRONUTRIENT_KEYS = [
+  'vitaminA', 'vitaminD', 'vitaminE', 'vitaminK',
+  'vitaminB1', 'vitaminB2', 'vitaminB3', 'vitaminB5', 'vitaminB6', 'vitaminB7', 'vitaminB9', 'vitaminB12', 'vitaminC', 'folate',
+  'calcium', 'magnesium', 'phosphorus', 'potassium', 'sodium', 'chloride',
+  'iron', 'zinc', 'copper', 'manganese', 'iodine', 'selenium', 'chromium', 'molybdenum', 'fluoride',
+  'sugar', 'addedSugar', 'fiber', 'solubleFiber', 'insolubleFiber', 'saturatedFat', 'monounsaturatedFat', 'polyunsaturatedFat', 'transFat', 'cholesterol',
+  'omega3', 'omega6', 'starch', 'alcohol'
+] as const;
+
+// A plain amount, or the {value, unit} form the nutrition prompts ask for when the label shows a unit
+const nutrientAmountSchema = z.union([
+  nonNegative,
+  z.object({ value: nonNegative, unit: z.string() })
+]);
+
+// Known nutrients are validated by name; anything else may be an extra nutrient or a category group
+// such as "Major Minerals": { sodium: 165 }
+export const micronutrientDataSchema = z.preprocess(
+  withoutNulls,
+  z.object(Object.fromEntries(MICRONUTRIENT_KEYS.map(key => [key, nutrientAmountSchema.optional()])))
+    .catchall(z.union([
+      nutrientAmountSchema,
+      z.record(z.union([nutrientAmountSchema, z.string()])),
+      z.string()
+    ]))
+);
+
+export const nutritionAnalysisSchema = z.object({
+  calories: nonNegative,
+  protein: nonNegative,
+  carbs: nonNegative,
+  fat: nonNegative,
+  confidence: numeric.pipe(z.number().min(0).max(1)).nullish(),
+  category: z.string().nullish(),
+  mealSuitability: z.array(z.string()).nullish(),
+  assumptions: z.string().nullish(),
+  servingDetails: z.string().nullish(),
+  portionWeight: numeric.pipe(z.number().positive()).nullish(),
+  portionUnit: z.string().nullish(),
+  ingredientBreakdown: z.array(z.union([z.string(), z.record(z.unknown())])).nullish(),
+  micronutrients: micronutrientDataSchema.nullish(),
+  nutritionValidation: z.string().nullish()
+});
+
+export const extendedExerciseRecommendationSchema = z.object({
+  exerciseName: z.string().trim().min(1),
+  category: z.string(),
+  primaryMuscle: z.string(),
+  muscleGroups: z.array(z.string()),
+  equipment: z.string(),
+  difficulty: z.string(),
+  sets: numeric.pipe(z.number().int().min(1).max(10)),
+  reps: z.union([z.string().min(1), z.number()]).transform(String),
+  restPeriod: numeric.pipe(z.number().min(0).max(600)),
+  reasoning: z.string(),
+  progressionNotes: z.string(),
+  specialMethod: z.string().nullish().transform(method => !method || method === 'null' ? null : method),
+  specialConfig: z.record(z.unknown()).nullish().transform(config => config ?? null),
+  rpIntensity: numeric.pipe(z.number().min(1).max(10)),
+  volumeContribution: nonNegative,
+  orderInSession: numeric.pipe(z.number().int().min(1)).optional()
+});
+
+export const exerciseRecommendationsResponseSchema = z.object({
+  recommendations: z.array(extendedExerciseRecommendationSchema).min(1),
+  reasoning: z.string().nullish(),
+  rpConsiderations: z.string().nullish(),
+  progressionPlan: z.string().nullish()
+});
+
+export const workoutSessionSchema = z.object({
+  day: numeric.pipe(z.number().int().min(1).max(7)),
+  name: z.string().min(1),
+  muscleGroupFocus: z.array(z.string()),
+  exercises: z.array(extendedExerciseRecommendationSchema).min(1),
+  sessionDuration: nonNegative,
+  totalVolume: nonNegative.optional(),
+  specialMethodsCount: nonNegative.optional()
+});
+
+export const weeklyWorkoutPlanSchema = z.object({
+  sessions: z.array(workoutSessionSchema).min(1),
+  weekStructure: z.string(),
+  totalVolume: nonNegative.optional(),
+  reasoning: z.string(),
+  rpConsiderations: z.string(),
+  progressionPlan: z.string(),
+  specialMethodsUsage: z.object({
+    percentage: nonNegative.optional(),
+    distribution: z.string()
+  })
+});
+
+export const foodImageAnalysisSchema = z.object({
+  foodItems: z.array(z.object({
+    name: z.string().min(1),
+    confidence: numeric.pipe(z.number().min(0).max(1)),
+    estimatedWeight: nonNegative,
+    nutrition: z.object({
+      calories: nonNegative,
+      protein: nonNegative,
+      carbs: nonNegative,
+      fat: nonNegative,
+      fiber: nonNegative.nullish(),
+      sugar: nonNegative.nullish()
+    })
+  })).min(1),
+  totalNutrition: z.object({
+    calories: nonNegative,
+    protein: nonNegative,
+    carbs: nonNegative,
+    fat: nonNegative
+  }),
+  confidence: numeric.pipe(z.number().min(0).max(1)),
+  suggestions: z.array(z.string()).nullish()
+});
+
+// Daily-intake report from /nutrition-analysis - not a single food, so not nutritionAnalysisSchema
+export const nutritionReportSchema = z.object({
+  overallRating: numeric.pipe(z.number().min(0).max(10)),
+  dataQuality: z.object({
+    completenessScore: numeric.pipe(z.number().min(0).max(100)),
+    reliabilityNote: z.string(),
+    recommendedActions: z.array(z.string())
+  }),
+  macronutrientAnalysis: z.object({
+    proteinStatus: z.string(),
+    carbStatus: z.string(),
+    fatStatus: z.string()
+  }),
+  micronutrientAnalysis: z.array(z.object({
+    nutrient: z.string().min(1),
+    currentIntake: nonNegative,
+    recommendedIntake: nonNegative,
+    unit: z.string(),
+    status: z.enum(['deficient', 'adequate', 'excessive']),
+    healthImpact: z.string(),
+    foodSources: z.array(z.string()),
+    supplementRecommendation: z.string().nullish()
+  })),
+  rdaComparison: z.object({
+    meetsRDA: z.array(z.string()),
+    belowRDA: z.array(z.string()),
+    exceedsRDA: z.array(z.string())
+  }),
+  personalizedInsights: z.array(z.object({
+    category: z.string(),
+    insight: z.string(),
+    actionItems: z.array(z.string()),
+    priority: z.enum(['low', 'medium', 'high'])
+  })),
+  supplementationAdvice: z.array(z.string()).nullish(),
+  nextSteps: z.array(z.string()).nullish()
+});
+
+export class AIOutputValidationError extends Error {
+  constructor(message: string, public issues: string[]) {
+    super(message);
+    this.name = 'AIOutputValidationError';
+  }
+}
+
+type ValidationResult<T> = { success: true; data: T } | { success: false; issues: string[] };
+
+const MAX_REPORTED_ISSUES = 20;
+
+/**
+ * Parse a raw model response and check it against a schema
+ */
+export function validateAIOutput<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, content: string | null | undefined): ValidationResult<T> {
+  if (!content || content.trim() === '') {
+    return { success: false, issues: ['Response was empty'] };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error: any) {
+    return { success: false, issues: [`Response is not valid JSON: ${error.message}`] };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) return { success: true, data: result.data };
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+  };
+}
+
+export interface StructuredOutputContext<T> {
+  label: string; // shown to the model in the repair request, e.g. "nutrition analysis"
+  model: AIModelConfig;
+  systemPrompt: string;
+  userPrompt: string; // text only - images are not resent for a repair
+  // Extra checks that should trigger the repair round-trip but are not fatal afterwards (e.g. unknown exercise names)
+  check?: (data: T) => Promise<string[]> | string[];
+}
+
+/**
+ * Validate a model response and, when it does not match the schema, ask the model once to correct it.
+ * Throws AIOutputValidationError when the repaired response still does not match.
+ */
+export async function parseWithRepair<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  content: string | null | undefined,
+  context: StructuredOutputContext<T>
+): Promise<T> {
+  const first = validateAIOutput(schema, content);
+  const issues = first.success
+    ? (context.check ? await context.check(first.data) : [])
+    : first.issues;
+
+  if (first.success && issues.length === 0) return first.data;
+
+  console.warn(`[AI Output] ${context.label} response needs repair:`, issues.slice(0, MAX_REPORTED_ISSUES));
+
+  const repairRequest = `Your previous response did not meet the required ${context.label} format:
+${issues.slice(0, MAX_REPORTED_ISSUES).map(issue => `- ${issue}`).join('\n')}
+
+Return the corrected JSON object only. Keep every value that was already valid and fix only the problems listed above.`;
+
+  const response = await aiClient.createCompletion({
+    model: context.model,
+    systemPrompt: context.systemPrompt,
+    userPrompt: repairRequest,
+    messages: [
+      { role: "system", content: context.systemPrompt },
+      { role: "user", content: context.userPrompt },
+      { role: "assistant", content: content || '' },
+      { role: "user", content: repairRequest }
+    ],
+    responseFormat: { type: "json_object" }
+  });
+
+  const repaired = validateAIOutput(schema, response.content);
+  if (repaired.success) return repaired.data;
+
+  // A valid first response only failed the soft checks - keep it and let the caller filter
+  if (first.success) return first.data;
+
+  throw new AIOutputValidationError(
+    `AI returned an invalid ${context.label} response`,
+    repaired.issues.slice(0, MAX_REPORTED_ISSUES)
+  );
+}
+
+interface LibraryExercise {
+  id: number;
+  name: string;
+  equipment: string | null;
+}
+
+export interface ExerciseNameMatch {
+  exerciseId: number;
+  name: string;
+  reason: 'exact' | 'fuzzy';
+  confidence: number;
+}
+
+// Same bar the workout importer uses for accepting a fuzzy match without review
+const EXERCISE_MATCH_THRESHOLD = 0.8;
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Keeps AI exercise suggestions inside the exercise library - exact names pass, close
+ * variants ("DB Bench Press") are mapped to the library name, everything else is rejected
+ */
+export class ExerciseNameValidator {
+
+  /**
+   * Shared exercises plus the user's own custom exercises
+   */
+  static async getLibrary(userId?: number): Promise<LibraryExercise[]> {
+    return db
+      .select({ id: exercises.id, name: exercises.name, equipment: exercises.equipment })
+      .from(exercises)
+      .where(userId ? or(isNull(exercises.userId), eq(exercises.userId, userId)) : isNull(exercises.userId));
+  }
+
+  static match(name: string, library: LibraryExercise[]): ExerciseNameMatch | null {
+    const normalized = normalizeName(name);
+    const exact = library.find(exercise => normalizeName(exercise.name) === normalized);
+    if (exact) return { exerciseId: exact.id, name: exact.name, reason: 'exact', confidence: 1 };
+
+    let best: ExerciseNameMatch | null = null;
+    for (const exercise of library) {
+      const confidence = scoreExerciseMatch(name, exercise);
+      if (confidence >= EXERCISE_MATCH_THRESHOLD && (!best || confidence > best.confidence)) {
+        best = { exerciseId: exercise.id, name: exercise.name, reason: 'fuzzy', confidence };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Issues for parseWithRepair's check - one per exercise name that cannot be matched
+   */
+  static findUnknownNames(
+    items: { exerciseName: string }[],
+    library: LibraryExercise[],
+    path: (index: number) => string
+  ): string[] {
+    return items.flatMap((item, index) => this.match(item.exerciseName, library)
+      ? []
+      : [`${path(index)}.exerciseName: "${item.exerciseName}" is not in the exercise library - use an exact library name`]);
+  }
+
+  /**
+   * Map every recommendation onto its library exercise, dropping names that do not match and duplicates
+   */
+  static resolveRecommendations<T extends { exerciseName: string }>(
+    items: T[],
+    library: LibraryExercise[]
+  ): { items: (T & { exerciseId: number })[]; mapped: { from: string; to: string }[]; rejected: string[] } {
+    const resolved: (T & { exerciseId: number })[] = [];
+    const mapped: { from: string; to: string }[] = [];
+    const rejected: string[] = [];
+    const seen = new Set<number>();
+
+    items.forEach(item => {
+      const match = this.match(item.exerciseName, library);
+      if (!match) {
+        rejected.push(item.exerciseName);
+        return;
+      }
+      if (seen.has(match.exerciseId)) return;
+      seen.add(match.exerciseId);
+
+      if (match.reason === 'fuzzy') mapped.push({ from: item.exerciseName, to: match.name });
+      resolved.push({ ...item, exerciseName: match.name, exerciseId: match.exerciseId });
+    });
+
+    if (mapped.length || rejected.length) {
+      console.warn('[AI Output] Exercise names outside the library:', { mapped, rejected });
+    }
+
+    return { items: resolved, mapped, rejected };
+  }
+}
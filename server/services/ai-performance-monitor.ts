@@ -2,7 +2,10 @@
 // Tracks response times, token usage, and quality metrics for model comparison
 
 import { db } from '../db';
-import { sql } from 'drizzle-orm';
+import { aiRequestMetrics } from '@shared/schema';
+import { sql, eq, and, gte, desc } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { trackAIUsage, type AITokenUsage } from './ai-provider';
 
 export interface AIPerformanceMetrics {
   requestId: string;
@@ -21,6 +24,10 @@ export interface AIPerformanceMetrics {
   jsonParseable: boolean;
   contentLength: number;
   abTestGroup?: 'control' | 'test' | null;
+  provider?: string;
+  promptVersion?: string;
+  experimentName?: string;
+  variant?: string;
   timestamp: Date;
 }
 
@@ -35,21 +42,19 @@ export interface AIQualityMetrics {
   timestamp: Date;
 }
 
-// In-memory storage for performance metrics (later can be persisted to database)
-const performanceBuffer: AIPerformanceMetrics[] = [];
-const qualityBuffer: AIQualityMetrics[] = [];
+type MetricsSummary = {
+  requests: number;
+  successRate: number;
+  avgResponseTime: number;
+  cost: number;
+};
 
-// Buffer limits to prevent memory overflow
-const MAX_BUFFER_SIZE = 10000;
-const FLUSH_INTERVAL = 5 * 60 * 1000; // 5 minutes
+const toPercent = (part: number, total: number) => total > 0 ? Math.round((part / total) * 10000) / 100 : 0;
 
 export class AIPerformanceMonitor {
   private static instance: AIPerformanceMonitor;
-  private flushTimer?: NodeJS.Timeout;
 
-  private constructor() {
-    this.startPeriodicFlush();
-  }
+  private constructor() {}
 
   static getInstance(): AIPerformanceMonitor {
     if (!AIPerformanceMonitor.instance) {
@@ -58,210 +63,141 @@ export class AIPerformanceMonitor {
     return AIPerformanceMonitor.instance;
   }
 
-  // Record performance metrics
-  recordMetrics(metrics: AIPerformanceMetrics) {
-    performanceBuffer.push({
-      ...metrics,
-      timestamp: new Date()
-    });
-
-    // Prevent buffer overflow
-    if (performanceBuffer.length > MAX_BUFFER_SIZE) {
-      performanceBuffer.splice(0, performanceBuffer.length - MAX_BUFFER_SIZE);
-    }
-
-    // Log important metrics immediately for debugging
+  // Persist performance metrics - failures are logged, never thrown into the AI request
+  async recordMetrics(metrics: AIPerformanceMetrics) {
     const { requestId, service, model, responseTimeMs, success, jsonParseable } = metrics;
     console.log(`[AI-Monitor] ${service}/${model} - ${responseTimeMs}ms - ${success ? 'SUCCESS' : 'FAILED'} - JSON: ${jsonParseable} - ID: ${requestId.substring(0, 8)}`);
+
+    const userId = parseInt(metrics.userId);
+
+    try {
+      await db.insert(aiRequestMetrics).values({
+        requestId,
+        userId: isNaN(userId) ? null : userId,
+        service,
+        model,
+        provider: metrics.provider,
+        promptVersion: metrics.promptVersion,
+        experimentName: metrics.experimentName,
+        variant: metrics.variant || metrics.abTestGroup || null,
+        responseTimeMs,
+        inputTokens: metrics.inputTokens,
+        outputTokens: metrics.outputTokens,
+        totalTokens: metrics.totalTokens,
+        cost: metrics.cost.toFixed(8),
+        success,
+        jsonParseable,
+        contentLength: metrics.contentLength,
+        errorMessage: metrics.errorMessage
+      });
+    } catch (error) {
+      console.error('[AI-Monitor] Failed to persist metrics:', error);
+    }
   }
 
-  // Record quality metrics
-  recordQuality(metrics: AIQualityMetrics) {
-    qualityBuffer.push({
-      ...metrics,
-      timestamp: new Date()
-    });
+  // Record a user's rating (1-5) of an AI response - only the user who made the request can rate it
+  async recordQuality(requestId: string, userId: number, rating: number, feedback?: string) {
+    const [updated] = await db.update(aiRequestMetrics)
+      .set({ userRating: rating, userFeedback: feedback || null, ratedAt: new Date() })
+      .where(and(eq(aiRequestMetrics.requestId, requestId), eq(aiRequestMetrics.userId, userId)))
+      .returning({ id: aiRequestMetrics.id });
 
-    if (qualityBuffer.length > MAX_BUFFER_SIZE) {
-      qualityBuffer.splice(0, qualityBuffer.length - MAX_BUFFER_SIZE);
+    if (!updated) {
+      throw new Error('AI request not found');
     }
   }
 
   // Get recent metrics for analysis
-  getRecentMetrics(service?: string, model?: string, hours: number = 24): AIPerformanceMetrics[] {
+  async getRecentMetrics(service?: string, model?: string, hours: number = 24, limit: number = 50) {
     const cutoff = new Date(Date.now() - (hours * 60 * 60 * 1000));
-    
-    return performanceBuffer
-      .filter(metric => 
-        metric.timestamp >= cutoff &&
-        (!service || metric.service === service) &&
-        (!model || metric.model === model)
-      )
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    return db.select()
+      .from(aiRequestMetrics)
+      .where(and(
+        gte(aiRequestMetrics.createdAt, cutoff),
+        service ? eq(aiRequestMetrics.service, service) : undefined,
+        model ? eq(aiRequestMetrics.model, model) : undefined
+      ))
+      .orderBy(desc(aiRequestMetrics.createdAt))
+      .limit(limit);
   }
 
-  // Generate performance report
-  generateReport(hours: number = 24): {
+  // Generate performance report from stored metrics
+  async generateReport(hours: number = 24): Promise<{
     summary: {
       totalRequests: number;
       successRate: number;
       avgResponseTime: number;
       totalCost: number;
       jsonParseRate: number;
+      avgRating: number | null;
     };
-    byService: Record<string, {
-      requests: number;
-      successRate: number;
-      avgResponseTime: number;
-      cost: number;
-    }>;
-    byModel: Record<string, {
-      requests: number;
-      successRate: number;
-      avgResponseTime: number;
-      cost: number;
-    }>;
-  } {
-    const metrics = this.getRecentMetrics(undefined, undefined, hours);
-    
-    if (metrics.length === 0) {
-      return {
-        summary: { totalRequests: 0, successRate: 0, avgResponseTime: 0, totalCost: 0, jsonParseRate: 0 },
-        byService: {},
-        byModel: {}
-      };
-    }
-
-    // Summary calculations
-    const totalRequests = metrics.length;
-    const successfulRequests = metrics.filter(m => m.success).length;
-    const successRate = (successfulRequests / totalRequests) * 100;
-    const avgResponseTime = metrics.reduce((sum, m) => sum + m.responseTimeMs, 0) / totalRequests;
-    const totalCost = metrics.reduce((sum, m) => sum + m.cost, 0);
-    const jsonParseableRequests = metrics.filter(m => m.jsonParseable).length;
-    const jsonParseRate = (jsonParseableRequests / totalRequests) * 100;
-
-    // By service breakdown
-    const byService: Record<string, any> = {};
-    const services = Array.from(new Set(metrics.map(m => m.service)));
-    
-    services.forEach(service => {
-      const serviceMetrics = metrics.filter(m => m.service === service);
-      const serviceSuccessful = serviceMetrics.filter(m => m.success).length;
-      
-      byService[service] = {
-        requests: serviceMetrics.length,
-        successRate: (serviceSuccessful / serviceMetrics.length) * 100,
-        avgResponseTime: serviceMetrics.reduce((sum, m) => sum + m.responseTimeMs, 0) / serviceMetrics.length,
-        cost: serviceMetrics.reduce((sum, m) => sum + m.cost, 0)
-      };
-    });
-
-    // By model breakdown  
-    const byModel: Record<string, any> = {};
-    const models = Array.from(new Set(metrics.map(m => m.model)));
-    
-    models.forEach(model => {
-      const modelMetrics = metrics.filter(m => m.model === model);
-      const modelSuccessful = modelMetrics.filter(m => m.success).length;
-      
-      byModel[model] = {
-        requests: modelMetrics.length,
-        successRate: (modelSuccessful / modelMetrics.length) * 100,
-        avgResponseTime: modelMetrics.reduce((sum, m) => sum + m.responseTimeMs, 0) / modelMetrics.length,
-        cost: modelMetrics.reduce((sum, m) => sum + m.cost, 0)
-      };
-    });
-
-    return {
-      summary: {
-        totalRequests,
-        successRate: Math.round(successRate * 100) / 100,
-        avgResponseTime: Math.round(avgResponseTime),
-        totalCost: Math.round(totalCost * 10000) / 10000,
-        jsonParseRate: Math.round(jsonParseRate * 100) / 100
-      },
-      byService,
-      byModel
+    byService: Record<string, MetricsSummary>;
+    byModel: Record<string, MetricsSummary>;
+  }> {
+    const cutoff = new Date(Date.now() - (hours * 60 * 60 * 1000));
+    const aggregates = {
+      requests: sql<number>`count(*)::int`,
+      successes: sql<number>`count(*) filter (where ${aiRequestMetrics.success})::int`,
+      jsonParseable: sql<number>`count(*) filter (where ${aiRequestMetrics.jsonParseable})::int`,
+      avgResponseTime: sql<number>`coalesce(avg(${aiRequestMetrics.responseTimeMs}), 0)::float`,
+      cost: sql<number>`coalesce(sum(${aiRequestMetrics.cost}), 0)::float`,
+      avgRating: sql<number | null>`avg(${aiRequestMetrics.userRating})::float`,
     };
-  }
 
-  // A/B Test comparison report
-  generateABTestReport(hours: number = 24): {
-    controlGroup: any;
-    testGroup: any;
-    comparison: {
-      responseTimeDiff: number;
-      successRateDiff: number;
-      costDiff: number;
-      jsonParseRateDiff: number;
-    };
-  } {
-    const metrics = this.getRecentMetrics(undefined, undefined, hours);
-    const controlMetrics = metrics.filter(m => m.abTestGroup === 'control');
-    const testMetrics = metrics.filter(m => m.abTestGroup === 'test');
-
-    const analyzeGroup = (groupMetrics: AIPerformanceMetrics[]) => {
-      if (groupMetrics.length === 0) {
-        return { requests: 0, successRate: 0, avgResponseTime: 0, avgCost: 0, jsonParseRate: 0 };
-      }
+    const [totals] = await db.select(aggregates)
+      .from(aiRequestMetrics)
+      .where(gte(aiRequestMetrics.createdAt, cutoff));
 
-      const successful = groupMetrics.filter(m => m.success).length;
-      const jsonParseable = groupMetrics.filter(m => m.jsonParseable).length;
+    const byServiceRows = await db.select({ key: aiRequestMetrics.service, ...aggregates })
+      .from(aiRequestMetrics)
+      .where(gte(aiRequestMetrics.createdAt, cutoff))
+      .groupBy(aiRequestMetrics.service);
 
-      return {
-        requests: groupMetrics.length,
-        successRate: (successful / groupMetrics.length) * 100,
-        avgResponseTime: groupMetrics.reduce((sum, m) => sum + m.responseTimeMs, 0) / groupMetrics.length,
-        avgCost: groupMetrics.reduce((sum, m) => sum + m.cost, 0) / groupMetrics.length,
-        jsonParseRate: (jsonParseable / groupMetrics.length) * 100
-      };
-    };
+    const byModelRows = await db.select({ key: aiRequestMetrics.model, ...aggregates })
+      .from(aiRequestMetrics)
+      .where(gte(aiRequestMetrics.createdAt, cutoff))
+      .groupBy(aiRequestMetrics.model);
 
-    const controlGroup = analyzeGroup(controlMetrics);
-    const testGroup = analyzeGroup(testMetrics);
+    const summarize = (rows: typeof byServiceRows) => Object.fromEntries(rows.map(row => [row.key, {
+      requests: row.requests,
+      successRate: toPercent(row.successes, row.requests),
+      avgResponseTime: Math.round(row.avgResponseTime),
+      cost: Math.round(row.cost * 10000) / 10000
+    }]));
 
-    const comparison = {
-      responseTimeDiff: testGroup.avgResponseTime - controlGroup.avgResponseTime,
-      successRateDiff: testGroup.successRate - controlGroup.successRate,
-      costDiff: testGroup.avgCost - controlGroup.avgCost,
-      jsonParseRateDiff: testGroup.jsonParseRate - controlGroup.jsonParseRate
+    return {
+      summary: {
+        totalRequests: totals.requests,
+        successRate: toPercent(totals.successes, totals.requests),
+        avgResponseTime: Math.round(totals.avgResponseTime),
+        totalCost: Math.round(totals.cost * 10000) / 10000,
+        jsonParseRate: toPercent(totals.jsonParseable, totals.requests),
+        avgRating: totals.avgRating !== null ? Math.round(totals.avgRating * 100) / 100 : null
+      },
+      byService: summarize(byServiceRows),
+      byModel: summarize(byModelRows)
     };
-
-    return { controlGroup, testGroup, comparison };
-  }
-
-  // Periodic flush to prevent memory buildup (in production, would persist to database)
-  private startPeriodicFlush() {
-    this.flushTimer = setInterval(() => {
-      const report = this.generateReport(1); // Last hour report
-      console.log(`[AI-Monitor] Hourly Report - Requests: ${report.summary.totalRequests}, Success: ${report.summary.successRate}%, Avg Response: ${report.summary.avgResponseTime}ms, Cost: $${report.summary.totalCost}`);
-
-      // In production, would persist buffers to database here
-      // For now, just log the summary
-      if (performanceBuffer.length > 5000) {
-        performanceBuffer.splice(0, 2500); // Remove oldest half
-      }
-    }, FLUSH_INTERVAL);
-  }
-
-  // Cleanup
-  destroy() {
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer);
-    }
   }
 }
 
 // Export singleton instance
 export const aiPerformanceMonitor = AIPerformanceMonitor.getInstance();
 
+// Request IDs are returned to clients (X-AI-Request-Id) so responses can be rated later
+export const createAIRequestId = (): string => randomUUID();
+
 // Helper function to wrap AI calls with monitoring
 export const monitorAICall = async <T>(
   config: {
     service: string;
     model: string;
     userId: string;
+    requestId?: string;
+    provider?: string;
+    promptVersion?: string;
+    experimentName?: string;
+    variant?: string;
     abTestGroup?: 'control' | 'test';
     inputTokens?: number;
     costPerInputToken?: number;
@@ -269,11 +205,18 @@ export const monitorAICall = async <T>(
   },
   aiCall: () => Promise<T>
 ): Promise<T> => {
-  const requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const requestId = config.requestId || createAIRequestId();
   const startTime = Date.now();
+  const usage: AITokenUsage = { inputTokens: 0, outputTokens: 0, calls: 0 };
+  const context = {
+    provider: config.provider,
+    promptVersion: config.promptVersion,
+    experimentName: config.experimentName,
+    variant: config.variant
+  };
 
   try {
-    const result = await aiCall();
+    const result = await trackAIUsage(usage, aiCall);
     const endTime = Date.now();
     const responseTimeMs = endTime - startTime;
 
@@ -296,12 +239,15 @@ export const monitorAICall = async <T>(
       outputTokens = Math.ceil(resultStr.length / 4);
     }
 
-    const inputTokens = config.inputTokens || 0;
+    // Provider-reported usage wins over the length-based estimates
+    const inputTokens = usage.calls > 0 ? usage.inputTokens : config.inputTokens || 0;
+    if (usage.calls > 0) outputTokens = usage.outputTokens;
     const totalTokens = inputTokens + outputTokens;
     const cost = (inputTokens * (config.costPerInputToken || 0)) + 
                  (outputTokens * (config.costPerOutputToken || 0));
 
-    aiPerformanceMonitor.recordMetrics({
+    void aiPerformanceMonitor.recordMetrics({
+      ...context,
       requestId,
       userId: config.userId,
       service: config.service,
@@ -324,8 +270,12 @@ export const monitorAICall = async <T>(
   } catch (error) {
     const endTime = Date.now();
     const responseTimeMs = endTime - startTime;
+    // A response that failed validation was still billed
+    const inputTokens = usage.calls > 0 ? usage.inputTokens : config.inputTokens || 0;
+    const outputTokens = usage.outputTokens;
 
-    aiPerformanceMonitor.recordMetrics({
+    void aiPerformanceMonitor.recordMetrics({
+      ...context,
       requestId,
       userId: config.userId,
       service: config.service,
@@ -333,10 +283,12 @@ export const monitorAICall = async <T>(
       startTime,
       endTime,
       responseTimeMs,
-      inputTokens: config.inputTokens || 0,
-      outputTokens: 0,
-      totalTokens: config.inputTokens || 0,
-      cost: 0,
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+      cost: usage.calls > 0
+        ? (inputTokens * (config.costPerInputToken || 0)) + (outputTokens * (config.costPerOutputToken || 0))
+        : 0,
       success: false,
       errorMessage: error instanceof Error ? error.message : 'Unknown error',
       jsonParseable: false,
@@ -1,5 +1,10 @@
 // AI Prompt Template Registry
 // Centralized management of all AI prompts with versioning and A/B testing support
+// Built-in prompts below are the defaults; edited versions are stored in ai_prompt_versions
+
+import { db } from '../db';
+import { aiPromptVersions, type AiPromptVersion } from '@shared/schema';
+import { eq, and, desc } from 'drizzle-orm';
 
 export interface PromptTemplate {
   id: string;
@@ -244,6 +249,25 @@ export const GPT5_MINI_PROMPTS: Record<string, PromptTemplate> = {
   // These prompts will be optimized for GPT-5-mini characteristics
 };
 
+// Bump the patch component: 1.0.0 -> 1.0.1
+const nextVersion = (version: string): string => {
+  const parts = version.split('.').map(part => parseInt(part) || 0);
+  while (parts.length < 3) parts.push(0);
+  parts[2] += 1;
+  return parts.join('.');
+};
+
+const toTemplate = (row: AiPromptVersion): PromptTemplate => ({
+  id: row.promptId,
+  service: row.service,
+  version: row.version,
+  systemPrompt: row.systemPrompt,
+  userPromptTemplate: row.userPromptTemplate,
+  parameters: row.parameters as PromptTemplate['parameters'],
+  description: row.description || '',
+  lastUpdated: row.createdAt || new Date()
+});
+
 export class PromptRegistry {
   private static instance: PromptRegistry;
   private currentPrompts: Record<string, PromptTemplate>;
@@ -252,6 +276,21 @@ export class PromptRegistry {
     this.currentPrompts = { ...CURRENT_PROMPTS };
   }
 
+  /**
+   * Apply the active stored versions on top of the built-in prompts (call at startup)
+   */
+  async load(): Promise<void> {
+    const activeVersions = await db
+      .select()
+      .from(aiPromptVersions)
+      .where(eq(aiPromptVersions.isActive, true));
+
+    this.currentPrompts = { ...CURRENT_PROMPTS };
+    activeVersions.forEach(row => {
+      this.currentPrompts[row.promptId] = toTemplate(row);
+    });
+  }
+
   static getInstance(): PromptRegistry {
     if (!PromptRegistry.instance) {
       PromptRegistry.instance = new PromptRegistry();
@@ -268,14 +307,114 @@ export class PromptRegistry {
     return { ...this.currentPrompts };
   }
 
-  updatePrompt(promptId: string, updates: Partial<PromptTemplate>) {
-    if (this.currentPrompts[promptId]) {
-      this.currentPrompts[promptId] = {
-        ...this.currentPrompts[promptId],
-        ...updates,
-        lastUpdated: new Date()
-      };
+  /**
+   * Store the update as a new active version of the prompt
+   */
+  async updatePrompt(promptId: string, updates: Partial<PromptTemplate>, createdBy?: number): Promise<PromptTemplate> {
+    const current = this.currentPrompts[promptId];
+    if (!current) {
+      throw new Error(`Prompt '${promptId}' not found`);
     }
+
+    const [latest] = await db
+      .select({ version: aiPromptVersions.version })
+      .from(aiPromptVersions)
+      .where(eq(aiPromptVersions.promptId, promptId))
+      .orderBy(desc(aiPromptVersions.createdAt))
+      .limit(1);
+
+    const updated: PromptTemplate = {
+      ...current,
+      systemPrompt: updates.systemPrompt ?? current.systemPrompt,
+      userPromptTemplate: updates.userPromptTemplate ?? current.userPromptTemplate,
+      parameters: { ...current.parameters, ...updates.parameters },
+      description: updates.description ?? current.description,
+      version: nextVersion(latest?.version || current.version),
+      lastUpdated: new Date()
+    };
+
+    await db.transaction(async (tx) => {
+      await tx.update(aiPromptVersions)
+        .set({ isActive: false })
+        .where(eq(aiPromptVersions.promptId, promptId));
+
+      await tx.insert(aiPromptVersions).values({
+        promptId,
+        service: updated.service,
+        version: updated.version,
+        systemPrompt: updated.systemPrompt,
+        userPromptTemplate: updated.userPromptTemplate,
+        parameters: updated.parameters,
+        description: updated.description,
+        isActive: true,
+        createdBy
+      });
+    });
+
+    this.currentPrompts[promptId] = updated;
+    return updated;
+  }
+
+  /**
+   * Stored versions of a prompt, newest first, plus the built-in default
+   */
+  async getPromptVersions(promptId: string): Promise<{ builtIn: PromptTemplate | null; versions: AiPromptVersion[] }> {
+    const versions = await db
+      .select()
+      .from(aiPromptVersions)
+      .where(eq(aiPromptVersions.promptId, promptId))
+      .orderBy(desc(aiPromptVersions.createdAt));
+
+    return { builtIn: CURRENT_PROMPTS[promptId] || null, versions };
+  }
+
+  /**
+   * Roll back or forward to a stored version - the built-in version re-activates the code default
+   */
+  async activateVersion(promptId: string, version: string): Promise<PromptTemplate> {
+    const builtIn = CURRENT_PROMPTS[promptId];
+    const [row] = await db
+      .select()
+      .from(aiPromptVersions)
+      .where(and(eq(aiPromptVersions.promptId, promptId), eq(aiPromptVersions.version, version)))
+      .limit(1);
+
+    if (!row && !(builtIn && builtIn.version === version)) {
+      throw new Error(`Version ${version} of prompt '${promptId}' not found`);
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.update(aiPromptVersions)
+        .set({ isActive: false })
+        .where(eq(aiPromptVersions.promptId, promptId));
+
+      if (row) {
+        await tx.update(aiPromptVersions)
+          .set({ isActive: true })
+          .where(eq(aiPromptVersions.id, row.id));
+      }
+    });
+
+    this.currentPrompts[promptId] = row ? toTemplate(row) : builtIn;
+    return this.currentPrompts[promptId];
+  }
+
+  /**
+   * A specific version of a service's prompt (used by experiment variants), falling back to null
+   */
+  async getPromptVersion(service: string, version: string): Promise<PromptTemplate | null> {
+    const promptId = `${service}-v1`;
+    const current = this.currentPrompts[promptId];
+    if (current?.version === version) return current;
+    if (CURRENT_PROMPTS[promptId]?.version === version) return CURRENT_PROMPTS[promptId];
+
+    const [row] = await db
+      .select()
+      .from(aiPromptVersions)
+      .where(and(eq(aiPromptVersions.promptId, promptId), eq(aiPromptVersions.version, version)))
+      .limit(1);
+
+    return row ? toTemplate(row) : null;
   }
 
   addPrompt(prompt: PromptTemplate) {
@@ -0,0 +1,104 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { AIModelConfig, AIProviderName } from '../config/ai-config';
+import { GPT5Adapter } from './gpt5-adapter';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+import { FixtureReplayProvider } from './fixture-replay-provider';
+
+export interface AICompletionParams {
+  model: AIModelConfig;
+  systemPrompt: string;
+  userPrompt: string;
+  messages?: any[]; // chat.completions-style messages, may contain image_url parts
+  responseFormat?: { type: string };
+}
+
+export interface AICompletionResult {
+  content: string;
+  usage?: any;
+}
+
+/**
+ * A backend able to serve text and vision completions for an AIModelConfig
+ */
+export interface AIProvider {
+  readonly name: AIProviderName;
+
+  createCompletion(params: AICompletionParams): Promise<AICompletionResult>;
+
+  createVisionCompletion(
+    model: AIModelConfig,
+    systemPrompt: string,
+    userPrompt: string,
+    image: string, // base64 JPEG
+    responseFormat?: { type: string }
+  ): Promise<AICompletionResult>;
+}
+
+// Providers are created on first use so a missing OPENAI_API_KEY only matters when OpenAI is actually called
+const providers = new Map<AIProviderName, AIProvider>();
+
+export function getAIProvider(name: AIProviderName): AIProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    switch (name) {
+      case 'openai':
+        provider = new GPT5Adapter();
+        break;
+      case 'openai-compatible':
+        provider = new OpenAICompatibleProvider();
+        break;
+      case 'fixture':
+        provider = new FixtureReplayProvider();
+        break;
+      default:
+        throw new Error(`Unknown AI provider: ${name}`);
+    }
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+export interface AITokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  calls: number; // Completions that reported usage
+}
+
+// Usage of every completion made inside trackAIUsage - repair round-trips included
+const usageTracker = new AsyncLocalStorage<AITokenUsage>();
+
+export function trackAIUsage<T>(usage: AITokenUsage, aiCall: () => Promise<T>): Promise<T> {
+  return usageTracker.run(usage, aiCall);
+}
+
+// Chat Completions reports prompt/completion tokens, the Responses API input/output tokens
+function recordUsage(result: AICompletionResult): AICompletionResult {
+  const usage = usageTracker.getStore();
+  const input = Number(result.usage?.input_tokens ?? result.usage?.prompt_tokens);
+  const output = Number(result.usage?.output_tokens ?? result.usage?.completion_tokens);
+  if (usage && isFinite(input) && isFinite(output)) {
+    usage.inputTokens += input;
+    usage.outputTokens += output;
+    usage.calls++;
+  }
+  return result;
+}
+
+/**
+ * Routes each call to the provider configured on the model
+ */
+export const aiClient = {
+  createCompletion(params: AICompletionParams): Promise<AICompletionResult> {
+    return getAIProvider(params.model.provider).createCompletion(params).then(recordUsage);
+  },
+
+  createVisionCompletion(
+    model: AIModelConfig,
+    systemPrompt: string,
+    userPrompt: string,
+    image: string,
+    responseFormat?: { type: string }
+  ): Promise<AICompletionResult> {
+    return getAIProvider(model.provider).createVisionCompletion(model, systemPrompt, userPrompt, image, responseFormat).then(recordUsage);
+  }
+};
@@ -0,0 +1,303 @@
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { db } from "../db";
+import { users, aiRequestMetrics } from "@shared/schema";
+import { eq, and, gte, sql } from "drizzle-orm";
+import { getAIQuotaTiers, getDefaultAIQuotaTier, type AIQuotaTier } from "../config/ai-config";
+
+/**
+ * Per-user AI allowance: quota tiers, a per-minute request limiter and a cache of identical requests.
+ * Token and cost usage come from ai_request_metrics, so every monitored AI call counts automatically.
+ * The limiter and cache are in-memory and per server process.
+ */
+
+interface UsageTotals {
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface AIUsageWindow extends UsageTotals {
+  tokenLimit: number | null;
+  costLimit: number | null;
+  remainingTokens: number | null;
+  remainingCost: number | null;
+  resetsAt: string;
+}
+
+export interface AIUsageSummary {
+  tier: string;
+  daily: AIUsageWindow;
+  monthly: AIUsageWindow;
+  rateLimit: {
+    requestsPerMinute: number;
+    remaining: number;
+  };
+  maxImageBytes: number;
+}
+
+interface CachedResponse {
+  body: unknown;
+  requestId?: string;
+  expiresAt: number;
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+const MAX_CACHE_ENTRIES = 500;
+const CACHE_TTL_MS = (parseInt(process.env.AI_CACHE_TTL_MINUTES || '') || 360) * 60 * 1000;
+
+const recentRequests = new Map<number, number[]>();
+const responseCache = new Map<string, CachedResponse>();
+
+const startOfUTCDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const startOfUTCMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const isImageField = (key: string) => key === 'image' || key === 'images';
+
+const stripDataUrl = (image: string) => image.replace(/^data:[^,]*,/, '');
+
+// Images are reduced to a hash of their bytes, so the same photo hits the cache whatever its data URL prefix
+const normalizeForCacheKey = (value: unknown, key = ''): unknown => {
+  if (typeof value === 'string' && (isImageField(key) || value.startsWith('data:image/'))) {
+    return `sha256:${createHash('sha256').update(stripDataUrl(value)).digest('hex')}`;
+  }
+  if (Array.isArray(value)) return value.map(item => normalizeForCacheKey(item, key));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(field => [field, normalizeForCacheKey((value as any)[field], field)]));
+  }
+  return value;
+};
+
+// Decoded size of every image in a request body
+const getImageBytes = (value: unknown, key = ''): number => {
+  if (typeof value === 'string') {
+    return isImageField(key) || value.startsWith('data:image/') ? Math.floor(stripDataUrl(value).length * 3 / 4) : 0;
+  }
+  if (Array.isArray(value)) return value.reduce((sum: number, item) => sum + getImageBytes(item, key), 0);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).reduce((sum, [field, item]) => sum + getImageBytes(item, field), 0);
+  }
+  return 0;
+};
+
+const remaining = (limit: number | null, used: number) => limit === null ? null : Math.max(0, limit - used);
+
+export class AIUsageService {
+
+  static async getTier(userId: number): Promise<AIQuotaTier> {
+    const tiers = getAIQuotaTiers();
+    const [user] = await db
+      .select({ aiQuotaTier: users.aiQuotaTier })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    return tiers[user?.aiQuotaTier || getDefaultAIQuotaTier()] || tiers.free;
+  }
+
+  /**
+   * Requests, tokens and cost for the current UTC day and month
+   */
+  static async getUsage(userId: number, now: Date = new Date()): Promise<{ daily: UsageTotals; monthly: UsageTotals }> {
+    const dayStart = startOfUTCDay(now);
+    const [row] = await db
+      .select({
+        monthlyRequests: sql<number>`count(*)::int`,
+        monthlyTokens: sql<number>`coalesce(sum(${aiRequestMetrics.totalTokens}), 0)::float`,
+        monthlyCost: sql<number>`coalesce(sum(${aiRequestMetrics.cost}), 0)::float`,
+        dailyRequests: sql<number>`count(*) filter (where ${aiRequestMetrics.createdAt} >= ${dayStart})::int`,
+        dailyTokens: sql<number>`coalesce(sum(${aiRequestMetrics.totalTokens}) filter (where ${aiRequestMetrics.createdAt} >= ${dayStart}), 0)::float`,
+        dailyCost: sql<number>`coalesce(sum(${aiRequestMetrics.cost}) filter (where ${aiRequestMetrics.createdAt} >= ${dayStart}), 0)::float`
+      })
+      .from(aiRequestMetrics)
+      .where(and(eq(aiRequestMetrics.userId, userId), gte(aiRequestMetrics.createdAt, startOfUTCMonth(now))));
+
+    return {
+      daily: { requests: Number(row?.dailyRequests || 0), tokens: Number(row?.dailyTokens || 0), cost: Number(row?.dailyCost || 0) },
+      monthly: { requests: Number(row?.monthlyRequests || 0), tokens: Number(row?.monthlyTokens || 0), cost: Number(row?.monthlyCost || 0) }
+    };
+  }
+
+  static async getUsageSummary(userId: number): Promise<AIUsageSummary> {
+    const now = new Date();
+    const tier = await this.getTier(userId);
+    const usage = await this.getUsage(userId, now);
+
+    const nextDay = startOfUTCDay(now);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    const nextMonth = startOfUTCMonth(now);
+    nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+
+    const window = (totals: UsageTotals, tokenLimit: number | null, costLimit: number | null, resetsAt: Date): AIUsageWindow => ({
+      ...totals,
+      cost: Math.round(totals.cost * 10000) / 10000,
+      tokenLimit,
+      costLimit,
+      remainingTokens: remaining(tokenLimit, totals.tokens),
+      remainingCost: costLimit === null ? null : Math.round(Math.max(0, costLimit - totals.cost) * 10000) / 10000,
+      resetsAt: resetsAt.toISOString()
+    });
+
+    return {
+      tier: tier.name,
+      daily: window(usage.daily, tier.dailyTokens, tier.dailyCost, nextDay),
+      monthly: window(usage.monthly, tier.monthlyTokens, tier.monthlyCost, nextMonth),
+      rateLimit: {
+        requestsPerMinute: tier.requestsPerMinute,
+        remaining: Math.max(0, tier.requestsPerMinute - this.getRecentRequests(userId).length)
+      },
+      maxImageBytes: tier.maxImageBytes
+    };
+  }
+
+  /**
+   * Whether the user still has daily and monthly allowance left
+   */
+  static async checkQuota(userId: number, tier: AIQuotaTier): Promise<{ allowed: boolean; reason?: string; resetsAt?: Date }> {
+    const now = new Date();
+    const { daily, monthly } = await this.getUsage(userId, now);
+
+    const nextDay = startOfUTCDay(now);
+    nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+    const nextMonth = startOfUTCMonth(now);
+    nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+
+    if ((tier.monthlyTokens !== null && monthly.tokens >= tier.monthlyTokens) ||
+        (tier.monthlyCost !== null && monthly.cost >= tier.monthlyCost)) {
+      return { allowed: false, reason: 'Monthly AI allowance used up', resetsAt: nextMonth };
+    }
+    if ((tier.dailyTokens !== null && daily.tokens >= tier.dailyTokens) ||
+        (tier.dailyCost !== null && daily.cost >= tier.dailyCost)) {
+      return { allowed: false, reason: 'Daily AI allowance used up', resetsAt: nextDay };
+    }
+    return { allowed: true };
+  }
+
+  private static getRecentRequests(userId: number, now: number = Date.now()): number[] {
+    const timestamps = (recentRequests.get(userId) || []).filter(timestamp => now - timestamp < RATE_WINDOW_MS);
+    if (timestamps.length) {
+      recentRequests.set(userId, timestamps);
+    } else {
+      recentRequests.delete(userId);
+    }
+    return timestamps;
+  }
+
+  /**
+   * Sliding one-minute window - records the request when it is allowed
+   */
+  static consumeRateLimit(userId: number, requestsPerMinute: number): { allowed: boolean; retryAfter?: number } {
+    const now = Date.now();
+    const timestamps = this.getRecentRequests(userId, now);
+
+    if (timestamps.length >= requestsPerMinute) {
+      return { allowed: false, retryAfter: Math.max(1, Math.ceil((timestamps[0] + RATE_WINDOW_MS - now) / 1000)) };
+    }
+
+    recentRequests.set(userId, [...timestamps, now]);
+    return { allowed: true };
+  }
+
+  /**
+   * Cache key for a request - per user, since prompts include the user's own data and experiment variant
+   */
+  static getCacheKey(service: string, userId: number, body: unknown): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ service, userId, body: normalizeForCacheKey(body) }))
+      .digest('hex');
+  }
+
+  static getCachedResponse(key: string): CachedResponse | null {
+    const cached = responseCache.get(key);
+    if (!cached) return null;
+    if (cached.expiresAt <= Date.now()) {
+      responseCache.delete(key);
+      return null;
+    }
+    return cached;
+  }
+
+  static cacheResponse(key: string, body: unknown, requestId?: string) {
+    if (responseCache.size >= MAX_CACHE_ENTRIES) {
+      // Maps keep insertion order, so the first key is the oldest entry
+      const oldest = responseCache.keys().next().value;
+      if (oldest !== undefined) responseCache.delete(oldest);
+    }
+    responseCache.set(key, { body, requestId, expiresAt: Date.now() + CACHE_TTL_MS });
+  }
+
+  static getImageBytes(body: unknown): number {
+    return getImageBytes(body);
+  }
+}
+
+/**
+ * Express middleware for AI endpoints: image size limit, rate limit, cache lookup and quota check,
+ * in that order - cache hits cost nothing and are served even when the allowance is used up
+ */
+export function aiUsageGuard(service: string, options: { cache?: boolean } = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userId = Number(req.userId);
+
+    try {
+      const tier = await AIUsageService.getTier(userId);
+
+      const imageBytes = AIUsageService.getImageBytes(req.body);
+      if (imageBytes > tier.maxImageBytes) {
+        return res.status(413).json({
+          message: `Images are too large - the ${tier.name} plan allows ${Math.round(tier.maxImageBytes / (1024 * 1024))} MB per request`,
+          imageBytes,
+          maxImageBytes: tier.maxImageBytes
+        });
+      }
+
+      const rateLimit = AIUsageService.consumeRateLimit(userId, tier.requestsPerMinute);
+      if (!rateLimit.allowed) {
+        res.setHeader('Retry-After', String(rateLimit.retryAfter));
+        return res.status(429).json({
+          message: 'Too many AI requests - please wait a moment',
+          retryAfter: rateLimit.retryAfter
+        });
+      }
+
+      const cacheKey = options.cache ? AIUsageService.getCacheKey(service, userId, req.body) : null;
+      if (cacheKey) {
+        const cached = AIUsageService.getCachedResponse(cacheKey);
+        if (cached) {
+          res.setHeader('X-AI-Cache', 'hit');
+          if (cached.requestId) res.setHeader('X-AI-Request-Id', cached.requestId);
+          return res.json(cached.body);
+        }
+      }
+
+      const quota = await AIUsageService.checkQuota(userId, tier);
+      if (!quota.allowed) {
+        const retryAfter = Math.ceil((quota.resetsAt!.getTime() - Date.now()) / 1000);
+        res.setHeader('Retry-After', String(retryAfter));
+        return res.status(429).json({
+          message: quota.reason,
+          tier: tier.name,
+          resetsAt: quota.resetsAt!.toISOString(),
+          retryAfter
+        });
+      }
+
+      if (cacheKey) {
+        res.setHeader('X-AI-Cache', 'miss');
+        const sendJson = res.json.bind(res);
+        res.json = (body: any) => {
+          if (res.statusCode >= 200 && res.statusCode < 300) {
+            const requestId = res.getHeader('X-AI-Request-Id');
+            AIUsageService.cacheResponse(cacheKey, body, typeof requestId === 'string' ? requestId : undefined);
+          }
+          return sendJson(body);
+        };
+      }
+    } catch (error) {
+      // Fail open - an unavailable usage store should not take the AI features down
+      console.error('AI usage check failed:', error);
+    }
+
+    next();
+  };
+}
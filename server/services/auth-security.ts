@@ -0,0 +1,307 @@
+import type { Request, Response, NextFunction } from 'express';
+import { db } from '../db';
+import { securityEvents } from '@shared/schema';
+import { eq, and, gte, desc, inArray, sql } from 'drizzle-orm';
+import { emailService } from './email-service';
+
+export interface RateLimitRule {
+  windowMinutes: number;
+  maxPerIp: number;
+  maxPerAccount: number; // Keyed on the normalized email in the request body, or the signed-in user
+}
+
+// Request budgets for account endpoints (sign-in, verification, password and email changes)
+export const AUTH_RATE_LIMITS = {
+  signin: { windowMinutes: 15, maxPerIp: 30, maxPerAccount: 10 },
+  resendVerification: { windowMinutes: 60, maxPerIp: 10, maxPerAccount: 3 },
+  passwordReset: { windowMinutes: 60, maxPerIp: 5, maxPerAccount: 3 },
+  emailChange: { windowMinutes: 60, maxPerIp: 10, maxPerAccount: 3 },
+  twoFactor: { windowMinutes: 15, maxPerIp: 20, maxPerAccount: 10 },
+} satisfies Record<string, RateLimitRule>;
+
+export type AuthRateLimitBucket = keyof typeof AUTH_RATE_LIMITS;
+
+// Failed sign-ins before an account is locked; each further lockout within a day doubles the duration
+export const LOCKOUT_POLICY = {
+  maxFailures: 5,
+  failureWindowMinutes: 15,
+  baseLockoutMinutes: 15,
+  maxLockoutMinutes: 24 * 60,
+  escalationWindowHours: 24,
+};
+
+// Sign-in is flagged when it comes from an unknown IP and device, or right after repeated failures
+const SUSPICIOUS_LOGIN = {
+  knownLocationDays: 90,
+  recentFailureMinutes: 60,
+  recentFailureThreshold: 3,
+};
+
+export interface SecurityEventContext {
+  userId?: number | null;
+  email?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  details?: Record<string, unknown>;
+}
+
+export interface LockoutStatus {
+  locked: boolean;
+  lockedUntil?: Date;
+  retryAfter?: number; // seconds
+}
+
+const MAX_TRACKED_KEYS = 10000;
+
+// Sliding-window request timestamps per limiter key - per process, like the AI rate limiter
+const recentAttempts = new Map<string, number[]>();
+
+export const normalizeEmail = (email: unknown): string | null =>
+  typeof email === 'string' && email.trim() ? email.toLowerCase().trim() : null;
+
+export function getClientIP(req: Request): string {
+  return req.ip || req.connection.remoteAddress || 'unknown';
+}
+
+export class AuthSecurityService {
+
+  /**
+   * Count one request against a limiter key, returning whether it is within `max` per window
+   */
+  static consumeRateLimit(key: string, max: number, windowMs: number): { allowed: boolean; retryAfter?: number } {
+    const now = Date.now();
+    const timestamps = (recentAttempts.get(key) || []).filter(timestamp => now - timestamp < windowMs);
+
+    if (timestamps.length >= max) {
+      recentAttempts.set(key, timestamps);
+      return { allowed: false, retryAfter: Math.max(1, Math.ceil((timestamps[0] + windowMs - now) / 1000)) };
+    }
+
+    timestamps.push(now);
+    recentAttempts.set(key, timestamps);
+
+    if (recentAttempts.size > MAX_TRACKED_KEYS) {
+      // Oldest keys first (Map keeps insertion order)
+      const oldest = recentAttempts.keys().next().value;
+      if (oldest !== undefined) recentAttempts.delete(oldest);
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Apply a bucket's per-IP and per-account limits
+   */
+  static checkRateLimit(bucket: AuthRateLimitBucket, ipAddress: string, account: string | null): { allowed: boolean; scope?: 'ip' | 'account'; retryAfter?: number } {
+    const rule: RateLimitRule = AUTH_RATE_LIMITS[bucket];
+    const windowMs = rule.windowMinutes * 60 * 1000;
+
+    const ipLimit = this.consumeRateLimit(`${bucket}:ip:${ipAddress}`, rule.maxPerIp, windowMs);
+    if (!ipLimit.allowed) return { ...ipLimit, scope: 'ip' };
+
+    if (account) {
+      const accountLimit = this.consumeRateLimit(`${bucket}:account:${account}`, rule.maxPerAccount, windowMs);
+      if (!accountLimit.allowed) return { ...accountLimit, scope: 'account' };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Persist a security event. Never throws - logging failures must not block authentication.
+   */
+  static async logEvent(event: string, context: SecurityEventContext = {}): Promise<void> {
+    console.log(`[SECURITY EVENT] ${new Date().toISOString()} - ${event}`, context);
+
+    try {
+      await db.insert(securityEvents).values({
+        event,
+        userId: context.userId ?? null,
+        email: normalizeEmail(context.email),
+        ipAddress: context.ipAddress ?? null,
+        userAgent: context.userAgent ?? null,
+        details: context.details ?? null
+      });
+    } catch (error) {
+      console.error('Failed to log security event:', error);
+    }
+  }
+
+  /**
+   * Whether the account behind `email` is in a lockout period
+   */
+  static async getLockout(email: string): Promise<LockoutStatus> {
+    try {
+      const [lock] = await db
+        .select()
+        .from(securityEvents)
+        .where(and(eq(securityEvents.email, email), eq(securityEvents.event, 'account_locked')))
+        .orderBy(desc(securityEvents.createdAt))
+        .limit(1);
+
+      const lockedUntil = lock ? new Date((lock.details as any)?.lockedUntil) : null;
+      if (!lockedUntil || isNaN(lockedUntil.getTime()) || lockedUntil.getTime() <= Date.now()) {
+        return { locked: false };
+      }
+
+      return { locked: true, lockedUntil, retryAfter: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000) };
+    } catch (error) {
+      console.error('Lockout check error:', error);
+      return { locked: false }; // Fail open for availability
+    }
+  }
+
+  /**
+   * Record a failed sign-in and lock the account once it reaches the failure limit.
+   * Failures only count since the last successful sign-in or lockout.
+   */
+  static async recordFailedSignIn(email: string, context: Omit<SecurityEventContext, 'email'> & { reason: string }): Promise<LockoutStatus> {
+    const { reason, ...eventContext } = context;
+    await this.logEvent('signin_failed', { ...eventContext, email, details: { reason } });
+
+    try {
+      const now = Date.now();
+      const windowStart = new Date(now - LOCKOUT_POLICY.failureWindowMinutes * 60 * 1000);
+
+      const [lastReset] = await db
+        .select({ createdAt: securityEvents.createdAt })
+        .from(securityEvents)
+        .where(and(
+          eq(securityEvents.email, email),
+          inArray(securityEvents.event, ['signin_success', 'account_locked']),
+          gte(securityEvents.createdAt, windowStart)
+        ))
+        .orderBy(desc(securityEvents.createdAt))
+        .limit(1);
+
+      const [{ count }] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(securityEvents)
+        .where(and(
+          eq(securityEvents.email, email),
+          eq(securityEvents.event, 'signin_failed'),
+          gte(securityEvents.createdAt, lastReset ? lastReset.createdAt : windowStart)
+        ));
+
+      if (count < LOCKOUT_POLICY.maxFailures) return { locked: false };
+
+      const [{ previousLocks }] = await db
+        .select({ previousLocks: sql<number>`count(*)::int` })
+        .from(securityEvents)
+        .where(and(
+          eq(securityEvents.email, email),
+          eq(securityEvents.event, 'account_locked'),
+          gte(securityEvents.createdAt, new Date(now - LOCKOUT_POLICY.escalationWindowHours * 60 * 60 * 1000))
+        ));
+
+      const lockoutMinutes = Math.min(
+        LOCKOUT_POLICY.baseLockoutMinutes * 2 ** previousLocks,
+        LOCKOUT_POLICY.maxLockoutMinutes
+      );
+      const lockedUntil = new Date(now + lockoutMinutes * 60 * 1000);
+
+      await this.logEvent('account_locked', {
+        ...eventContext,
+        email,
+        details: { lockedUntil: lockedUntil.toISOString(), lockoutMinutes, failures: count, level: previousLocks + 1 }
+      });
+
+      return { locked: true, lockedUntil, retryAfter: lockoutMinutes * 60 };
+    } catch (error) {
+      console.error('Failed sign-in tracking error:', error);
+      return { locked: false };
+    }
+  }
+
+  /**
+   * Record a successful sign-in and email the user when it looks suspicious
+   */
+  static async recordSuccessfulSignIn(
+    user: { id: number; email: string; name: string },
+    ipAddress: string,
+    userAgent: string
+  ): Promise<void> {
+    const email = normalizeEmail(user.email)!;
+
+    try {
+      const reasons = await this.getSuspiciousLoginReasons(user.id, email, ipAddress, userAgent);
+      await this.logEvent('signin_success', { userId: user.id, email, ipAddress, userAgent });
+
+      if (reasons.length === 0) return;
+
+      await this.logEvent('suspicious_login', { userId: user.id, email, ipAddress, userAgent, details: { reasons } });
+      const emailSent = await emailService.sendSuspiciousLoginEmail(user.email, user.name, {
+        ipAddress,
+        userAgent,
+        time: new Date(),
+        reasons
+      });
+      if (!emailSent) console.error(`Suspicious login alert could not be sent to user ${user.id}`);
+    } catch (error) {
+      console.error('Successful sign-in tracking error:', error);
+    }
+  }
+
+  private static async getSuspiciousLoginReasons(userId: number, email: string, ipAddress: string, userAgent: string): Promise<string[]> {
+    const reasons: string[] = [];
+
+    const previousLogins = await db
+      .select({ ipAddress: securityEvents.ipAddress, userAgent: securityEvents.userAgent })
+      .from(securityEvents)
+      .where(and(
+        eq(securityEvents.userId, userId),
+        eq(securityEvents.event, 'signin_success'),
+        gte(securityEvents.createdAt, new Date(Date.now() - SUSPICIOUS_LOGIN.knownLocationDays * 24 * 60 * 60 * 1000))
+      ))
+      .limit(200);
+
+    // Nothing to compare against on the first recorded sign-in
+    if (previousLogins.length > 0 &&
+        !previousLogins.some(login => login.ipAddress === ipAddress) &&
+        !previousLogins.some(login => login.userAgent === userAgent)) {
+      reasons.push('Sign-in from a new location and device');
+    }
+
+    const [{ failures }] = await db
+      .select({ failures: sql<number>`count(*)::int` })
+      .from(securityEvents)
+      .where(and(
+        eq(securityEvents.email, email),
+        eq(securityEvents.event, 'signin_failed'),
+        gte(securityEvents.createdAt, new Date(Date.now() - SUSPICIOUS_LOGIN.recentFailureMinutes * 60 * 1000))
+      ));
+
+    if (failures >= SUSPICIOUS_LOGIN.recentFailureThreshold) {
+      reasons.push(`${failures} failed sign-in attempts in the last hour`);
+    }
+
+    return reasons;
+  }
+}
+
+/**
+ * Per-IP and per-account throttling for account endpoints
+ */
+export function authRateLimit(bucket: AuthRateLimitBucket) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const ipAddress = getClientIP(req);
+    const email = normalizeEmail(req.body?.email);
+    const account = email || (req.userId ? `user:${req.userId}` : null);
+    const limit = AuthSecurityService.checkRateLimit(bucket, ipAddress, account);
+
+    if (limit.allowed) return next();
+
+    AuthSecurityService.logEvent('rate_limited', {
+      userId: req.userId ? Number(req.userId) : null,
+      email,
+      ipAddress,
+      userAgent: req.get('User-Agent') || null,
+      details: { bucket, scope: limit.scope, path: req.path }
+    });
+
+    const message = 'Too many attempts - please try again later';
+    res.setHeader('Retry-After', String(limit.retryAfter));
+    // `error` for the endpoints whose clients read it, `message` for the rest
+    res.status(429).json({ success: false, message, error: message, retryAfter: limit.retryAfter });
+  };
+}
@@ -1,15 +1,31 @@
+import { db } from "../db";
 import { storage } from "../storage-db";
+import { users, autoAdjustmentJobs, type AutoAdjustmentJob } from "@shared/schema";
+import { eq, and, or, desc, lte, lt, isNull, inArray, sql } from "drizzle-orm";
 import { AdvancedMacroManagementService } from "./advanced-macro-management";
+import { TimezoneUtils } from "@shared/utils/timezone";
 
 interface AutoAdjustmentSettings {
   autoAdjustmentEnabled: boolean;
   autoAdjustmentFrequency: 'weekly' | 'biweekly';
   lastAutoAdjustment?: string;
+  timezone?: string;
 }
 
+// Local hour (in the user's timezone) after which the weekly job becomes due
+const RUN_HOUR = 6;
+// How often the queue is polled - hourly so every timezone gets its 6 AM slot
+const TICK_INTERVAL_MS = 60 * 60 * 1000;
+// Base delay before retrying a failed job, doubled on each attempt
+const RETRY_BASE_DELAY_MS = 15 * 60 * 1000;
+// Jobs stuck in "running" longer than this are assumed to belong to a crashed process
+const STALE_LOCK_MS = 30 * 60 * 1000;
+
 export class AutoAdjustmentScheduler {
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning = false;
+  private isTicking = false;
+  private lastTickAt: Date | null = null;
 
   constructor() {
     this.startScheduler();
@@ -17,166 +33,312 @@ export class AutoAdjustmentScheduler {
 
   private startScheduler() {
     if (this.isRunning) return;
-    
+
     this.isRunning = true;
     console.log('🤖 Auto-adjustment scheduler started');
-    
-    // Check once daily at 6 AM for users who need auto-adjustments
+
+    // Poll the job queue hourly; job state lives in the database so restarts don't lose work
     this.intervalId = setInterval(() => {
-      this.processAutoAdjustments();
-    }, 24 * 60 * 60 * 1000); // Run every 24 hours
-    
-    // Schedule to run at 6 AM daily
-    this.scheduleDaily6AM();
-    
-    // Also run once immediately (but only in development)
-    if (process.env.NODE_ENV === 'development') {
-      setTimeout(() => this.processAutoAdjustments(), 10000);
-    }
+      this.tick();
+    }, TICK_INTERVAL_MS);
+
+    // Run one tick shortly after startup to pick up anything missed while the server was down
+    setTimeout(() => this.tick(), process.env.NODE_ENV === 'development' ? 10000 : 60000);
   }
 
-  private async processAutoAdjustments() {
+  private async tick() {
+    if (this.isTicking) return;
+    this.isTicking = true;
+
     try {
-      console.log('🔄 Daily auto-adjustment check started...');
-      
-      // Get all users with auto-adjustment enabled
-      const usersWithAutoAdjustment = await this.getUsersWithAutoAdjustmentEnabled();
-      
-      for (const user of usersWithAutoAdjustment) {
-        await this.processUserAutoAdjustment(user);
-      }
-      
-      console.log(`✅ Daily auto-adjustment complete. Processed ${usersWithAutoAdjustment.length} users at ${new Date().toLocaleString()}.`);
+      console.log('🔄 Auto-adjustment queue check started...');
+
+      await this.releaseStaleLocks();
+      const enqueued = await this.enqueueDueJobs();
+      const processed = await this.processPendingJobs();
+      this.lastTickAt = new Date();
+
+      console.log(`✅ Auto-adjustment queue check complete. Enqueued ${enqueued}, processed ${processed} jobs at ${new Date().toLocaleString()}.`);
     } catch (error) {
       console.error('❌ Error in auto-adjustment scheduler:', error);
+    } finally {
+      this.isTicking = false;
     }
   }
 
-  private async getUsersWithAutoAdjustmentEnabled(): Promise<any[]> {
+  private async getUsersWithAutoAdjustmentEnabled(): Promise<Array<{ id: number; settings: AutoAdjustmentSettings }>> {
     try {
-      // Lightweight approach: only check a limited number of users per run
-      // In production, this would be optimized with proper database indexing
-      const userIds = [1]; // For now, focus on current user only
-      const usersWithAutoAdjustment = [];
-      
-      for (const userId of userIds) {
-        const user = await storage.getUser(userId);
-        if (!user?.autoAdjustmentSettings) continue;
-        
-        const settings = user.autoAdjustmentSettings as AutoAdjustmentSettings;
-        if (settings.autoAdjustmentEnabled) {
-          usersWithAutoAdjustment.push({ ...user, settings });
-        }
-      }
-      
-      return usersWithAutoAdjustment;
+      const enabledUsers = await db
+        .select({ id: users.id, autoAdjustmentSettings: users.autoAdjustmentSettings })
+        .from(users)
+        .where(sql`${users.autoAdjustmentSettings}->>'autoAdjustmentEnabled' = 'true'`);
+
+      return enabledUsers
+        .map(user => ({ id: user.id, settings: user.autoAdjustmentSettings as AutoAdjustmentSettings }))
+        .filter(user => user.settings.autoAdjustmentFrequency === 'weekly' || user.settings.autoAdjustmentFrequency === 'biweekly');
     } catch (error) {
       console.error('Error getting users with auto-adjustment:', error);
       return [];
     }
   }
 
-  private async processUserAutoAdjustment(user: any) {
-    try {
-      const settings = user.settings as AutoAdjustmentSettings;
-      const userId = user.id;
-      
-      console.log(`🔍 Checking auto-adjustment for user ${userId}`);
-      
-      // Check if adjustment is needed based on frequency and last adjustment
-      if (!this.shouldRunAdjustment(settings)) {
-        console.log(`⏭️ Skipping user ${userId} - not time for adjustment yet`);
-        return;
+  private getUserTimezone(settings: AutoAdjustmentSettings): string {
+    return settings.timezone && TimezoneUtils.isValidTimezone(settings.timezone) ? settings.timezone : 'UTC';
+  }
+
+  /**
+   * Create this week's job for every user whose schedule is due.
+   * The (userId, weekStartDate) unique index makes this idempotent per week.
+   */
+  private async enqueueDueJobs(): Promise<number> {
+    const now = new Date();
+    const usersWithAutoAdjustment = await this.getUsersWithAutoAdjustmentEnabled();
+    let enqueued = 0;
+
+    for (const user of usersWithAutoAdjustment) {
+      try {
+        const timezone = this.getUserTimezone(user.settings);
+        const local = TimezoneUtils.getZonedParts(now, timezone);
+        if (local.hour < RUN_HOUR && local.weekday === 1) {
+          continue; // Wait for the user's local 6 AM on Monday
+        }
+
+        const weekStartDate = TimezoneUtils.getWeekStartInTimezone(now, timezone);
+        if (!(await this.shouldRunAdjustment(user.id, user.settings, weekStartDate, timezone))) {
+          continue;
+        }
+
+        const inserted = await db
+          .insert(autoAdjustmentJobs)
+          .values({
+            userId: user.id,
+            weekStartDate,
+            timezone,
+            frequency: user.settings.autoAdjustmentFrequency,
+            status: 'pending',
+            scheduledFor: TimezoneUtils.zonedTimeToUtc(weekStartDate, RUN_HOUR, timezone)
+          })
+          .onConflictDoNothing()
+          .returning({ id: autoAdjustmentJobs.id });
+
+        if (inserted.length > 0) {
+          enqueued++;
+          console.log(`📅 Enqueued auto-adjustment job for user ${user.id}, week ${weekStartDate} (${timezone})`);
+        }
+      } catch (error) {
+        console.error(`❌ Error enqueueing auto-adjustment for user ${user.id}:`, error);
       }
-      
-      console.log(`🎯 Running auto-adjustment for user ${userId}`);
-      
-      // Get current week data
-      const currentWeek = this.getCurrentWeekStart();
-      
+    }
+
+    return enqueued;
+  }
+
+  private async shouldRunAdjustment(userId: number, settings: AutoAdjustmentSettings, weekStartDate: string, timezone: string): Promise<boolean> {
+    // Don't run on first time if lastAutoAdjustment is null
+    // This should only run according to the user's schedule
+    if (!settings.lastAutoAdjustment) {
+      return false;
+    }
+
+    // The most recent finished job counts as a run even if it applied a 0% change
+    const [lastJob] = await db
+      .select({ weekStartDate: autoAdjustmentJobs.weekStartDate })
+      .from(autoAdjustmentJobs)
+      .where(and(
+        eq(autoAdjustmentJobs.userId, userId),
+        inArray(autoAdjustmentJobs.status, ['completed', 'skipped'])
+      ))
+      .orderBy(desc(autoAdjustmentJobs.weekStartDate))
+      .limit(1);
+
+    const anchorWeek = TimezoneUtils.getWeekStartInTimezone(new Date(settings.lastAutoAdjustment), timezone);
+    const referenceWeek = lastJob && lastJob.weekStartDate > anchorWeek ? lastJob.weekStartDate : anchorWeek;
+
+    const weeksSinceLastRun = Math.round(
+      (Date.parse(weekStartDate) - Date.parse(referenceWeek)) / (7 * 24 * 60 * 60 * 1000)
+    );
+
+    if (settings.autoAdjustmentFrequency === 'weekly') {
+      return weeksSinceLastRun >= 1;
+    } else if (settings.autoAdjustmentFrequency === 'biweekly') {
+      return weeksSinceLastRun >= 2;
+    }
+
+    return false;
+  }
+
+  /**
+   * Put jobs left "running" by a crashed process back on the queue
+   */
+  private async releaseStaleLocks() {
+    await db
+      .update(autoAdjustmentJobs)
+      .set({ status: 'pending', lockedAt: null })
+      .where(and(
+        eq(autoAdjustmentJobs.status, 'running'),
+        lt(autoAdjustmentJobs.lockedAt, new Date(Date.now() - STALE_LOCK_MS))
+      ));
+  }
+
+  private async processPendingJobs(): Promise<number> {
+    const now = new Date();
+    const dueJobs = await db
+      .select()
+      .from(autoAdjustmentJobs)
+      .where(and(
+        eq(autoAdjustmentJobs.status, 'pending'),
+        lte(autoAdjustmentJobs.scheduledFor, now),
+        or(isNull(autoAdjustmentJobs.nextAttemptAt), lte(autoAdjustmentJobs.nextAttemptAt, now))
+      ))
+      .orderBy(autoAdjustmentJobs.scheduledFor)
+      .limit(100);
+
+    let processed = 0;
+    for (const job of dueJobs) {
+      // Claim the job atomically so two server instances never run it twice
+      const [claimed] = await db
+        .update(autoAdjustmentJobs)
+        .set({
+          status: 'running',
+          lockedAt: new Date(),
+          startedAt: new Date(),
+          attempts: sql`${autoAdjustmentJobs.attempts} + 1`
+        })
+        .where(and(eq(autoAdjustmentJobs.id, job.id), eq(autoAdjustmentJobs.status, 'pending')))
+        .returning();
+
+      if (!claimed) continue;
+
+      await this.runJob(claimed);
+      processed++;
+    }
+
+    return processed;
+  }
+
+  private async runJob(job: AutoAdjustmentJob) {
+    const userId = job.userId;
+
+    try {
+      console.log(`🎯 Running auto-adjustment job ${job.id} for user ${userId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
       // Get diet goals
       const dietGoals = await storage.getDietGoal(userId);
       if (!dietGoals) {
+        await this.finishJob(job.id, 'skipped', { reason: 'No diet goals found' });
         console.log(`⚠️ No diet goals found for user ${userId}`);
         return;
       }
 
+      // Evaluate the week that just ended rather than the one that is starting
+      const evaluatedWeek = TimezoneUtils.addDays(job.weekStartDate, -7);
+
       // Apply the adjustment using the same logic as manual adjustment
-      const adjustmentResult = await AdvancedMacroManagementService.calculateWeeklyAdjustment(userId, currentWeek);
-      
+      const adjustmentResult = await AdvancedMacroManagementService.calculateWeeklyAdjustment(userId, evaluatedWeek);
+
       // Extract adjustment percentage from the result
       const adjustmentPercentage = adjustmentResult.adjustment?.adjustmentPercentage || 0;
-      
+
       if (adjustmentPercentage !== 0) {
-        await AdvancedMacroManagementService.applyWeeklyAdjustment(userId, currentWeek, adjustmentPercentage);
-        
-        console.log(`✅ Auto-adjustment applied for user ${userId}: ${adjustmentPercentage}%`);
-        
+        const applied = await AdvancedMacroManagementService.applyWeeklyAdjustment(userId, evaluatedWeek, adjustmentPercentage);
+
         // Update last adjustment timestamp
         await this.updateLastAdjustmentTime(userId);
+
+        await this.finishJob(job.id, 'completed', {
+          evaluatedWeek,
+          adherencePercentage: adjustmentResult.adherencePercentage,
+          reason: adjustmentResult.adjustment?.adjustmentReason,
+          ...applied
+        });
+
+        console.log(`✅ Auto-adjustment applied for user ${userId}: ${adjustmentPercentage}%`);
       } else {
+        await this.finishJob(job.id, 'completed', {
+          evaluatedWeek,
+          adherencePercentage: adjustmentResult.adherencePercentage,
+          reason: adjustmentResult.adjustment?.adjustmentReason,
+          adjustmentPercentage: 0
+        });
+
         console.log(`📊 No adjustment needed for user ${userId} (0% change)`);
       }
-      
+
     } catch (error) {
-      console.error(`❌ Error processing auto-adjustment for user ${user.id}:`, error);
-    }
-  }
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Error processing auto-adjustment job ${job.id} for user ${userId}:`, error);
 
-  private shouldRunAdjustment(settings: AutoAdjustmentSettings): boolean {
-    // CRITICAL FIX: Don't run on first time if lastAutoAdjustment is null
-    // This should only run according to the user's schedule
-    if (!settings.lastAutoAdjustment) {
-      console.log('🕐 No previous adjustment date - scheduling for next period');
-      return false;
-    }
-    
-    const lastAdjustment = new Date(settings.lastAutoAdjustment);
-    const now = new Date();
-    const daysSinceLastAdjustment = Math.floor((now.getTime() - lastAdjustment.getTime()) / (1000 * 60 * 60 * 24));
-    
-    console.log(`⏰ Days since last adjustment: ${daysSinceLastAdjustment}, frequency: ${settings.autoAdjustmentFrequency}`);
-    
-    if (settings.autoAdjustmentFrequency === 'weekly') {
-      return daysSinceLastAdjustment >= 7;
-    } else if (settings.autoAdjustmentFrequency === 'biweekly') {
-      return daysSinceLastAdjustment >= 14;
+      if (job.attempts < job.maxAttempts) {
+        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1);
+        await db
+          .update(autoAdjustmentJobs)
+          .set({
+            status: 'pending',
+            lockedAt: null,
+            lastError: message,
+            nextAttemptAt: new Date(Date.now() + delay)
+          })
+          .where(eq(autoAdjustmentJobs.id, job.id));
+      } else {
+        await db
+          .update(autoAdjustmentJobs)
+          .set({
+            status: 'failed',
+            lockedAt: null,
+            lastError: message,
+            completedAt: new Date()
+          })
+          .where(eq(autoAdjustmentJobs.id, job.id));
+      }
     }
-    
-    return false;
   }
 
-  private getCurrentWeekStart(): string {
-    const now = new Date();
-    const dayOfWeek = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const mondayOffset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek; // Calculate offset to Monday
-    const monday = new Date(now);
-    monday.setDate(now.getDate() + mondayOffset);
-    monday.setHours(0, 0, 0, 0);
-    return monday.toISOString().split('T')[0];
+  private async finishJob(jobId: number, status: 'completed' | 'skipped', result: Record<string, any>) {
+    await db
+      .update(autoAdjustmentJobs)
+      .set({
+        status,
+        result,
+        lockedAt: null,
+        lastError: null,
+        completedAt: new Date()
+      })
+      .where(eq(autoAdjustmentJobs.id, jobId));
   }
 
   private async updateLastAdjustmentTime(userId: number) {
     try {
       const user = await storage.getUser(userId);
       if (!user?.autoAdjustmentSettings) return;
-      
+
       const settings = user.autoAdjustmentSettings as AutoAdjustmentSettings;
       const updatedSettings = {
         ...settings,
         lastAutoAdjustment: new Date().toISOString()
       };
-      
+
       await storage.updateUser(userId, {
         autoAdjustmentSettings: updatedSettings
       });
-      
+
       console.log(`📅 Updated last adjustment time for user ${userId}`);
     } catch (error) {
       console.error('Error updating last adjustment time:', error);
     }
   }
 
+  /**
+   * Run history for one user, newest week first
+   */
+  public async getJobHistory(userId: number, limit: number = 20): Promise<AutoAdjustmentJob[]> {
+    return db
+      .select()
+      .from(autoAdjustmentJobs)
+      .where(eq(autoAdjustmentJobs.userId, userId))
+      .orderBy(desc(autoAdjustmentJobs.weekStartDate))
+      .limit(limit);
+  }
+
   public stop() {
     if (this.intervalId) {
       clearInterval(this.intervalId);
@@ -186,37 +348,15 @@ export class AutoAdjustmentScheduler {
     console.log('🛑 Auto-adjustment scheduler stopped');
   }
 
-  private scheduleDaily6AM() {
-    const now = new Date();
-    const next6AM = new Date();
-    next6AM.setHours(6, 0, 0, 0);
-    
-    // If it's already past 6 AM today, schedule for tomorrow
-    if (now.getHours() >= 6) {
-      next6AM.setDate(next6AM.getDate() + 1);
-    }
-    
-    const timeUntil6AM = next6AM.getTime() - now.getTime();
-    
-    setTimeout(() => {
-      this.processAutoAdjustments();
-      // Set up daily interval starting from 6 AM
-      this.intervalId = setInterval(() => {
-        this.processAutoAdjustments();
-      }, 24 * 60 * 60 * 1000);
-    }, timeUntil6AM);
-    
-    console.log(`📅 Auto-adjustment scheduled for ${next6AM.toLocaleString()}`);
-  }
-
   public getStatus() {
     return {
       isRunning: this.isRunning,
-      nextCheck: this.intervalId ? 'Daily at 6:00 AM' : 'Stopped',
-      schedulingMode: 'Optimized - Low server impact'
+      nextCheck: this.intervalId ? `Hourly - jobs run after ${RUN_HOUR}:00 on Monday in each user's timezone` : 'Stopped',
+      lastCheck: this.lastTickAt ? this.lastTickAt.toISOString() : null,
+      schedulingMode: 'Database-backed job queue'
     };
   }
 }
 
 // Export singleton instance
-export const autoAdjustmentScheduler = new AutoAdjustmentScheduler();
\ No newline at end of file
+export const autoAdjustmentScheduler = new AutoAdjustmentScheduler();
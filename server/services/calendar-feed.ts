@@ -0,0 +1,268 @@
+import { db } from "../db";
+import {
+  users,
+  workoutSessions,
+  workoutExercises,
+  exercises,
+  mealPlans,
+  mealTimingPreferences,
+  mesocycles
+} from "@shared/schema";
+import { eq, and, gte, lte, asc, inArray } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { TimezoneUtils } from "@shared/utils/timezone";
+import { buildICalendar, type ICalEvent } from "../utils/ical";
+import { DeloadAutomation } from "./deload-automation";
+
+// Feed window - yesterday through the next 12 weeks
+const FEED_LOOKBACK_DAYS = 1;
+const FEED_HORIZON_DAYS = 84;
+const DEFAULT_SESSION_MINUTES = 60;
+const MEAL_EVENT_MINUTES = 30;
+const UID_DOMAIN = 'trainpro.app';
+
+interface DeloadWeek {
+  mesocycleId: number;
+  mesocycleName: string;
+  week: number;
+  startDate: string; // YYYY-MM-DD, local
+  endDate: string; // YYYY-MM-DD, exclusive
+}
+
+export class CalendarFeedService {
+
+  /**
+   * Return the user's feed token, creating one on first use
+   */
+  static async getOrCreateToken(userId: number): Promise<string> {
+    const [user] = await db
+      .select({ calendarFeedToken: users.calendarFeedToken })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    if (!user) throw new Error('User not found');
+
+    return user.calendarFeedToken || this.regenerateToken(userId);
+  }
+
+  /**
+   * Rotate the token - existing calendar subscriptions stop updating
+   */
+  static async regenerateToken(userId: number): Promise<string> {
+    const token = randomBytes(24).toString('hex');
+    await db.update(users).set({ calendarFeedToken: token }).where(eq(users.id, userId));
+    return token;
+  }
+
+  static async revokeToken(userId: number): Promise<void> {
+    await db.update(users).set({ calendarFeedToken: null }).where(eq(users.id, userId));
+  }
+
+  static async getUserIdByToken(token: string): Promise<number | null> {
+    if (!/^[a-f0-9]{48}$/.test(token)) return null;
+
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.calendarFeedToken, token))
+      .limit(1);
+
+    return user?.id ?? null;
+  }
+
+  private static getUserTimezone(settings: unknown): string {
+    const timezone = (settings as { timezone?: string } | null)?.timezone;
+    return timezone && TimezoneUtils.isValidTimezone(timezone) ? timezone : 'UTC';
+  }
+
+  private static parseTime(value: string | null | undefined): { hour: number; minute: number } | null {
+    const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const hour = parseInt(match[1]);
+    const minute = parseInt(match[2]);
+    return hour < 24 && minute < 60 ? { hour, minute } : null;
+  }
+
+  /**
+   * Deload weeks of the user's active mesocycles - the final week, weeks inserted by
+   * the deload trigger, and the current week when the mesocycle is in its deload phase
+   */
+  static async getDeloadWeeks(userId: number, timezone: string, windowStart: Date): Promise<DeloadWeek[]> {
+    const activeMesocycles = await db
+      .select()
+      .from(mesocycles)
+      .where(and(
+        eq(mesocycles.userId, userId),
+        eq(mesocycles.isActive, true),
+        gte(mesocycles.endDate, windowStart)
+      ));
+
+    const scheduledDeloads = await DeloadAutomation.getScheduledDeloadWeeks(activeMesocycles.map(mesocycle => mesocycle.id));
+
+    const deloadWeeks: DeloadWeek[] = [];
+    for (const mesocycle of activeMesocycles) {
+      const mesocycleStart = TimezoneUtils.formatDateInTimezone(new Date(mesocycle.startDate), timezone);
+      const weeks = new Set([mesocycle.totalWeeks, ...(scheduledDeloads.get(mesocycle.id) || [])]);
+      if (mesocycle.phase === 'deload') weeks.add(mesocycle.currentWeek);
+
+      for (const week of Array.from(weeks)) {
+        const startDate = TimezoneUtils.addDays(mesocycleStart, (week - 1) * 7);
+        deloadWeeks.push({
+          mesocycleId: mesocycle.id,
+          mesocycleName: mesocycle.name,
+          week,
+          startDate,
+          endDate: TimezoneUtils.addDays(startDate, 7)
+        });
+      }
+    }
+
+    return deloadWeeks;
+  }
+
+  /**
+   * Build the .ics feed: upcoming sessions with their exercises, planned meals with macro targets and deload weeks
+   */
+  static async buildFeed(userId: number, now: Date = new Date()): Promise<string> {
+    const [user] = await db
+      .select({ name: users.name, autoAdjustmentSettings: users.autoAdjustmentSettings })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    if (!user) throw new Error('User not found');
+
+    const timezone = this.getUserTimezone(user.autoAdjustmentSettings);
+    const windowStart = new Date(now.getTime() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const windowEnd = new Date(now.getTime() + FEED_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+
+    const [timingPreferences] = await db
+      .select()
+      .from(mealTimingPreferences)
+      .where(eq(mealTimingPreferences.userId, userId))
+      .limit(1);
+    const workoutTime = this.parseTime(timingPreferences?.workoutTime);
+
+    const events: ICalEvent[] = [];
+
+    // Workout sessions
+    const sessions = await db
+      .select()
+      .from(workoutSessions)
+      .where(and(
+        eq(workoutSessions.userId, userId),
+        gte(workoutSessions.date, windowStart),
+        lte(workoutSessions.date, windowEnd)
+      ))
+      .orderBy(asc(workoutSessions.date));
+
+    const sessionExercises = sessions.length > 0
+      ? await db
+          .select({
+            sessionId: workoutExercises.sessionId,
+            name: exercises.name,
+            sets: workoutExercises.sets,
+            targetReps: workoutExercises.targetReps,
+            weight: workoutExercises.weight,
+            recommendedWeight: workoutExercises.recommendedWeight,
+            weightUnit: workoutExercises.weightUnit,
+            orderIndex: workoutExercises.orderIndex
+          })
+          .from(workoutExercises)
+          .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+          .where(inArray(workoutExercises.sessionId, sessions.map(session => session.id)))
+          .orderBy(asc(workoutExercises.orderIndex))
+      : [];
+
+    for (const session of sessions) {
+      const exerciseLines = sessionExercises
+        .filter(exercise => exercise.sessionId === session.id)
+        .map(exercise => {
+          const weight = Number(exercise.weight || exercise.recommendedWeight || 0);
+          const load = weight > 0 ? ` @ ${weight} ${exercise.weightUnit || 'kg'}` : '';
+          return `• ${exercise.name}: ${exercise.sets} × ${exercise.targetReps}${load}`;
+        });
+
+      const description = [
+        session.isCompleted ? 'Completed' : null,
+        exerciseLines.length > 0 ? exerciseLines.join('\n') : 'No exercises planned yet'
+      ].filter(Boolean).join('\n\n');
+
+      const localDate = TimezoneUtils.formatDateInTimezone(new Date(session.date), timezone);
+      const isDeload = session.name.includes('(Deload)');
+
+      if (workoutTime) {
+        const start = TimezoneUtils.zonedTimeToUtc(localDate, workoutTime.hour, timezone, workoutTime.minute);
+        events.push({
+          uid: `session-${session.id}@${UID_DOMAIN}`,
+          summary: session.name,
+          description,
+          categories: isDeload ? ['Training', 'Deload'] : ['Training'],
+          start,
+          end: new Date(start.getTime() + (session.duration || DEFAULT_SESSION_MINUTES) * 60 * 1000)
+        });
+      } else {
+        events.push({
+          uid: `session-${session.id}@${UID_DOMAIN}`,
+          summary: session.name,
+          description,
+          categories: isDeload ? ['Training', 'Deload'] : ['Training'],
+          start: localDate,
+          end: TimezoneUtils.addDays(localDate, 1),
+          allDay: true
+        });
+      }
+    }
+
+    // Planned meals
+    const meals = await db
+      .select()
+      .from(mealPlans)
+      .where(and(
+        eq(mealPlans.userId, userId),
+        gte(mealPlans.scheduledTime, windowStart),
+        lte(mealPlans.scheduledTime, windowEnd)
+      ))
+      .orderBy(asc(mealPlans.scheduledTime));
+
+    for (const meal of meals) {
+      const timing = meal.isPreWorkout ? ' (Pre-workout)' : meal.isPostWorkout ? ' (Post-workout)' : '';
+      const targets = [
+        meal.targetCalories ? `${Math.round(Number(meal.targetCalories))} kcal` : null,
+        meal.targetProtein ? `${Math.round(Number(meal.targetProtein))} g protein` : null,
+        meal.targetCarbs ? `${Math.round(Number(meal.targetCarbs))} g carbs` : null,
+        meal.targetFat ? `${Math.round(Number(meal.targetFat))} g fat` : null
+      ].filter(Boolean);
+      const start = new Date(meal.scheduledTime);
+
+      events.push({
+        uid: `meal-${meal.id}@${UID_DOMAIN}`,
+        summary: `Meal ${meal.mealNumber}${timing}${meal.targetCalories ? ` · ${Math.round(Number(meal.targetCalories))} kcal` : ''}`,
+        description: targets.length > 0 ? `Targets: ${targets.join(' · ')}` : undefined,
+        categories: ['Nutrition'],
+        start,
+        end: new Date(start.getTime() + MEAL_EVENT_MINUTES * 60 * 1000)
+      });
+    }
+
+    // Deload weeks
+    const deloadWeeks = await this.getDeloadWeeks(userId, timezone, windowStart);
+    for (const deload of deloadWeeks) {
+      events.push({
+        uid: `deload-${deload.mesocycleId}-${deload.week}@${UID_DOMAIN}`,
+        summary: `Deload Week - ${deload.mesocycleName}`,
+        description: `Week ${deload.week} of ${deload.mesocycleName}. Reduced volume and load to dissipate fatigue.`,
+        categories: ['Training', 'Deload'],
+        start: deload.startDate,
+        end: deload.endDate,
+        allDay: true
+      });
+    }
+
+    return buildICalendar({
+      name: 'TrainPro',
+      description: `Training and nutrition plan for ${user.name}`,
+      timezone,
+      events
+    }, now);
+  }
+}
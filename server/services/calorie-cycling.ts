@@ -0,0 +1,140 @@
+import { db } from "../db";
+import { workoutSessions, mealTimingPreferences } from "@shared/schema";
+import { eq, and, gte, lt } from "drizzle-orm";
+import {
+  calculateCycledTargets,
+  getWeekday,
+  normalizeCalorieCyclingSettings,
+  type CalorieCyclingSettings,
+  type CycleDayType,
+  type DailyMacroTargets
+} from "@shared/utils/calorie-cycling";
+
+export interface CycledDay {
+  date: string; // YYYY-MM-DD (same day keys as nutrition log totals)
+  dayType: CycleDayType;
+  targets: DailyMacroTargets;
+}
+
+export interface CycledWeek {
+  weekStart: string;
+  settings: CalorieCyclingSettings;
+  baseTargets: DailyMacroTargets;
+  targets: Record<CycleDayType, DailyMacroTargets>;
+  days: CycledDay[];
+}
+
+const toDateKey = (date: Date) => date.toISOString().split('T')[0];
+
+const addDays = (dateKey: string, days: number) => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
+
+const getMonday = (dateKey: string) => {
+  const day = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+  return addDays(dateKey, -((day + 6) % 7));
+};
+
+export class CalorieCyclingService {
+
+  /**
+   * Flat daily targets from a diet goal - custom calories when the toggle is on, suggested otherwise
+   */
+  static getBaseTargets(dietGoal: any): DailyMacroTargets {
+    const calories = dietGoal.useCustomCalories && dietGoal.customTargetCalories
+      ? Number(dietGoal.customTargetCalories)
+      : Number(dietGoal.targetCalories) || 2000;
+
+    return {
+      calories,
+      protein: Number(dietGoal.targetProtein) || 0,
+      carbs: Number(dietGoal.targetCarbs) || 0,
+      fat: Number(dietGoal.targetFat) || 0
+    };
+  }
+
+  /**
+   * Cycled targets for every Monday-Sunday week overlapping [fromDate, toDate].
+   * A day is a refeed day when it falls on a configured refeed weekday, a training day when a
+   * workout session is scheduled on it, and a rest day otherwise. Weeks without any scheduled
+   * sessions fall back to the workout days from the meal timing preferences.
+   * Returns null when cycling is not enabled on the diet goal.
+   */
+  static async getWeeks(userId: number, dietGoal: any, fromDate: Date, toDate: Date = fromDate): Promise<CycledWeek[] | null> {
+    const settings = normalizeCalorieCyclingSettings(dietGoal?.calorieCycling);
+    if (!dietGoal || !settings.enabled) return null;
+
+    const rangeStart = getMonday(toDateKey(fromDate));
+    const rangeEnd = addDays(getMonday(toDateKey(toDate)), 7);
+
+    const sessions = await db
+      .select({ date: workoutSessions.date })
+      .from(workoutSessions)
+      .where(and(
+        eq(workoutSessions.userId, userId),
+        gte(workoutSessions.date, new Date(`${rangeStart}T00:00:00Z`)),
+        lt(workoutSessions.date, new Date(`${rangeEnd}T00:00:00Z`))
+      ));
+    const sessionDates = new Set(sessions.map(session => toDateKey(new Date(session.date))));
+
+    const [timingPreferences] = await db
+      .select({ workoutDays: mealTimingPreferences.workoutDays })
+      .from(mealTimingPreferences)
+      .where(eq(mealTimingPreferences.userId, userId))
+      .limit(1);
+    const plannedWorkoutDays = (timingPreferences?.workoutDays || []).map(day => day.toLowerCase());
+
+    const baseTargets = this.getBaseTargets(dietGoal);
+    const weeks: CycledWeek[] = [];
+
+    for (let weekStart = rangeStart; weekStart < rangeEnd; weekStart = addDays(weekStart, 7)) {
+      const dates = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+      const hasSessions = dates.some(date => sessionDates.has(date));
+
+      const dayTypes = dates.map((date): CycleDayType => {
+        const weekday = getWeekday(date);
+        if (settings.refeedDays.includes(weekday)) return 'refeed';
+        const isTrainingDay = hasSessions ? sessionDates.has(date) : plannedWorkoutDays.includes(weekday);
+        return isTrainingDay ? 'training' : 'rest';
+      });
+
+      const targets = calculateCycledTargets(baseTargets, dayTypes, settings);
+      weeks.push({
+        weekStart,
+        settings,
+        baseTargets,
+        targets,
+        days: dates.map((date, index) => ({ date, dayType: dayTypes[index], targets: targets[dayTypes[index]] }))
+      });
+    }
+
+    return weeks;
+  }
+
+  /**
+   * Cycled target for a single date, or null when cycling is off
+   */
+  static async getTargetsForDate(userId: number, dietGoal: any, date: Date): Promise<CycledDay | null> {
+    const weeks = await this.getWeeks(userId, dietGoal, date);
+    if (!weeks) return null;
+
+    const dateKey = toDateKey(date);
+    return weeks[0].days.find(day => day.date === dateKey) || null;
+  }
+
+  /**
+   * Calorie target per date for adherence checks, or null when cycling is off
+   */
+  static async getDailyCalorieTargets(userId: number, dietGoal: any, fromDate: Date, toDate: Date): Promise<Record<string, number> | null> {
+    const weeks = await this.getWeeks(userId, dietGoal, fromDate, toDate);
+    if (!weeks) return null;
+
+    const dailyTargets: Record<string, number> = {};
+    weeks.forEach(week => week.days.forEach(day => {
+      dailyTargets[day.date] = day.targets.calories;
+    }));
+    return dailyTargets;
+  }
+}
@@ -0,0 +1,416 @@
+import { db } from "../db";
+import {
+  coachAthleteRelationships,
+  users,
+  nutritionLogs,
+  dailyWellnessCheckins,
+  workoutSessions,
+  workoutExercises,
+  exercises,
+  savedWorkoutTemplates,
+  trainingTemplates,
+  mesocycles,
+  type CoachAthleteRelationship
+} from "@shared/schema";
+import { eq, and, or, desc, asc, gte, lte, inArray } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { UnifiedMesocycleTemplate } from "./unified-mesocycle-template";
+
+export const COACH_PERMISSIONS = ['nutrition', 'wellness', 'training', 'assign_programs'] as const;
+export type CoachPermission = typeof COACH_PERMISSIONS[number];
+
+const INVITE_EXPIRY_DAYS = 14;
+
+interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+export class CoachAccessService {
+
+  static normalizePermissions(permissions?: unknown): CoachPermission[] {
+    if (!Array.isArray(permissions)) return [...COACH_PERMISSIONS];
+
+    const valid = permissions.filter((permission): permission is CoachPermission =>
+      COACH_PERMISSIONS.includes(permission as CoachPermission)
+    );
+    if (valid.length === 0) throw new Error('At least one valid permission is required');
+    return Array.from(new Set(valid));
+  }
+
+  /**
+   * Invite an athlete by email. The athlete account is linked when the invite is accepted,
+   * so coaches can invite people who have not registered yet.
+   */
+  static async inviteAthlete(coachId: number, email: string, permissions?: unknown, message?: string) {
+    const inviteEmail = email.trim().toLowerCase();
+    const [coach] = await db.select().from(users).where(eq(users.id, coachId)).limit(1);
+    if (!coach) throw new Error('Coach not found');
+    if (coach.email.toLowerCase() === inviteEmail) throw new Error('You cannot invite yourself');
+
+    const [existing] = await db
+      .select()
+      .from(coachAthleteRelationships)
+      .where(and(
+        eq(coachAthleteRelationships.coachId, coachId),
+        eq(coachAthleteRelationships.inviteEmail, inviteEmail),
+        inArray(coachAthleteRelationships.status, ['pending', 'active'])
+      ))
+      .limit(1);
+    if (existing) {
+      throw new Error(existing.status === 'active'
+        ? 'This athlete is already connected to you'
+        : 'An invitation is already pending for this email');
+    }
+
+    const [invitation] = await db
+      .insert(coachAthleteRelationships)
+      .values({
+        coachId,
+        inviteEmail,
+        inviteToken: randomBytes(32).toString('hex'),
+        status: 'pending',
+        permissions: this.normalizePermissions(permissions),
+        message: message || null
+      })
+      .returning();
+
+    return { invitation, coach };
+  }
+
+  /**
+   * Pending invitations addressed to the signed-in user's email
+   */
+  static async getReceivedInvitations(userId: number) {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) throw new Error('User not found');
+
+    const expiryCutoff = new Date(Date.now() - INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+    return db
+      .select({
+        id: coachAthleteRelationships.id,
+        inviteToken: coachAthleteRelationships.inviteToken,
+        permissions: coachAthleteRelationships.permissions,
+        message: coachAthleteRelationships.message,
+        createdAt: coachAthleteRelationships.createdAt,
+        coachId: coachAthleteRelationships.coachId,
+        coachName: users.name,
+        coachEmail: users.email
+      })
+      .from(coachAthleteRelationships)
+      .innerJoin(users, eq(coachAthleteRelationships.coachId, users.id))
+      .where(and(
+        eq(coachAthleteRelationships.inviteEmail, user.email.toLowerCase()),
+        eq(coachAthleteRelationships.status, 'pending'),
+        gte(coachAthleteRelationships.createdAt, expiryCutoff)
+      ))
+      .orderBy(desc(coachAthleteRelationships.createdAt));
+  }
+
+  /**
+   * Look up a pending invitation by id or token for the athlete responding to it
+   */
+  private static async getPendingInvitation(userId: number, invitation: { id?: number; token?: string }) {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    if (!user) throw new Error('User not found');
+
+    const [relationship] = await db
+      .select()
+      .from(coachAthleteRelationships)
+      .where(invitation.token
+        ? eq(coachAthleteRelationships.inviteToken, invitation.token)
+        : eq(coachAthleteRelationships.id, invitation.id ?? -1))
+      .limit(1);
+
+    if (!relationship || relationship.status !== 'pending' || relationship.inviteEmail !== user.email.toLowerCase()) {
+      throw new Error('Invitation not found');
+    }
+
+    const ageMs = Date.now() - new Date(relationship.createdAt).getTime();
+    if (ageMs > INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000) {
+      throw new Error('This invitation has expired');
+    }
+
+    if (relationship.coachId === userId) throw new Error('You cannot coach yourself');
+
+    return relationship;
+  }
+
+  static async acceptInvitation(userId: number, invitation: { id?: number; token?: string }) {
+    const relationship = await this.getPendingInvitation(userId, invitation);
+
+    const [existing] = await db
+      .select()
+      .from(coachAthleteRelationships)
+      .where(and(
+        eq(coachAthleteRelationships.coachId, relationship.coachId),
+        eq(coachAthleteRelationships.athleteId, userId),
+        eq(coachAthleteRelationships.status, 'active')
+      ))
+      .limit(1);
+    if (existing) throw new Error('You are already connected to this coach');
+
+    const [accepted] = await db
+      .update(coachAthleteRelationships)
+      .set({ athleteId: userId, status: 'active', respondedAt: new Date() })
+      .where(eq(coachAthleteRelationships.id, relationship.id))
+      .returning();
+
+    return accepted;
+  }
+
+  static async declineInvitation(userId: number, invitation: { id?: number; token?: string }) {
+    const relationship = await this.getPendingInvitation(userId, invitation);
+
+    const [declined] = await db
+      .update(coachAthleteRelationships)
+      .set({ athleteId: userId, status: 'declined', respondedAt: new Date() })
+      .where(eq(coachAthleteRelationships.id, relationship.id))
+      .returning();
+
+    return declined;
+  }
+
+  /**
+   * End a relationship. Either side may do this; athletes revoke, coaches cancel invites or drop athletes.
+   */
+  static async revokeRelationship(userId: number, relationshipId: number) {
+    const [relationship] = await db
+      .select()
+      .from(coachAthleteRelationships)
+      .where(and(
+        eq(coachAthleteRelationships.id, relationshipId),
+        or(
+          eq(coachAthleteRelationships.athleteId, userId),
+          eq(coachAthleteRelationships.coachId, userId)
+        )
+      ))
+      .limit(1);
+
+    if (!relationship || !['pending', 'active'].includes(relationship.status)) {
+      throw new Error('Coaching relationship not found');
+    }
+
+    const [revoked] = await db
+      .update(coachAthleteRelationships)
+      .set({ status: 'revoked', revokedAt: new Date(), revokedBy: userId })
+      .where(eq(coachAthleteRelationships.id, relationship.id))
+      .returning();
+
+    return revoked;
+  }
+
+  /**
+   * Athletes control what an active coach can see
+   */
+  static async updatePermissions(athleteId: number, relationshipId: number, permissions: unknown) {
+    const [updated] = await db
+      .update(coachAthleteRelationships)
+      .set({ permissions: this.normalizePermissions(permissions) })
+      .where(and(
+        eq(coachAthleteRelationships.id, relationshipId),
+        eq(coachAthleteRelationships.athleteId, athleteId),
+        eq(coachAthleteRelationships.status, 'active')
+      ))
+      .returning();
+
+    if (!updated) throw new Error('Coaching relationship not found');
+    return updated;
+  }
+
+  static async getAthletes(coachId: number) {
+    const relationships = await db
+      .select()
+      .from(coachAthleteRelationships)
+      .where(and(
+        eq(coachAthleteRelationships.coachId, coachId),
+        inArray(coachAthleteRelationships.status, ['pending', 'active'])
+      ))
+      .orderBy(desc(coachAthleteRelationships.createdAt));
+
+    const athleteIds = relationships
+      .map(relationship => relationship.athleteId)
+      .filter((id): id is number => id !== null);
+    const athletes = athleteIds.length > 0
+      ? await db.select({ id: users.id, name: users.name, email: users.email }).from(users).where(inArray(users.id, athleteIds))
+      : [];
+
+    return relationships.map(({ inviteToken, ...relationship }) => ({
+      ...relationship,
+      athlete: athletes.find(athlete => athlete.id === relationship.athleteId) || null
+    }));
+  }
+
+  static async getCoaches(athleteId: number) {
+    return db
+      .select({
+        id: coachAthleteRelationships.id,
+        coachId: coachAthleteRelationships.coachId,
+        coachName: users.name,
+        coachEmail: users.email,
+        permissions: coachAthleteRelationships.permissions,
+        respondedAt: coachAthleteRelationships.respondedAt
+      })
+      .from(coachAthleteRelationships)
+      .innerJoin(users, eq(coachAthleteRelationships.coachId, users.id))
+      .where(and(
+        eq(coachAthleteRelationships.athleteId, athleteId),
+        eq(coachAthleteRelationships.status, 'active')
+      ))
+      .orderBy(desc(coachAthleteRelationships.respondedAt));
+  }
+
+  /**
+   * The single permission check for every coach read/write on athlete data.
+   * Returns the active relationship, or null when the coach lacks the permission.
+   */
+  static async checkPermission(coachId: number, athleteId: number, permission: CoachPermission): Promise<CoachAthleteRelationship | null> {
+    const [relationship] = await db
+      .select()
+      .from(coachAthleteRelationships)
+      .where(and(
+        eq(coachAthleteRelationships.coachId, coachId),
+        eq(coachAthleteRelationships.athleteId, athleteId),
+        eq(coachAthleteRelationships.status, 'active')
+      ))
+      .limit(1);
+
+    if (!relationship || !relationship.permissions.includes(permission)) return null;
+    return relationship;
+  }
+
+  static async getAthleteNutritionLogs(athleteId: number, range: DateRange) {
+    const conditions = [eq(nutritionLogs.userId, athleteId)];
+    if (range.from) conditions.push(gte(nutritionLogs.date, range.from));
+    if (range.to) conditions.push(lte(nutritionLogs.date, range.to));
+
+    return db
+      .select()
+      .from(nutritionLogs)
+      .where(and(...conditions))
+      .orderBy(desc(nutritionLogs.date));
+  }
+
+  static async getAthleteWellnessCheckins(athleteId: number, range: DateRange) {
+    const conditions = [eq(dailyWellnessCheckins.userId, athleteId)];
+    if (range.from) conditions.push(gte(dailyWellnessCheckins.date, range.from));
+    if (range.to) conditions.push(lte(dailyWellnessCheckins.date, range.to));
+
+    return db
+      .select()
+      .from(dailyWellnessCheckins)
+      .where(and(...conditions))
+      .orderBy(desc(dailyWellnessCheckins.date));
+  }
+
+  /**
+   * Session history including each session's exercises and logged sets
+   */
+  static async getAthleteSessions(athleteId: number, range: DateRange) {
+    const conditions = [eq(workoutSessions.userId, athleteId)];
+    if (range.from) conditions.push(gte(workoutSessions.date, range.from));
+    if (range.to) conditions.push(lte(workoutSessions.date, range.to));
+
+    const sessions = await db
+      .select()
+      .from(workoutSessions)
+      .where(and(...conditions))
+      .orderBy(desc(workoutSessions.date));
+
+    if (sessions.length === 0) return [];
+
+    const sessionExercises = await db
+      .select({
+        id: workoutExercises.id,
+        sessionId: workoutExercises.sessionId,
+        exerciseId: workoutExercises.exerciseId,
+        exerciseName: exercises.name,
+        orderIndex: workoutExercises.orderIndex,
+        sets: workoutExercises.sets,
+        targetReps: workoutExercises.targetReps,
+        actualReps: workoutExercises.actualReps,
+        weight: workoutExercises.weight,
+        weightUnit: workoutExercises.weightUnit,
+        rpe: workoutExercises.rpe,
+        rir: workoutExercises.rir,
+        setsData: workoutExercises.setsData,
+        isCompleted: workoutExercises.isCompleted,
+        notes: workoutExercises.notes
+      })
+      .from(workoutExercises)
+      .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+      .where(inArray(workoutExercises.sessionId, sessions.map(session => session.id)))
+      .orderBy(asc(workoutExercises.orderIndex));
+
+    return sessions.map(session => ({
+      ...session,
+      exercises: sessionExercises.filter(exercise => exercise.sessionId === session.id)
+    }));
+  }
+
+  /**
+   * Assign a mesocycle to the athlete's calendar from a training template or
+   * from the coach's saved workout templates (one per training day)
+   */
+  static async assignMesocycle(coachId: number, athleteId: number, options: {
+    trainingTemplateId?: number;
+    savedWorkoutTemplateIds?: number[];
+    name?: string;
+    startDate?: Date;
+    totalWeeks?: number;
+  }) {
+    const startDate = options.startDate || new Date();
+    const totalWeeks = options.totalWeeks || 6;
+
+    if (options.trainingTemplateId) {
+      const [template] = await db
+        .select()
+        .from(trainingTemplates)
+        .where(and(eq(trainingTemplates.id, options.trainingTemplateId), eq(trainingTemplates.isActive, true)))
+        .limit(1);
+      if (!template || (template.createdBy !== 'system' && template.createdBy !== coachId.toString())) {
+        throw new Error('Training template not found');
+      }
+
+      const result = await UnifiedMesocycleTemplate.createMesocycleFromTemplate(athleteId, template.id, startDate, totalWeeks);
+      const [mesocycle] = await db
+        .update(mesocycles)
+        .set({ name: options.name || template.name, assignedBy: coachId })
+        .where(eq(mesocycles.id, result.mesocycle.id))
+        .returning();
+
+      return { mesocycle, sessionsCreated: result.initialSessions.totalWorkouts };
+    }
+
+    const templateIds = options.savedWorkoutTemplateIds || [];
+    if (templateIds.length === 0) {
+      throw new Error('Either trainingTemplateId or savedWorkoutTemplateIds is required');
+    }
+    if (templateIds.length > 7) throw new Error('A mesocycle week has at most 7 training days');
+
+    const templates = await db
+      .select()
+      .from(savedWorkoutTemplates)
+      .where(and(
+        inArray(savedWorkoutTemplates.id, templateIds),
+        or(eq(savedWorkoutTemplates.userId, coachId), eq(savedWorkoutTemplates.isPublic, true))
+      ));
+    const missing = templateIds.filter(id => !templates.some(template => template.id === id));
+    if (missing.length > 0) throw new Error(`Saved workout template not found: ${missing.join(', ')}`);
+
+    const dayTemplates: Record<string, number> = {};
+    templateIds.forEach((templateId, index) => {
+      dayTemplates[(index + 1).toString()] = templateId;
+    });
+
+    return UnifiedMesocycleTemplate.createMesocycleFromSavedTemplates(athleteId, {
+      name: options.name || (templateIds.length === 1 ? templates[0].name : 'Coach Assigned Mesocycle'),
+      totalWeeks,
+      trainingDaysPerWeek: templateIds.length,
+      dayTemplates,
+      startDate,
+      assignedBy: coachId
+    });
+  }
+}
@@ -0,0 +1,354 @@
+import JSZip from "jszip";
+import { db } from "../db";
+import {
+  nutritionLogs,
+  workoutSessions,
+  workoutExercises,
+  exercises,
+  bodyMetrics,
+  weightLogs,
+  dailyWellnessCheckins,
+  mesocycles,
+  dietGoals,
+  savedWorkoutTemplates
+} from "@shared/schema";
+import { eq, asc, inArray } from "drizzle-orm";
+import { UnitConverter } from "@shared/utils/unit-conversion";
+import { convertMeasurement } from "@shared/utils/metric-conversion";
+import { isWarmupSet } from "@shared/utils/warmup-sets";
+import { toCSV } from "../utils/csv";
+
+export type ExportUnits = 'metric' | 'imperial';
+
+interface ExportEntity {
+  name: string;
+  json: unknown[] | null; // null for flat views that only exist as CSV
+  csv: Record<string, unknown>[];
+}
+
+const MEASUREMENT_FIELDS = ['neck', 'chest', 'waist', 'hips', 'thigh', 'bicep'] as const;
+
+/**
+ * Builds a zip of everything a user has logged, each entity as JSON (nested)
+ * and CSV (flat). Weights and body measurements are normalized to one unit system.
+ */
+export class DataExportService {
+
+  private static toNumber(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = parseFloat(String(value));
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  private static convertWeight(value: unknown, fromUnit: string | null | undefined, units: ExportUnits): number | null {
+    const weight = this.toNumber(value);
+    if (weight === null) return null;
+    const converted = UnitConverter.convertWeight(weight, fromUnit || 'kg');
+    return units === 'metric' ? converted.kg : converted.lbs;
+  }
+
+  private static weightUnitLabel(units: ExportUnits): 'kg' | 'lbs' {
+    return units === 'metric' ? 'kg' : 'lbs';
+  }
+
+  private static async exportNutritionLogs(userId: number): Promise<ExportEntity> {
+    const logs = await db
+      .select()
+      .from(nutritionLogs)
+      .where(eq(nutritionLogs.userId, userId))
+      .orderBy(asc(nutritionLogs.date));
+
+    return {
+      name: 'nutrition_logs',
+      json: logs,
+      csv: logs.map(log => ({
+        id: log.id,
+        date: log.date,
+        mealType: log.mealType,
+        foodName: log.foodName,
+        quantity: log.quantity,
+        unit: log.unit,
+        calories: log.calories,
+        protein_g: log.protein,
+        carbs_g: log.carbs,
+        fat_g: log.fat,
+        category: log.category,
+        recipeId: log.recipeId,
+        micronutrients: log.micronutrients
+      }))
+    };
+  }
+
+  /**
+   * Sessions with their exercises and sets. JSON keeps the nesting,
+   * CSV has one row per set so it can be pivoted in a spreadsheet.
+   */
+  private static async exportWorkouts(userId: number, units: ExportUnits): Promise<ExportEntity[]> {
+    const weightUnit = this.weightUnitLabel(units);
+
+    const sessions = await db
+      .select()
+      .from(workoutSessions)
+      .where(eq(workoutSessions.userId, userId))
+      .orderBy(asc(workoutSessions.date));
+
+    const sessionIds = sessions.map(session => session.id);
+    const sessionExercises = sessionIds.length > 0
+      ? await db
+          .select({ workoutExercise: workoutExercises, exerciseName: exercises.name })
+          .from(workoutExercises)
+          .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+          .where(inArray(workoutExercises.sessionId, sessionIds))
+          .orderBy(asc(workoutExercises.sessionId), asc(workoutExercises.orderIndex))
+      : [];
+
+    const exercisesBySession = new Map<number, any[]>();
+    const exerciseRows: Record<string, unknown>[] = [];
+    const setRows: Record<string, unknown>[] = [];
+    const sessionsById = new Map(sessions.map(session => [session.id, session]));
+
+    for (const { workoutExercise, exerciseName } of sessionExercises) {
+      const fromUnit = workoutExercise.weightUnit || 'kg';
+      const setsData = Array.isArray(workoutExercise.setsData)
+        ? (workoutExercise.setsData as any[]).map(set => ({
+            ...set,
+            weight: this.convertWeight(set?.weight, fromUnit, units)
+          }))
+        : workoutExercise.setsData;
+
+      const normalized = {
+        ...workoutExercise,
+        exerciseName,
+        weight: this.convertWeight(workoutExercise.weight, fromUnit, units),
+        recommendedWeight: this.convertWeight(workoutExercise.recommendedWeight, fromUnit, units),
+        weightUnit,
+        setsData
+      };
+
+      const list = exercisesBySession.get(workoutExercise.sessionId) || [];
+      list.push(normalized);
+      exercisesBySession.set(workoutExercise.sessionId, list);
+
+      const session = sessionsById.get(workoutExercise.sessionId);
+      exerciseRows.push({
+        id: workoutExercise.id,
+        sessionId: workoutExercise.sessionId,
+        sessionDate: session?.date,
+        exerciseId: workoutExercise.exerciseId,
+        exerciseName,
+        orderIndex: workoutExercise.orderIndex,
+        sets: workoutExercise.sets,
+        targetReps: workoutExercise.targetReps,
+        actualReps: workoutExercise.actualReps,
+        [`weight_${weightUnit}`]: normalized.weight,
+        rpe: workoutExercise.rpe,
+        rir: workoutExercise.rir,
+        restPeriod: workoutExercise.restPeriod,
+        specialMethod: workoutExercise.specialMethod,
+        isCompleted: workoutExercise.isCompleted,
+        notes: workoutExercise.notes
+      });
+
+      if (Array.isArray(setsData)) {
+        for (const set of setsData) {
+          setRows.push({
+            sessionId: workoutExercise.sessionId,
+            sessionDate: session?.date,
+            sessionName: session?.name,
+            workoutExerciseId: workoutExercise.id,
+            exerciseId: workoutExercise.exerciseId,
+            exerciseName,
+            setNumber: set?.setNumber,
+            setType: isWarmupSet(set) ? 'warmup' : 'working',
+            targetReps: set?.targetReps,
+            actualReps: set?.actualReps,
+            [`weight_${weightUnit}`]: set?.weight,
+            rpe: set?.rpe,
+            rir: set?.rir,
+            completed: set?.completed
+          });
+        }
+      }
+    }
+
+    return [
+      {
+        name: 'workout_sessions',
+        json: sessions.map(session => ({ ...session, exercises: exercisesBySession.get(session.id) || [] })),
+        csv: sessions.map(session => ({
+          id: session.id,
+          date: session.date,
+          name: session.name,
+          mesocycleId: session.mesocycleId,
+          programId: session.programId,
+          isCompleted: session.isCompleted,
+          totalVolume: session.totalVolume,
+          duration_min: session.duration,
+          algorithm: session.algorithm,
+          actualFinishedAt: session.actualFinishedAt
+        }))
+      },
+      { name: 'workout_exercises', json: null, csv: exerciseRows },
+      { name: 'workout_sets', json: null, csv: setRows }
+    ];
+  }
+
+  private static async exportBodyMetrics(userId: number, units: ExportUnits): Promise<ExportEntity> {
+    const weightUnit = this.weightUnitLabel(units);
+    const lengthUnit = units === 'metric' ? 'cm' : 'in';
+
+    const metrics = await db
+      .select()
+      .from(bodyMetrics)
+      .where(eq(bodyMetrics.userId, userId))
+      .orderBy(asc(bodyMetrics.date));
+
+    const normalized = metrics.map(metric => {
+      const measurements: Record<string, number | null> = {};
+      for (const field of MEASUREMENT_FIELDS) {
+        const value = this.toNumber(metric[field]);
+        measurements[field] = value === null ? null : Math.round(convertMeasurement(value, metric.unit, units) * 100) / 100;
+      }
+
+      return {
+        ...metric,
+        ...measurements,
+        weight: this.convertWeight(metric.weight, metric.unit, units),
+        unit: units
+      };
+    });
+
+    return {
+      name: 'body_metrics',
+      json: normalized,
+      csv: normalized.map(metric => ({
+        id: metric.id,
+        date: metric.date,
+        [`weight_${weightUnit}`]: metric.weight,
+        bodyFatPercentage: metric.bodyFatPercentage,
+        ...Object.fromEntries(MEASUREMENT_FIELDS.map(field => [`${field}_${lengthUnit}`, metric[field]]))
+      }))
+    };
+  }
+
+  private static async exportWeightLogs(userId: number, units: ExportUnits): Promise<ExportEntity> {
+    const weightUnit = this.weightUnitLabel(units);
+
+    const logs = await db
+      .select()
+      .from(weightLogs)
+      .where(eq(weightLogs.userId, userId))
+      .orderBy(asc(weightLogs.date));
+
+    // Weight logs are stored in kg
+    const normalized = logs.map(log => ({
+      ...log,
+      weight: this.convertWeight(log.weight, 'kg', units),
+      weightUnit
+    }));
+
+    return {
+      name: 'weight_logs',
+      json: normalized,
+      csv: normalized.map(log => ({ id: log.id, date: log.date, [`weight_${weightUnit}`]: log.weight }))
+    };
+  }
+
+  private static async exportSimple(name: string, rows: Record<string, unknown>[]): Promise<ExportEntity> {
+    return { name, json: rows, csv: rows };
+  }
+
+  /**
+   * Saved templates may carry per-exercise weights with their own unit
+   */
+  private static normalizeTemplateExercises(exerciseTemplates: unknown, units: ExportUnits): unknown {
+    if (!Array.isArray(exerciseTemplates)) return exerciseTemplates;
+
+    return exerciseTemplates.map((template: any) => {
+      if (!template || template.weight === undefined || template.weight === null) return template;
+      return {
+        ...template,
+        weight: this.convertWeight(template.weight, template.weightUnit, units),
+        weightUnit: this.weightUnitLabel(units)
+      };
+    });
+  }
+
+  /**
+   * Collect every exported entity for a user
+   */
+  static async collect(userId: number, units: ExportUnits = 'metric'): Promise<ExportEntity[]> {
+    const [wellness, userMesocycles, goals, templates] = await Promise.all([
+      db.select().from(dailyWellnessCheckins).where(eq(dailyWellnessCheckins.userId, userId)).orderBy(asc(dailyWellnessCheckins.date)),
+      db.select().from(mesocycles).where(eq(mesocycles.userId, userId)).orderBy(asc(mesocycles.startDate)),
+      db.select().from(dietGoals).where(eq(dietGoals.userId, userId)).orderBy(asc(dietGoals.createdAt)),
+      db.select().from(savedWorkoutTemplates).where(eq(savedWorkoutTemplates.userId, userId)).orderBy(asc(savedWorkoutTemplates.createdAt))
+    ]);
+
+    const weeklyTargetUnit = units === 'metric' ? 'kg' : 'lbs';
+    const normalizedGoals = goals.map(goal => ({
+      ...goal,
+      weeklyWeightTarget: this.convertWeight(goal.weeklyWeightTarget, 'kg', units),
+      weeklyWeightTargetUnit: weeklyTargetUnit
+    }));
+
+    const normalizedTemplates = templates.map(template => ({
+      ...template,
+      exerciseTemplates: this.normalizeTemplateExercises(template.exerciseTemplates, units)
+    }));
+
+    return [
+      await this.exportNutritionLogs(userId),
+      ...(await this.exportWorkouts(userId, units)),
+      await this.exportBodyMetrics(userId, units),
+      await this.exportWeightLogs(userId, units),
+      await this.exportSimple('daily_wellness_checkins', wellness),
+      await this.exportSimple('mesocycles', userMesocycles),
+      await this.exportSimple('diet_goals', normalizedGoals),
+      {
+        name: 'saved_workout_templates',
+        json: normalizedTemplates,
+        csv: normalizedTemplates.map(template => ({
+          ...template,
+          tags: template.tags?.join('|') ?? null
+        }))
+      }
+    ];
+  }
+
+  /**
+   * Build the export archive: json/<entity>.json, csv/<entity>.csv and a manifest
+   */
+  static async buildArchive(userId: number, units: ExportUnits = 'metric'): Promise<Buffer> {
+    const entities = await this.collect(userId, units);
+    const zip = new JSZip();
+
+    const manifest = {
+      exportedAt: new Date().toISOString(),
+      userId,
+      units: {
+        system: units,
+        weight: this.weightUnitLabel(units),
+        length: units === 'metric' ? 'cm' : 'in',
+        energy: 'kcal',
+        macros: 'g'
+      },
+      entities: entities.map(entity => ({
+        name: entity.name,
+        jsonRecords: entity.json ? entity.json.length : null,
+        csvRows: entity.csv.length
+      }))
+    };
+    zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+    for (const entity of entities) {
+      // Per-exercise and per-set rows are flat views of workout_sessions.json
+      if (entity.json) {
+        zip.file(`json/${entity.name}.json`, JSON.stringify(entity.json, null, 2));
+      }
+      zip.file(`csv/${entity.name}.csv`, toCSV(entity.csv));
+    }
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+}
@@ -0,0 +1,384 @@
+import { db } from "../db";
+import {
+  users,
+  mesocycles,
+  workoutSessions,
+  workoutExercises,
+  exercises,
+  deloadRecommendations,
+  type Mesocycle,
+  type DeloadRecommendation
+} from "@shared/schema";
+import { eq, and, desc, asc, inArray, notLike, gte, sql } from "drizzle-orm";
+import { MesocyclePeriodization } from "./mesocycle-periodization";
+import { MesocycleSessionGenerator } from "./mesocycle-session-generator";
+import { StrengthTracking } from "./strength-tracking";
+
+export interface DeloadSettings {
+  autoInsert: boolean; // Schedule the deload immediately instead of proposing it
+  fatigueThreshold: number; // 0-10 fatigue score at or above which a deload is triggered
+  regressionThresholdPercent: number; // e1RM drop from the mesocycle peak that counts as a regression
+  minRegressedLifts: number; // Key lifts that must regress at the same time
+  volumeReduction: number; // Fraction of sets removed during the deload (0.4 = 60% of normal sets)
+  loadReduction: number; // Fraction of load removed during the deload (0.1 = 90% of last weight)
+  minWeeksBetweenDeloads: number;
+}
+
+export const DEFAULT_DELOAD_SETTINGS: DeloadSettings = {
+  autoInsert: false,
+  fatigueThreshold: 7,
+  regressionThresholdPercent: 5,
+  minRegressedLifts: 2,
+  volumeReduction: 0.4,
+  loadReduction: 0.1,
+  minWeeksBetweenDeloads: 3
+};
+
+interface LiftRegression {
+  exerciseId: number;
+  exerciseName: string;
+  peakE1RM: number;
+  recentE1RM: number;
+  dropPercentage: number;
+}
+
+// Sessions per lift needed before a regression can be judged (peak + 2 recent sessions)
+const MIN_SESSIONS_FOR_REGRESSION = 3;
+const MAX_KEY_LIFTS = 6;
+
+export class DeloadAutomation {
+
+  static normalizeSettings(settings: unknown): DeloadSettings {
+    const input = (settings && typeof settings === 'object' ? settings : {}) as Partial<Record<keyof DeloadSettings, unknown>>;
+    const number = (value: unknown, fallback: number, min: number, max: number) => {
+      const parsed = Number(value);
+      return value === undefined || value === null || isNaN(parsed) ? fallback : Math.min(max, Math.max(min, parsed));
+    };
+
+    return {
+      autoInsert: typeof input.autoInsert === 'boolean' ? input.autoInsert : DEFAULT_DELOAD_SETTINGS.autoInsert,
+      fatigueThreshold: number(input.fatigueThreshold, DEFAULT_DELOAD_SETTINGS.fatigueThreshold, 1, 10),
+      regressionThresholdPercent: number(input.regressionThresholdPercent, DEFAULT_DELOAD_SETTINGS.regressionThresholdPercent, 1, 50),
+      minRegressedLifts: Math.round(number(input.minRegressedLifts, DEFAULT_DELOAD_SETTINGS.minRegressedLifts, 1, MAX_KEY_LIFTS)),
+      volumeReduction: number(input.volumeReduction, DEFAULT_DELOAD_SETTINGS.volumeReduction, 0, 0.9),
+      loadReduction: number(input.loadReduction, DEFAULT_DELOAD_SETTINGS.loadReduction, 0, 0.5),
+      minWeeksBetweenDeloads: Math.round(number(input.minWeeksBetweenDeloads, DEFAULT_DELOAD_SETTINGS.minWeeksBetweenDeloads, 1, 12))
+    };
+  }
+
+  static async getSettings(userId: number): Promise<DeloadSettings> {
+    const [user] = await db
+      .select({ deloadSettings: users.deloadSettings })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+    if (!user) throw new Error('User not found');
+
+    return this.normalizeSettings(user.deloadSettings);
+  }
+
+  static async updateSettings(userId: number, updates: unknown): Promise<DeloadSettings> {
+    const current = await this.getSettings(userId);
+    const settings = this.normalizeSettings({ ...current, ...(updates as object) });
+
+    await db.update(users).set({ deloadSettings: settings }).where(eq(users.id, userId));
+    return settings;
+  }
+
+  private static async getActiveMesocycle(userId: number): Promise<Mesocycle | null> {
+    const [mesocycle] = await db
+      .select()
+      .from(mesocycles)
+      .where(and(eq(mesocycles.userId, userId), eq(mesocycles.isActive, true)))
+      .orderBy(desc(mesocycles.createdAt))
+      .limit(1);
+
+    return mesocycle || null;
+  }
+
+  /**
+   * Compare each key lift's recent e1RM against its peak within the mesocycle.
+   * Key lifts are the compound movements trained in the mesocycle so far.
+   */
+  static async detectKeyLiftRegressions(userId: number, mesocycle: Mesocycle, thresholdPercent: number): Promise<{ keyLifts: number; regressions: LiftRegression[] }> {
+    const trained = await db
+      .select({
+        exerciseId: workoutExercises.exerciseId,
+        movementPattern: exercises.movementPattern,
+        isBodyWeight: exercises.isBodyWeight
+      })
+      .from(workoutExercises)
+      .innerJoin(workoutSessions, eq(workoutExercises.sessionId, workoutSessions.id))
+      .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+      .where(and(
+        eq(workoutSessions.mesocycleId, mesocycle.id),
+        eq(workoutSessions.isCompleted, true),
+        eq(workoutExercises.isCompleted, true)
+      ));
+
+    // Most frequently trained compound lifts first
+    const counts = new Map<number, number>();
+    for (const entry of trained) {
+      if (entry.isBodyWeight || entry.movementPattern !== 'compound') continue;
+      counts.set(entry.exerciseId, (counts.get(entry.exerciseId) || 0) + 1);
+    }
+
+    const keyLiftIds = Array.from(counts.keys())
+      .filter(exerciseId => (counts.get(exerciseId) || 0) >= MIN_SESSIONS_FOR_REGRESSION)
+      .sort((a, b) => (counts.get(b) || 0) - (counts.get(a) || 0))
+      .slice(0, MAX_KEY_LIFTS);
+
+    const regressions: LiftRegression[] = [];
+    for (const exerciseId of keyLiftIds) {
+      const curve = await StrengthTracking.getE1RMHistory(userId, exerciseId, { unit: 'kg' });
+      const points = curve.points.filter(point => new Date(point.date) >= new Date(mesocycle.startDate));
+      if (points.length < MIN_SESSIONS_FOR_REGRESSION) continue;
+
+      // Average the last two sessions so a single bad day does not trigger a deload
+      const recent = points.slice(-2);
+      const recentE1RM = recent.reduce((sum, point) => sum + point.e1rm, 0) / recent.length;
+      const peakE1RM = Math.max(...points.slice(0, -2).map(point => point.e1rm));
+      if (peakE1RM <= 0) continue;
+
+      const dropPercentage = Math.round(((peakE1RM - recentE1RM) / peakE1RM) * 1000) / 10;
+      if (dropPercentage >= thresholdPercent) {
+        regressions.push({
+          exerciseId,
+          exerciseName: curve.exerciseName,
+          peakE1RM: Math.round(peakE1RM * 10) / 10,
+          recentE1RM: Math.round(recentE1RM * 10) / 10,
+          dropPercentage
+        });
+      }
+    }
+
+    return { keyLifts: keyLiftIds.length, regressions };
+  }
+
+  /**
+   * Check the active mesocycle for accumulated fatigue or key-lift regression and
+   * propose (or, with autoInsert, schedule) a deload for the following week.
+   * Returns the open recommendation, or null when no deload is warranted.
+   */
+  static async evaluate(userId: number): Promise<DeloadRecommendation | null> {
+    const mesocycle = await this.getActiveMesocycle(userId);
+    if (!mesocycle || mesocycle.isPaused || mesocycle.phase === 'deload') return null;
+
+    const deloadWeek = mesocycle.currentWeek + 1;
+
+    // The final week of the mesocycle is already a planned deload
+    if (deloadWeek >= mesocycle.totalWeeks) return null;
+
+    const existing = await db
+      .select()
+      .from(deloadRecommendations)
+      .where(eq(deloadRecommendations.mesocycleId, mesocycle.id))
+      .orderBy(desc(deloadRecommendations.createdAt));
+
+    const open = existing.find(rec => rec.status !== 'dismissed' && rec.week >= mesocycle.currentWeek);
+    if (open) return open;
+
+    // Respect a dismissal for the rest of the week it was made in
+    if (existing.some(rec => rec.status === 'dismissed' && rec.week === deloadWeek)) return null;
+
+    const settings = await this.getSettings(userId);
+    const lastDeloadWeek = existing
+      .filter(rec => rec.status === 'scheduled')
+      .reduce((max, rec) => Math.max(max, rec.week), 0);
+    if (deloadWeek - lastDeloadWeek <= settings.minWeeksBetweenDeloads) return null;
+
+    const fatigue = await MesocyclePeriodization.analyzeFatigueAccumulation(userId);
+    const { keyLifts, regressions } = await this.detectKeyLiftRegressions(userId, mesocycle, settings.regressionThresholdPercent);
+
+    const triggers: string[] = [];
+    const reasons: string[] = [];
+
+    if (fatigue.fatigueScore >= settings.fatigueThreshold) {
+      triggers.push('fatigue');
+      reasons.push(`Accumulated fatigue is ${fatigue.fatigueScore.toFixed(1)}/10 (threshold ${settings.fatigueThreshold})`);
+      reasons.push(...fatigue.reasons);
+    }
+
+    const requiredRegressions = Math.min(settings.minRegressedLifts, keyLifts);
+    if (requiredRegressions > 0 && regressions.length >= requiredRegressions) {
+      triggers.push('performance_regression');
+      for (const regression of regressions) {
+        reasons.push(`${regression.exerciseName} e1RM down ${regression.dropPercentage}% from its mesocycle peak (${regression.peakE1RM} → ${regression.recentE1RM} kg)`);
+      }
+    }
+
+    if (triggers.length === 0) return null;
+
+    const rules = { volumeReduction: settings.volumeReduction, loadReduction: settings.loadReduction };
+    reasons.push(`Deload plan: ${Math.round(rules.volumeReduction * 100)}% fewer sets and ${Math.round(rules.loadReduction * 100)}% lighter loads in week ${deloadWeek}; the remaining weeks move back by one week`);
+
+    const [recommendation] = await db
+      .insert(deloadRecommendations)
+      .values({
+        userId,
+        mesocycleId: mesocycle.id,
+        week: deloadWeek,
+        status: 'proposed',
+        triggers,
+        fatigueScore: fatigue.fatigueScore.toFixed(2),
+        reasons,
+        regressions: regressions.length > 0 ? regressions : null,
+        rules,
+        autoInserted: settings.autoInsert
+      })
+      .returning();
+
+    console.log(`😌 Deload ${settings.autoInsert ? 'auto-scheduled' : 'proposed'} for user ${userId}, mesocycle ${mesocycle.id} week ${deloadWeek}:`, reasons);
+
+    if (settings.autoInsert) {
+      return this.scheduleDeload(userId, recommendation.id);
+    }
+
+    return recommendation;
+  }
+
+  /**
+   * Insert the deload as the week after the current one: later sessions move back
+   * a week, the mesocycle grows by a week and the deload sessions are built from
+   * the current week with the recommendation's volume/load cuts.
+   */
+  static async scheduleDeload(userId: number, recommendationId: number): Promise<DeloadRecommendation> {
+    // Sessions, later weeks, the mesocycle and the recommendation change together or not at all
+    return db.transaction(async (tx) => {
+      const [recommendation] = await tx
+        .select()
+        .from(deloadRecommendations)
+        .where(and(eq(deloadRecommendations.id, recommendationId), eq(deloadRecommendations.userId, userId)))
+        .limit(1)
+        .for('update');
+      if (!recommendation || recommendation.status !== 'proposed') throw new Error('Deload recommendation not found');
+
+      const [mesocycle] = await tx
+        .select()
+        .from(mesocycles)
+        .where(and(eq(mesocycles.id, recommendation.mesocycleId), eq(mesocycles.userId, userId)))
+        .limit(1);
+      if (!mesocycle || !mesocycle.isActive) throw new Error('Active mesocycle not found');
+      if (mesocycle.phase === 'deload') throw new Error('The mesocycle is already in a deload');
+
+      const baseWeek = mesocycle.currentWeek;
+      const deloadWeek = baseWeek + 1;
+      const rules = recommendation.rules as { volumeReduction: number; loadReduction: number };
+
+      const baseSessions = await tx
+        .select()
+        .from(workoutSessions)
+        .where(and(
+          eq(workoutSessions.mesocycleId, mesocycle.id),
+          sql`${workoutSessions.name} ~ ${`Week ${baseWeek}([^0-9]|$)`}`,
+          notLike(workoutSessions.name, '%(Deload)%')
+        ))
+        .orderBy(asc(workoutSessions.date));
+      if (baseSessions.length === 0) throw new Error(`No Week ${baseWeek} sessions to base the deload on`);
+
+      const deloadStart = new Date(mesocycle.startDate);
+      deloadStart.setDate(deloadStart.getDate() + baseWeek * 7);
+
+      // Shift any sessions already planned on or after the deload week
+      const laterSessions = await tx
+        .select()
+        .from(workoutSessions)
+        .where(and(eq(workoutSessions.mesocycleId, mesocycle.id), gte(workoutSessions.date, deloadStart)));
+
+      for (const session of laterSessions) {
+        const shiftedDate = new Date(session.date);
+        shiftedDate.setDate(shiftedDate.getDate() + 7);
+        const shiftedName = session.name.replace(/Week (\d+)/, (match, week) =>
+          parseInt(week) > baseWeek ? `Week ${parseInt(week) + 1}` : match
+        );
+
+        await tx
+          .update(workoutSessions)
+          .set({ date: shiftedDate, name: shiftedName })
+          .where(eq(workoutSessions.id, session.id));
+      }
+
+      const laterDeloads = await tx
+        .select()
+        .from(deloadRecommendations)
+        .where(and(eq(deloadRecommendations.mesocycleId, mesocycle.id), eq(deloadRecommendations.status, 'scheduled')));
+      for (const later of laterDeloads.filter(rec => rec.week >= deloadWeek)) {
+        await tx.update(deloadRecommendations).set({ week: later.week + 1 }).where(eq(deloadRecommendations.id, later.id));
+      }
+
+      const endDate = new Date(mesocycle.endDate);
+      endDate.setDate(endDate.getDate() + 7);
+      await tx
+        .update(mesocycles)
+        .set({ totalWeeks: mesocycle.totalWeeks + 1, endDate })
+        .where(eq(mesocycles.id, mesocycle.id));
+
+      for (let i = 0; i < baseSessions.length; i++) {
+        const sessionDate = new Date(deloadStart);
+        sessionDate.setDate(deloadStart.getDate() + Math.floor(i * 7 / baseSessions.length));
+
+        await MesocycleSessionGenerator.createDeloadSession(mesocycle.id, baseSessions[i].id, sessionDate, {
+          name: `${baseSessions[i].name.replace(new RegExp(`Week ${baseWeek}(?!\\d)`), `Week ${deloadWeek}`)} (Deload)`,
+          volumeReduction: rules.volumeReduction,
+          loadReduction: rules.loadReduction
+        }, tx);
+      }
+
+      const [scheduled] = await tx
+        .update(deloadRecommendations)
+        .set({ status: 'scheduled', week: deloadWeek, respondedAt: new Date() })
+        .where(eq(deloadRecommendations.id, recommendation.id))
+        .returning();
+
+      console.log(`✅ Deload week ${deloadWeek} inserted into mesocycle ${mesocycle.id} (${baseSessions.length} sessions)`);
+      return scheduled;
+    });
+  }
+
+  static async dismissDeload(userId: number, recommendationId: number): Promise<DeloadRecommendation> {
+    const [dismissed] = await db
+      .update(deloadRecommendations)
+      .set({ status: 'dismissed', respondedAt: new Date() })
+      .where(and(
+        eq(deloadRecommendations.id, recommendationId),
+        eq(deloadRecommendations.userId, userId),
+        eq(deloadRecommendations.status, 'proposed')
+      ))
+      .returning();
+
+    if (!dismissed) throw new Error('Deload recommendation not found');
+    return dismissed;
+  }
+
+  static async getRecommendations(userId: number, mesocycleId?: number): Promise<DeloadRecommendation[]> {
+    const conditions = [eq(deloadRecommendations.userId, userId)];
+    if (mesocycleId) conditions.push(eq(deloadRecommendations.mesocycleId, mesocycleId));
+
+    return db
+      .select()
+      .from(deloadRecommendations)
+      .where(and(...conditions))
+      .orderBy(desc(deloadRecommendations.createdAt));
+  }
+
+  /**
+   * Scheduled deload week numbers per mesocycle
+   */
+  static async getScheduledDeloadWeeks(mesocycleIds: number[]): Promise<Map<number, number[]>> {
+    const weeksByMesocycle = new Map<number, number[]>();
+    if (mesocycleIds.length === 0) return weeksByMesocycle;
+
+    const scheduled = await db
+      .select({ mesocycleId: deloadRecommendations.mesocycleId, week: deloadRecommendations.week })
+      .from(deloadRecommendations)
+      .where(and(
+        inArray(deloadRecommendations.mesocycleId, mesocycleIds),
+        eq(deloadRecommendations.status, 'scheduled')
+      ));
+
+    for (const entry of scheduled) {
+      weeksByMesocycle.set(entry.mesocycleId, [...(weeksByMesocycle.get(entry.mesocycleId) || []), entry.week]);
+    }
+    return weeksByMesocycle;
+  }
+}
@@ -18,6 +18,20 @@ interface VerificationEmailData {
   baseUrl: string;
 }
 
+interface AccountLinkEmailData {
+  to: string;
+  name: string;
+  expiresInMinutes: number;
+}
+
+interface PasswordResetEmailData extends AccountLinkEmailData {
+  resetUrl: string;
+}
+
+interface EmailChangeEmailData extends AccountLinkEmailData {
+  confirmUrl: string;
+}
+
 class EmailService {
   private transporter: nodemailer.Transporter;
   private config: EmailConfig;
@@ -110,6 +124,266 @@ class EmailService {
     }
   }
 
+  /**
+   * Send a coach invitation to an athlete
+   */
+  async sendCoachInvitationEmail(to: string, coachName: string, acceptUrl: string): Promise<boolean> {
+    try {
+      const mailOptions = {
+        from: {
+          name: 'TrainPro',
+          address: this.config.auth.user
+        },
+        to,
+        subject: `${coachName} invited you to TrainPro coaching`,
+        html: this.getNotificationEmailTemplate(
+          'Coaching Invitation',
+          `<h2>${coachName} wants to coach you</h2>
+                <p>${coachName} has invited you to share your TrainPro data with them. Once you accept, they can view your nutrition logs, wellness check-ins and training history, and assign mesocycles to your calendar.</p>
+                <p>You can change what your coach can see or revoke access at any time from your profile.</p>
+                <div style="text-align: center; margin: 30px 0;">
+                    <a href="${acceptUrl}" class="cta-button">Review Invitation</a>
+                </div>`
+        ),
+        text: `${coachName} wants to coach you
+
+${coachName} has invited you to share your TrainPro data with them. Once you accept, they can view your nutrition logs, wellness check-ins and training history, and assign mesocycles to your calendar.
+
+You can change what your coach can see or revoke access at any time from your profile.
+
+Review the invitation: ${acceptUrl}
+
+© 2025 TrainPro. All rights reserved.`
+      };
+
+      const result = await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Coach invitation email sent to ${to}:`, result.messageId);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to send coach invitation email to ${to}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Send a password reset link
+   */
+  async sendPasswordResetEmail(data: PasswordResetEmailData): Promise<boolean> {
+    try {
+      const mailOptions = {
+        from: {
+          name: 'TrainPro',
+          address: this.config.auth.user
+        },
+        to: data.to,
+        subject: 'Reset your TrainPro password',
+        html: this.getNotificationEmailTemplate(
+          'Password Reset',
+          `<h2>Hi ${data.name},</h2>
+                <p>We received a request to reset the password for your TrainPro account. The link below is valid for ${data.expiresInMinutes} minutes and can only be used once.</p>
+                <div style="text-align: center; margin: 30px 0;">
+                    <a href="${data.resetUrl}" class="cta-button">Reset Password</a>
+                </div>
+                <p>Resetting your password signs you out on all other devices.</p>
+                <p>If you didn't request this, you can ignore this email - your password stays the same.</p>`
+        ),
+        text: `Hi ${data.name},
+
+We received a request to reset the password for your TrainPro account. The link below is valid for ${data.expiresInMinutes} minutes and can only be used once.
+
+Reset your password: ${data.resetUrl}
+
+Resetting your password signs you out on all other devices.
+
+If you didn't request this, you can ignore this email - your password stays the same.
+
+© 2025 TrainPro. All rights reserved.`
+      };
+
+      const result = await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Password reset email sent to ${data.to}:`, result.messageId);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to send password reset email to ${data.to}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Ask the user to confirm a new email address - sent to the new address
+   */
+  async sendEmailChangeEmail(data: EmailChangeEmailData): Promise<boolean> {
+    try {
+      const mailOptions = {
+        from: {
+          name: 'TrainPro',
+          address: this.config.auth.user
+        },
+        to: data.to,
+        subject: 'Confirm your new TrainPro email address',
+        html: this.getNotificationEmailTemplate(
+          'Confirm Email Change',
+          `<h2>Hi ${data.name},</h2>
+                <p>You asked to use <strong>${data.to}</strong> as the email address for your TrainPro account. Confirm it within ${data.expiresInMinutes} minutes to finish the change.</p>
+                <div style="text-align: center; margin: 30px 0;">
+                    <a href="${data.confirmUrl}" class="cta-button">Confirm New Email</a>
+                </div>
+                <p>If you didn't request this, ignore this email and nothing will change.</p>`
+        ),
+        text: `Hi ${data.name},
+
+You asked to use ${data.to} as the email address for your TrainPro account. Confirm it within ${data.expiresInMinutes} minutes to finish the change.
+
+Confirm your new email: ${data.confirmUrl}
+
+If you didn't request this, ignore this email and nothing will change.
+
+© 2025 TrainPro. All rights reserved.`
+      };
+
+      const result = await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Email change confirmation sent to ${data.to}:`, result.messageId);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to send email change confirmation to ${data.to}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Tell the previous address that the account email was changed
+   */
+  async sendEmailChangedNotice(to: string, name: string, newEmail: string): Promise<boolean> {
+    try {
+      const mailOptions = {
+        from: {
+          name: 'TrainPro',
+          address: this.config.auth.user
+        },
+        to,
+        subject: 'Your TrainPro email address was changed',
+        html: this.getNotificationEmailTemplate(
+          'Email Address Changed',
+          `<h2>Hi ${name},</h2>
+                <p>The email address on your TrainPro account was changed to <strong>${newEmail}</strong>. You will no longer receive account emails at this address.</p>
+                <p>If you didn't make this change, contact our support team right away.</p>`
+        ),
+        text: `Hi ${name},
+
+The email address on your TrainPro account was changed to ${newEmail}. You will no longer receive account emails at this address.
+
+If you didn't make this change, contact our support team right away.
+
+© 2025 TrainPro. All rights reserved.`
+      };
+
+      const result = await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Email change notice sent to ${to}:`, result.messageId);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to send email change notice to ${to}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Alert the user about a sign-in that did not match their usual location and device
+   */
+  async sendSuspiciousLoginEmail(
+    to: string,
+    name: string,
+    login: { ipAddress: string; userAgent: string; time: Date; reasons: string[] }
+  ): Promise<boolean> {
+    try {
+      const baseUrl = process.env.BASE_URL || process.env.REPLIT_DOMAIN || 'https://mytrainpro.com';
+      const when = login.time.toUTCString();
+
+      const mailOptions = {
+        from: {
+          name: 'TrainPro',
+          address: this.config.auth.user
+        },
+        to,
+        subject: 'New sign-in to your TrainPro account',
+        html: this.getNotificationEmailTemplate(
+          'New Sign-in',
+          `<h2>Hi ${name}, was this you?</h2>
+                <p>Your TrainPro account was just signed in to:</p>
+                <ul>
+                    <li><strong>Time:</strong> ${when}</li>
+                    <li><strong>IP address:</strong> ${login.ipAddress}</li>
+                    <li><strong>Device:</strong> ${login.userAgent}</li>
+                </ul>
+                <p>We flagged it because: ${login.reasons.join('; ')}.</p>
+                <p>If this was you, no action is needed. If not, change your password right away.</p>
+                <div style="text-align: center; margin: 30px 0;">
+                    <a href="${baseUrl}/profile" class="cta-button">Review Account Security</a>
+                </div>`
+        ),
+        text: `Hi ${name}, was this you?
+
+Your TrainPro account was just signed in to:
+- Time: ${when}
+- IP address: ${login.ipAddress}
+- Device: ${login.userAgent}
+
+We flagged it because: ${login.reasons.join('; ')}.
+
+If this was you, no action is needed. If not, change your password right away: ${baseUrl}/profile
+
+© 2025 TrainPro. All rights reserved.`
+      };
+
+      const result = await this.transporter.sendMail(mailOptions);
+      console.log(`✅ Suspicious login alert sent to ${to}:`, result.messageId);
+      return true;
+    } catch (error) {
+      console.error(`❌ Failed to send suspicious login alert to ${to}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Shared layout for short notification emails
+   */
+  private getNotificationEmailTemplate(title: string, content: string): string {
+    return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${title}</title>
+        <style>
+            body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 0; background-color: #f4f4f4; }
+            .container { max-width: 600px; margin: 0 auto; background-color: #ffffff; }
+            .header { background-color: #000000; color: #ffffff; padding: 30px; text-align: center; }
+            .logo { font-size: 28px; font-weight: bold; margin: 0; }
+            .content { padding: 40px 30px; }
+            .cta-button { display: inline-block; background-color: #000000; color: #ffffff; padding: 15px 30px; text-decoration: none; border-radius: 0; font-weight: bold; margin: 20px 0; text-align: center; }
+            .footer { background-color: #f8f8f8; padding: 20px 30px; text-align: center; font-size: 14px; color: #666; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1 class="logo">TrainPro</h1>
+                <p>${title}</p>
+            </div>
+            
+            <div class="content">
+                ${content}
+            </div>
+            
+            <div class="footer">
+                <p>&copy; 2025 TrainPro. All rights reserved.</p>
+            </div>
+        </div>
+    </body>
+    </html>
+    `;
+  }
+
   /**
    * Get HTML template for verification email
    */
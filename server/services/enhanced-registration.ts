@@ -38,6 +38,15 @@ const REGISTRATION_LIMITS = {
   maxResendAttempts: 3
 };
 
+export type EmailTokenType = 'registration' | 'password_reset' | 'email_change';
+
+// Token lifetime per emailVerificationTokens.type
+const TOKEN_EXPIRY_MINUTES: Record<EmailTokenType, number> = {
+  registration: REGISTRATION_LIMITS.emailVerificationExpiryMinutes,
+  password_reset: 30,
+  email_change: 60
+};
+
 export interface PasswordValidationResult {
   isValid: boolean;
   score: number; // 0-100
@@ -230,35 +239,70 @@ export async function logRegistrationAttempt(
 }
 
 /**
- * Create email verification token and send verification email  
+ * Create a single-use email token and send the matching email.
+ * For email_change, `email` is the new address the confirmation goes to.
+ * Issuing a password_reset or email_change token invalidates the user's earlier unused tokens of that type.
  */
 export async function createEmailVerificationToken(
   userId: number,
   email: string,
   name: string,
-  baseUrl: string
+  baseUrl: string,
+  type: EmailTokenType = 'registration',
+  requestInfo: { ipAddress?: string; userAgent?: string } = {}
 ): Promise<{ success: boolean; token?: string; error?: string }> {
   try {
     // Generate verification token
     const token = generateVerificationToken();
-    const expiresAt = new Date(Date.now() + REGISTRATION_LIMITS.emailVerificationExpiryMinutes * 60 * 1000);
+    const expiresAt = new Date(Date.now() + TOKEN_EXPIRY_MINUTES[type] * 60 * 1000);
+
+    if (type !== 'registration') {
+      await db
+        .update(emailVerificationTokens)
+        .set({ usedAt: new Date() })
+        .where(and(
+          eq(emailVerificationTokens.userId, userId),
+          eq(emailVerificationTokens.type, type),
+          sql`${emailVerificationTokens.usedAt} IS NULL`
+        ));
+    }
 
     // Store verification token in database
     await db.insert(emailVerificationTokens).values({
       userId,
       token,
       email,
+      type,
       expiresAt,
-      createdAt: new Date()
+      createdAt: new Date(),
+      ipAddress: requestInfo.ipAddress,
+      userAgent: requestInfo.userAgent
     });
 
-    // Send verification email
-    const emailSent = await emailService.sendVerificationEmail({
-      to: email,
-      name,
-      verificationToken: token,
-      baseUrl
-    });
+    // Send the email for this token type
+    let emailSent: boolean;
+    if (type === 'password_reset') {
+      emailSent = await emailService.sendPasswordResetEmail({
+        to: email,
+        name,
+        resetUrl: `${baseUrl}/reset-password?token=${token}`,
+        expiresInMinutes: TOKEN_EXPIRY_MINUTES[type]
+      });
+    } else if (type === 'email_change') {
+      emailSent = await emailService.sendEmailChangeEmail({
+        to: email,
+        name,
+        confirmUrl: `${baseUrl}/api/auth/confirm-email-change?token=${token}`,
+        expiresInMinutes: TOKEN_EXPIRY_MINUTES[type]
+      });
+    } else {
+      emailSent = await emailService.sendVerificationEmail({
+        to: email,
+        name,
+        verificationToken: token,
+        baseUrl
+      });
+    }
 
     if (!emailSent) {
       return {
@@ -267,7 +311,7 @@ export async function createEmailVerificationToken(
       };
     }
 
-    console.log(`✅ Verification email sent to ${email} for user ${userId}`);
+    console.log(`✅ ${type} email sent to ${email} for user ${userId}`);
     return {
       success: true,
       token
@@ -282,24 +326,30 @@ export async function createEmailVerificationToken(
 }
 
 /**
- * Verify email verification token
+ * Consume an email token of the given type.
+ * Registration tokens also mark the email verified and send the welcome email; for the other types
+ * the caller applies the change (new password, new email) once the token checks out.
  */
-export async function verifyEmailToken(token: string): Promise<{
+export async function verifyEmailToken(token: string, type: EmailTokenType = 'registration'): Promise<{
   success: boolean;
   email?: string;
   userId?: number;
   error?: string;
 }> {
   try {
+    // Claim the token in one statement so it can only be used once
     const tokenRecord = await db
-      .select()
-      .from(emailVerificationTokens)
+      .update(emailVerificationTokens)
+      .set({ 
+        usedAt: new Date()
+      })
       .where(and(
         eq(emailVerificationTokens.token, token),
+        eq(emailVerificationTokens.type, type),
         sql`${emailVerificationTokens.usedAt} IS NULL`,
         sql`${emailVerificationTokens.expiresAt} > NOW()`
       ))
-      .limit(1);
+      .returning();
 
     if (tokenRecord.length === 0) {
       return { success: false, error: 'Invalid or expired token' };
@@ -307,13 +357,13 @@ export async function verifyEmailToken(token: string): Promise<{
 
     const record = tokenRecord[0];
 
-    // Mark token as used
-    await db
-      .update(emailVerificationTokens)
-      .set({ 
-        usedAt: new Date()
-      })
-      .where(eq(emailVerificationTokens.token, token));
+    if (type !== 'registration') {
+      return {
+        success: true,
+        email: record.email,
+        userId: record.userId || undefined
+      };
+    }
 
     // Update user's email verification status
     await db
@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { equipmentProfiles, type EquipmentProfile } from '@shared/schema';
+import { eq, ne, and, desc } from 'drizzle-orm';
+import { convertWeight, type WeightUnit } from '@shared/utils/metric-conversion';
+import {
+  DEFAULT_EQUIPMENT_SETUPS,
+  MAX_PLATES_PER_SIDE,
+  PLATE_WEIGHT_STEP,
+  snapToAchievableLoad,
+  type EquipmentSetup,
+  type LoadingType
+} from '@shared/utils/equipment-loads';
+
+const weight = z.number().positive().max(1000);
+const plateWeight = (max: number) => z.number().positive().max(max).refine(
+  value => Math.abs(value / PLATE_WEIGHT_STEP - Math.round(value / PLATE_WEIGHT_STEP)) < 1e-9,
+  { message: `Plate weights must be multiples of ${PLATE_WEIGHT_STEP}` }
+);
+
+export const equipmentProfileInputSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  unit: z.enum(['kg', 'lbs']),
+  barWeight: z.number().min(0).max(100),
+  plates: z.array(z.object({ weight: plateWeight(100), pairs: z.number().int().min(0).max(20) })).max(20),
+  dumbbells: z.array(weight).max(100),
+  machineIncrement: z.number().min(0).max(50),
+  machineMax: z.number().min(0).max(1000),
+  microplates: z.array(plateWeight(5)).max(10),
+  excludedEquipment: z.array(z.string().trim().toLowerCase().min(1).max(40)).max(20).default([]),
+}).refine(
+  input => input.plates.reduce((sum, plate) => sum + plate.pairs, 0) + input.microplates.length <= MAX_PLATES_PER_SIDE,
+  { message: `At most ${MAX_PLATES_PER_SIDE} plates per side`, path: ['plates'] }
+);
+
+export type EquipmentProfileInput = z.infer<typeof equipmentProfileInputSchema>;
+
+const toRow = (input: EquipmentProfileInput) => ({
+  name: input.name,
+  unit: input.unit,
+  barWeight: String(input.barWeight),
+  plates: input.plates.filter(plate => plate.pairs > 0).sort((a, b) => b.weight - a.weight),
+  dumbbells: Array.from(new Set(input.dumbbells)).sort((a, b) => a - b),
+  machineIncrement: String(input.machineIncrement),
+  machineMax: String(input.machineMax),
+  microplates: input.microplates.slice().sort((a, b) => b - a),
+  excludedEquipment: Array.from(new Set(input.excludedEquipment)),
+});
+
+export class EquipmentProfileService {
+
+  static toSetup(profile: EquipmentProfile): EquipmentSetup {
+    return {
+      unit: profile.unit,
+      barWeight: parseFloat(profile.barWeight),
+      plates: profile.plates,
+      dumbbells: profile.dumbbells,
+      machineIncrement: parseFloat(profile.machineIncrement),
+      machineMax: parseFloat(profile.machineMax),
+      microplates: profile.microplates,
+    };
+  }
+
+  static async listProfiles(userId: number): Promise<EquipmentProfile[]> {
+    return db
+      .select()
+      .from(equipmentProfiles)
+      .where(eq(equipmentProfiles.userId, userId))
+      .orderBy(desc(equipmentProfiles.isActive), equipmentProfiles.name);
+  }
+
+  static async getActiveProfile(userId: number): Promise<EquipmentProfile | null> {
+    const [profile] = await db
+      .select()
+      .from(equipmentProfiles)
+      .where(and(eq(equipmentProfiles.userId, userId), eq(equipmentProfiles.isActive, true)))
+      .limit(1);
+
+    return profile || null;
+  }
+
+  /**
+   * Setup of the active profile, or null when the user hasn't described their gym
+   */
+  static async getActiveSetup(userId: number): Promise<EquipmentSetup | null> {
+    const profile = await this.getActiveProfile(userId);
+    return profile ? this.toSetup(profile) : null;
+  }
+
+  /**
+   * New profile from the input, or from the default setup for `unit`. The first profile becomes active.
+   */
+  static async createProfile(userId: number, input: Partial<z.input<typeof equipmentProfileInputSchema>> & { name: string }): Promise<EquipmentProfile> {
+    const data = equipmentProfileInputSchema.parse({ ...DEFAULT_EQUIPMENT_SETUPS[input.unit || 'kg'], ...input });
+    const active = await this.getActiveProfile(userId);
+
+    const [profile] = await db
+      .insert(equipmentProfiles)
+      .values({ ...toRow(data), userId, isActive: !active })
+      .returning();
+
+    return profile;
+  }
+
+  static async updateProfile(userId: number, profileId: number, input: Partial<z.input<typeof equipmentProfileInputSchema>>): Promise<EquipmentProfile> {
+    const [existing] = await db
+      .select()
+      .from(equipmentProfiles)
+      .where(and(eq(equipmentProfiles.id, profileId), eq(equipmentProfiles.userId, userId)));
+
+    if (!existing) throw new Error('Equipment profile not found');
+
+    const data = equipmentProfileInputSchema.parse({
+      ...this.toSetup(existing),
+      name: existing.name,
+      excludedEquipment: existing.excludedEquipment,
+      ...input
+    });
+
+    const [profile] = await db
+      .update(equipmentProfiles)
+      .set({ ...toRow(data), updatedAt: new Date() })
+      .where(eq(equipmentProfiles.id, profileId))
+      .returning();
+
+    return profile;
+  }
+
+  /**
+   * Make one profile the one recommendations use, e.g. when switching between home and commercial gym
+   */
+  static async activateProfile(userId: number, profileId: number): Promise<EquipmentProfile> {
+    return db.transaction(async (tx) => {
+      const [profile] = await tx
+        .update(equipmentProfiles)
+        .set({ isActive: true, updatedAt: new Date() })
+        .where(and(eq(equipmentProfiles.id, profileId), eq(equipmentProfiles.userId, userId)))
+        .returning();
+
+      if (!profile) throw new Error('Equipment profile not found');
+
+      await tx
+        .update(equipmentProfiles)
+        .set({ isActive: false })
+        .where(and(eq(equipmentProfiles.userId, userId), eq(equipmentProfiles.isActive, true), ne(equipmentProfiles.id, profileId)));
+
+      return profile;
+    });
+  }
+
+  /**
+   * Delete a profile - when it was the active one, the most recently updated remaining profile takes over
+   */
+  static async deleteProfile(userId: number, profileId: number): Promise<void> {
+    const [deleted] = await db
+      .delete(equipmentProfiles)
+      .where(and(eq(equipmentProfiles.id, profileId), eq(equipmentProfiles.userId, userId)))
+      .returning();
+
+    if (!deleted) throw new Error('Equipment profile not found');
+    if (!deleted.isActive) return;
+
+    const [next] = await db
+      .select({ id: equipmentProfiles.id })
+      .from(equipmentProfiles)
+      .where(eq(equipmentProfiles.userId, userId))
+      .orderBy(desc(equipmentProfiles.updatedAt))
+      .limit(1);
+
+    if (next) await this.activateProfile(userId, next.id);
+  }
+
+  /**
+   * Equipment the active gym doesn't have, lower-cased - empty without a profile
+   */
+  static async getExcludedEquipment(userId: number): Promise<string[]> {
+    const profile = await this.getActiveProfile(userId);
+    return profile ? profile.excludedEquipment : [];
+  }
+
+  /**
+   * Snap a load given in `unit` to what the setup can build, returned in `unit`
+   */
+  static snapLoad(target: number, unit: WeightUnit, loadingType: LoadingType, setup: EquipmentSetup | null): number {
+    if (!setup || isNaN(target)) return target;
+
+    const snapped = snapToAchievableLoad(convertWeight(target, unit, setup.unit), loadingType, setup);
+    return setup.unit === unit ? snapped : convertWeight(snapped, setup.unit, unit);
+  }
+}
@@ -0,0 +1,474 @@
+import { db } from "../db";
+import {
+  exercises,
+  exerciseMuscleMapping,
+  muscleGroups,
+  volumeLandmarks,
+  workoutExercises,
+  workoutSessions,
+  mesocycles,
+  type Exercise,
+  type WorkoutExercise,
+  type WorkoutSession
+} from "@shared/schema";
+import { eq, and, or, gte, lt, inArray, isNull, asc } from "drizzle-orm";
+import { getLoadingType, type EquipmentSetup, type LoadingType } from "@shared/utils/equipment-loads";
+import { loadForReps } from "@shared/utils/strength-estimation";
+import { parseRepRange } from "@shared/utils/progression-schemes";
+import { getInjuryConflicts, shouldAvoidExercise, type InjuryConflict } from "@shared/utils/injury-constraints";
+import { EquipmentProfileService } from "./equipment-profiles";
+import { InjuryService } from "./injuries";
+import { StrengthTracking } from "./strength-tracking";
+
+interface MuscleVolume {
+  muscleGroupId: number;
+  muscleGroup: string;
+  before: number; // Effective sets this week with the current exercise
+  after: number; // Effective sets this week after the swap
+  target: number | null; // volumeLandmarks target for the week
+  mev: number | null;
+  mrv: number | null;
+}
+
+interface EstimatedLoad {
+  weight: number;
+  unit: 'kg' | 'lbs';
+  reps: number;
+  source: 'history' | 'related'; // The substitute's own e1RM, or carried over from the replaced lift
+}
+
+interface SubstituteSuggestion {
+  exercise: Pick<Exercise, 'id' | 'name' | 'category' | 'primaryMuscle' | 'equipment' | 'movementPattern' | 'difficulty'>;
+  score: number; // 0-100
+  muscleOverlap: number; // 0-1, contribution-weighted
+  reasons: string[];
+  sets: number; // Sets that keep the replaced exercise's weekly volume
+  estimatedLoad: EstimatedLoad | null;
+  volume: MuscleVolume[];
+}
+
+interface SubstitutionContext {
+  session: WorkoutSession;
+  slot: WorkoutExercise;
+  source: Exercise;
+  sourceMapping: Map<number, number>; // Muscle group -> contribution %
+  weekVolume: Map<number, number>; // Muscle group -> effective sets this week
+  landmarks: Map<number, { targetVolume: number; mev: number; mrv: number }>;
+  muscleNames: Map<number, string>;
+  setup: EquipmentSetup | null;
+  unit: 'kg' | 'lbs';
+}
+
+const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced'];
+
+// Candidates sharing less than this much of the replaced exercise's muscle work aren't suggested
+const MIN_MUSCLE_OVERLAP = 0.3;
+
+const WEIGHTS = { muscle: 0.55, pattern: 0.2, equipment: 0.15, difficulty: 0.1 };
+
+/**
+ * Share of a lift's load that carries over to one loaded another way, e.g. a dumbbell
+ * (per hand) takes roughly 40% of the barbell load for the same movement
+ */
+const LOAD_TRANSFER: Record<LoadingType, Partial<Record<LoadingType, number>>> = {
+  barbell: { barbell: 1, dumbbell: 0.4, machine: 1, other: 0.8 },
+  dumbbell: { barbell: 2.2, dumbbell: 1, machine: 2.2, other: 1.8 },
+  machine: { barbell: 0.85, dumbbell: 0.35, machine: 1, other: 0.8 },
+  other: { barbell: 1, dumbbell: 0.45, machine: 1, other: 1 },
+  bodyweight: {},
+};
+
+// Isolation lifts move far less load than the compound lifts training the same muscles
+const PATTERN_TRANSFER: Record<string, number> = { 'compound>isolation': 0.5, 'isolation>compound': 1.8 };
+
+// Starting loads leave two reps in reserve at the top of the rep range
+const STARTING_RIR = 2;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const equipmentTokens = (value: string) => value
+  .toLowerCase()
+  .split(/[\s_\-]+/)
+  .filter(Boolean)
+  .map(token => token.replace(/s$/, ''));
+
+/**
+ * Excluded terms match whole words of the equipment, so "cable" also excludes "cable_machine"
+ */
+export function isEquipmentExcluded(equipment: string | null | undefined, excluded: string[]): boolean {
+  if (!equipment) return false;
+  const tokens = equipmentTokens(equipment);
+  return excluded.some(term => {
+    const termTokens = equipmentTokens(term);
+    return termTokens.length > 0 && termTokens.every(token => tokens.includes(token));
+  });
+}
+
+function muscleOverlap(source: Map<number, number>, candidate: Map<number, number>): number {
+  const total = Array.from(source.values()).reduce((sum, value) => sum + value, 0);
+  if (total === 0) return 0;
+
+  let shared = 0;
+  source.forEach((contribution, muscleGroupId) => {
+    shared += Math.min(contribution, candidate.get(muscleGroupId) || 0);
+  });
+  return shared / total;
+}
+
+export class ExerciseSubstitutionService {
+
+  /**
+   * Ranked substitutes for an exercise in a session. Equipment the active gym profile excludes and
+   * exercises an active injury rules out are always filtered out, `excludeEquipment` adds to it for
+   * this request.
+   */
+  static async suggestSubstitutes(
+    userId: number,
+    sessionId: number,
+    exerciseId: number,
+    options: { excludeEquipment?: string[]; limit?: number } = {}
+  ): Promise<{ exerciseId: number; excludedEquipment: string[]; suggestions: SubstituteSuggestion[] }> {
+    const context = await this.buildContext(userId, sessionId, exerciseId);
+    const limit = Math.min(Math.max(options.limit || 8, 1), 20);
+
+    const profileExclusions = await EquipmentProfileService.getExcludedEquipment(userId);
+    const activeInjuries = await InjuryService.getActiveConstraints(userId);
+    const excludedEquipment = Array.from(new Set([
+      ...profileExclusions,
+      ...(options.excludeEquipment || []).map(term => term.trim().toLowerCase()).filter(Boolean)
+    ]));
+
+    // Anything training the same muscle groups, plus library entries without a mapping that share the primary muscle
+    const sourceGroupIds = Array.from(context.sourceMapping.keys());
+    const related = sourceGroupIds.length > 0
+      ? await db
+        .selectDistinct({ exerciseId: exerciseMuscleMapping.exerciseId })
+        .from(exerciseMuscleMapping)
+        .where(inArray(exerciseMuscleMapping.muscleGroupId, sourceGroupIds))
+      : [];
+    const relatedIds = related.map(row => row.exerciseId);
+
+    const sessionExerciseIds = (await db
+      .select({ exerciseId: workoutExercises.exerciseId })
+      .from(workoutExercises)
+      .where(eq(workoutExercises.sessionId, sessionId))).map(row => row.exerciseId);
+
+    const candidates = (await db
+      .select()
+      .from(exercises)
+      .where(and(
+        relatedIds.length > 0
+          ? or(inArray(exercises.id, relatedIds), eq(exercises.primaryMuscle, context.source.primaryMuscle))
+          : eq(exercises.primaryMuscle, context.source.primaryMuscle),
+        or(isNull(exercises.userId), eq(exercises.userId, userId))
+      )))
+      .filter(candidate =>
+        candidate.id !== exerciseId &&
+        !sessionExerciseIds.includes(candidate.id) &&
+        !isEquipmentExcluded(candidate.equipment, excludedEquipment) &&
+        !shouldAvoidExercise(candidate.name, activeInjuries)
+      );
+
+    const mappings = await this.getMappings(candidates.map(candidate => candidate.id));
+
+    const ranked = candidates
+      .map(candidate => this.scoreCandidate(context, candidate, mappings.get(candidate.id) || new Map()))
+      .filter(result => result.muscleOverlap >= MIN_MUSCLE_OVERLAP)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    const suggestions: SubstituteSuggestion[] = [];
+    for (const result of ranked) {
+      const candidateMapping = mappings.get(result.candidate.id) || new Map<number, number>();
+      const sets = this.volumePreservingSets(context, candidateMapping);
+
+      suggestions.push({
+        exercise: {
+          id: result.candidate.id,
+          name: result.candidate.name,
+          category: result.candidate.category,
+          primaryMuscle: result.candidate.primaryMuscle,
+          equipment: result.candidate.equipment,
+          movementPattern: result.candidate.movementPattern,
+          difficulty: result.candidate.difficulty
+        },
+        score: result.score,
+        muscleOverlap: round1(result.muscleOverlap * 100) / 100,
+        reasons: getInjuryConflicts(result.candidate.name, activeInjuries).length > 0
+          ? [...result.reasons, 'Go easy - loads a mildly injured area']
+          : result.reasons,
+        sets,
+        estimatedLoad: await this.estimateStartingLoad(userId, context, result.candidate),
+        volume: this.volumeImpact(context, candidateMapping, sets)
+      });
+    }
+
+    return { exerciseId, excludedEquipment, suggestions };
+  }
+
+  /**
+   * Exercises in the next `days` of planned sessions that an active injury rules out or flags, each
+   * with the top substitutes that avoid it
+   */
+  static async suggestInjurySubstitutions(userId: number, days: number = 14) {
+    const activeInjuries = await InjuryService.getActiveConstraints(userId);
+    if (activeInjuries.length === 0) return [];
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    const planned = await db
+      .select({
+        sessionId: workoutSessions.id,
+        sessionName: workoutSessions.name,
+        date: workoutSessions.date,
+        exerciseId: workoutExercises.exerciseId,
+        exerciseName: exercises.name
+      })
+      .from(workoutExercises)
+      .innerJoin(workoutSessions, eq(workoutExercises.sessionId, workoutSessions.id))
+      .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+      .where(and(
+        eq(workoutSessions.userId, userId),
+        eq(workoutSessions.isCompleted, false),
+        eq(workoutExercises.isCompleted, false),
+        gte(workoutSessions.date, today),
+        lt(workoutSessions.date, new Date(today.getTime() + days * 24 * 60 * 60 * 1000))
+      ))
+      .orderBy(asc(workoutSessions.date), asc(workoutExercises.orderIndex));
+
+    const results: (typeof planned[number] & { conflicts: InjuryConflict[]; substitutes: SubstituteSuggestion[] })[] = [];
+    for (const entry of planned) {
+      const conflicts = getInjuryConflicts(entry.exerciseName, activeInjuries);
+      if (conflicts.length === 0) continue;
+
+      const { suggestions } = await this.suggestSubstitutes(userId, entry.sessionId, entry.exerciseId, { limit: 3 });
+      results.push({ ...entry, conflicts, substitutes: suggestions });
+    }
+
+    return results;
+  }
+
+  /**
+   * Sets and starting load for swapping `exerciseId` for `newExerciseId` in a session
+   */
+  static async planSubstitution(userId: number, sessionId: number, exerciseId: number, newExerciseId: number) {
+    const context = await this.buildContext(userId, sessionId, exerciseId);
+
+    const [candidate] = await db
+      .select()
+      .from(exercises)
+      .where(and(
+        eq(exercises.id, newExerciseId),
+        or(isNull(exercises.userId), eq(exercises.userId, userId))
+      ));
+    if (!candidate) throw new Error("Substitute exercise not found");
+
+    const candidateMapping = (await this.getMappings([newExerciseId])).get(newExerciseId) || new Map<number, number>();
+    const sets = this.volumePreservingSets(context, candidateMapping);
+
+    return {
+      sets,
+      estimatedLoad: await this.estimateStartingLoad(userId, context, candidate),
+      volume: this.volumeImpact(context, candidateMapping, sets)
+    };
+  }
+
+  private static async buildContext(userId: number, sessionId: number, exerciseId: number): Promise<SubstitutionContext> {
+    const [session] = await db
+      .select()
+      .from(workoutSessions)
+      .where(and(eq(workoutSessions.id, sessionId), eq(workoutSessions.userId, userId)));
+    if (!session) throw new Error("Session not found");
+
+    const [slot] = await db
+      .select()
+      .from(workoutExercises)
+      .where(and(eq(workoutExercises.sessionId, sessionId), eq(workoutExercises.exerciseId, exerciseId)));
+    if (!slot) throw new Error("Exercise not found in session");
+
+    const [source] = await db.select().from(exercises).where(eq(exercises.id, exerciseId));
+    if (!source) throw new Error("Exercise not found");
+
+    // The mesocycle week the session falls in, or just the session outside a mesocycle
+    let weekSessionIds = [session.id];
+    if (session.mesocycleId) {
+      const [mesocycle] = await db
+        .select({ startDate: mesocycles.startDate })
+        .from(mesocycles)
+        .where(eq(mesocycles.id, session.mesocycleId));
+
+      if (mesocycle) {
+        const weekMs = 7 * 24 * 60 * 60 * 1000;
+        const weekIndex = Math.max(0, Math.floor((session.date.getTime() - mesocycle.startDate.getTime()) / weekMs));
+        const weekStart = new Date(mesocycle.startDate.getTime() + weekIndex * weekMs);
+
+        const weekSessions = await db
+          .select({ id: workoutSessions.id })
+          .from(workoutSessions)
+          .where(and(
+            eq(workoutSessions.mesocycleId, session.mesocycleId),
+            gte(workoutSessions.date, weekStart),
+            lt(workoutSessions.date, new Date(weekStart.getTime() + weekMs))
+          ));
+        weekSessionIds = Array.from(new Set([session.id, ...weekSessions.map(row => row.id)]));
+      }
+    }
+
+    const weekExercises = await db
+      .select({ exerciseId: workoutExercises.exerciseId, sets: workoutExercises.sets })
+      .from(workoutExercises)
+      .where(inArray(workoutExercises.sessionId, weekSessionIds));
+
+    const mappings = await this.getMappings(Array.from(new Set([exerciseId, ...weekExercises.map(row => row.exerciseId)])));
+
+    // Effective sets per muscle group, weighted by contribution like the volume landmark updates
+    const weekVolume = new Map<number, number>();
+    weekExercises.forEach(row => {
+      (mappings.get(row.exerciseId) || new Map<number, number>()).forEach((contribution, muscleGroupId) => {
+        weekVolume.set(muscleGroupId, (weekVolume.get(muscleGroupId) || 0) + row.sets * contribution / 100);
+      });
+    });
+
+    const landmarkRows = await db.select().from(volumeLandmarks).where(eq(volumeLandmarks.userId, userId));
+    const groups = await db.select({ id: muscleGroups.id, name: muscleGroups.name }).from(muscleGroups);
+
+    return {
+      session,
+      slot,
+      source,
+      sourceMapping: mappings.get(exerciseId) || new Map(),
+      weekVolume,
+      landmarks: new Map(landmarkRows.map(row => [row.muscleGroupId, { targetVolume: row.targetVolume, mev: row.mev, mrv: row.mrv }])),
+      muscleNames: new Map(groups.map(group => [group.id, group.name])),
+      setup: await EquipmentProfileService.getActiveSetup(userId),
+      unit: slot.weightUnit || 'kg'
+    };
+  }
+
+  private static async getMappings(exerciseIds: number[]): Promise<Map<number, Map<number, number>>> {
+    const result = new Map<number, Map<number, number>>();
+    if (exerciseIds.length === 0) return result;
+
+    const rows = await db
+      .select()
+      .from(exerciseMuscleMapping)
+      .where(inArray(exerciseMuscleMapping.exerciseId, exerciseIds));
+
+    rows.forEach(row => {
+      const mapping = result.get(row.exerciseId) || new Map<number, number>();
+      mapping.set(row.muscleGroupId, row.contributionPercentage);
+      result.set(row.exerciseId, mapping);
+    });
+    return result;
+  }
+
+  private static scoreCandidate(context: SubstitutionContext, candidate: Exercise, candidateMapping: Map<number, number>) {
+    const { source } = context;
+    const reasons: string[] = [];
+
+    // Without mappings on either side fall back to the library's primary muscle
+    const overlap = context.sourceMapping.size > 0 && candidateMapping.size > 0
+      ? muscleOverlap(context.sourceMapping, candidateMapping)
+      : candidate.primaryMuscle === source.primaryMuscle ? 0.7 : 0;
+    if (overlap > 0) reasons.push(`${Math.round(overlap * 100)}% of the same muscle work`);
+
+    const pattern = source.movementPattern && candidate.movementPattern
+      ? source.movementPattern === candidate.movementPattern ? 1 : 0
+      : 0.5;
+    if (pattern === 1) reasons.push(`Same movement pattern (${candidate.movementPattern})`);
+
+    const sourceLoading = getLoadingType(source.equipment, source.isBodyWeight);
+    const candidateLoading = getLoadingType(candidate.equipment, candidate.isBodyWeight);
+    const equipment = source.equipment && source.equipment === candidate.equipment
+      ? 1
+      : sourceLoading === candidateLoading && sourceLoading !== 'other' ? 0.6 : 0;
+    if (equipment === 1) reasons.push('Same equipment');
+    else if (candidate.equipment) reasons.push(`Uses ${candidate.equipment.replace(/_/g, ' ')}`);
+
+    const sourceLevel = DIFFICULTY_LEVELS.indexOf(source.difficulty || 'intermediate');
+    const candidateLevel = DIFFICULTY_LEVELS.indexOf(candidate.difficulty || 'intermediate');
+    const difficulty = sourceLevel < 0 || candidateLevel < 0 ? 0.5 : 1 - Math.abs(sourceLevel - candidateLevel) / 2;
+    if (candidateLevel > sourceLevel && sourceLevel >= 0) reasons.push(`More demanding (${candidate.difficulty})`);
+
+    const score = WEIGHTS.muscle * overlap + WEIGHTS.pattern * pattern + WEIGHTS.equipment * equipment + WEIGHTS.difficulty * difficulty;
+    return { candidate, score: Math.round(score * 100), muscleOverlap: overlap, reasons };
+  }
+
+  /**
+   * Sets that keep the effective weekly sets of the replaced exercise's main muscle group, without
+   * pushing that group past its MRV when it was within it
+   */
+  private static volumePreservingSets(context: SubstitutionContext, candidateMapping: Map<number, number>): number {
+    const currentSets = context.slot.sets;
+    const primary = Array.from(context.sourceMapping.entries()).sort((a, b) => b[1] - a[1])[0];
+    if (!primary) return currentSets;
+
+    const [muscleGroupId, sourceContribution] = primary;
+    const candidateContribution = candidateMapping.get(muscleGroupId);
+    if (!candidateContribution) return currentSets;
+
+    let sets = Math.min(8, Math.max(1, Math.round(currentSets * sourceContribution / candidateContribution)));
+
+    const landmark = context.landmarks.get(muscleGroupId);
+    const before = context.weekVolume.get(muscleGroupId) || 0;
+    const afterFor = (count: number) => before - currentSets * sourceContribution / 100 + count * candidateContribution / 100;
+    while (landmark && before <= landmark.mrv && sets > 1 && afterFor(sets) > landmark.mrv) sets--;
+
+    return sets;
+  }
+
+  private static volumeImpact(context: SubstitutionContext, candidateMapping: Map<number, number>, sets: number): MuscleVolume[] {
+    const groupIds = Array.from(new Set([...Array.from(context.sourceMapping.keys()), ...Array.from(candidateMapping.keys())]));
+
+    return groupIds.map(muscleGroupId => {
+      const before = context.weekVolume.get(muscleGroupId) || 0;
+      const after = before
+        - context.slot.sets * (context.sourceMapping.get(muscleGroupId) || 0) / 100
+        + sets * (candidateMapping.get(muscleGroupId) || 0) / 100;
+      const landmark = context.landmarks.get(muscleGroupId);
+
+      return {
+        muscleGroupId,
+        muscleGroup: context.muscleNames.get(muscleGroupId) || `Muscle group ${muscleGroupId}`,
+        before: round1(before),
+        after: round1(Math.max(0, after)),
+        target: landmark?.targetVolume ?? null,
+        mev: landmark?.mev ?? null,
+        mrv: landmark?.mrv ?? null
+      };
+    });
+  }
+
+  /**
+   * Starting load at the top of the slot's rep range with two reps in reserve - from the substitute's
+   * own e1RM when it has history, otherwise carried over from the replaced lift's e1RM
+   */
+  private static async estimateStartingLoad(userId: number, context: SubstitutionContext, candidate: Exercise): Promise<EstimatedLoad | null> {
+    const candidateLoading = getLoadingType(candidate.equipment, candidate.isBodyWeight);
+    if (candidateLoading === 'bodyweight') return null;
+
+    const reps = parseRepRange(context.slot.targetReps).max;
+    let e1rm = (await StrengthTracking.getE1RMHistory(userId, candidate.id, { unit: context.unit, limit: 3 })).bestE1RM;
+    let source: EstimatedLoad['source'] = 'history';
+
+    if (!(e1rm > 0)) {
+      const sourceE1RM = (await StrengthTracking.getE1RMHistory(userId, context.source.id, { unit: context.unit, limit: 3 })).bestE1RM;
+      const sourceLoading = getLoadingType(context.source.equipment, context.source.isBodyWeight);
+      const transfer = LOAD_TRANSFER[sourceLoading][candidateLoading];
+      if (!(sourceE1RM > 0) || !transfer) return null;
+
+      const patternTransfer = PATTERN_TRANSFER[`${context.source.movementPattern}>${candidate.movementPattern}`] || 1;
+      e1rm = sourceE1RM * transfer * patternTransfer;
+      source = 'related';
+    }
+
+    const weight = EquipmentProfileService.snapLoad(
+      Math.round(loadForReps(e1rm, reps + STARTING_RIR) * 4) / 4,
+      context.unit,
+      candidateLoading,
+      context.setup
+    );
+    return weight > 0 ? { weight, unit: context.unit, reps, source } : null;
+  }
+}
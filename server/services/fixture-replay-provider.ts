@@ -0,0 +1,169 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { AIModelConfig } from '../config/ai-config';
+import type { AIProvider, AICompletionParams, AICompletionResult } from './ai-provider';
+import { GPT5Adapter } from './gpt5-adapter';
+
+/**
+ * Fixture replay provider
+ * Serves deterministic responses from AI_FIXTURES_DIR (default server/fixtures/ai) without any network access.
+ *
+ * Lookup order for each request:
+ * 1. recorded/<key>.json - an exact recording, keyed by a SHA-256 of the prompts and images
+ * 2. *.json rule fixtures, in file name order - the first whose `match` strings all appear in the prompt
+ *
+ * With AI_FIXTURES_RECORD=true a miss is forwarded to OpenAI and saved under recorded/.
+ */
+
+interface RuleFixture {
+  file: string;
+  description?: string;
+  match: string[]; // case-insensitive substrings of the system/user prompt text
+  response: unknown; // objects are returned as JSON
+}
+
+interface RecordedFixture {
+  key: string;
+  model: string;
+  recordedAt: string;
+  response: string;
+}
+
+export class FixtureReplayProvider implements AIProvider {
+  readonly name = 'fixture' as const;
+  private fixturesDir: string;
+  private ruleFixtures: RuleFixture[] | null = null;
+
+  constructor(fixturesDir?: string) {
+    this.fixturesDir = fixturesDir || process.env.AI_FIXTURES_DIR || path.resolve(process.cwd(), 'server/fixtures/ai');
+  }
+
+  async createCompletion(params: AICompletionParams): Promise<AICompletionResult> {
+    const messages = params.messages || [
+      { role: "system", content: params.systemPrompt },
+      { role: "user", content: params.userPrompt }
+    ];
+    return this.replay(params.model, messages, () => getOpenAIProvider().createCompletion(params));
+  }
+
+  async createVisionCompletion(
+    model: AIModelConfig,
+    systemPrompt: string,
+    userPrompt: string,
+    image: string,
+    responseFormat?: { type: string }
+  ): Promise<AICompletionResult> {
+    const messages = [
+      { role: "system", content: systemPrompt },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: userPrompt },
+          { type: "image_url", image_url: { url: `data:image/jpeg;base64,${image}` } }
+        ]
+      }
+    ];
+    return this.replay(model, messages, () =>
+      getOpenAIProvider().createVisionCompletion(model, systemPrompt, userPrompt, image, responseFormat)
+    );
+  }
+
+  /**
+   * Stable key for a request - images are reduced to their own hash so keys stay short
+   */
+  static getRequestKey(messages: any[]): string {
+    const normalized = messages.map(message => ({
+      role: message.role,
+      content: Array.isArray(message.content)
+        ? message.content.map((part: any) => part.type === 'image_url'
+            ? { type: 'image', sha256: createHash('sha256').update(part.image_url?.url || '').digest('hex') }
+            : { type: part.type, text: part.text })
+        : message.content
+    }));
+    return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+  }
+
+  private static getPromptText(messages: any[]): string {
+    return messages
+      .map(message => Array.isArray(message.content)
+        ? message.content.filter((part: any) => part.type === 'text').map((part: any) => part.text).join('\n')
+        : String(message.content || ''))
+      .join('\n');
+  }
+
+  private async replay(
+    model: AIModelConfig,
+    messages: any[],
+    record: () => Promise<AICompletionResult>
+  ): Promise<AICompletionResult> {
+    const key = FixtureReplayProvider.getRequestKey(messages);
+    const promptText = FixtureReplayProvider.getPromptText(messages);
+
+    const recordedPath = path.join(this.fixturesDir, 'recorded', `${key}.json`);
+    if (fs.existsSync(recordedPath)) {
+      const recorded: RecordedFixture = JSON.parse(fs.readFileSync(recordedPath, 'utf-8'));
+      return this.toResult(promptText, recorded.response);
+    }
+
+    const lowerPrompt = promptText.toLowerCase();
+    const fixture = this.loadRuleFixtures().find(candidate =>
+      candidate.match.every(text => lowerPrompt.includes(text.toLowerCase()))
+    );
+    if (fixture) {
+      const content = typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+      return this.toResult(promptText, content);
+    }
+
+    if (process.env.AI_FIXTURES_RECORD === 'true') {
+      const result = await record();
+      const recording: RecordedFixture = {
+        key,
+        model: model.name,
+        recordedAt: new Date().toISOString(),
+        response: result.content
+      };
+      fs.mkdirSync(path.dirname(recordedPath), { recursive: true });
+      fs.writeFileSync(recordedPath, JSON.stringify(recording, null, 2));
+      console.log(`[AI Fixtures] Recorded ${key}`);
+      return result;
+    }
+
+    throw new Error(`No AI fixture matches this request (key ${key}) in ${this.fixturesDir}`);
+  }
+
+  private loadRuleFixtures(): RuleFixture[] {
+    if (this.ruleFixtures) return this.ruleFixtures;
+
+    const files = fs.existsSync(this.fixturesDir)
+      ? fs.readdirSync(this.fixturesDir).filter(file => file.endsWith('.json')).sort()
+      : [];
+
+    this.ruleFixtures = files.map(file => {
+      const fixture = JSON.parse(fs.readFileSync(path.join(this.fixturesDir, file), 'utf-8'));
+      if (!Array.isArray(fixture.match) || fixture.response === undefined) {
+        throw new Error(`Invalid AI fixture ${file}: expected "match" array and "response"`);
+      }
+      return { file, description: fixture.description, match: fixture.match, response: fixture.response };
+    });
+
+    return this.ruleFixtures;
+  }
+
+  // Rough token counts so cost monitoring still sees plausible numbers
+  private toResult(promptText: string, content: string): AICompletionResult {
+    const inputTokens = Math.ceil(promptText.length / 4);
+    const outputTokens = Math.ceil(content.length / 4);
+    return {
+      content,
+      usage: { input_tokens: inputTokens, output_tokens: outputTokens, total_tokens: inputTokens + outputTokens }
+    };
+  }
+}
+
+let openAIProvider: GPT5Adapter | null = null;
+
+function getOpenAIProvider(): GPT5Adapter {
+  if (!openAIProvider) openAIProvider = new GPT5Adapter();
+  return openAIProvider;
+}
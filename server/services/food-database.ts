@@ -0,0 +1,449 @@
+import { db } from "../db";
+import { foodItems, type FoodItem, type InsertFoodItem } from "@shared/schema";
+import { sql, or, and, ilike, inArray, desc, eq } from "drizzle-orm";
+import type { MicronutrientData } from "./openai";
+
+/**
+ * Local food database backed by the food_items table.
+ * Bulk OpenFoodFacts/USDA dumps are imported with server/scripts/import-food-database.ts,
+ * search runs against the full-text index (plus a trigram index on the name when pg_trgm
+ * is available), and the remote APIs are only used to fill the cache when the local
+ * index has too few matches.
+ * All nutrition values are stored per 100 g.
+ */
+
+export type FoodSource = 'seed' | 'openfoodfacts' | 'usda' | 'user';
+
+export interface FoodSearchOptions {
+  limit?: number;
+  language?: string;
+}
+
+export interface RankedFoodItem extends FoodItem {
+  rank: number;
+}
+
+// OpenFoodFacts reports every nutrient in grams per 100 g; convert to the MicronutrientData units
+const OFF_MICRONUTRIENTS: Record<string, { key: keyof MicronutrientData; factor: number }> = {
+  'vitamin-a': { key: 'vitaminA', factor: 1e6 },
+  'vitamin-d': { key: 'vitaminD', factor: 1e6 },
+  'vitamin-e': { key: 'vitaminE', factor: 1e3 },
+  'vitamin-k': { key: 'vitaminK', factor: 1e6 },
+  'vitamin-b1': { key: 'vitaminB1', factor: 1e3 },
+  'vitamin-b2': { key: 'vitaminB2', factor: 1e3 },
+  'vitamin-pp': { key: 'vitaminB3', factor: 1e3 },
+  'pantothenic-acid': { key: 'vitaminB5', factor: 1e3 },
+  'vitamin-b6': { key: 'vitaminB6', factor: 1e3 },
+  'biotin': { key: 'vitaminB7', factor: 1e6 },
+  'vitamin-b9': { key: 'vitaminB9', factor: 1e6 },
+  'folates': { key: 'folate', factor: 1e6 },
+  'vitamin-b12': { key: 'vitaminB12', factor: 1e6 },
+  'vitamin-c': { key: 'vitaminC', factor: 1e3 },
+  'calcium': { key: 'calcium', factor: 1e3 },
+  'magnesium': { key: 'magnesium', factor: 1e3 },
+  'phosphorus': { key: 'phosphorus', factor: 1e3 },
+  'potassium': { key: 'potassium', factor: 1e3 },
+  'sodium': { key: 'sodium', factor: 1e3 },
+  'chloride': { key: 'chloride', factor: 1e3 },
+  'iron': { key: 'iron', factor: 1e3 },
+  'zinc': { key: 'zinc', factor: 1e3 },
+  'copper': { key: 'copper', factor: 1e3 },
+  'manganese': { key: 'manganese', factor: 1e3 },
+  'iodine': { key: 'iodine', factor: 1e6 },
+  'selenium': { key: 'selenium', factor: 1e6 },
+  'chromium': { key: 'chromium', factor: 1e6 },
+  'molybdenum': { key: 'molybdenum', factor: 1e6 },
+  'fluoride': { key: 'fluoride', factor: 1e3 },
+  'sugars': { key: 'sugar', factor: 1 },
+  'added-sugars': { key: 'addedSugar', factor: 1 },
+  'fiber': { key: 'fiber', factor: 1 },
+  'soluble-fiber': { key: 'solubleFiber', factor: 1 },
+  'insoluble-fiber': { key: 'insolubleFiber', factor: 1 },
+  'saturated-fat': { key: 'saturatedFat', factor: 1 },
+  'monounsaturated-fat': { key: 'monounsaturatedFat', factor: 1 },
+  'polyunsaturated-fat': { key: 'polyunsaturatedFat', factor: 1 },
+  'trans-fat': { key: 'transFat', factor: 1 },
+  'cholesterol': { key: 'cholesterol', factor: 1e3 },
+  'omega-3-fat': { key: 'omega3', factor: 1 },
+  'omega-6-fat': { key: 'omega6', factor: 1 },
+  'starch': { key: 'starch', factor: 1 },
+};
+
+// USDA FoodData Central nutrient ids, already in MicronutrientData units
+const USDA_MICRONUTRIENTS: Record<number, keyof MicronutrientData> = {
+  1106: 'vitaminA',
+  1114: 'vitaminD',
+  1109: 'vitaminE',
+  1185: 'vitaminK',
+  1165: 'vitaminB1',
+  1166: 'vitaminB2',
+  1167: 'vitaminB3',
+  1170: 'vitaminB5',
+  1175: 'vitaminB6',
+  1176: 'vitaminB7',
+  1177: 'folate',
+  1178: 'vitaminB12',
+  1162: 'vitaminC',
+  1087: 'calcium',
+  1090: 'magnesium',
+  1091: 'phosphorus',
+  1092: 'potassium',
+  1093: 'sodium',
+  1089: 'iron',
+  1095: 'zinc',
+  1098: 'copper',
+  1101: 'manganese',
+  1100: 'iodine',
+  1103: 'selenium',
+  2000: 'sugar',
+  1235: 'addedSugar',
+  1079: 'fiber',
+  1258: 'saturatedFat',
+  1292: 'monounsaturatedFat',
+  1293: 'polyunsaturatedFat',
+  1257: 'transFat',
+  1253: 'cholesterol',
+  1009: 'starch',
+  1018: 'alcohol',
+};
+
+const USDA_ENERGY_IDS = [1008, 2047, 2048]; // kcal, Atwater general, Atwater specific
+const USDA_PROTEIN_ID = 1003;
+const USDA_CARBS_ID = 1005;
+const USDA_FAT_ID = 1004;
+
+const USDA_API_KEY = process.env.USDA_API_KEY || 'ei8k1PRVVKgTotTTOf12HbZEUndz5UUAO8ilo8j5';
+const REMOTE_TIMEOUT_MS = 5000;
+
+export class FoodDatabaseService {
+  private static trigramAvailable = false;
+
+  /**
+   * Enable pg_trgm and its name index for fuzzy and substring matching. The index lives
+   * here rather than in the schema because the extension is optional - without it search
+   * uses full-text matching alone, which the schema's GIN index covers.
+   */
+  static async ensureSearchExtensions(): Promise<void> {
+    try {
+      await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+      await db.execute(sql`CREATE INDEX IF NOT EXISTS "IDX_food_items_name_trgm" ON ${foodItems} USING gin (${sql.identifier('name')} gin_trgm_ops)`);
+      this.trigramAvailable = true;
+    } catch (error) {
+      this.trigramAvailable = false;
+      console.warn('⚠️ pg_trgm unavailable, food search falls back to full-text only:', error);
+    }
+  }
+
+  // Backslash is Postgres' default LIKE escape - keeps % and _ in a search literal
+  private static escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, '\\$&');
+  }
+
+  private static toNumber(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+    return isFinite(parsed) ? parsed : null;
+  }
+
+  private static round(value: number, decimals: number = 2): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+
+  /**
+   * Reject rows that are impossible per 100 g - bulk dumps contain plenty of typos
+   */
+  private static isPlausible(calories: number, protein: number, carbs: number, fat: number): boolean {
+    if ([calories, protein, carbs, fat].some(value => value < 0)) return false;
+    if (calories <= 0 || calories > 950) return false;
+    return protein + carbs + fat <= 105;
+  }
+
+  /**
+   * Build a prefix tsquery ("chick bre" -> "chick:* & bre:*") so search works per keystroke
+   */
+  private static buildPrefixQuery(query: string): string | null {
+    const tokens = query
+      .toLowerCase()
+      .split(/\s+/)
+      .map(token => token.replace(/[^\p{L}\p{N}]/gu, ''))
+      .filter(Boolean);
+
+    return tokens.length > 0 ? tokens.map(token => `${token}:*`).join(' & ') : null;
+  }
+
+  /**
+   * Ranked local search over name, brand and translations
+   */
+  static async search(query: string, options: FoodSearchOptions = {}): Promise<RankedFoodItem[]> {
+    const limit = options.limit || 30;
+    const trimmed = query.trim();
+    if (!trimmed) return [];
+
+    const document = sql`to_tsvector('simple', coalesce(${foodItems.name}, '') || ' ' || coalesce(${foodItems.brand}, '') || ' ' || coalesce(${foodItems.translations}::text, ''))`;
+    const prefixQuery = this.buildPrefixQuery(trimmed);
+    const tsQuery = prefixQuery ? sql`to_tsquery('simple', ${prefixQuery})` : sql`plainto_tsquery('simple', ${trimmed})`;
+
+    const likeTerm = this.escapeLike(trimmed);
+    const exactBonus = sql`case
+      when lower(${foodItems.name}) = lower(${trimmed}) then 1.0
+      when lower(${foodItems.name}) like lower(${likeTerm}) || '%' then 0.5
+      else 0 end`;
+
+    const rank = this.trigramAvailable
+      ? sql<number>`(ts_rank(${document}, ${tsQuery}) + similarity(${foodItems.name}, ${trimmed}) + ${exactBonus})::float`
+      : sql<number>`(ts_rank(${document}, ${tsQuery}) + ${exactBonus})::float`;
+
+    // Substring and fuzzy matches need the trigram index - without it they'd scan the whole table
+    const matchConditions = [sql`${document} @@ ${tsQuery}`];
+    if (this.trigramAvailable) {
+      matchConditions.push(ilike(foodItems.name, `%${likeTerm}%`), sql`${foodItems.name} % ${trimmed}`);
+    }
+
+    const rows = await db
+      .select({ food: foodItems, rank })
+      .from(foodItems)
+      .where(or(...matchConditions))
+      .orderBy(desc(rank), foodItems.name)
+      .limit(limit);
+
+    return rows.map(row => ({
+      ...this.localize(row.food, options.language),
+      rank: Number(row.rank) || 0
+    }));
+  }
+
+  /**
+   * Swap in the translated name when one exists for the requested language
+   */
+  private static localize(food: FoodItem, language?: string): FoodItem {
+    if (!language || !food.translations || typeof food.translations !== 'object') return food;
+    const translated = (food.translations as Record<string, string>)[language];
+    return translated ? { ...food, name: translated } : food;
+  }
+
+  /**
+   * Look up a barcode locally, tolerating UPC-A/EAN-13 leading zero differences
+   */
+  static async getByBarcode(barcode: string): Promise<FoodItem | undefined> {
+    const digits = barcode.trim();
+    const candidates = Array.from(new Set([digits, digits.padStart(13, '0'), digits.replace(/^0+/, '')])).filter(Boolean);
+
+    const [food] = await db
+      .select()
+      .from(foodItems)
+      .where(inArray(foodItems.barcode, candidates))
+      .limit(1);
+
+    return food;
+  }
+
+  /**
+   * Insert or refresh foods keyed by (source, sourceId). Returns the number of rows written.
+   */
+  static async upsertFoods(foods: InsertFoodItem[]): Promise<number> {
+    // A batch must not touch the same conflict key twice
+    const unique = new Map<string, InsertFoodItem>();
+    for (const food of foods) {
+      unique.set(`${food.source}:${food.sourceId}`, food);
+    }
+    if (unique.size === 0) return 0;
+
+    const result = await db
+      .insert(foodItems)
+      .values(Array.from(unique.values()))
+      .onConflictDoUpdate({
+        target: [foodItems.source, foodItems.sourceId],
+        set: {
+          name: sql`excluded.name`,
+          brand: sql`excluded.brand`,
+          barcode: sql`excluded.barcode`,
+          calories: sql`excluded.calories`,
+          protein: sql`excluded.protein`,
+          carbs: sql`excluded.carbs`,
+          fat: sql`excluded.fat`,
+          servingSize: sql`excluded.serving_size`,
+          servingUnit: sql`excluded.serving_unit`,
+          micronutrients: sql`excluded.micronutrients`,
+          translations: sql`excluded.translations`,
+          updatedAt: new Date()
+        }
+      })
+      .returning({ id: foodItems.id });
+
+    return result.length;
+  }
+
+  /**
+   * Normalize an OpenFoodFacts product (API, JSONL dump or CSV row) into a food item
+   */
+  static fromOpenFoodFactsProduct(product: any): InsertFoodItem | null {
+    const code = product?.code ? String(product.code).trim() : '';
+    const name = (product?.product_name || '').trim();
+    if (!code || !name) return null;
+
+    // CSV dumps flatten nutriments into top-level *_100g columns
+    const nutriments = product.nutriments || product;
+    const per100g = (key: string) => this.toNumber(nutriments[`${key}_100g`]);
+
+    const kilojoules = per100g('energy');
+    const calories = per100g('energy-kcal') ?? (kilojoules !== null ? kilojoules / 4.184 : null);
+    const protein = per100g('proteins') ?? 0;
+    const carbs = per100g('carbohydrates') ?? 0;
+    const fat = per100g('fat') ?? 0;
+
+    if (calories === null || !this.isPlausible(calories, protein, carbs, fat)) return null;
+
+    const micronutrients: MicronutrientData = {};
+    for (const [offKey, { key, factor }] of Object.entries(OFF_MICRONUTRIENTS)) {
+      const value = per100g(offKey);
+      if (value !== null && value >= 0) {
+        micronutrients[key] = this.round(value * factor, 3);
+      }
+    }
+
+    const translations: Record<string, string> = {};
+    for (const [field, value] of Object.entries(product)) {
+      const match = field.match(/^product_name_([a-z]{2})$/);
+      if (match && typeof value === 'string' && value.trim() && value.trim() !== name) {
+        translations[match[1]] = value.trim();
+      }
+    }
+
+    const brand = typeof product.brands === 'string' ? product.brands.split(',')[0].trim() : null;
+
+    return {
+      name,
+      brand: brand || null,
+      barcode: code,
+      calories: this.round(calories).toString(),
+      protein: this.round(protein).toString(),
+      carbs: this.round(carbs).toString(),
+      fat: this.round(fat).toString(),
+      servingSize: "100",
+      servingUnit: "g",
+      source: 'openfoodfacts',
+      sourceId: code,
+      micronutrients: Object.keys(micronutrients).length > 0 ? micronutrients : null,
+      translations: Object.keys(translations).length > 0 ? translations : null
+    };
+  }
+
+  /**
+   * Normalize a USDA FoodData Central food. Handles both the search API shape
+   * ({ nutrientId, value }) and the bulk download shape ({ nutrient: { id }, amount }).
+   */
+  static fromUSDAFood(food: any): InsertFoodItem | null {
+    const fdcId = food?.fdcId ? String(food.fdcId) : '';
+    const name = (food?.description || '').trim();
+    if (!fdcId || !name) return null;
+
+    const nutrientValues = new Map<number, number>();
+    for (const nutrient of food.foodNutrients || []) {
+      const id = Number(nutrient.nutrientId ?? nutrient.nutrient?.id);
+      const value = this.toNumber(nutrient.value ?? nutrient.amount);
+      if (!isNaN(id) && value !== null && !nutrientValues.has(id)) {
+        nutrientValues.set(id, value);
+      }
+    }
+
+    const energyId = USDA_ENERGY_IDS.find(id => nutrientValues.has(id));
+    const calories = energyId !== undefined ? nutrientValues.get(energyId)! : null;
+    const protein = nutrientValues.get(USDA_PROTEIN_ID) ?? 0;
+    const carbs = nutrientValues.get(USDA_CARBS_ID) ?? 0;
+    const fat = nutrientValues.get(USDA_FAT_ID) ?? 0;
+
+    if (calories === null || !this.isPlausible(calories, protein, carbs, fat)) return null;
+
+    const micronutrients: MicronutrientData = {};
+    for (const [id, key] of Object.entries(USDA_MICRONUTRIENTS)) {
+      const value = nutrientValues.get(Number(id));
+      if (value !== undefined && value >= 0) {
+        micronutrients[key] = this.round(value, 3);
+      }
+    }
+
+    const brand = food.brandName || food.brandOwner || null;
+
+    return {
+      name,
+      brand,
+      barcode: food.gtinUpc ? String(food.gtinUpc) : null,
+      calories: this.round(calories).toString(),
+      protein: this.round(protein).toString(),
+      carbs: this.round(carbs).toString(),
+      fat: this.round(fat).toString(),
+      servingSize: "100",
+      servingUnit: "g",
+      source: 'usda',
+      sourceId: fdcId,
+      micronutrients: Object.keys(micronutrients).length > 0 ? micronutrients : null,
+      translations: null
+    };
+  }
+
+  private static async fetchJson(url: string): Promise<any> {
+    const response = await fetch(url, { signal: AbortSignal.timeout(REMOTE_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`${new URL(url).hostname} returned ${response.status}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Query OpenFoodFacts and USDA and cache whatever they return.
+   * Returns the number of foods written to the local database.
+   */
+  static async searchRemote(query: string): Promise<number> {
+    const offUrl = `https://world.openfoodfacts.org/cgi/search.pl?search_terms=${encodeURIComponent(query)}&search_simple=1&action=process&json=1&page_size=15`;
+    const usdaUrl = `https://api.nal.usda.gov/fdc/v1/foods/search?query=${encodeURIComponent(query)}&dataType=Foundation,SR%20Legacy&pageSize=15&api_key=${USDA_API_KEY}`;
+
+    const [offResults, usdaResults] = await Promise.allSettled([
+      this.fetchJson(offUrl),
+      this.fetchJson(usdaUrl)
+    ]);
+
+    const foods: InsertFoodItem[] = [];
+
+    if (offResults.status === 'fulfilled') {
+      for (const product of offResults.value.products || []) {
+        const food = this.fromOpenFoodFactsProduct(product);
+        if (food) foods.push(food);
+      }
+    } else {
+      console.error('Open Food Facts search failed:', offResults.reason);
+    }
+
+    if (usdaResults.status === 'fulfilled') {
+      for (const usdaFood of usdaResults.value.foods || []) {
+        const food = this.fromUSDAFood(usdaFood);
+        if (food) foods.push(food);
+      }
+    } else {
+      console.error('USDA FoodData search failed:', usdaResults.reason);
+    }
+
+    return this.upsertFoods(foods);
+  }
+
+  /**
+   * Fetch a single barcode from OpenFoodFacts and cache it
+   */
+  static async fetchRemoteBarcode(barcode: string): Promise<FoodItem | undefined> {
+    const data = await this.fetchJson(`https://world.openfoodfacts.org/api/v0/product/${encodeURIComponent(barcode)}.json`);
+    if (!data.product) return undefined;
+
+    const food = this.fromOpenFoodFactsProduct({ code: barcode, ...data.product });
+    if (!food) return undefined;
+
+    await this.upsertFoods([food]);
+
+    const [cached] = await db
+      .select()
+      .from(foodItems)
+      .where(and(eq(foodItems.source, 'openfoodfacts'), eq(foodItems.sourceId, food.sourceId!)))
+      .limit(1);
+
+    return cached;
+  }
+}
@@ -1,14 +1,19 @@
 import OpenAI from "openai";
 import { AIModelConfig } from '../config/ai-config';
+import type { AIProvider, AICompletionParams } from './ai-provider';
 
 /**
  * GPT-5 Adapter Service
- * Handles the transition between GPT-4o (chat.completions) and GPT-5 (responses) APIs
+ * OpenAI provider - handles the transition between GPT-4o (chat.completions) and GPT-5 (responses) APIs
  */
-export class GPT5Adapter {
+export class GPT5Adapter implements AIProvider {
+  readonly name = 'openai' as const;
   private openai: OpenAI;
 
   constructor(openai?: OpenAI) {
+    if (!openai && !process.env.OPENAI_API_KEY) {
+      throw new Error("OPENAI_API_KEY environment variable is required for the openai AI provider");
+    }
     this.openai = openai || new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
   }
 
@@ -21,13 +26,7 @@ export class GPT5Adapter {
     userPrompt,
     messages,
     responseFormat
-  }: {
-    model: AIModelConfig;
-    systemPrompt: string;
-    userPrompt: string;
-    messages?: any[];
-    responseFormat?: { type: string };
-  }): Promise<{ content: string; usage?: any }> {
+  }: AICompletionParams): Promise<{ content: string; usage?: any }> {
     // Check if this is a GPT-5 model
     if (this.isGPT5Model(model.name)) {
       return this.callGPT5API(model, systemPrompt, userPrompt, messages, responseFormat);
@@ -0,0 +1,204 @@
+import { z } from 'zod';
+import { db } from '../db';
+import { injuries, workoutExercises, workoutSessions, exercises, type Injury } from '@shared/schema';
+import { eq, and, desc, gte, lte, isNull, isNotNull, or, gt } from 'drizzle-orm';
+import {
+  BODY_REGIONS,
+  MOVEMENT_PATTERNS,
+  getInjuryConflicts,
+  getSessionPainScore,
+  summarizePainTrend,
+  type BodyRegion,
+  type InjuryConstraint,
+  type MovementPattern,
+  type PainTrend
+} from '@shared/utils/injury-constraints';
+
+export const injuryInputSchema = z.object({
+  bodyRegion: z.enum(Object.keys(BODY_REGIONS) as [BodyRegion, ...BodyRegion[]]),
+  side: z.enum(['left', 'right', 'both']).nullable().default(null),
+  severity: z.enum(['mild', 'moderate', 'severe']),
+  aggravatingPatterns: z.array(z.enum(Object.keys(MOVEMENT_PATTERNS) as [MovementPattern, ...MovementPattern[]])).max(16).default([]),
+  notes: z.string().trim().max(500).nullable().default(null),
+  startDate: z.coerce.date(),
+  resolvedDate: z.coerce.date().nullable().default(null),
+});
+
+export type InjuryInput = z.infer<typeof injuryInputSchema>;
+
+interface PainHistoryPoint {
+  sessionId: number;
+  date: Date;
+  exerciseId: number;
+  exerciseName: string;
+  painScore: number;
+}
+
+const toRow = (input: InjuryInput) => {
+  if (input.resolvedDate && input.resolvedDate < input.startDate) {
+    throw new Error('Resolved date must be on or after the start date');
+  }
+  return { ...input, aggravatingPatterns: Array.from(new Set(input.aggravatingPatterns)) };
+};
+
+export class InjuryService {
+
+  static toConstraint(injury: Injury): InjuryConstraint {
+    return {
+      id: injury.id,
+      bodyRegion: injury.bodyRegion,
+      side: injury.side,
+      severity: injury.severity,
+      aggravatingPatterns: injury.aggravatingPatterns,
+    };
+  }
+
+  /**
+   * Every injury of the user, active ones first
+   */
+  static async listInjuries(userId: number): Promise<Injury[]> {
+    const rows = await db
+      .select()
+      .from(injuries)
+      .where(eq(injuries.userId, userId))
+      .orderBy(desc(injuries.startDate));
+
+    return rows.sort((a, b) => Number(!!a.resolvedDate) - Number(!!b.resolvedDate));
+  }
+
+  /**
+   * Injuries that have started and aren't resolved as of `date`
+   */
+  static async getActiveInjuries(userId: number, date: Date = new Date()): Promise<Injury[]> {
+    return db
+      .select()
+      .from(injuries)
+      .where(and(
+        eq(injuries.userId, userId),
+        lte(injuries.startDate, date),
+        or(isNull(injuries.resolvedDate), gt(injuries.resolvedDate, date))
+      ))
+      .orderBy(desc(injuries.startDate));
+  }
+
+  static async getActiveConstraints(userId: number): Promise<InjuryConstraint[]> {
+    return (await this.getActiveInjuries(userId)).map(injury => this.toConstraint(injury));
+  }
+
+  static async createInjury(userId: number, input: unknown): Promise<Injury> {
+    const data = injuryInputSchema.parse(input);
+
+    const [injury] = await db
+      .insert(injuries)
+      .values({ ...toRow(data), userId })
+      .returning();
+
+    return injury;
+  }
+
+  static async updateInjury(userId: number, injuryId: number, input: Record<string, unknown>): Promise<Injury> {
+    const existing = await this.getOwnedInjury(userId, injuryId);
+
+    const data = injuryInputSchema.parse({
+      bodyRegion: existing.bodyRegion,
+      side: existing.side,
+      severity: existing.severity,
+      aggravatingPatterns: existing.aggravatingPatterns,
+      notes: existing.notes,
+      startDate: existing.startDate,
+      resolvedDate: existing.resolvedDate,
+      ...input
+    });
+
+    const [injury] = await db
+      .update(injuries)
+      .set({ ...toRow(data), updatedAt: new Date() })
+      .where(eq(injuries.id, injuryId))
+      .returning();
+
+    return injury;
+  }
+
+  /**
+   * Mark an injury resolved - its exercises come back into recommendations
+   */
+  static async resolveInjury(userId: number, injuryId: number, resolvedDate: Date = new Date()): Promise<Injury> {
+    return this.updateInjury(userId, injuryId, { resolvedDate });
+  }
+
+  static async deleteInjury(userId: number, injuryId: number): Promise<void> {
+    const [deleted] = await db
+      .delete(injuries)
+      .where(and(eq(injuries.id, injuryId), eq(injuries.userId, userId)))
+      .returning();
+
+    if (!deleted) throw new Error('Injury not found');
+  }
+
+  /**
+   * Session pain scores (highest set score per exercise) with their trend. With `injuryId`, only the
+   * exercises that aggravate the injury since it started; with `exerciseId`, just that exercise.
+   */
+  static async getPainHistory(
+    userId: number,
+    options: { exerciseId?: number; injuryId?: number; limit?: number } = {}
+  ): Promise<{ points: PainHistoryPoint[]; trend: PainTrend }> {
+    const limit = options.limit || 50;
+    const injury = options.injuryId ? await this.getOwnedInjury(userId, options.injuryId) : null;
+
+    const rows = await db
+      .select({
+        sessionId: workoutSessions.id,
+        date: workoutSessions.date,
+        exerciseId: workoutExercises.exerciseId,
+        exerciseName: exercises.name,
+        setsData: workoutExercises.setsData
+      })
+      .from(workoutExercises)
+      .innerJoin(workoutSessions, eq(workoutExercises.sessionId, workoutSessions.id))
+      .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+      .where(and(
+        eq(workoutSessions.userId, userId),
+        isNotNull(workoutExercises.setsData),
+        options.exerciseId ? eq(workoutExercises.exerciseId, options.exerciseId) : undefined,
+        injury ? gte(workoutSessions.date, injury.startDate) : undefined,
+        injury?.resolvedDate ? lte(workoutSessions.date, injury.resolvedDate) : undefined
+      ))
+      .orderBy(desc(workoutSessions.date))
+      .limit(limit * 4);
+
+    const points: PainHistoryPoint[] = [];
+    for (const row of rows.reverse()) {
+      if (injury && getInjuryConflicts(row.exerciseName, [this.toConstraint(injury)]).length === 0) continue;
+
+      const painScore = getSessionPainScore(Array.isArray(row.setsData) ? row.setsData : []);
+      if (painScore === null) continue;
+
+      points.push({ ...row, painScore });
+    }
+
+    // Highest score per session for the trend - several exercises can hurt the same day
+    const perSession = new Map<number, { date: Date; painScore: number }>();
+    points.forEach(point => {
+      const existing = perSession.get(point.sessionId);
+      if (!existing || point.painScore > existing.painScore) {
+        perSession.set(point.sessionId, { date: point.date, painScore: point.painScore });
+      }
+    });
+
+    return {
+      points: points.slice(-limit),
+      trend: summarizePainTrend(Array.from(perSession.values()))
+    };
+  }
+
+  private static async getOwnedInjury(userId: number, injuryId: number): Promise<Injury> {
+    const [injury] = await db
+      .select()
+      .from(injuries)
+      .where(and(eq(injuries.id, injuryId), eq(injuries.userId, userId)));
+
+    if (!injury) throw new Error('Injury not found');
+    return injury;
+  }
+}
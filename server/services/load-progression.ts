@@ -9,6 +9,23 @@ import {
 } from "@shared/schema";
 import { eq, and, desc, gte, sql } from "drizzle-orm";
 import { convertRPEtoRIR, validateRPEAccuracy } from "@shared/utils/rpe-rir-conversion";
+import { getWeightIncrement } from "@shared/utils/metric-conversion";
+import { getLoadingType } from "@shared/utils/equipment-loads";
+import { estimateOneRepMax } from "@shared/utils/strength-estimation";
+import {
+  calculateDoubleProgression,
+  calculateLinearProgression,
+  calculatePercentageWave,
+  getExerciseScheme,
+  parseRepRange,
+  DEFAULT_PROGRESSION_SCHEME,
+  LINEAR_STALL_LIMIT,
+  type ProgressionScheme,
+  type ProgressionSchemeConfig,
+  type SchemePrescription
+} from "@shared/utils/progression-schemes";
+import { EquipmentProfileService } from "./equipment-profiles";
+import { StrengthTracking } from "./strength-tracking";
 
 interface LoadProgressionRecommendation {
   exerciseId: number;
@@ -17,6 +34,7 @@ interface LoadProgressionRecommendation {
   recommendedWeight: number;
   recommendedReps: number; // Changed from string to number to fix NaN issue
   progressionType: 'weight' | 'reps' | 'volume';
+  scheme: ProgressionScheme;
   confidence: number; // 0-1 scale
   reasoning: string[];
 }
@@ -32,7 +50,98 @@ interface PerformanceAnalysis {
 export class LoadProgression {
   
   /**
-   * Calculate next session load progression based on RPE/RIR feedback
+   * Progression scheme assigned to an exercise in a mesocycle (the active one unless given),
+   * along with that mesocycle's current week
+   */
+  static async getExerciseScheme(
+    userId: number,
+    exerciseId: number,
+    mesocycleId?: number | null
+  ): Promise<{ config: ProgressionSchemeConfig; week: number }> {
+    const [mesocycle] = await db
+      .select({ progressionSchemes: mesocycles.progressionSchemes, currentWeek: mesocycles.currentWeek })
+      .from(mesocycles)
+      .where(mesocycleId
+        ? and(eq(mesocycles.id, mesocycleId), eq(mesocycles.userId, userId))
+        : and(eq(mesocycles.userId, userId), eq(mesocycles.isActive, true)))
+      .limit(1);
+
+    if (!mesocycle) return { config: DEFAULT_PROGRESSION_SCHEME, week: 1 };
+    return { config: getExerciseScheme(mesocycle.progressionSchemes, exerciseId), week: mesocycle.currentWeek };
+  }
+
+  /**
+   * Next session's sets under a double progression, linear or percentage wave scheme.
+   * Loads are in the exercise's unit and not yet snapped to the equipment.
+   */
+  static async prescribeSets(
+    userId: number,
+    exerciseId: number,
+    config: ProgressionSchemeConfig,
+    context: {
+      week: number;
+      totalSets: number;
+      targetReps: string | null | undefined;
+      currentWeight: number;
+      setReps: number[]; // Reps of each working set last session
+      averageRir?: number | null;
+      increment: number; // Equipment step, used unless the scheme sets its own
+      weightUnit: 'kg' | 'lbs';
+    }
+  ): Promise<SchemePrescription> {
+    const increment = config.increment && config.increment > 0 ? config.increment : context.increment;
+    const range = config.repRange || parseRepRange(context.targetReps);
+
+    switch (config.scheme) {
+      case 'double_progression':
+        return calculateDoubleProgression(context.currentWeight, context.setReps, range, increment, context.totalSets);
+
+      case 'linear': {
+        // Count the sessions in a row that repeated the load under this scheme
+        const history = await db
+          .select({
+            previousWeight: loadProgressionTracking.previousWeight,
+            currentWeight: loadProgressionTracking.currentWeight,
+            progressionType: loadProgressionTracking.progressionType
+          })
+          .from(loadProgressionTracking)
+          .where(and(
+            eq(loadProgressionTracking.userId, userId),
+            eq(loadProgressionTracking.exerciseId, exerciseId)
+          ))
+          .orderBy(desc(loadProgressionTracking.createdAt))
+          .limit(LINEAR_STALL_LIMIT);
+
+        let stalledSessions = 0;
+        for (const record of history) {
+          const repeated = Math.abs(parseFloat(record.currentWeight) - parseFloat(record.previousWeight || '0')) < 0.01;
+          if (record.progressionType !== 'linear' || !repeated) break;
+          stalledSessions++;
+        }
+
+        const targetReps = parseInt(context.targetReps || '') || range.min;
+        return calculateLinearProgression(context.currentWeight, context.setReps, targetReps, increment, stalledSessions, context.totalSets);
+      }
+
+      case 'percentage_wave': {
+        // Training max comes from the best recent e1RM, or last session's sets when there's no history yet
+        const curve = await StrengthTracking.getE1RMHistory(userId, exerciseId, { unit: context.weightUnit, limit: 3 });
+        const lowestReps = context.setReps.length > 0 ? Math.min(...context.setReps) : range.min;
+        const e1rm = curve.bestE1RM > 0
+          ? curve.bestE1RM
+          : estimateOneRepMax(context.currentWeight, lowestReps, { rir: context.averageRir })?.e1rm || 0;
+
+        return calculatePercentageWave(e1rm, context.week, context.totalSets, config.trainingMaxPercent);
+      }
+
+      default:
+        throw new Error(`Sets are not prescribed for the ${config.scheme} scheme`);
+    }
+  }
+
+  /**
+   * Calculate next session load progression with the exercise's progression scheme -
+   * RPE/RIR feedback unless the active mesocycle assigns another scheme
    */
   static async calculateLoadProgression(
     userId: number,
@@ -41,17 +150,53 @@ export class LoadProgression {
     currentReps: number,
     averageRpe: number,
     averageRir: number,
-    weightUnit: 'kg' | 'lbs' = 'kg'
+    weightUnit: 'kg' | 'lbs' = 'kg',
+    options: { setReps?: number[]; targetReps?: string | null } = {}
   ): Promise<LoadProgressionRecommendation> {
     
     // Get exercise details
     const exerciseDetails = await db
-      .select({ name: exercises.name })
+      .select({ name: exercises.name, equipment: exercises.equipment, isBodyWeight: exercises.isBodyWeight })
       .from(exercises)
       .where(eq(exercises.id, exerciseId))
       .limit(1);
 
     const exerciseName = exerciseDetails[0]?.name || "Unknown Exercise";
+    const loadingType = getLoadingType(exerciseDetails[0]?.equipment, exerciseDetails[0]?.isBodyWeight);
+
+    // Increments and the final load follow what the user's active gym profile can build
+    const equipmentSetup = await EquipmentProfileService.getActiveSetup(userId);
+    const roundLoad = (weight: number) => equipmentSetup
+      ? EquipmentProfileService.snapLoad(weight, weightUnit, loadingType, equipmentSetup)
+      : Math.round(weight * 4) / 4; // Round to nearest 0.25kg
+
+    const { config: schemeConfig, week } = await this.getExerciseScheme(userId, exerciseId);
+    if (schemeConfig.scheme !== 'rpe') {
+      const setReps = options.setReps && options.setReps.length > 0 ? options.setReps : [currentReps].filter(reps => reps > 0);
+      const prescription = await this.prescribeSets(userId, exerciseId, schemeConfig, {
+        week,
+        totalSets: Math.max(3, setReps.length),
+        targetReps: options.targetReps,
+        currentWeight,
+        setReps,
+        averageRir,
+        increment: getWeightIncrement(exerciseName, loadingType, currentWeight, weightUnit, equipmentSetup),
+        weightUnit
+      });
+      const topSet = prescription.sets.reduce((top, set) => set.weight > top.weight ? set : top, prescription.sets[0]);
+
+      return {
+        exerciseId,
+        exerciseName,
+        currentWeight,
+        recommendedWeight: roundLoad(isNaN(topSet.weight) ? currentWeight : topSet.weight),
+        recommendedReps: topSet.reps,
+        progressionType: prescription.adjustment,
+        scheme: prescription.scheme,
+        confidence: 0.85,
+        reasoning: prescription.reasoning
+      };
+    }
 
     // Get recent progression history for this exercise
     const recentProgressions = await db
@@ -80,8 +225,8 @@ export class LoadProgression {
     
     // Perfect RPE/RIR scenario: RPE 8-8.5, RIR 1-2
     if (averageRpe >= 8 && averageRpe <= 8.5 && averageRir >= 1 && averageRir <= 2) {
-      // Increase weight by 2.5-5kg for compounds, 1-2.5kg for isolation
-      const weightIncrease = this.getWeightIncrement(exerciseName, currentWeight, weightUnit);
+      // Increase weight by the next step the equipment allows
+      const weightIncrease = getWeightIncrement(exerciseName, loadingType, currentWeight, weightUnit, equipmentSetup);
       recommendedWeight = currentWeight + weightIncrease;
       progressionType = 'weight';
       reasoning.push(`Perfect RPE/RIR range (${averageRpe}/${averageRir}) - ready for load increase`);
@@ -90,7 +235,7 @@ export class LoadProgression {
     
     // Too easy: RPE < 7 or RIR > 3
     else if (averageRpe < 7 || averageRir > 3) {
-      const weightIncrease = this.getWeightIncrement(exerciseName, currentWeight, weightUnit) * 1.5;
+      const weightIncrease = getWeightIncrement(exerciseName, loadingType, currentWeight, weightUnit, equipmentSetup) * 1.5;
       recommendedWeight = currentWeight + weightIncrease;
       progressionType = 'weight';
       reasoning.push(`Load too light (RPE: ${averageRpe}, RIR: ${averageRir}) - significant increase needed`);
@@ -123,7 +268,7 @@ export class LoadProgression {
         reasoning.push(`In progression zone - add reps before increasing weight`);
       } else {
         // Increase weight and reset reps
-        const weightIncrease = this.getWeightIncrement(exerciseName, currentWeight, weightUnit);
+        const weightIncrease = getWeightIncrement(exerciseName, loadingType, currentWeight, weightUnit, equipmentSetup);
         recommendedWeight = currentWeight + weightIncrease;
         recommendedReps = Math.max(8, currentReps - 3); // Reset to lower rep range
         progressionType = 'weight';
@@ -139,7 +284,7 @@ export class LoadProgression {
       if (progressionTrend === 'plateauing') {
         // More conservative progression
         if (progressionType === 'weight') {
-          recommendedWeight = currentWeight + (this.getWeightIncrement(exerciseName, currentWeight, weightUnit) * 0.5);
+          recommendedWeight = currentWeight + (getWeightIncrement(exerciseName, loadingType, currentWeight, weightUnit, equipmentSetup) * 0.5);
         }
         reasoning.push("Recent plateau detected - conservative progression applied");
         confidence *= 0.8;
@@ -160,42 +305,15 @@ export class LoadProgression {
       exerciseId,
       exerciseName,
       currentWeight,
-      recommendedWeight: Math.round(safeRecommendedWeight * 4) / 4, // Round to nearest 0.25kg
+      recommendedWeight: roundLoad(safeRecommendedWeight),
       recommendedReps,
       progressionType,
+      scheme: 'rpe',
       confidence: safeConfidence,
       reasoning: isNaN(recommendedWeight) ? [...reasoning, "Error in calculation - maintaining current weight"] : reasoning
     };
   }
 
-  /**
-   * Get appropriate weight increment based on exercise type and current load
-   * Now supports metric conversion
-   */
-  private static getWeightIncrement(exerciseName: string, currentWeight: number, unit: 'kg' | 'lbs' = 'kg'): number {
-    // Ensure currentWeight is valid
-    if (isNaN(currentWeight) || currentWeight < 0) {
-      return unit === 'kg' ? 1.25 : 2.5; // Return safe default
-    }
-    
-    // Standard weight increment logic for different exercise types
-    const baseIncrement = unit === 'kg' ? 1.25 : 2.5; // 1.25kg or 2.5lbs
-    
-    // Smaller increments for isolation exercises
-    if (exerciseName.toLowerCase().includes('curl') || 
-        exerciseName.toLowerCase().includes('raise') ||
-        exerciseName.toLowerCase().includes('extension')) {
-      return unit === 'kg' ? 0.5 : 1.25;
-    }
-    
-    // Larger increments for compound movements with heavier loads
-    if (currentWeight > (unit === 'kg' ? 100 : 220)) {
-      return unit === 'kg' ? 2.5 : 5;
-    }
-    
-    return baseIncrement;
-  }
-
   /**
    * Analyze progression trend from historical data
    */
@@ -338,7 +456,7 @@ export class LoadProgression {
     currentWeight: number,
     averageRpe: number,
     averageRir: number,
-    progressionType: 'weight' | 'reps' | 'volume',
+    progressionType: ProgressionScheme | 'weight' | 'reps' | 'volume',
     notes?: string
   ): Promise<void> {
     
@@ -476,7 +594,8 @@ export class LoadProgression {
             avgReps,
             rpe,
             rir,
-            exerciseWeightUnit
+            exerciseWeightUnit,
+            { setReps: repsArray, targetReps }
           );
           
           recommendations.push(recommendation);
@@ -493,6 +612,7 @@ export class LoadProgression {
           .limit(1);
 
         const exerciseName = exerciseDetails[0]?.name || "Unknown Exercise";
+        const { config: schemeConfig } = await this.getExerciseScheme(userId, exerciseId, activeMesocycle[0].id);
         
         recommendations.push({
           exerciseId,
@@ -501,6 +621,7 @@ export class LoadProgression {
           recommendedWeight: currentWeight, // Already adjusted by Advance Week
           recommendedReps: parseInt(targetReps) || 8, // Convert to number, default to 8
           progressionType: 'weight',
+          scheme: schemeConfig.scheme,
           confidence: 0.9, // High confidence since it's from mesocycle progression
           reasoning: [
             "Weight already adjusted by mesocycle auto-progression",
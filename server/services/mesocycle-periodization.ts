@@ -8,11 +8,19 @@ import {
   workoutSessions,
   workoutExercises,
   loadProgressionTracking,
-  exerciseMuscleMapping
+  exerciseMuscleMapping,
+  deloadRecommendations,
+  exercises
 } from "@shared/schema";
 import { eq, and, gte, lte, sql, desc, isNotNull, inArray } from "drizzle-orm";
+import { getLoadingType } from "@shared/utils/equipment-loads";
+import { getWeightIncrement } from "@shared/utils/metric-conversion";
+import { getExerciseScheme } from "@shared/utils/progression-schemes";
+import { convertRPEtoRIR } from "@shared/utils/rpe-rir-conversion";
 import { TemplateEngine } from "./template-engine";
 import { SciAlgorithmCore } from "./scientific-algorithm-core";
+import { LoadProgression } from "./load-progression";
+import { EquipmentProfileService } from "./equipment-profiles";
 
 interface VolumeProgression {
   muscleGroupId: number;
@@ -497,24 +505,35 @@ export class MesocyclePeriodization {
       // Store userId for later use
       const userId = currentMesocycle.userId;
 
+      // Scheduled deload weeks already have their sessions; leaving one resumes accumulation
+      const deloadWeeks = await this.getScheduledDeloadWeeks(mesocycleId);
+      const isDeloadWeek = deloadWeeks.includes(newWeek);
+      const phase = isDeloadWeek
+        ? 'deload'
+        : deloadWeeks.includes(currentMesocycle.currentWeek) ? 'accumulation' : currentMesocycle.phase;
+
       // Update mesocycle current week
       await db
         .update(mesocycles)
         .set({
-          currentWeek: newWeek
+          currentWeek: newWeek,
+          phase
         })
         .where(eq(mesocycles.id, mesocycleId));
 
-      // Generate new workout sessions for the advanced week
-      await this.generateWeekWorkoutSessions(mesocycleId, newWeek, progressions);
-      
-      // Apply special training method adjustments to the new week's sessions
-      const specialMethodAdjustments = await this.adjustSpecialTrainingMethods(
-        userId, 
-        mesocycleId, 
-        newWeek, 
-        progressions
-      );
+      let specialMethodAdjustments: any[] = [];
+      if (!isDeloadWeek) {
+        // Generate new workout sessions for the advanced week
+        await this.generateWeekWorkoutSessions(mesocycleId, newWeek, progressions);
+        
+        // Apply special training method adjustments to the new week's sessions
+        specialMethodAdjustments = await this.adjustSpecialTrainingMethods(
+          userId, 
+          mesocycleId, 
+          newWeek, 
+          progressions
+        );
+      }
 
       return {
         success: true,
@@ -528,6 +547,21 @@ export class MesocyclePeriodization {
     }
   }
 
+  /**
+   * Weeks of a mesocycle occupied by scheduled deloads
+   */
+  private static async getScheduledDeloadWeeks(mesocycleId: number): Promise<number[]> {
+    const scheduled = await db
+      .select({ week: deloadRecommendations.week })
+      .from(deloadRecommendations)
+      .where(and(
+        eq(deloadRecommendations.mesocycleId, mesocycleId),
+        eq(deloadRecommendations.status, 'scheduled')
+      ));
+
+    return scheduled.map(entry => entry.week);
+  }
+
   /**
    * Adjust special training methods based on volume progression
    */
@@ -775,13 +809,21 @@ export class MesocyclePeriodization {
 
     if (!mesocycle) return;
 
-    // Get previous week's sessions to use as templates for the new week
+    // Get previous week's sessions to use as templates for the new week,
+    // skipping back over inserted deload weeks so their reduced volume is not carried forward
+    const deloadWeeks = await this.getScheduledDeloadWeeks(mesocycleId);
+    let templateWeek = week - 1;
+    while (templateWeek > 1 && deloadWeeks.includes(templateWeek)) {
+      templateWeek--;
+    }
+
     const previousWeekSessions = await db
       .select()
       .from(workoutSessions)
       .where(and(
         eq(workoutSessions.mesocycleId, mesocycleId),
-        sql`${workoutSessions.name} LIKE ${'%Week ' + (week - 1) + '%'}`
+        sql`${workoutSessions.name} LIKE ${'%Week ' + templateWeek + '%'}`,
+        sql`${workoutSessions.name} NOT LIKE ${'%(Deload)%'}`
       ))
       .orderBy(workoutSessions.date);
 
@@ -805,7 +847,7 @@ export class MesocyclePeriodization {
         mesocycleId: mesocycleId,
         programId: null,
         date: sessionDate,
-        name: prevSession.name.replace(`Week ${week - 1}`, `Week ${week}`),
+        name: prevSession.name.replace(`Week ${templateWeek}`, `Week ${week}`),
         isCompleted: false,
         totalVolume: 0,
         duration: prevSession.duration,
@@ -1348,9 +1390,46 @@ export class MesocyclePeriodization {
             const lastRpe = lastExercise.rpe;
             const lastRir = lastExercise.rir;
             const lastActualReps = lastExercise.actualReps;
+            const schemeConfig = getExerciseScheme(mesocycle.progressionSchemes, exercise.exerciseId);
 
+            // Exercises on double progression, linear or a percentage wave follow their scheme instead of the RP rules
+            if (schemeConfig.scheme !== 'rpe' && lastWeight) {
+              const weightNum = parseFloat(lastWeight.toString());
+              const weightUnit = lastExercise.weightUnit || 'kg';
+              const [details] = await db
+                .select({ name: exercises.name, equipment: exercises.equipment, isBodyWeight: exercises.isBodyWeight })
+                .from(exercises)
+                .where(eq(exercises.id, exercise.exerciseId));
+              const loadingType = getLoadingType(details?.equipment, details?.isBodyWeight);
+              const equipmentSetup = await EquipmentProfileService.getActiveSetup(mesocycle.userId);
+
+              const prescription = await LoadProgression.prescribeSets(mesocycle.userId, exercise.exerciseId, schemeConfig, {
+                week,
+                totalSets: adjustedSets,
+                targetReps: exercise.targetReps,
+                currentWeight: weightNum,
+                setReps: (lastActualReps || '').split(',').map(r => parseInt(r.trim())).filter(r => !isNaN(r)),
+                averageRir: lastRir,
+                increment: getWeightIncrement(details?.name || '', loadingType, weightNum, weightUnit, equipmentSetup),
+                weightUnit
+              });
+              const topSet = prescription.sets.reduce((top, set) => set.weight > top.weight ? set : top, prescription.sets[0]);
+              const topWeight = equipmentSetup
+                ? EquipmentProfileService.snapLoad(topSet.weight, weightUnit, loadingType, equipmentSetup)
+                : Math.round(topSet.weight * 4) / 4;
+
+              progressedWeight = topWeight.toString();
+              progressedRpe = Math.round(topSet.rpe);
+              progressedRir = Math.round(convertRPEtoRIR(topSet.rpe));
+              // Waves change the reps every week - the other schemes keep the programmed range
+              progressedTargetReps = prescription.scheme === 'percentage_wave'
+                ? prescription.sets.map(set => set.reps).join(',')
+                : exercise.targetReps;
+              progressedActualReps = topSet.reps.toString();
+              console.log(`📈 Exercise ${exercise.exerciseId}: ${schemeConfig.scheme} → ${progressedWeight} x ${progressedTargetReps}`);
+            }
             // RP Auto-progression logic
-            if (lastWeight && lastRpe) {
+            else if (lastWeight && lastRpe) {
               const weightNum = parseFloat(lastWeight.toString());
               // If RPE was 8+ and RIR was 0-1 (or null), increase weight by 2.5-5%
               if (lastRpe >= 8 && (lastRir === null || lastRir <= 1)) {
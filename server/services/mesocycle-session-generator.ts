@@ -1,4 +1,4 @@
-import { db } from "../db";
+import { db, type Transaction } from "../db";
 import { 
   workoutSessions, 
   workoutExercises, 
@@ -186,45 +186,66 @@ export class MesocycleSessionGenerator {
   
   /**
    * Create "Deload Week" session with reduced volume
+   * Defaults to 60% of the base session's sets; loadReduction also lightens the last used weight
    */
   static async createDeloadSession(
     mesocycleId: number,
     baseSessionId: number,
-    targetDate: Date
+    targetDate: Date,
+    options: { name?: string; volumeReduction?: number; loadReduction?: number } = {},
+    tx: Transaction | typeof db = db
   ) {
     console.log(`😌 Creating deload session from ${baseSessionId}`);
     
+    const volumeReduction = options.volumeReduction ?? 0.4;
+    const loadReduction = options.loadReduction ?? 0;
+    
     // Get base session
-    const [baseSession] = await db
+    const [baseSession] = await tx
       .select()
       .from(workoutSessions)
       .where(eq(workoutSessions.id, baseSessionId));
     
+    if (!baseSession) {
+      throw new Error("Base session not found");
+    }
+    
     // Create deload session
-    const [deloadSession] = await db
+    const [deloadSession] = await tx
       .insert(workoutSessions)
       .values({
-        userId: baseSession!.userId,
+        userId: baseSession.userId,
         mesocycleId: mesocycleId,
-        name: `${baseSession!.name} (Deload)`,
+        name: options.name || `${baseSession.name} (Deload)`,
         date: targetDate,
         isCompleted: false,
         totalVolume: 0,
         duration: 0,
+        version: baseSession.version,
+        features: baseSession.features,
+        algorithm: baseSession.algorithm,
         createdAt: new Date()
       })
       .returning();
     
-    // Copy exercises with reduced volume (60% sets, lighter weight)
-    const baseExercises = await db
+    // Copy exercises with reduced volume and lighter weight
+    const baseExercises = await tx
       .select()
       .from(workoutExercises)
       .where(eq(workoutExercises.sessionId, baseSessionId));
     
+    const notes = loadReduction > 0
+      ? `Deload week - ${Math.round(volumeReduction * 100)}% fewer sets, ${Math.round(loadReduction * 100)}% lighter`
+      : "Deload week - reduced volume";
+    
     for (const exercise of baseExercises) {
-      const deloadSets = Math.max(1, Math.floor(exercise.sets * 0.6));
+      const deloadSets = Math.max(1, Math.floor(exercise.sets * (1 - volumeReduction)));
+      const baseWeight = parseFloat(exercise.weight || exercise.recommendedWeight || '0');
+      const deloadWeight = loadReduction > 0 && baseWeight > 0
+        ? (Math.round(baseWeight * (1 - loadReduction) * 2) / 2).toString()
+        : null;
       
-      await db
+      await tx
         .insert(workoutExercises)
         .values({
           sessionId: deloadSession.id,
@@ -234,11 +255,13 @@ export class MesocycleSessionGenerator {
           targetReps: exercise.targetReps,
           restPeriod: exercise.restPeriod,
           weight: null,
+          recommendedWeight: deloadWeight,
+          weightUnit: exercise.weightUnit || 'kg',
           actualReps: null,
           rpe: null,
           rir: null,
           isCompleted: false,
-          notes: "Deload week - reduced volume"
+          notes
         });
     }
     
@@ -0,0 +1,264 @@
+import { db } from "../db";
+import { nutritionLogs } from "@shared/schema";
+import { eq, and, gte, desc, isNotNull } from "drizzle-orm";
+
+export type NutritionEstimateSource = 'multi-image-nutrition' | 'food-analysis';
+
+const ESTIMATE_SOURCES: NutritionEstimateSource[] = ['multi-image-nutrition', 'food-analysis'];
+const MACROS = ['calories', 'protein', 'carbs', 'fat'] as const;
+
+type Macro = typeof MACROS[number];
+
+/**
+ * The AI's estimate as it was before the user edited anything, stored on nutritionLogs.aiEstimate
+ */
+export interface AINutritionEstimate {
+  source: NutritionEstimateSource;
+  requestId?: string; // X-AI-Request-Id of the analysis call, when known
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  quantity: number | null; // portion the estimate was made for
+  unit: string | null;
+}
+
+export interface EstimateCorrection {
+  logId: number;
+  date: Date;
+  foodName: string;
+  source: NutritionEstimateSource;
+  estimated: Record<Macro, number> & { quantity: number | null; unit: string | null };
+  logged: Record<Macro, number> & { quantity: number; unit: string };
+}
+
+export interface MacroAccuracy {
+  samples: number;
+  meanAbsolutePercentError: number | null;
+  meanBiasPercent: number | null; // positive when the AI overestimates
+}
+
+export interface EstimateAccuracyStats {
+  days: number;
+  totalEstimates: number;
+  correctedEstimates: number;
+  correctionRate: number;
+  macros: Record<Macro, MacroAccuracy>;
+  // Average logged / estimated portion when both use the same unit, e.g. 1.25 = user eats 25% more than the AI assumes
+  portionRatio: number | null;
+  bySource: Record<NutritionEstimateSource, { total: number; corrected: number }>;
+  recentCorrections: EstimateCorrection[];
+}
+
+// Differences below this share of the logged value are rounding, not a correction
+const CORRECTION_TOLERANCE = 0.02;
+// Values below this (kcal or grams) are skipped for percentage errors
+const MIN_PERCENT_BASE = 1;
+const SIMILARITY_THRESHOLD = 0.5;
+const STOP_WORDS = new Set(['a', 'an', 'and', 'of', 'with', 'the', 'in', 'on', 'my', 'some']);
+
+const round = (value: number, decimals = 1) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const toNumber = (value: unknown): number | null => {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+};
+
+const tokenize = (foodName: string) => foodName
+  .toLowerCase()
+  .replace(/[^a-z0-9\s]/g, ' ')
+  .split(/\s+/)
+  .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+export class NutritionEstimateFeedbackService {
+
+  /**
+   * Validates an estimate sent along with a nutrition log, returning null when it is missing or malformed
+   */
+  static normalizeEstimate(raw: any): AINutritionEstimate | null {
+    if (!raw || typeof raw !== 'object' || !ESTIMATE_SOURCES.includes(raw.source)) return null;
+
+    const macros = MACROS.map(macro => toNumber(raw[macro]));
+    if (macros.some(value => value === null || value < 0)) return null;
+
+    const quantity = toNumber(raw.quantity);
+    return {
+      source: raw.source,
+      ...(typeof raw.requestId === 'string' && { requestId: raw.requestId }),
+      calories: macros[0]!,
+      protein: macros[1]!,
+      carbs: macros[2]!,
+      fat: macros[3]!,
+      quantity: quantity !== null && quantity > 0 ? quantity : null,
+      unit: typeof raw.unit === 'string' && raw.unit.trim() ? raw.unit.trim() : null
+    };
+  }
+
+  /**
+   * Whether the logged entry differs from the AI estimate beyond rounding
+   */
+  static isCorrected(correction: EstimateCorrection): boolean {
+    const { estimated, logged } = correction;
+    const macroChanged = MACROS.some(macro =>
+      Math.abs(estimated[macro] - logged[macro]) > Math.max(logged[macro] * CORRECTION_TOLERANCE, 0.5)
+    );
+    const portionChanged = estimated.quantity !== null && estimated.unit === logged.unit &&
+      Math.abs(estimated.quantity - logged.quantity) > logged.quantity * CORRECTION_TOLERANCE;
+    return macroChanged || portionChanged;
+  }
+
+  /**
+   * Logged entries that carry an AI estimate, newest first
+   */
+  static async getEstimatedLogs(userId: number, since?: Date, limit = 500): Promise<EstimateCorrection[]> {
+    const conditions = [eq(nutritionLogs.userId, userId), isNotNull(nutritionLogs.aiEstimate)];
+    if (since) conditions.push(gte(nutritionLogs.date, since));
+
+    const logs = await db
+      .select()
+      .from(nutritionLogs)
+      .where(and(...conditions))
+      .orderBy(desc(nutritionLogs.date), desc(nutritionLogs.id))
+      .limit(limit);
+
+    return logs.flatMap(log => {
+      const estimate = this.normalizeEstimate(log.aiEstimate);
+      if (!estimate) return [];
+      return [{
+        logId: log.id,
+        date: log.date,
+        foodName: log.foodName,
+        source: estimate.source,
+        estimated: {
+          calories: estimate.calories,
+          protein: estimate.protein,
+          carbs: estimate.carbs,
+          fat: estimate.fat,
+          quantity: estimate.quantity,
+          unit: estimate.unit
+        },
+        logged: {
+          calories: Number(log.calories),
+          protein: Number(log.protein),
+          carbs: Number(log.carbs),
+          fat: Number(log.fat),
+          quantity: Number(log.quantity),
+          unit: log.unit
+        }
+      }];
+    });
+  }
+
+  /**
+   * How far the AI's estimates were from what the user actually logged over the last `days` days
+   */
+  static async getAccuracyStats(userId: number, days = 90): Promise<EstimateAccuracyStats> {
+    const since = new Date();
+    since.setDate(since.getDate() - days);
+
+    const entries = await this.getEstimatedLogs(userId, since);
+    const corrected = entries.filter(entry => this.isCorrected(entry));
+
+    const macros = {} as Record<Macro, MacroAccuracy>;
+    MACROS.forEach(macro => {
+      const errors = entries
+        .filter(entry => entry.logged[macro] >= MIN_PERCENT_BASE)
+        .map(entry => (entry.estimated[macro] - entry.logged[macro]) / entry.logged[macro] * 100);
+
+      macros[macro] = {
+        samples: errors.length,
+        meanAbsolutePercentError: errors.length
+          ? round(errors.reduce((sum, error) => sum + Math.abs(error), 0) / errors.length)
+          : null,
+        meanBiasPercent: errors.length
+          ? round(errors.reduce((sum, error) => sum + error, 0) / errors.length)
+          : null
+      };
+    });
+
+    const portionRatios = entries
+      .filter(entry => entry.estimated.quantity && entry.estimated.unit === entry.logged.unit && entry.logged.quantity > 0)
+      .map(entry => entry.logged.quantity / entry.estimated.quantity!);
+
+    const bySource = {} as EstimateAccuracyStats['bySource'];
+    ESTIMATE_SOURCES.forEach(source => {
+      bySource[source] = {
+        total: entries.filter(entry => entry.source === source).length,
+        corrected: corrected.filter(entry => entry.source === source).length
+      };
+    });
+
+    return {
+      days,
+      totalEstimates: entries.length,
+      correctedEstimates: corrected.length,
+      correctionRate: entries.length ? round(corrected.length / entries.length, 3) : 0,
+      macros,
+      portionRatio: portionRatios.length
+        ? round(portionRatios.reduce((sum, ratio) => sum + ratio, 0) / portionRatios.length, 2)
+        : null,
+      bySource,
+      recentCorrections: corrected.slice(0, 10)
+    };
+  }
+
+  /**
+   * Token overlap (Jaccard) between two food names, 0-1
+   */
+  static getNameSimilarity(a: string, b: string): number {
+    const tokensA = new Set(tokenize(a));
+    const tokensB = new Set(tokenize(b));
+    if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+    const shared = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+    return shared / (tokensA.size + tokensB.size - shared);
+  }
+
+  /**
+   * The user's past corrections for foods similar to `foodName`, most similar first.
+   * Without a food name (unnamed photo analysis) the most recent corrections from the same source are used.
+   */
+  static async getSimilarCorrections(
+    userId: number,
+    foodName: string | undefined,
+    source: NutritionEstimateSource,
+    limit = 3
+  ): Promise<EstimateCorrection[]> {
+    const corrections = (await this.getEstimatedLogs(userId, undefined, 200)).filter(entry => this.isCorrected(entry));
+
+    if (!foodName?.trim()) {
+      return corrections.filter(entry => entry.source === source).slice(0, limit);
+    }
+
+    return corrections
+      .map(entry => ({ entry, similarity: this.getNameSimilarity(foodName, entry.foodName) }))
+      .filter(({ similarity }) => similarity >= SIMILARITY_THRESHOLD)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map(({ entry }) => entry);
+  }
+
+  /**
+   * Few-shot prompt block describing how the user corrected earlier estimates, or '' when there is nothing to learn from
+   */
+  static async buildPromptContext(
+    userId: number,
+    foodName: string | undefined,
+    source: NutritionEstimateSource
+  ): Promise<string> {
+    const corrections = await this.getSimilarCorrections(userId, foodName, source);
+    if (corrections.length === 0) return '';
+
+    const describe = (values: Record<Macro, number> & { quantity: number | null; unit: string | null }) =>
+      `${values.quantity !== null ? `${values.quantity} ${values.unit || ''}`.trim() : 'unspecified portion'}: ` +
+      `${round(values.calories, 0)} kcal, ${round(values.protein)}g protein, ${round(values.carbs)}g carbs, ${round(values.fat)}g fat`;
+
+    const examples = corrections.map(correction =>
+      `- "${correction.foodName}": estimated ${describe(correction.estimated)} -> user logged ${describe(correction.logged)}`
+    );
+
+    return `**This user's corrections of earlier estimates${foodName ? ' for similar foods' : ''}:**
+${examples.join('\n')}
+Use these to calibrate typical portion sizes and preparation for this user. Do not copy the numbers if the food or portion clearly differs.`;
+  }
+}
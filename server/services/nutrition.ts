@@ -1,6 +1,8 @@
 import { storage } from "../storage";
 import { analyzeNutrition } from "./openai";
+import { CalorieCyclingService } from "./calorie-cycling";
 import type { InsertNutritionLog, InsertNutritionGoal } from "@shared/schema";
+import type { CycleDayType } from "@shared/utils/calorie-cycling";
 
 export interface NutritionSummary {
   totalCalories: number;
@@ -12,6 +14,7 @@ export interface NutritionSummary {
   goalCarbs: number;
   goalFat: number;
   adherence: number;
+  dayType?: CycleDayType; // Set when calorie cycling is enabled - goals are the cycled targets for this date
 }
 
 export async function getNutritionSummary(userId: number, date: Date): Promise<NutritionSummary> {
@@ -47,10 +50,19 @@ export async function getNutritionSummary(userId: number, date: Date): Promise<N
   };
 
   // Use intelligent target detection for goals
-  const goalCalories = getCurrentTargetCalories();
-  const goalProtein = dietGoal?.targetProtein ? Number(dietGoal.targetProtein) : (Number(nutritionGoal?.protein) || 150);
-  const goalCarbs = dietGoal?.targetCarbs ? Number(dietGoal.targetCarbs) : (Number(nutritionGoal?.carbs) || 200);
-  const goalFat = dietGoal?.targetFat ? Number(dietGoal.targetFat) : (Number(nutritionGoal?.fat) || 70);
+  let goalCalories = getCurrentTargetCalories();
+  let goalProtein = dietGoal?.targetProtein ? Number(dietGoal.targetProtein) : (Number(nutritionGoal?.protein) || 150);
+  let goalCarbs = dietGoal?.targetCarbs ? Number(dietGoal.targetCarbs) : (Number(nutritionGoal?.carbs) || 200);
+  let goalFat = dietGoal?.targetFat ? Number(dietGoal.targetFat) : (Number(nutritionGoal?.fat) || 70);
+
+  // Calorie cycling: follow the training/rest/refeed target scheduled for this date
+  const cycledDay = await CalorieCyclingService.getTargetsForDate(userId, dietGoal, date);
+  if (cycledDay) {
+    goalCalories = cycledDay.targets.calories;
+    goalProtein = cycledDay.targets.protein;
+    goalCarbs = cycledDay.targets.carbs;
+    goalFat = cycledDay.targets.fat;
+  }
 
   const adherence = Math.min(100, Math.round((totals.totalCalories / goalCalories) * 100));
 
@@ -61,6 +73,7 @@ export async function getNutritionSummary(userId: number, date: Date): Promise<N
     goalCarbs,
     goalFat,
     adherence,
+    ...(cycledDay && { dayType: cycledDay.dayType }),
   };
 }
 
@@ -0,0 +1,78 @@
+import OpenAI from "openai";
+import { AIModelConfig } from '../config/ai-config';
+import type { AIProvider, AICompletionParams, AICompletionResult } from './ai-provider';
+
+/**
+ * OpenAI-compatible provider
+ * Talks to any server exposing /v1/chat/completions - Ollama (http://localhost:11434/v1),
+ * llama.cpp server (http://localhost:8080/v1), vLLM, LM Studio. Only chat.completions is used,
+ * with max_tokens instead of max_completion_tokens since most local servers only accept that.
+ */
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai-compatible' as const;
+  private client: OpenAI;
+
+  constructor(client?: OpenAI) {
+    this.client = client || new OpenAI({
+      baseURL: process.env.AI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1',
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: process.env.AI_COMPATIBLE_API_KEY || 'not-needed'
+    });
+  }
+
+  async createCompletion({
+    model,
+    systemPrompt,
+    userPrompt,
+    messages,
+    responseFormat
+  }: AICompletionParams): Promise<AICompletionResult> {
+    return this.chat(model, messages || [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt }
+    ], responseFormat);
+  }
+
+  async createVisionCompletion(
+    model: AIModelConfig,
+    systemPrompt: string,
+    userPrompt: string,
+    image: string,
+    responseFormat?: { type: string }
+  ): Promise<AICompletionResult> {
+    if (!model.capabilities.vision) {
+      throw new Error(`Model ${model.name} does not support image input - set AI_LOCAL_VISION=true for a vision model`);
+    }
+
+    return this.chat(model, [
+      { role: "system", content: systemPrompt },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: userPrompt },
+          { type: "image_url", image_url: { url: `data:image/jpeg;base64,${image}` } }
+        ]
+      }
+    ], responseFormat);
+  }
+
+  private async chat(model: AIModelConfig, messages: any[], responseFormat?: { type: string }): Promise<AICompletionResult> {
+    const params: any = {
+      model: model.name,
+      messages,
+      max_tokens: model.maxTokens,
+      temperature: model.temperature
+    };
+
+    if (responseFormat && model.capabilities.jsonMode) {
+      params.response_format = responseFormat;
+    }
+
+    const response = await this.client.chat.completions.create(params);
+
+    return {
+      content: response.choices[0]?.message?.content || '',
+      usage: response.usage
+    };
+  }
+}
@@ -1,11 +1,14 @@
-import OpenAI from "openai";
-import { selectModelForUser, AI_MODELS } from '../config/ai-config';
+import { getAIConfig, type AIModelConfig } from '../config/ai-config';
 import { monitorAICall } from './ai-performance-monitor';
-import { GPT5Adapter } from './gpt5-adapter';
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("OPENAI_API_KEY environment variable is required");
-}
+import { AIExperimentService } from './ai-experiments';
+import { aiClient } from './ai-provider';
+import { NutritionEstimateFeedbackService } from './nutrition-estimate-feedback';
+import {
+  parseWithRepair,
+  nutritionAnalysisSchema,
+  weeklyWorkoutPlanSchema,
+  ExerciseNameValidator
+} from './ai-output-validation';
 
 export interface MicronutrientData {
   // Fat-Soluble Vitamins
@@ -81,13 +84,6 @@ export interface NutritionAnalysis {
   nutritionValidation?: string; // reasonableness assessment of calculated values
 }
 
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY 
-});
-
-// Initialize GPT-5 adapter
-const gpt5Adapter = new GPT5Adapter(openai);
-
 export async function analyzeNutritionMultiImage(
   foodName?: string,
   foodDescription?: string, 
@@ -421,6 +417,19 @@ Return only valid JSON with all required fields.`
       ];
     }
 
+    // Few-shot context from how this user corrected earlier estimates of similar foods (labels are read as printed)
+    if (userId && !(hasImages && analysisType === 'nutrition_label')) {
+      const correctionContext = await NutritionEstimateFeedbackService.buildPromptContext(
+        Number(userId),
+        foodName || foodDescription,
+        'multi-image-nutrition'
+      );
+      const textItem = messageContent.find((item: any) => item.type === 'text');
+      if (correctionContext && textItem) {
+        textItem.text += `\n\n${correctionContext}`;
+      }
+    }
+
     console.log(`Making OpenAI API call with ${messageContent.length} content items...`);
     console.log('Content types:', messageContent.map((item: any) => ({ type: item.type, hasUrl: !!item.image_url })));
     
@@ -446,14 +455,9 @@ Return only valid JSON with all required fields.`
       });
     }
 
-    // Select appropriate model for user (with A/B testing support)
-    const modelConfig = userId ? 
-      selectModelForUser('multiImageNutrition', userId) : 
-      AI_MODELS['gpt-5-mini'];
-    
-    const abTestGroup = process.env.AI_AB_TEST_ENABLED === 'true' && userId ? 
-      (modelConfig.name === process.env.AI_AB_TEST_MODEL ? 'test' : 'control') : 
-      undefined;
+    // Model for this user - experiment variant when one is running for the service
+    const assignment = userId ? await AIExperimentService.resolve('multi-image-nutrition', 'multiImageNutrition', userId) : null;
+    const modelConfig = assignment?.model || getAIConfig().multiImageNutrition;
 
     // Prepare system and user prompts
     const systemPrompt = "You are a nutrition expert specializing in precise macro and micronutrient analysis with access to comprehensive nutritional databases (USDA FoodData Central). For nutrition labels, read values EXACTLY as shown - do not scale, multiply, or adjust. A label showing 107 calories should be reported as 107 calories, not 535. Always respond with valid JSON containing COMPLETE nutritional data including extensive micronutrient profiles. Every food contains multiple vitamins and minerals - never provide minimal micronutrient data. Use scientific nutritional composition data to ensure thoroughness. If you cannot analyze the image clearly, provide your best estimate with a lower confidence score.";
@@ -469,7 +473,11 @@ Return only valid JSON with all required fields.`
         service: 'multi-image-nutrition',
         model: modelConfig.name,
         userId,
-        abTestGroup,
+        provider: modelConfig.provider,
+        promptVersion: assignment?.promptVersion,
+        experimentName: assignment?.experimentName,
+        variant: assignment?.variant,
+        abTestGroup: assignment?.abTestGroup,
         inputTokens: Math.ceil((systemPrompt + userPromptText).length / 4),
         costPerInputToken: modelConfig.costPerToken.input,
         costPerOutputToken: modelConfig.costPerToken.output
@@ -494,7 +502,7 @@ Return only valid JSON with all required fields.`
           }
         ];
 
-        const response = await gpt5Adapter.createCompletion({
+        const response = await aiClient.createCompletion({
           model: modelConfig,
           systemPrompt,
           userPrompt: userPromptText,
@@ -502,12 +510,12 @@ Return only valid JSON with all required fields.`
           responseFormat: { type: "json_object" }
         });
 
-        const content = response.content;
-        if (!content || content.trim() === '') {
-          throw new Error("Empty response from OpenAI - this may be due to image processing issues or content policy restrictions");
-        }
-
-        return JSON.parse(content);
+        return parseWithRepair(nutritionAnalysisSchema, response.content, {
+          label: 'nutrition analysis',
+          model: modelConfig,
+          systemPrompt,
+          userPrompt: userPromptText
+        });
       });
     } else {
       // Direct call for unauthenticated users or legacy usage using adapter
@@ -530,7 +538,7 @@ Return only valid JSON with all required fields.`
         }
       ];
 
-      const response = await gpt5Adapter.createCompletion({
+      const response = await aiClient.createCompletion({
         model: modelConfig,
         systemPrompt,
         userPrompt: userPromptText,
@@ -538,36 +546,31 @@ Return only valid JSON with all required fields.`
         responseFormat: { type: "json_object" }
       });
 
-      const content = response.content;
-      console.log("OpenAI response received (length):", content?.length || 0);
-      
-      if (!content || content.trim() === '') {
-        console.error("Empty response from OpenAI - possible content policy violation or image processing issue");
-        throw new Error("Empty response from OpenAI - this may be due to image processing issues or content policy restrictions");
-      }
+      console.log("OpenAI response received (length):", response.content?.length || 0);
 
-      try {
-        result = JSON.parse(content);
-      } catch (jsonError) {
-        console.error("Failed to parse OpenAI response as JSON:", content);
-        throw new Error("OpenAI returned invalid JSON - please try again or contact support");
-      }
+      result = await parseWithRepair(nutritionAnalysisSchema, response.content, {
+        label: 'nutrition analysis',
+        model: modelConfig,
+        systemPrompt,
+        userPrompt: userPromptText
+      });
     }
     
-    // Enhanced validation with additional fields and reasonableness checks
+    // Schema-validated response with defaults for the optional fields
     const validatedResult = {
-      calories: typeof result.calories === 'number' ? result.calories : 0,
-      protein: typeof result.protein === 'number' ? result.protein : 0,
-      carbs: typeof result.carbs === 'number' ? result.carbs : 0,
-      fat: typeof result.fat === 'number' ? result.fat : 0,
-      confidence: typeof result.confidence === 'number' ? result.confidence : 0.5,
+      calories: result.calories,
+      protein: result.protein,
+      carbs: result.carbs,
+      fat: result.fat,
+      confidence: result.confidence ?? 0.5,
       category: result.category || 'mixed',
-      mealSuitability: Array.isArray(result.mealSuitability) ? result.mealSuitability : ['regular'],
+      mealSuitability: result.mealSuitability || ['regular'],
       assumptions: result.assumptions || 'Basic nutritional estimation with standard preparation methods',
       servingDetails: result.servingDetails || `${quantity} ${unit}`,
-      portionWeight: typeof result.portionWeight === 'number' ? result.portionWeight : null,
-      portionUnit: typeof result.portionUnit === 'string' ? result.portionUnit : null,
-      ingredientBreakdown: Array.isArray(result.ingredientBreakdown) ? result.ingredientBreakdown : [],
+      portionWeight: result.portionWeight ?? null,
+      portionUnit: result.portionUnit ?? null,
+      ingredientBreakdown: (result.ingredientBreakdown || []).map((item: unknown) =>
+        typeof item === 'string' ? item : String((item as any).name ?? JSON.stringify(item))),
       micronutrients: result.micronutrients || {},
       nutritionValidation: result.nutritionValidation || 'Standard nutritional calculation'
     };
@@ -740,6 +743,9 @@ export async function analyzeNutritionOriginal(
   analysisType: 'nutrition_label' | 'actual_food' = 'nutrition_label'
 ): Promise<NutritionAnalysis> {
   try {
+    // Low temperature for consistent nutritional data
+    const modelConfig = { ...getAIConfig().nutritionAnalysis, temperature: 0.1 };
+
     // Build prompt based on available inputs
     let prompt = "";
     let messageContent: any = [];
@@ -903,8 +909,10 @@ Return only valid JSON with all required fields.`
       throw new Error("Either foodDescription or nutritionLabelImage must be provided");
     }
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const response = await aiClient.createCompletion({
+      model: modelConfig,
+      systemPrompt: '',
+      userPrompt: prompt,
       messages: [
         {
           role: "system",
@@ -947,23 +955,17 @@ Goal: Deliver the most comprehensive, accurate nutritional analysis possible, wi
           content: messageContent
         }
       ],
-      response_format: { type: "json_object" },
-      temperature: 0.1 // Low temperature for consistent nutritional data
+      responseFormat: { type: "json_object" }
     });
 
-    const responseContent = response.choices[0].message.content;
-    console.log("OpenAI Raw Response:", responseContent);
+    console.log("OpenAI Raw Response:", response.content);
     
-    const result = JSON.parse(responseContent || "{}");
-    
-    // Validate the response has required fields
-    if (typeof result.calories !== 'number' || 
-        typeof result.protein !== 'number' || 
-        typeof result.carbs !== 'number' || 
-        typeof result.fat !== 'number') {
-      console.error("Invalid OpenAI response:", result);
-      throw new Error("Invalid nutrition analysis response - missing or invalid numeric fields");
-    }
+    const result = await parseWithRepair(nutritionAnalysisSchema, response.content, {
+      label: 'nutrition analysis',
+      model: modelConfig,
+      systemPrompt: 'You are an expert nutrition analyst. Respond with valid JSON only.',
+      userPrompt: prompt
+    });
 
     return {
       calories: Math.round(result.calories * 100) / 100,
@@ -1025,6 +1027,7 @@ export interface ExtendedExerciseRecommendation {
   rpIntensity: number;
   volumeContribution: number;
   orderInSession: number;
+  exerciseId?: number; // library exercise the name was matched to
 }
 
 // Enhanced AI Exercise Recommendation Function
@@ -1039,8 +1042,6 @@ export async function generateWeeklyWorkoutPlan(
   injuryRestrictions: string,
   customRequirements: string
 ): Promise<WeeklyWorkoutPlan> {
-  const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
   try {
     const prompt = `Generate a complete ${sessionsPerWeek}-day weekly workout plan using evidence-based periodization methodology.
 
@@ -1153,32 +1154,47 @@ export async function generateWeeklyWorkoutPlan(
 - Use RP intensity zones (RPE 6-9)
 - Scientific exercise selection and ordering`;
 
-    // Use GPT-5 adapter for model selection and API routing
-    const modelConfig = {
-      name: 'gpt-5-mini',
-      provider: 'openai' as const,
-      version: '2024-12-17',
-      temperature: 0.7,
+    // Program model from the AI config, with deeper reasoning for full-week planning
+    const modelConfig: AIModelConfig = {
+      ...getAIConfig().programOptimization,
       maxTokens: 4000,
-      reasoning: { effort: 'high' as const },
-      text: { verbosity: 'high' as const },
-      capabilities: {
-        vision: false,
-        jsonMode: true,
-        functionCalling: true,
-        reasoning: true,
-      },
-      costPerToken: { input: 0.0000015, output: 0.000006 }
+      reasoning: { effort: 'high' },
+      text: { verbosity: 'high' }
     };
 
-    const response = await gpt5Adapter.createCompletion({
+    const systemPrompt = "You are an expert exercise scientist and program designer. Generate comprehensive workout plans using scientific principles.";
+    const response = await aiClient.createCompletion({
       model: modelConfig,
-      systemPrompt: "You are an expert exercise scientist and program designer. Generate comprehensive workout plans using scientific principles.",
+      systemPrompt,
       userPrompt: prompt,
       responseFormat: { type: "json_object" }
     });
 
-    const result = JSON.parse(response.content || "{}");
+    // Every exercise must exist in the shared library; unknown names get one repair round, then are dropped
+    const library = await ExerciseNameValidator.getLibrary();
+    const plan = await parseWithRepair(weeklyWorkoutPlanSchema, response.content, {
+      label: 'weekly workout plan',
+      model: modelConfig,
+      systemPrompt,
+      userPrompt: prompt,
+      check: data => data.sessions.flatMap((session, sessionIndex) =>
+        ExerciseNameValidator.findUnknownNames(session.exercises, library, index => `sessions.${sessionIndex}.exercises.${index}`))
+    });
+
+    const result = {
+      ...plan,
+      sessions: plan.sessions.map(session => ({
+        ...session,
+        exercises: ExerciseNameValidator.resolveRecommendations(session.exercises, library).items
+          .map((exercise, index) => ({ ...exercise, orderInSession: exercise.orderInSession ?? index + 1 }))
+      })).filter(session => session.exercises.length > 0),
+      totalVolume: 0,
+      specialMethodsUsage: { percentage: 0, distribution: plan.specialMethodsUsage.distribution }
+    };
+
+    if (result.sessions.length === 0) {
+      throw new Error("None of the planned exercises are in the exercise library");
+    }
     
     // Calculate totals and validate
     let totalWeeklyVolume = 0;
@@ -0,0 +1,437 @@
+import { db } from "../db";
+import {
+  recipes,
+  recipeIngredients,
+  foodItems,
+  type Recipe,
+  type RecipeIngredient,
+  type InsertRecipeIngredient
+} from "@shared/schema";
+import { eq, and, asc, desc, ilike, inArray } from "drizzle-orm";
+import type { MicronutrientData } from "./openai";
+
+export type RecipeIngredientUnit = 'g' | 'ml' | 'serving';
+
+export interface RecipeIngredientInput {
+  foodItemId?: number;
+  subRecipeId?: number;
+  name?: string;
+  quantity: number;
+  unit: RecipeIngredientUnit;
+  // Required for custom ingredients: nutrition for the given quantity
+  nutrition?: {
+    calories: number;
+    protein: number;
+    carbs: number;
+    fat: number;
+    micronutrients?: MicronutrientData | null;
+  };
+}
+
+export interface RecipeInput {
+  name: string;
+  description?: string | null;
+  servings: number;
+  yieldWeight?: number; // cooked weight in grams, defaults to the raw ingredient weight
+  ingredients: RecipeIngredientInput[];
+}
+
+export interface NutritionValues {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  micronutrients: MicronutrientData | null;
+}
+
+export interface RecipeWithNutrition extends Recipe {
+  ingredients: RecipeIngredient[];
+  nutrition: {
+    total: NutritionValues;
+    perServing: NutritionValues & { weight: number };
+    per100g: NutritionValues;
+  };
+}
+
+interface ResolvedIngredient {
+  values: Omit<InsertRecipeIngredient, 'recipeId' | 'position'>;
+  weightGrams: number | null;
+}
+
+export class RecipeService {
+
+  private static round(value: number, decimals: number = 2): number {
+    const factor = Math.pow(10, decimals);
+    return Math.round(value * factor) / factor;
+  }
+
+  private static scaleMicronutrients(micronutrients: unknown, factor: number): MicronutrientData | null {
+    if (!micronutrients || typeof micronutrients !== 'object') return null;
+
+    const scaled: Record<string, number> = {};
+    for (const [key, value] of Object.entries(micronutrients as Record<string, unknown>)) {
+      if (typeof value === 'number' && isFinite(value)) {
+        scaled[key] = this.round(value * factor, 3);
+      }
+    }
+
+    return Object.keys(scaled).length > 0 ? scaled as MicronutrientData : null;
+  }
+
+  private static sumMicronutrients(entries: unknown[]): MicronutrientData | null {
+    const totals: Record<string, number> = {};
+    for (const entry of entries) {
+      const scaled = this.scaleMicronutrients(entry, 1);
+      if (!scaled) continue;
+      for (const [key, value] of Object.entries(scaled)) {
+        totals[key] = this.round((totals[key] || 0) + (value as number), 3);
+      }
+    }
+
+    return Object.keys(totals).length > 0 ? totals as MicronutrientData : null;
+  }
+
+  private static scale(values: NutritionValues, factor: number): NutritionValues {
+    return {
+      calories: this.round(values.calories * factor),
+      protein: this.round(values.protein * factor),
+      carbs: this.round(values.carbs * factor),
+      fat: this.round(values.fat * factor),
+      micronutrients: this.scaleMicronutrients(values.micronutrients, factor)
+    };
+  }
+
+  private static recipeTotals(recipe: Recipe): NutritionValues {
+    return {
+      calories: parseFloat(recipe.totalCalories),
+      protein: parseFloat(recipe.totalProtein),
+      carbs: parseFloat(recipe.totalCarbs),
+      fat: parseFloat(recipe.totalFat),
+      micronutrients: recipe.totalMicronutrients as MicronutrientData | null
+    };
+  }
+
+  /**
+   * Total, per-serving and per-100g nutrition for a recipe
+   */
+  static getNutrition(recipe: Recipe): RecipeWithNutrition['nutrition'] {
+    const total = this.recipeTotals(recipe);
+    const servings = parseFloat(recipe.servings);
+    const yieldWeight = parseFloat(recipe.yieldWeight);
+
+    return {
+      total,
+      perServing: {
+        ...this.scale(total, 1 / servings),
+        weight: this.round(yieldWeight / servings)
+      },
+      per100g: this.scale(total, 100 / yieldWeight)
+    };
+  }
+
+  /**
+   * Nutrition for a logged or nested portion, by servings or by cooked grams
+   */
+  static calculatePortion(recipe: Recipe, portion: { servings?: number; grams?: number }): NutritionValues & { quantity: number; unit: 'serving' | 'g' } {
+    const total = this.recipeTotals(recipe);
+
+    if (portion.grams !== undefined && portion.grams !== null) {
+      if (!(portion.grams > 0)) throw new Error('Grams must be greater than zero');
+      return { ...this.scale(total, portion.grams / parseFloat(recipe.yieldWeight)), quantity: portion.grams, unit: 'g' };
+    }
+
+    const servings = portion.servings ?? 1;
+    if (!(servings > 0)) throw new Error('Servings must be greater than zero');
+    return { ...this.scale(total, servings / parseFloat(recipe.servings)), quantity: servings, unit: 'serving' };
+  }
+
+  private static async getOwnedRecipe(userId: number, recipeId: number): Promise<Recipe> {
+    const [recipe] = await db
+      .select()
+      .from(recipes)
+      .where(and(eq(recipes.id, recipeId), eq(recipes.userId, userId)))
+      .limit(1);
+
+    if (!recipe) throw new Error(`Recipe ${recipeId} not found`);
+    return recipe;
+  }
+
+  /**
+   * Compute the nutrition one ingredient contributes at its quantity
+   */
+  private static async resolveIngredient(userId: number, input: RecipeIngredientInput): Promise<ResolvedIngredient> {
+    const quantity = Number(input.quantity);
+    if (!(quantity > 0)) throw new Error('Ingredient quantity must be greater than zero');
+    if (!['g', 'ml', 'serving'].includes(input.unit)) throw new Error(`Unsupported ingredient unit: ${input.unit}`);
+
+    const base = {
+      quantity: quantity.toString(),
+      unit: input.unit,
+      foodItemId: null as number | null,
+      subRecipeId: null as number | null
+    };
+    const toColumns = (values: NutritionValues) => ({
+      calories: values.calories.toString(),
+      protein: values.protein.toString(),
+      carbs: values.carbs.toString(),
+      fat: values.fat.toString(),
+      micronutrients: values.micronutrients
+    });
+
+    if (input.subRecipeId) {
+      const subRecipe = await this.getOwnedRecipe(userId, input.subRecipeId);
+      const portion = input.unit === 'serving'
+        ? this.calculatePortion(subRecipe, { servings: quantity })
+        : this.calculatePortion(subRecipe, { grams: quantity });
+      const weightGrams = input.unit === 'serving'
+        ? quantity * parseFloat(subRecipe.yieldWeight) / parseFloat(subRecipe.servings)
+        : quantity;
+
+      return {
+        values: { ...base, subRecipeId: subRecipe.id, name: input.name || subRecipe.name, ...toColumns(portion) },
+        weightGrams
+      };
+    }
+
+    if (input.foodItemId) {
+      const [food] = await db.select().from(foodItems).where(eq(foodItems.id, input.foodItemId)).limit(1);
+      if (!food) throw new Error(`Food item ${input.foodItemId} not found`);
+
+      // Food items store nutrition per servingSize servingUnit (100 g for imported foods)
+      const servingSize = parseFloat(food.servingSize);
+      const measuredByWeight = ['g', 'ml'].includes(food.servingUnit.toLowerCase());
+
+      let factor: number;
+      let weightGrams: number | null;
+      if (input.unit === 'serving') {
+        factor = quantity;
+        weightGrams = measuredByWeight ? quantity * servingSize : null;
+      } else {
+        if (!measuredByWeight || !(servingSize > 0)) {
+          throw new Error(`${food.name} is measured in ${food.servingUnit}; add it by serving instead`);
+        }
+        factor = quantity / servingSize;
+        weightGrams = quantity;
+      }
+
+      const values = this.scale({
+        calories: parseFloat(food.calories),
+        protein: parseFloat(food.protein),
+        carbs: parseFloat(food.carbs),
+        fat: parseFloat(food.fat),
+        micronutrients: food.micronutrients as MicronutrientData | null
+      }, factor);
+
+      return {
+        values: { ...base, foodItemId: food.id, name: input.name || food.name, ...toColumns(values) },
+        weightGrams
+      };
+    }
+
+    if (!input.nutrition || !input.name) {
+      throw new Error('Custom ingredients need a name and nutrition values');
+    }
+
+    const values = this.scale({
+      calories: Number(input.nutrition.calories) || 0,
+      protein: Number(input.nutrition.protein) || 0,
+      carbs: Number(input.nutrition.carbs) || 0,
+      fat: Number(input.nutrition.fat) || 0,
+      micronutrients: input.nutrition.micronutrients || null
+    }, 1);
+
+    return {
+      values: { ...base, name: input.name, ...toColumns(values) },
+      weightGrams: input.unit === 'serving' ? null : quantity
+    };
+  }
+
+  /**
+   * True when nesting subRecipeId inside recipeId would make a recipe contain itself
+   */
+  private static async wouldCreateCycle(recipeId: number, subRecipeId: number): Promise<boolean> {
+    const visited = new Set<number>();
+    let frontier = [subRecipeId];
+
+    while (frontier.length > 0) {
+      if (frontier.includes(recipeId)) return true;
+      frontier.forEach(id => visited.add(id));
+
+      const children = await db
+        .select({ subRecipeId: recipeIngredients.subRecipeId })
+        .from(recipeIngredients)
+        .where(inArray(recipeIngredients.recipeId, frontier));
+
+      frontier = children
+        .map(child => child.subRecipeId)
+        .filter((id): id is number => id !== null && !visited.has(id));
+    }
+
+    return false;
+  }
+
+  /**
+   * Validate the input and compute ingredient rows plus recipe totals
+   */
+  private static async buildRecipe(userId: number, input: RecipeInput, recipeId?: number) {
+    if (!input.name?.trim()) throw new Error('Recipe name is required');
+    const servings = Number(input.servings);
+    if (!(servings > 0)) throw new Error('Servings must be greater than zero');
+    if (!Array.isArray(input.ingredients) || input.ingredients.length === 0) {
+      throw new Error('A recipe needs at least one ingredient');
+    }
+
+    const resolved: ResolvedIngredient[] = [];
+    for (const ingredient of input.ingredients) {
+      if (recipeId && ingredient.subRecipeId && await this.wouldCreateCycle(recipeId, ingredient.subRecipeId)) {
+        throw new Error('A recipe cannot contain itself as an ingredient');
+      }
+      resolved.push(await this.resolveIngredient(userId, ingredient));
+    }
+
+    // Without a cooked weight, fall back to the raw weight of the ingredients
+    let yieldWeight = Number(input.yieldWeight);
+    if (!(yieldWeight > 0)) {
+      if (resolved.some(ingredient => ingredient.weightGrams === null)) {
+        throw new Error('Yield weight is required when ingredients are measured by serving');
+      }
+      yieldWeight = resolved.reduce((sum, ingredient) => sum + (ingredient.weightGrams || 0), 0);
+    }
+
+    const sum = (key: 'calories' | 'protein' | 'carbs' | 'fat') =>
+      this.round(resolved.reduce((total, ingredient) => total + parseFloat(ingredient.values[key]), 0));
+
+    return {
+      recipe: {
+        userId,
+        name: input.name.trim(),
+        description: input.description || null,
+        servings: servings.toString(),
+        yieldWeight: this.round(yieldWeight).toString(),
+        totalCalories: sum('calories').toString(),
+        totalProtein: sum('protein').toString(),
+        totalCarbs: sum('carbs').toString(),
+        totalFat: sum('fat').toString(),
+        totalMicronutrients: this.sumMicronutrients(resolved.map(ingredient => ingredient.values.micronutrients))
+      },
+      ingredients: resolved.map((ingredient, index) => ({ ...ingredient.values, position: index }))
+    };
+  }
+
+  static async createRecipe(userId: number, input: RecipeInput): Promise<RecipeWithNutrition> {
+    const built = await this.buildRecipe(userId, input);
+
+    const recipeId = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(recipes).values(built.recipe).returning({ id: recipes.id });
+      await tx.insert(recipeIngredients).values(built.ingredients.map(ingredient => ({ ...ingredient, recipeId: created.id })));
+      return created.id;
+    });
+
+    return this.getRecipe(userId, recipeId);
+  }
+
+  static async updateRecipe(userId: number, recipeId: number, input: RecipeInput): Promise<RecipeWithNutrition> {
+    await this.getOwnedRecipe(userId, recipeId);
+    const built = await this.buildRecipe(userId, input, recipeId);
+
+    await db.transaction(async (tx) => {
+      await tx.update(recipes).set({ ...built.recipe, updatedAt: new Date() }).where(eq(recipes.id, recipeId));
+      await tx.delete(recipeIngredients).where(eq(recipeIngredients.recipeId, recipeId));
+      await tx.insert(recipeIngredients).values(built.ingredients.map(ingredient => ({ ...ingredient, recipeId })));
+    });
+
+    await this.recalculateDependents(userId, recipeId);
+
+    return this.getRecipe(userId, recipeId);
+  }
+
+  /**
+   * Refresh recipes that use this one as an ingredient, all the way up the tree
+   */
+  private static async recalculateDependents(userId: number, recipeId: number): Promise<void> {
+    const parents = await db
+      .selectDistinct({ recipeId: recipeIngredients.recipeId })
+      .from(recipeIngredients)
+      .where(eq(recipeIngredients.subRecipeId, recipeId));
+
+    // Cycles are rejected on save, so updating each parent (which recurses upward) terminates
+    for (const { recipeId: parentId } of parents) {
+      const parent = await this.getRecipe(userId, parentId);
+      await this.updateRecipe(userId, parentId, {
+        name: parent.name,
+        description: parent.description,
+        servings: parseFloat(parent.servings),
+        yieldWeight: parseFloat(parent.yieldWeight),
+        ingredients: parent.ingredients.map(ingredient => ({
+          foodItemId: ingredient.foodItemId ?? undefined,
+          subRecipeId: ingredient.subRecipeId ?? undefined,
+          name: ingredient.name,
+          quantity: parseFloat(ingredient.quantity),
+          unit: ingredient.unit as RecipeIngredientUnit,
+          nutrition: ingredient.foodItemId || ingredient.subRecipeId ? undefined : {
+            calories: parseFloat(ingredient.calories),
+            protein: parseFloat(ingredient.protein),
+            carbs: parseFloat(ingredient.carbs),
+            fat: parseFloat(ingredient.fat),
+            micronutrients: ingredient.micronutrients as MicronutrientData | null
+          }
+        }))
+      });
+    }
+  }
+
+  static async deleteRecipe(userId: number, recipeId: number): Promise<void> {
+    await this.getOwnedRecipe(userId, recipeId);
+
+    const usedIn = await db
+      .selectDistinct({ name: recipes.name })
+      .from(recipeIngredients)
+      .innerJoin(recipes, eq(recipeIngredients.recipeId, recipes.id))
+      .where(eq(recipeIngredients.subRecipeId, recipeId));
+
+    if (usedIn.length > 0) {
+      throw new Error(`Recipe is used as an ingredient in: ${usedIn.map(recipe => recipe.name).join(', ')}`);
+    }
+
+    await db.delete(recipes).where(eq(recipes.id, recipeId));
+  }
+
+  static async getRecipe(userId: number, recipeId: number): Promise<RecipeWithNutrition> {
+    const recipe = await this.getOwnedRecipe(userId, recipeId);
+    const ingredients = await db
+      .select()
+      .from(recipeIngredients)
+      .where(eq(recipeIngredients.recipeId, recipeId))
+      .orderBy(asc(recipeIngredients.position));
+
+    return { ...recipe, ingredients, nutrition: this.getNutrition(recipe) };
+  }
+
+  /**
+   * A recipe the user owns, without ingredients - used when logging
+   */
+  static async getRecipeForUser(userId: number, recipeId: number): Promise<Recipe> {
+    return this.getOwnedRecipe(userId, recipeId);
+  }
+
+  static async getRecipes(userId: number): Promise<(Recipe & { nutrition: RecipeWithNutrition['nutrition'] })[]> {
+    const userRecipes = await db
+      .select()
+      .from(recipes)
+      .where(eq(recipes.userId, userId))
+      .orderBy(desc(recipes.updatedAt));
+
+    return userRecipes.map(recipe => ({ ...recipe, nutrition: this.getNutrition(recipe) }));
+  }
+
+  static async searchRecipes(userId: number, query: string, limit: number = 10): Promise<(Recipe & { nutrition: RecipeWithNutrition['nutrition'] })[]> {
+    const matches = await db
+      .select()
+      .from(recipes)
+      .where(and(eq(recipes.userId, userId), ilike(recipes.name, `%${query.trim()}%`)))
+      .orderBy(asc(recipes.name))
+      .limit(limit);
+
+    return matches.map(recipe => ({ ...recipe, nutrition: this.getNutrition(recipe) }));
+  }
+}
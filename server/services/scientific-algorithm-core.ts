@@ -8,6 +8,7 @@ import {
   workoutExercises
 } from "@shared/schema";
 import { convertRPEtoRIR, convertRIRtoRPE, validateRPEAccuracy } from "@shared/utils/rpe-rir-conversion";
+import { isWarmupSet } from "@shared/utils/warmup-sets";
 
 /**
  * Core Scientific Algorithm Service
@@ -105,7 +106,7 @@ export class SciAlgorithmCore {
                 const setsData = exercise.setsData;
                 
                 if (Array.isArray(setsData)) {
-                  const completedSets = setsData.filter((set: any) => set && set.completed === true).length;
+                  const completedSets = setsData.filter((set: any) => set && set.completed === true && !isWarmupSet(set)).length;
                   exerciseSets = completedSets;
                   totalSets += completedSets;
                 } else {
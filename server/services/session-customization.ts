@@ -1,12 +1,14 @@
-import { db } from "../db";
+import { db, type Transaction } from "../db";
 import { 
   workoutSessions, 
   workoutExercises, 
   exercises,
   exerciseMuscleMapping,
-  volumeLandmarks
+  volumeLandmarks,
+  mesocycles
 } from "@shared/schema";
 import { eq, and, inArray, sql } from "drizzle-orm";
+import { ExerciseSubstitutionService } from "./exercise-substitution";
 
 export class SessionCustomization {
   
@@ -124,11 +126,14 @@ export class SessionCustomization {
   
   /**
    * Substitute one exercise for another
+   * Sets are chosen to keep the week's muscle-group volume and the starting load is carried over
+   * from the related lift's history (see ExerciseSubstitutionService)
    */
   static async substituteExercise(
     sessionId: number, 
     oldExerciseId: number, 
-    newExerciseId: number
+    newExerciseId: number,
+    userId?: number
   ) {
     console.log(`🔄 Substituting exercise ${oldExerciseId} → ${newExerciseId} in session ${sessionId}`);
     
@@ -137,6 +142,10 @@ export class SessionCustomization {
       .from(workoutSessions)
       .where(eq(workoutSessions.id, sessionId));
     
+    if (!session || (userId !== undefined && session.userId !== userId)) {
+      throw new Error("Session not found");
+    }
+    
     // Get current exercise details
     const [currentExercise] = await db
       .select()
@@ -152,40 +161,55 @@ export class SessionCustomization {
       throw new Error("Exercise not found in session");
     }
     
-    // Calculate smart defaults for new exercise
+    // Rest period still follows the new exercise's category
     const newDefaults = await this.calculateSmartDefaults(
-      session!.userId, 
+      session.userId, 
+      newExerciseId
+    );
+    const plan = await ExerciseSubstitutionService.planSubstitution(
+      session.userId,
+      sessionId,
+      oldExerciseId,
       newExerciseId
     );
     
-    // Update exercise while preserving completed data if any
-    await db
-      .update(workoutExercises)
-      .set({
-        exerciseId: newExerciseId,
-        sets: currentExercise.isCompleted ? currentExercise.sets : newDefaults.sets,
-        targetReps: currentExercise.isCompleted ? currentExercise.targetReps : newDefaults.targetReps,
-        restPeriod: newDefaults.restPeriod,
-        // Preserve completed data
-        weight: currentExercise.weight,
-        actualReps: currentExercise.actualReps,
-        rpe: currentExercise.rpe,
-        rir: currentExercise.rir,
-        isCompleted: currentExercise.isCompleted
-      })
-      .where(eq(workoutExercises.id, currentExercise.id));
-    
-    // Update future weeks if mesocycle
-    if (session!.mesocycleId) {
-      await this.substituteExerciseInFutureWeeks(
-        session!.mesocycleId,
-        oldExerciseId,
-        newExerciseId,
-        session!.date
-      );
-    }
+    // The session slot, later weeks and the progression scheme move together
+    await db.transaction(async (tx) => {
+      // Update exercise while preserving completed data if any
+      await tx
+        .update(workoutExercises)
+        .set({
+          exerciseId: newExerciseId,
+          sets: currentExercise.isCompleted ? currentExercise.sets : plan.sets,
+          targetReps: currentExercise.targetReps || newDefaults.targetReps,
+          restPeriod: newDefaults.restPeriod,
+          // Preserve completed data
+          weight: currentExercise.isCompleted || !plan.estimatedLoad
+            ? currentExercise.weight
+            : plan.estimatedLoad.weight.toString(),
+          actualReps: currentExercise.actualReps,
+          rpe: currentExercise.rpe,
+          rir: currentExercise.rir,
+          isCompleted: currentExercise.isCompleted
+        })
+        .where(eq(workoutExercises.id, currentExercise.id));
+      
+      // Update future weeks if mesocycle
+      if (session.mesocycleId) {
+        await this.substituteExerciseInFutureWeeks(
+          tx,
+          session.mesocycleId,
+          oldExerciseId,
+          newExerciseId,
+          session.date,
+          currentExercise.sets > 0 ? plan.sets / currentExercise.sets : 1,
+          plan.estimatedLoad?.weight ?? null
+        );
+      }
+    });
     
     console.log(`✅ Exercise substitution completed`);
+    return plan;
   }
   
   /**
@@ -322,19 +346,29 @@ export class SessionCustomization {
   
   /**
    * Substitute exercise in future weeks
+   * Each week's sets are scaled by the same ratio so the mesocycle's volume ramp is kept, and the
+   * exercise's progression scheme moves to the substitute
    */
   private static async substituteExerciseInFutureWeeks(
+    tx: Transaction,
     mesocycleId: number,
     oldExerciseId: number,
     newExerciseId: number,
-    fromDate: Date
+    fromDate: Date,
+    setsRatio: number,
+    startingWeight: number | null
   ) {
-    await db
+    await tx
       .update(workoutExercises)
-      .set({ exerciseId: newExerciseId })
+      .set({
+        exerciseId: newExerciseId,
+        sets: sql`GREATEST(1, ROUND(${workoutExercises.sets} * ${setsRatio}::numeric))::integer`,
+        ...(startingWeight !== null ? { weight: startingWeight.toString() } : {})
+      })
       .where(
         and(
           eq(workoutExercises.exerciseId, oldExerciseId),
+          eq(workoutExercises.isCompleted, false),
           sql`session_id IN (
             SELECT id FROM workout_sessions 
             WHERE mesocycle_id = ${mesocycleId} 
@@ -342,6 +376,21 @@ export class SessionCustomization {
           )`
         )
       );
+    
+    const [mesocycle] = await tx
+      .select({ progressionSchemes: mesocycles.progressionSchemes })
+      .from(mesocycles)
+      .where(eq(mesocycles.id, mesocycleId))
+      .for('update');
+    
+    const scheme = mesocycle?.progressionSchemes[oldExerciseId.toString()];
+    if (scheme) {
+      const { [oldExerciseId.toString()]: _, ...rest } = mesocycle.progressionSchemes;
+      await tx
+        .update(mesocycles)
+        .set({ progressionSchemes: { ...rest, [newExerciseId.toString()]: scheme } })
+        .where(eq(mesocycles.id, mesocycleId));
+    }
   }
   
   /**
@@ -0,0 +1,366 @@
+import { db } from "../db";
+import {
+  personalRecords,
+  workoutExercises,
+  workoutSessions,
+  exercises,
+  bodyMetrics,
+  type PersonalRecord
+} from "@shared/schema";
+import { eq, and, desc, asc, lte, ne, isNotNull } from "drizzle-orm";
+import { UnitConverter } from "@shared/utils/unit-conversion";
+import { isWarmupSet } from "@shared/utils/warmup-sets";
+import { getSessionPainScore, summarizePainTrend, type PainTrend } from "@shared/utils/injury-constraints";
+import {
+  estimateOneRepMax,
+  classifyStrengthLevel,
+  type E1RMFormula
+} from "@shared/utils/strength-estimation";
+
+interface CompletedSet {
+  setNumber: number;
+  weight: number; // in the logged unit
+  weightKg: number;
+  reps: number;
+  rpe: number | null;
+  rir: number | null;
+}
+
+interface StrengthCurvePoint {
+  sessionId: number;
+  date: Date;
+  e1rm: number;
+  topSetWeight: number;
+  topSetReps: number;
+  topSetRpe: number | null;
+  volume: number;
+  reliable: boolean;
+  painScore: number | null; // Highest pain logged on any set, 0-10
+}
+
+interface StrengthCurve {
+  exerciseId: number;
+  exerciseName: string;
+  unit: 'kg' | 'lbs';
+  formula: E1RMFormula | 'auto';
+  points: StrengthCurvePoint[];
+  bestE1RM: number;
+  currentE1RM: number;
+  changePercentage: number; // first vs latest point
+  strengthStandard: ReturnType<typeof classifyStrengthLevel>;
+  painTrend: PainTrend; // Over the points with a pain score
+}
+
+export interface DetectedRecord {
+  exerciseId: number;
+  exerciseName: string;
+  recordType: 'e1rm' | 'reps' | 'volume';
+  value: number;
+  previousValue: number;
+  weight: number | null;
+  reps: number | null;
+  weightUnit: 'kg' | 'lbs';
+}
+
+export class StrengthTracking {
+
+  /**
+   * Normalize setsData JSON into completed working sets with usable numbers
+   */
+  private static extractCompletedSets(setsData: unknown, weightUnit: string | null): CompletedSet[] {
+    if (!Array.isArray(setsData)) return [];
+
+    const unit = UnitConverter.normalizeWeightUnit(weightUnit || 'kg');
+    const sets: CompletedSet[] = [];
+
+    for (const set of setsData as any[]) {
+      if (!set || !set.completed || isWarmupSet(set)) continue;
+
+      const weight = parseFloat(set.weight);
+      const reps = parseInt(set.actualReps);
+      if (isNaN(weight) || isNaN(reps) || weight <= 0 || reps <= 0) continue;
+
+      const rpe = parseFloat(set.rpe);
+      const rir = parseFloat(set.rir);
+
+      sets.push({
+        setNumber: set.setNumber,
+        weight,
+        weightKg: UnitConverter.convertWeight(weight, unit).kg,
+        reps,
+        rpe: isNaN(rpe) ? null : rpe,
+        rir: isNaN(rir) ? null : rir
+      });
+    }
+
+    return sets;
+  }
+
+  /**
+   * Best e1RM (in kg) among a list of completed sets
+   */
+  private static bestE1RM(sets: CompletedSet[], formula?: E1RMFormula) {
+    let best: { e1rmKg: number; set: CompletedSet; reliable: boolean } | null = null;
+
+    for (const set of sets) {
+      const estimate = estimateOneRepMax(set.weightKg, set.reps, { rpe: set.rpe, rir: set.rir, formula });
+      if (!estimate) continue;
+      if (!best || estimate.e1rm > best.e1rmKg) {
+        best = { e1rmKg: estimate.e1rm, set, reliable: estimate.reliable };
+      }
+    }
+
+    return best;
+  }
+
+  private static volumeKg(sets: CompletedSet[]): number {
+    return sets.reduce((sum, set) => sum + set.weightKg * set.reps, 0);
+  }
+
+  private static toUnit(valueKg: number, unit: 'kg' | 'lbs'): number {
+    const converted = UnitConverter.convertWeight(valueKg, 'kg');
+    return unit === 'kg' ? converted.kg : converted.lbs;
+  }
+
+  /**
+   * Build the e1RM strength curve for one exercise, one point per completed session
+   */
+  static async getE1RMHistory(
+    userId: number,
+    exerciseId: number,
+    options: { unit?: 'kg' | 'lbs'; formula?: E1RMFormula; limit?: number } = {}
+  ): Promise<StrengthCurve> {
+    const unit = options.unit || 'kg';
+    const limit = options.limit || 50;
+
+    const exerciseDetails = await db
+      .select({ name: exercises.name })
+      .from(exercises)
+      .where(eq(exercises.id, exerciseId))
+      .limit(1);
+
+    const exerciseName = exerciseDetails[0]?.name || "Unknown Exercise";
+
+    const history = await db
+      .select({
+        sessionId: workoutSessions.id,
+        date: workoutSessions.date,
+        setsData: workoutExercises.setsData,
+        weightUnit: workoutExercises.weightUnit
+      })
+      .from(workoutExercises)
+      .innerJoin(workoutSessions, eq(workoutExercises.sessionId, workoutSessions.id))
+      .where(and(
+        eq(workoutSessions.userId, userId),
+        eq(workoutExercises.exerciseId, exerciseId),
+        eq(workoutExercises.isCompleted, true),
+        isNotNull(workoutExercises.setsData)
+      ))
+      .orderBy(desc(workoutSessions.date))
+      .limit(limit);
+
+    const points: StrengthCurvePoint[] = [];
+
+    // Oldest first so the curve reads left to right
+    for (const entry of history.reverse()) {
+      const sets = this.extractCompletedSets(entry.setsData, entry.weightUnit);
+      const best = this.bestE1RM(sets, options.formula);
+      if (!best) continue;
+
+      points.push({
+        sessionId: entry.sessionId,
+        date: entry.date,
+        e1rm: this.toUnit(best.e1rmKg, unit),
+        topSetWeight: this.toUnit(best.set.weightKg, unit),
+        topSetReps: best.set.reps,
+        topSetRpe: best.set.rpe,
+        volume: this.toUnit(this.volumeKg(sets), unit),
+        reliable: best.reliable,
+        painScore: getSessionPainScore(Array.isArray(entry.setsData) ? entry.setsData : [])
+      });
+    }
+
+    const bestE1RM = points.reduce((max, point) => Math.max(max, point.e1rm), 0);
+    const currentE1RM = points.length > 0 ? points[points.length - 1].e1rm : 0;
+    const firstE1RM = points.length > 0 ? points[0].e1rm : 0;
+    const changePercentage = firstE1RM > 0
+      ? Math.round(((currentE1RM - firstE1RM) / firstE1RM) * 1000) / 10
+      : 0;
+
+    // Compare against bodyweight standards using the latest body metric
+    let strengthStandard: StrengthCurve['strengthStandard'] = null;
+    const [latestMetric] = await db
+      .select({ weight: bodyMetrics.weight, unit: bodyMetrics.unit })
+      .from(bodyMetrics)
+      .where(and(eq(bodyMetrics.userId, userId), isNotNull(bodyMetrics.weight)))
+      .orderBy(desc(bodyMetrics.date))
+      .limit(1);
+
+    if (latestMetric?.weight && bestE1RM > 0) {
+      const bodyWeight = UnitConverter.convertWeight(parseFloat(latestMetric.weight), latestMetric.unit);
+      strengthStandard = classifyStrengthLevel(exerciseName, bestE1RM, unit === 'kg' ? bodyWeight.kg : bodyWeight.lbs);
+    }
+
+    return {
+      exerciseId,
+      exerciseName,
+      unit,
+      formula: options.formula || 'auto',
+      points,
+      bestE1RM,
+      currentE1RM,
+      changePercentage,
+      strengthStandard,
+      painTrend: summarizePainTrend(points.flatMap(point => point.painScore === null ? [] : [{ date: point.date, painScore: point.painScore }]))
+    };
+  }
+
+  /**
+   * Compare a completed session against the user's prior history and record
+   * new e1RM, rep and volume PRs. Safe to call more than once per session.
+   */
+  static async detectPersonalRecords(userId: number, sessionId: number): Promise<DetectedRecord[]> {
+    const [session] = await db
+      .select()
+      .from(workoutSessions)
+      .where(and(eq(workoutSessions.id, sessionId), eq(workoutSessions.userId, userId)))
+      .limit(1);
+
+    if (!session) return [];
+
+    const sessionExercises = await db
+      .select({
+        exerciseId: workoutExercises.exerciseId,
+        exerciseName: exercises.name,
+        setsData: workoutExercises.setsData,
+        weightUnit: workoutExercises.weightUnit
+      })
+      .from(workoutExercises)
+      .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+      .where(eq(workoutExercises.sessionId, sessionId));
+
+    // Re-running completion should replace, not duplicate, this session's records
+    await db.delete(personalRecords).where(and(eq(personalRecords.sessionId, sessionId), eq(personalRecords.userId, userId)));
+
+    const detected: DetectedRecord[] = [];
+
+    for (const exercise of sessionExercises) {
+      const currentSets = this.extractCompletedSets(exercise.setsData, exercise.weightUnit);
+      if (currentSets.length === 0) continue;
+
+      const weightUnit = UnitConverter.normalizeWeightUnit(exercise.weightUnit || 'kg');
+
+      const previousEntries = await db
+        .select({
+          setsData: workoutExercises.setsData,
+          weightUnit: workoutExercises.weightUnit
+        })
+        .from(workoutExercises)
+        .innerJoin(workoutSessions, eq(workoutExercises.sessionId, workoutSessions.id))
+        .where(and(
+          eq(workoutSessions.userId, userId),
+          eq(workoutExercises.exerciseId, exercise.exerciseId),
+          eq(workoutExercises.isCompleted, true),
+          isNotNull(workoutExercises.setsData),
+          ne(workoutSessions.id, sessionId),
+          lte(workoutSessions.date, session.date)
+        ));
+
+      const previousSessions = previousEntries
+        .map(entry => this.extractCompletedSets(entry.setsData, entry.weightUnit))
+        .filter(sets => sets.length > 0);
+
+      // First time performing a lift establishes the baseline rather than a PR
+      if (previousSessions.length === 0) continue;
+
+      const previousSets = previousSessions.flat();
+
+      // e1RM PR
+      const currentBest = this.bestE1RM(currentSets);
+      const previousBest = this.bestE1RM(previousSets);
+      if (currentBest && previousBest && currentBest.e1rmKg > previousBest.e1rmKg) {
+        detected.push({
+          exerciseId: exercise.exerciseId,
+          exerciseName: exercise.exerciseName,
+          recordType: 'e1rm',
+          value: currentBest.e1rmKg,
+          previousValue: previousBest.e1rmKg,
+          weight: currentBest.set.weight,
+          reps: currentBest.set.reps,
+          weightUnit
+        });
+      }
+
+      // Rep PR: more reps than ever before at this load or heavier
+      let repRecord: DetectedRecord | null = null;
+      for (const set of currentSets) {
+        const previousMaxReps = previousSets
+          .filter(previous => previous.weightKg >= set.weightKg - 0.01)
+          .reduce((max, previous) => Math.max(max, previous.reps), 0);
+
+        if (previousMaxReps > 0 && set.reps > previousMaxReps && (!repRecord || set.weight > (repRecord.weight || 0))) {
+          repRecord = {
+            exerciseId: exercise.exerciseId,
+            exerciseName: exercise.exerciseName,
+            recordType: 'reps',
+            value: set.reps,
+            previousValue: previousMaxReps,
+            weight: set.weight,
+            reps: set.reps,
+            weightUnit
+          };
+        }
+      }
+      if (repRecord) detected.push(repRecord);
+
+      // Volume PR: highest single-session tonnage for this lift
+      const currentVolume = this.volumeKg(currentSets);
+      const previousBestVolume = previousSessions.reduce((max, sets) => Math.max(max, this.volumeKg(sets)), 0);
+      if (currentVolume > previousBestVolume) {
+        detected.push({
+          exerciseId: exercise.exerciseId,
+          exerciseName: exercise.exerciseName,
+          recordType: 'volume',
+          value: Math.round(currentVolume * 100) / 100,
+          previousValue: Math.round(previousBestVolume * 100) / 100,
+          weight: null,
+          reps: null,
+          weightUnit
+        });
+      }
+    }
+
+    if (detected.length > 0) {
+      await db.insert(personalRecords).values(detected.map(record => ({
+        userId,
+        exerciseId: record.exerciseId,
+        sessionId,
+        recordType: record.recordType,
+        value: record.value.toString(),
+        previousValue: record.previousValue.toString(),
+        weight: record.weight !== null ? record.weight.toString() : null,
+        reps: record.reps,
+        weightUnit: record.weightUnit,
+        achievedAt: session.date
+      })));
+    }
+
+    return detected;
+  }
+
+  /**
+   * List recorded PRs, newest first
+   */
+  static async getPersonalRecords(userId: number, exerciseId?: number): Promise<PersonalRecord[]> {
+    const conditions = [eq(personalRecords.userId, userId)];
+    if (exerciseId) {
+      conditions.push(eq(personalRecords.exerciseId, exerciseId));
+    }
+
+    return db
+      .select()
+      .from(personalRecords)
+      .where(and(...conditions))
+      .orderBy(desc(personalRecords.achievedAt), asc(personalRecords.recordType));
+  }
+}
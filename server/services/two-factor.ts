@@ -0,0 +1,320 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { userTwoFactor, trustedDevices, type UserTwoFactor } from '@shared/schema';
+import { eq, and, gt, lt, or, isNull, sql } from 'drizzle-orm';
+
+/**
+ * TOTP two-factor authentication (RFC 6238: HMAC-SHA1, 6 digits, 30 second steps), as used by
+ * Google Authenticator, 1Password, Authy and similar apps.
+ */
+
+const TOTP_CONFIG = {
+  issuer: 'TrainPro',
+  digits: 6,
+  stepSeconds: 30,
+  allowedDrift: 1, // Accept codes one step before/after to absorb clock skew
+  secretBytes: 20,
+};
+
+const RECOVERY_CODE_COUNT = 10;
+export const TRUSTED_DEVICE_DAYS = 30;
+export const TRUSTED_DEVICE_COOKIE = 'trainpro.trusted_device';
+export const TWO_FACTOR_CHALLENGE_TTL = 5 * 60 * 1000; // Time to enter the code after the password step
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export type TwoFactorMethod = 'totp' | 'recovery_code';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  pendingEnrollment: boolean;
+  recoveryCodesRemaining: number;
+  trustedDevices: number;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/=+$|\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+// Secrets are encrypted with a key derived from TWO_FACTOR_ENCRYPTION_KEY (or the session secret)
+function getEncryptionKey(): Buffer {
+  const keyMaterial = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.SESSION_SECRET;
+  if (!keyMaterial) throw new Error('TWO_FACTOR_ENCRYPTION_KEY or SESSION_SECRET must be set for two-factor authentication');
+  return crypto.createHash('sha256').update(keyMaterial).digest();
+}
+
+function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+function decryptSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+// Recovery codes look like "k7pq-2xmd-9fhr" and are compared without dashes or case
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function generateRecoveryCode(): string {
+  const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+  const chars = Array.from(crypto.randomBytes(12)).map(byte => alphabet[byte % alphabet.length]);
+  return [chars.slice(0, 4), chars.slice(4, 8), chars.slice(8, 12)].map(group => group.join('')).join('-');
+}
+
+export class TwoFactorService {
+
+  /**
+   * TOTP code for a base32 secret at a time step
+   */
+  static generateCode(secret: string, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+    counter.writeUInt32BE(step % 2 ** 32, 4);
+
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 15;
+    const binary = ((hmac[offset] & 127) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+
+    return (binary % 10 ** TOTP_CONFIG.digits).toString().padStart(TOTP_CONFIG.digits, '0');
+  }
+
+  static getCurrentStep(now = Date.now()): number {
+    return Math.floor(now / 1000 / TOTP_CONFIG.stepSeconds);
+  }
+
+  /**
+   * Time step the code matches within the allowed drift, or null
+   */
+  static matchCode(secret: string, code: string, now = Date.now()): number | null {
+    const clean = code.replace(/\s/g, '');
+    if (!new RegExp(`^\\d{${TOTP_CONFIG.digits}}$`).test(clean)) return null;
+
+    const currentStep = this.getCurrentStep(now);
+    for (let drift = -TOTP_CONFIG.allowedDrift; drift <= TOTP_CONFIG.allowedDrift; drift++) {
+      const expected = this.generateCode(secret, currentStep + drift);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(clean))) return currentStep + drift;
+    }
+    return null;
+  }
+
+  static getProvisioningUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${TOTP_CONFIG.issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TOTP_CONFIG.issuer,
+      algorithm: 'SHA1',
+      digits: String(TOTP_CONFIG.digits),
+      period: String(TOTP_CONFIG.stepSeconds)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  private static async getRecord(userId: number): Promise<UserTwoFactor | undefined> {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId)).limit(1);
+    return record;
+  }
+
+  static async isEnabled(userId: number): Promise<boolean> {
+    const record = await this.getRecord(userId);
+    return !!record?.enabled;
+  }
+
+  static async getStatus(userId: number): Promise<TwoFactorStatus> {
+    const record = await this.getRecord(userId);
+    const devices = record?.enabled
+      ? await db
+          .select({ id: trustedDevices.id })
+          .from(trustedDevices)
+          .where(and(eq(trustedDevices.userId, userId), gt(trustedDevices.expiresAt, new Date())))
+      : [];
+
+    return {
+      enabled: !!record?.enabled,
+      pendingEnrollment: !!record && !record.enabled,
+      recoveryCodesRemaining: record?.enabled ? record.recoveryCodes.length : 0,
+      trustedDevices: devices.length
+    };
+  }
+
+  /**
+   * Start enrolment with a fresh secret; replaces an unconfirmed one
+   */
+  static async beginEnrollment(userId: number, accountName: string): Promise<{ secret: string; otpauthUrl: string }> {
+    const existing = await this.getRecord(userId);
+    if (existing?.enabled) throw new Error('Two-factor authentication is already enabled');
+
+    const secret = base32Encode(crypto.randomBytes(TOTP_CONFIG.secretBytes));
+    const encrypted = encryptSecret(secret);
+
+    if (existing) {
+      await db
+        .update(userTwoFactor)
+        .set({ secret: encrypted, recoveryCodes: [], lastUsedStep: null, createdAt: new Date() })
+        .where(eq(userTwoFactor.userId, userId));
+    } else {
+      await db.insert(userTwoFactor).values({ userId, secret: encrypted });
+    }
+
+    return { secret, otpauthUrl: this.getProvisioningUri(secret, accountName) };
+  }
+
+  /**
+   * Turn 2FA on once the authenticator app produced a valid code; returns the recovery codes (shown once)
+   */
+  static async confirmEnrollment(userId: number, code: string): Promise<string[]> {
+    const record = await this.getRecord(userId);
+    if (!record) throw new Error('Two-factor enrolment not found - start the setup again');
+    if (record.enabled) throw new Error('Two-factor authentication is already enabled');
+
+    const step = this.matchCode(decryptSecret(record.secret), code);
+    if (step === null) throw new Error('Invalid authentication code');
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await db
+      .update(userTwoFactor)
+      .set({
+        enabled: true,
+        enabledAt: new Date(),
+        lastUsedStep: step,
+        recoveryCodes: recoveryCodes.map(recoveryCode => sha256(normalizeRecoveryCode(recoveryCode)))
+      })
+      .where(eq(userTwoFactor.userId, userId));
+
+    return recoveryCodes;
+  }
+
+  /**
+   * Check a TOTP code or an unused recovery code. Accepted TOTP steps and recovery codes can't be reused.
+   */
+  static async verify(userId: number, code: string): Promise<{ valid: boolean; method?: TwoFactorMethod; recoveryCodesRemaining?: number }> {
+    const record = await this.getRecord(userId);
+    if (!record?.enabled || typeof code !== 'string') return { valid: false };
+
+    const step = this.matchCode(decryptSecret(record.secret), code);
+    if (step !== null) {
+      // Conditional so two requests with the same code can't both be accepted
+      const [accepted] = await db
+        .update(userTwoFactor)
+        .set({ lastUsedStep: step })
+        .where(and(
+          eq(userTwoFactor.userId, userId),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+        ))
+        .returning({ recoveryCodes: userTwoFactor.recoveryCodes });
+      if (!accepted) return { valid: false };
+      return { valid: true, method: 'totp', recoveryCodesRemaining: accepted.recoveryCodes.length };
+    }
+
+    const hash = sha256(normalizeRecoveryCode(code));
+    if (normalizeRecoveryCode(code).length === 12 && record.recoveryCodes.includes(hash)) {
+      const [consumed] = await db
+        .update(userTwoFactor)
+        .set({ recoveryCodes: sql`${userTwoFactor.recoveryCodes} - ${hash}::text` })
+        .where(and(
+          eq(userTwoFactor.userId, userId),
+          sql`${userTwoFactor.recoveryCodes} @> ${JSON.stringify([hash])}::jsonb`
+        ))
+        .returning({ recoveryCodes: userTwoFactor.recoveryCodes });
+      if (!consumed) return { valid: false };
+      return { valid: true, method: 'recovery_code', recoveryCodesRemaining: consumed.recoveryCodes.length };
+    }
+
+    return { valid: false };
+  }
+
+  static async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    const verification = await this.verify(userId, code);
+    if (!verification.valid) throw new Error('Invalid authentication code');
+
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await db
+      .update(userTwoFactor)
+      .set({ recoveryCodes: recoveryCodes.map(recoveryCode => sha256(normalizeRecoveryCode(recoveryCode))) })
+      .where(eq(userTwoFactor.userId, userId));
+
+    return recoveryCodes;
+  }
+
+  static async disable(userId: number, code: string): Promise<void> {
+    const verification = await this.verify(userId, code);
+    if (!verification.valid) throw new Error('Invalid authentication code');
+
+    await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    await this.revokeTrustedDevices(userId);
+  }
+
+  /**
+   * Remember a device after a successful 2FA sign-in; returns the cookie token
+   */
+  static async trustDevice(userId: number, userAgent: string, ipAddress: string): Promise<{ token: string; expiresAt: Date }> {
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + TRUSTED_DEVICE_DAYS * 24 * 60 * 60 * 1000);
+
+    await db.insert(trustedDevices).values({ userId, tokenHash: sha256(token), userAgent, ipAddress, expiresAt });
+    return { token, expiresAt };
+  }
+
+  static async isTrustedDevice(userId: number, token: string | undefined): Promise<boolean> {
+    if (!token || typeof token !== 'string') return false;
+
+    const [device] = await db
+      .select()
+      .from(trustedDevices)
+      .where(and(
+        eq(trustedDevices.tokenHash, sha256(token)),
+        eq(trustedDevices.userId, userId),
+        gt(trustedDevices.expiresAt, new Date())
+      ))
+      .limit(1);
+    if (!device) return false;
+
+    await db.update(trustedDevices).set({ lastUsedAt: new Date() }).where(eq(trustedDevices.id, device.id));
+    return true;
+  }
+
+  static async revokeTrustedDevices(userId: number): Promise<number> {
+    const revoked = await db.delete(trustedDevices).where(eq(trustedDevices.userId, userId)).returning({ id: trustedDevices.id });
+    return revoked.length;
+  }
+}
@@ -3,9 +3,11 @@ import {
   mesocycles, 
   workoutSessions, 
   workoutExercises,
-  trainingTemplates
+  trainingTemplates,
+  savedWorkoutTemplates
 } from "@shared/schema";
 import { eq, and, gte, sql, isNull } from "drizzle-orm";
+import { sanitizeProgressionSchemes } from "@shared/utils/progression-schemes";
 import { TemplateEngine } from "./template-engine";
 
 export class UnifiedMesocycleTemplate {
@@ -58,6 +60,116 @@ export class UnifiedMesocycleTemplate {
     };
   }
   
+  /**
+   * Create mesocycle from saved workout templates, one template per training day
+   * Only Week 1 sessions are generated - subsequent weeks are created via "Advance Week"
+   * Exercises without an entry in progressionSchemes use RPE-driven progression
+   */
+  static async createMesocycleFromSavedTemplates(
+    userId: number,
+    options: {
+      name: string;
+      totalWeeks: number;
+      trainingDaysPerWeek: number;
+      dayTemplates: Record<string, number | null | undefined>;
+      startDate?: Date;
+      assignedBy?: number | null;
+      progressionSchemes?: unknown;
+    }
+  ) {
+    const { name, totalWeeks, trainingDaysPerWeek, dayTemplates } = options;
+    const startDate = options.startDate || new Date();
+
+    const [mesocycle] = await db
+      .insert(mesocycles)
+      .values({
+        userId,
+        name,
+        totalWeeks,
+        currentWeek: 1,
+        startDate,
+        endDate: new Date(startDate.getTime() + totalWeeks * 7 * 24 * 60 * 60 * 1000),
+        programId: null,
+        templateId: null,
+        assignedBy: options.assignedBy ?? null,
+        progressionSchemes: sanitizeProgressionSchemes(options.progressionSchemes)
+      })
+      .returning();
+
+    let sessionsCreated = 0;
+    const week = 1;
+
+    for (let day = 1; day <= trainingDaysPerWeek; day++) {
+      const templateId = dayTemplates[day.toString()];
+      if (!templateId) continue;
+
+      const [template] = await db
+        .select()
+        .from(savedWorkoutTemplates)
+        .where(eq(savedWorkoutTemplates.id, templateId))
+        .limit(1);
+      if (!template) continue;
+
+      // Distribute training days across the week
+      const sessionDate = new Date(startDate);
+      const dayOffset = Math.floor((day - 1) * 7 / trainingDaysPerWeek);
+      sessionDate.setDate(startDate.getDate() + dayOffset);
+
+      const [session] = await db
+        .insert(workoutSessions)
+        .values({
+          userId,
+          mesocycleId: mesocycle.id,
+          programId: null,
+          date: sessionDate,
+          name: `${template.name} - Week ${week} Day ${day}`,
+          isCompleted: false,
+          totalVolume: 0,
+          duration: template.estimatedDuration,
+          version: "2.0",
+          features: { spinnerSetInput: true, gestureNavigation: true },
+          algorithm: "RP_BASED"
+        })
+        .returning()
+        .catch((sessionError) => {
+          console.error('Error creating workout sessions:', sessionError);
+          throw new Error(`Failed to create workout sessions: ${sessionError instanceof Error ? sessionError.message : 'Unknown error'}`);
+        });
+      sessionsCreated++;
+
+      try {
+        const exerciseTemplates = Array.isArray(template.exerciseTemplates)
+          ? template.exerciseTemplates
+          : JSON.parse(template.exerciseTemplates as string);
+
+        const exerciseInserts = exerciseTemplates.map((exercise: any, index: number) => ({
+          sessionId: session.id,
+          exerciseId: exercise.exerciseId,
+          orderIndex: exercise.orderIndex || index,
+          sets: exercise.sets,
+          targetReps: exercise.targetReps,
+          weight: null,
+          restPeriod: exercise.restPeriod,
+          specialMethod: exercise.specialMethod || null,
+          specialConfig: exercise.specialConfig || null,
+          notes: exercise.notes || null
+        }));
+
+        if (exerciseInserts.length > 0) {
+          await db.insert(workoutExercises).values(exerciseInserts);
+          console.log(`✅ Created ${exerciseInserts.length} exercises for session: ${session.name}`);
+        }
+      } catch (exerciseError) {
+        console.error(`Error creating exercises for session ${session.id}:`, exerciseError);
+        // Continue with other sessions even if one fails
+      }
+    }
+
+    console.log(`✅ Created ${sessionsCreated} workout sessions for mesocycle ${mesocycle.id}`);
+
+    return { mesocycle, sessionsCreated };
+  }
+
   /**
    * Validate mesocycle-template integration
    * Checks for conflicts and fixes them
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { sessions, pendingOAuthSessions } from '@shared/schema';
+import { eq, ne, and, gt, isNull, sql } from 'drizzle-orm';
+
+/**
+ * Signed-in sessions of a user, read from the express-session store (`sessions` table).
+ * Session IDs are bearer credentials, so clients only ever see a hash of them.
+ */
+
+const SESSION_TTL = 7 * 24 * 60 * 60 * 1000; // Matches getSession() in replitAuth
+
+export type SessionProvider = 'password' | 'google' | 'apple' | 'oauth' | 'replit';
+
+export interface UserSessionInfo {
+  id: string;
+  current: boolean;
+  provider: SessionProvider;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+}
+
+const toPublicId = (sid: string) => crypto.createHash('sha256').update(sid).digest('hex').slice(0, 24);
+
+// Legacy sessions store userId; Replit Auth sessions store the user under passport
+const ownedBy = (userId: number) =>
+  sql`(${sessions.sess}->>'userId' = ${String(userId)} OR ${sessions.sess}->'passport'->'user'->'claims'->>'sub' = ${String(userId)})`;
+
+/**
+ * Short readable device name from a User-Agent, e.g. "Safari on iPhone"
+ */
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent || userAgent === 'unknown') return 'Unknown device';
+
+  const platform =
+    /iPad/.test(userAgent) ? 'iPad' :
+    /iPhone/.test(userAgent) ? 'iPhone' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Macintosh|Mac OS X/.test(userAgent) ? 'Mac' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /CrOS/.test(userAgent) ? 'Chromebook' :
+    /Linux/.test(userAgent) ? 'Linux' : null;
+
+  // Order matters - Edge and Chrome UAs also contain "Safari"
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /Firefox\/|FxiOS/.test(userAgent) ? 'Firefox' :
+    /Chrome\/|CriOS/.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    /wv\)|WebView|Capacitor/.test(userAgent) ? 'TrainPro app' : null;
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || 'Unknown device';
+}
+
+const toIso = (value: unknown): string | null => {
+  const date = typeof value === 'number' || typeof value === 'string' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+};
+
+export class UserSessionService {
+
+  static async listSessions(userId: number, currentSessionId: string): Promise<UserSessionInfo[]> {
+    const rows = await db
+      .select()
+      .from(sessions)
+      .where(and(ownedBy(userId), gt(sessions.expire, new Date())));
+
+    return rows
+      .map(row => {
+        const sess = row.sess as Record<string, any>;
+        const isReplit = !!sess.passport?.user?.claims?.sub;
+        // Rolling sessions push `expire` forward on every request, so it also tells when the session was last used
+        const maxAge = sess.cookie?.originalMaxAge || SESSION_TTL;
+
+        return {
+          id: toPublicId(row.sid),
+          current: row.sid === currentSessionId,
+          provider: (isReplit ? 'replit' : sess.provider || 'password') as SessionProvider,
+          device: describeDevice(sess.userAgent),
+          userAgent: sess.userAgent || null,
+          ipAddress: sess.clientIP || null,
+          signedInAt: toIso(sess.loginTime),
+          lastSeenAt: toIso(sess.lastActivity) || toIso(row.expire.getTime() - maxAge),
+          expiresAt: row.expire.toISOString()
+        };
+      })
+      .sort((a, b) => Number(b.current) - Number(a.current) || (b.lastSeenAt || '').localeCompare(a.lastSeenAt || ''));
+  }
+
+  /**
+   * Revoke one session by its public id - the current session signs out through /api/auth/signout instead
+   */
+  static async revokeSession(userId: number, publicId: string, currentSessionId: string): Promise<void> {
+    const rows = await db
+      .select({ sid: sessions.sid })
+      .from(sessions)
+      .where(ownedBy(userId));
+
+    const target = rows.find(row => toPublicId(row.sid) === publicId);
+    if (!target) throw new Error('Session not found');
+    if (target.sid === currentSessionId) throw new Error('Use sign out to end the current session');
+
+    await db.delete(sessions).where(eq(sessions.sid, target.sid));
+  }
+
+  /**
+   * Delete the user's stored sessions, optionally keeping the current one, and invalidate
+   * unused mobile OAuth hand-offs so they can't restore a session afterwards. Returns how many sessions were revoked.
+   */
+  static async revokeSessions(userId: number, exceptSessionId?: string): Promise<number> {
+    const revoked = await db
+      .delete(sessions)
+      .where(exceptSessionId ? and(ownedBy(userId), ne(sessions.sid, exceptSessionId)) : ownedBy(userId))
+      .returning({ sid: sessions.sid });
+
+    await db
+      .update(pendingOAuthSessions)
+      .set({ consumedAt: new Date() })
+      .where(and(
+        eq(pendingOAuthSessions.userId, userId),
+        isNull(pendingOAuthSessions.consumedAt),
+        exceptSessionId ? ne(pendingOAuthSessions.sessionId, exceptSessionId) : undefined
+      ));
+
+    return revoked.length;
+  }
+}
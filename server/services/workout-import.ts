@@ -0,0 +1,703 @@
+import { db } from "../db";
+import {
+  workoutImports,
+  workoutSessions,
+  workoutExercises,
+  exercises,
+  loadProgressionTracking,
+  type WorkoutImport
+} from "@shared/schema";
+import { eq, and, or, isNull, inArray, desc, asc } from "drizzle-orm";
+import { convertRPEtoRIR } from "@shared/utils/rpe-rir-conversion";
+import { parseCSV } from "../utils/csv";
+
+export type ImportSource = 'strong' | 'hevy' | 'fitnotes';
+
+interface ParsedSet {
+  setNumber: number;
+  weight: number; // in the import's weight unit
+  reps: number;
+  rpe: number | null;
+}
+
+interface ParsedExercise {
+  sourceName: string;
+  notes: string | null;
+  sets: ParsedSet[];
+}
+
+interface ParsedSession {
+  date: string; // ISO timestamp
+  name: string;
+  durationMinutes: number | null;
+  notes: string | null;
+  exercises: ParsedExercise[];
+}
+
+interface ParsedImport {
+  sessions: ParsedSession[];
+  skippedRows: number; // warm-ups, cardio and rows without reps
+}
+
+interface ExerciseCandidate {
+  exerciseId: number;
+  name: string;
+  confidence: number;
+}
+
+interface ExerciseMatch {
+  sourceName: string;
+  setCount: number;
+  match: (ExerciseCandidate & { reason: 'exact' | 'fuzzy' | 'previous_import' }) | null;
+  candidates: ExerciseCandidate[];
+}
+
+// Above this score a fuzzy match is accepted without review
+const AUTO_MATCH_THRESHOLD = 0.8;
+const CANDIDATE_THRESHOLD = 0.35;
+const MAX_CANDIDATES = 5;
+
+const ABBREVIATIONS: Record<string, string> = {
+  db: 'dumbbell',
+  dbs: 'dumbbell',
+  bb: 'barbell',
+  kb: 'kettlebell',
+  ohp: 'overhead press',
+  rdl: 'romanian deadlift',
+  'e-z': 'ez',
+  ez: 'ez bar',
+  pulldown: 'pull down',
+  pushdown: 'push down',
+  'pull-up': 'pull up',
+  'pull-ups': 'pull up',
+  pullup: 'pull up',
+  pullups: 'pull up',
+  'chin-up': 'chin up',
+  chinup: 'chin up',
+  'push-up': 'push up',
+  pushup: 'push up',
+  'sit-up': 'sit up',
+  flyes: 'fly',
+  flys: 'fly',
+  raises: 'raise',
+  curls: 'curl',
+  rows: 'row',
+  extensions: 'extension',
+  presses: 'press',
+  squats: 'squat',
+  lunges: 'lunge',
+  dips: 'dip',
+};
+
+const EQUIPMENT_KEYWORDS = ['barbell', 'dumbbell', 'cable', 'machine', 'bodyweight', 'kettlebell', 'smith machine', 'band'];
+
+/**
+ * Parse a number that may use a decimal comma (semicolon-delimited European exports)
+ */
+function parseDecimal(value: string | undefined): number | null {
+  if (value === undefined || value === null) return null;
+  const trimmed = String(value).trim().replace(',', '.');
+  if (!trimmed) return null;
+  const parsed = parseFloat(trimmed);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function parseRpe(value: string | undefined): number | null {
+  const rpe = parseDecimal(value);
+  return rpe !== null && rpe >= 1 && rpe <= 10 ? rpe : null;
+}
+
+/**
+ * Strong durations look like "1h 5m", "45m" or plain seconds in newer exports
+ */
+function parseDurationMinutes(value: string | undefined): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Math.round(parseInt(trimmed) / 60);
+
+  const hours = trimmed.match(/(\d+)\s*h/);
+  const minutes = trimmed.match(/(\d+)\s*m/);
+  if (!hours && !minutes) return null;
+  return (hours ? parseInt(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0);
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5, jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11
+};
+
+/**
+ * Hevy writes "15 Jan 2023, 08:30"; everything else is close enough to ISO
+ */
+function parseDate(value: string): Date | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+
+  const hevyMatch = trimmed.match(/^(\d{1,2}) (\w{3}) (\d{4}),? (\d{1,2}):(\d{2})/);
+  if (hevyMatch) {
+    const month = MONTHS[hevyMatch[2].toLowerCase()];
+    if (month === undefined) return null;
+    return new Date(Number(hevyMatch[3]), month, Number(hevyMatch[1]), Number(hevyMatch[4]), Number(hevyMatch[5]));
+  }
+
+  // Date-only values (FitNotes) are anchored at noon so timezone shifts keep the same day
+  const normalized = /^\d{4}-\d{2}-\d{2}$/.test(trimmed) ? `${trimmed}T12:00:00` : trimmed.replace(' ', 'T');
+  const date = new Date(normalized);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Group flat set rows into sessions and exercises, keeping file order
+ */
+class SessionBuilder {
+  private sessions = new Map<string, ParsedSession>();
+  skippedRows = 0;
+
+  addSet(sessionKey: string, session: Omit<ParsedSession, 'exercises'>, exerciseName: string, set: Omit<ParsedSet, 'setNumber'>, exerciseNotes?: string | null) {
+    let parsedSession = this.sessions.get(sessionKey);
+    if (!parsedSession) {
+      parsedSession = { ...session, exercises: [] };
+      this.sessions.set(sessionKey, parsedSession);
+    }
+
+    let exercise = parsedSession.exercises.find(entry => entry.sourceName === exerciseName);
+    if (!exercise) {
+      exercise = { sourceName: exerciseName, notes: exerciseNotes || null, sets: [] };
+      parsedSession.exercises.push(exercise);
+    }
+
+    exercise.sets.push({ ...set, setNumber: exercise.sets.length + 1 });
+  }
+
+  build(): ParsedImport {
+    const sessions = Array.from(this.sessions.values())
+      .filter(session => session.exercises.length > 0)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    return { sessions, skippedRows: this.skippedRows };
+  }
+}
+
+function parseStrong(rows: Record<string, string>[]): ParsedImport {
+  const builder = new SessionBuilder();
+
+  for (const row of rows) {
+    const date = parseDate(row['Date']);
+    const exerciseName = row['Exercise Name']?.trim();
+    const reps = parseDecimal(row['Reps']);
+    const setOrder = (row['Set Order'] || '').trim().toUpperCase();
+
+    // Warm-up ("W"), rest timer and cardio rows are not working sets
+    if (!date || !exerciseName || !reps || reps <= 0 || setOrder === 'W' || setOrder === 'REST TIMER') {
+      builder.skippedRows++;
+      continue;
+    }
+
+    const workoutName = row['Workout Name']?.trim() || 'Imported Workout';
+    builder.addSet(
+      `${row['Date']}|${workoutName}`,
+      {
+        date: date.toISOString(),
+        name: workoutName,
+        durationMinutes: parseDurationMinutes(row['Duration'] ?? row['Duration (sec)']),
+        notes: row['Workout Notes'] || null
+      },
+      exerciseName,
+      { weight: parseDecimal(row['Weight']) ?? 0, reps, rpe: parseRpe(row['RPE']) },
+      row['Notes']
+    );
+  }
+
+  return builder.build();
+}
+
+function parseHevy(rows: Record<string, string>[]): ParsedImport {
+  const builder = new SessionBuilder();
+
+  for (const row of rows) {
+    const date = parseDate(row['start_time']);
+    const exerciseName = row['exercise_title']?.trim();
+    const reps = parseDecimal(row['reps']);
+
+    if (!date || !exerciseName || !reps || reps <= 0 || row['set_type'] === 'warmup') {
+      builder.skippedRows++;
+      continue;
+    }
+
+    const endDate = parseDate(row['end_time']);
+    const durationMinutes = endDate ? Math.round((endDate.getTime() - date.getTime()) / 60000) : null;
+
+    builder.addSet(
+      `${row['start_time']}|${row['title']}`,
+      {
+        date: date.toISOString(),
+        name: row['title']?.trim() || 'Imported Workout',
+        durationMinutes: durationMinutes !== null && durationMinutes > 0 ? durationMinutes : null,
+        notes: row['description'] || null
+      },
+      exerciseName,
+      { weight: parseDecimal(row['weight_kg'] ?? row['weight_lbs']) ?? 0, reps, rpe: parseRpe(row['rpe']) },
+      row['exercise_notes']
+    );
+  }
+
+  return builder.build();
+}
+
+function parseFitNotes(rows: Record<string, string>[]): ParsedImport {
+  const builder = new SessionBuilder();
+  const weightColumn = Object.keys(rows[0] || {}).find(header => header.startsWith('Weight')) || 'Weight';
+
+  // FitNotes has no workout concept - every training day becomes one session
+  const categoriesByDate = new Map<string, Set<string>>();
+  for (const row of rows) {
+    if (!row['Date']) continue;
+    const categories = categoriesByDate.get(row['Date']) || new Set<string>();
+    if (row['Category']) categories.add(row['Category']);
+    categoriesByDate.set(row['Date'], categories);
+  }
+
+  for (const row of rows) {
+    const date = parseDate(row['Date']);
+    const exerciseName = row['Exercise']?.trim();
+    const reps = parseDecimal(row['Reps']);
+
+    if (!date || !exerciseName || !reps || reps <= 0) {
+      builder.skippedRows++;
+      continue;
+    }
+
+    const categories = Array.from(categoriesByDate.get(row['Date']) || []);
+    builder.addSet(
+      row['Date'],
+      {
+        date: date.toISOString(),
+        name: categories.length > 0 ? categories.join(' / ') : 'Imported Workout',
+        durationMinutes: null,
+        notes: null
+      },
+      exerciseName,
+      { weight: parseDecimal(row[weightColumn]) ?? 0, reps, rpe: null },
+      row['Comment']
+    );
+  }
+
+  return builder.build();
+}
+
+/**
+ * Lowercase, expand abbreviations and pull equipment out of "Bench Press (Barbell)" style names
+ */
+function normalizeExerciseName(name: string): { tokens: string[]; equipment: string | null } {
+  let text = name.toLowerCase();
+  let equipment: string | null = null;
+
+  const parenthetical = text.match(/\(([^)]+)\)/g) || [];
+  for (const group of parenthetical) {
+    const inner = group.slice(1, -1).trim();
+    const found = EQUIPMENT_KEYWORDS.find(keyword => inner.includes(keyword));
+    if (found) equipment = found;
+    text = text.replace(group, ` ${inner} `);
+  }
+
+  const tokens = text
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap(token => (ABBREVIATIONS[token] || token).split(' '));
+
+  if (!equipment) {
+    equipment = EQUIPMENT_KEYWORDS.find(keyword => tokens.join(' ').includes(keyword)) || null;
+  }
+
+  return { tokens, equipment };
+}
+
+function bigrams(text: string): string[] {
+  const grams: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) {
+    grams.push(text.slice(i, i + 2));
+  }
+  return grams;
+}
+
+function diceCoefficient(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const counts = new Map<string, number>();
+  a.forEach(item => counts.set(item, (counts.get(item) || 0) + 1));
+
+  let overlap = 0;
+  for (const item of b) {
+    const count = counts.get(item) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(item, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length);
+}
+
+/**
+ * Similarity between an imported (or AI-suggested) exercise name and a library exercise, 0-1
+ */
+export function scoreExerciseMatch(sourceName: string, exercise: { name: string; equipment: string | null }): number {
+  const source = normalizeExerciseName(sourceName);
+  const target = normalizeExerciseName(exercise.name);
+
+  const sourceTokens = Array.from(new Set(source.tokens));
+  const targetTokens = Array.from(new Set(target.tokens));
+  const sourceSorted = [...sourceTokens].sort().join(' ');
+  const targetSorted = [...targetTokens].sort().join(' ');
+  if (sourceSorted === targetSorted) return 1;
+
+  const tokenScore = diceCoefficient(sourceTokens, targetTokens);
+  const characterScore = diceCoefficient(bigrams(sourceSorted), bigrams(targetSorted));
+  let score = 0.6 * tokenScore + 0.4 * characterScore;
+
+  // Same movement on different equipment is a different exercise
+  const targetEquipment = target.equipment || exercise.equipment?.toLowerCase() || null;
+  if (source.equipment && targetEquipment) {
+    score += source.equipment === targetEquipment ? 0.1 : -0.15;
+  }
+
+  return Math.max(0, Math.min(1, Math.round(score * 100) / 100));
+}
+
+export class WorkoutImportService {
+
+  /**
+   * Detect the exporting app from the CSV header
+   */
+  static detectSource(headers: string[]): ImportSource | null {
+    if (headers.includes('exercise_title') && headers.includes('set_index')) return 'hevy';
+    if (headers.includes('Exercise Name') && headers.includes('Set Order')) return 'strong';
+    if (headers.includes('Exercise') && headers.includes('Category') && headers.some(header => header.startsWith('Weight'))) return 'fitnotes';
+    return null;
+  }
+
+  /**
+   * Weight unit is part of the Hevy/FitNotes column names; Strong needs it from the user
+   */
+  private static detectWeightUnit(headers: string[], fallback: 'kg' | 'lbs'): 'kg' | 'lbs' {
+    if (headers.includes('weight_lbs') || headers.includes('Weight (lbs)')) return 'lbs';
+    if (headers.includes('weight_kg') || headers.some(header => /^Weight \(kgs?\)$/.test(header))) return 'kg';
+    return fallback;
+  }
+
+  static parse(content: string, options: { source?: ImportSource; weightUnit?: 'kg' | 'lbs' } = {}): { source: ImportSource; weightUnit: 'kg' | 'lbs'; parsed: ParsedImport } {
+    const rows = parseCSV(content);
+    if (rows.length === 0) throw new Error('The file does not contain any rows');
+
+    const headers = Object.keys(rows[0]);
+    const source = options.source || this.detectSource(headers);
+    if (!source) throw new Error('Unrecognized export format. Supported: Strong, Hevy and FitNotes CSV exports');
+
+    const weightUnit = this.detectWeightUnit(headers, options.weightUnit || 'kg');
+
+    const parsed = source === 'strong'
+      ? parseStrong(rows)
+      : source === 'hevy'
+        ? parseHevy(rows)
+        : parseFitNotes(rows);
+
+    if (parsed.sessions.length === 0) throw new Error('No completed working sets found in the file');
+
+    return { source, weightUnit, parsed };
+  }
+
+  /**
+   * Match each distinct imported exercise name against the library,
+   * reusing what the user confirmed in earlier imports
+   */
+  static async matchExercises(userId: number, parsed: ParsedImport): Promise<ExerciseMatch[]> {
+    const library = await db
+      .select({ id: exercises.id, name: exercises.name, equipment: exercises.equipment })
+      .from(exercises)
+      .where(or(isNull(exercises.userId), eq(exercises.userId, userId)));
+
+    const previousImports = await db
+      .select({ exerciseMapping: workoutImports.exerciseMapping })
+      .from(workoutImports)
+      .where(and(eq(workoutImports.userId, userId), eq(workoutImports.status, 'completed')))
+      .orderBy(asc(workoutImports.completedAt));
+
+    const previousMapping: Record<string, number | null> = {};
+    for (const entry of previousImports) {
+      Object.assign(previousMapping, entry.exerciseMapping || {});
+    }
+
+    const setCounts = new Map<string, number>();
+    for (const session of parsed.sessions) {
+      for (const exercise of session.exercises) {
+        setCounts.set(exercise.sourceName, (setCounts.get(exercise.sourceName) || 0) + exercise.sets.length);
+      }
+    }
+
+    return Array.from(setCounts.entries()).map(([sourceName, setCount]) => {
+      const candidates = library
+        .map(exercise => ({ exerciseId: exercise.id, name: exercise.name, confidence: scoreExerciseMatch(sourceName, exercise) }))
+        .filter(candidate => candidate.confidence >= CANDIDATE_THRESHOLD)
+        .sort((a, b) => b.confidence - a.confidence)
+        .slice(0, MAX_CANDIDATES);
+
+      const previousId = previousMapping[sourceName];
+      const previous = previousId ? library.find(exercise => exercise.id === previousId) : undefined;
+
+      let match: ExerciseMatch['match'] = null;
+      if (previous) {
+        match = { exerciseId: previous.id, name: previous.name, confidence: 1, reason: 'previous_import' };
+      } else if (candidates[0]?.confidence >= AUTO_MATCH_THRESHOLD) {
+        match = { ...candidates[0], reason: candidates[0].confidence === 1 ? 'exact' : 'fuzzy' };
+      }
+
+      return { sourceName, setCount, match, candidates };
+    }).sort((a, b) => (a.match ? 1 : 0) - (b.match ? 1 : 0) || b.setCount - a.setCount);
+  }
+
+  /**
+   * Parse an export and store it for review. Nothing is written to the training log yet.
+   */
+  static async createPreview(
+    userId: number,
+    content: string,
+    options: { source?: ImportSource; weightUnit?: 'kg' | 'lbs'; fileName?: string } = {}
+  ) {
+    const { source, weightUnit, parsed } = this.parse(content, options);
+    const matches = await this.matchExercises(userId, parsed);
+
+    const suggestedMapping: Record<string, number> = {};
+    matches.forEach(entry => {
+      if (entry.match) suggestedMapping[entry.sourceName] = entry.match.exerciseId;
+    });
+
+    const [created] = await db
+      .insert(workoutImports)
+      .values({
+        userId,
+        source,
+        fileName: options.fileName || null,
+        weightUnit,
+        parsedData: parsed,
+        exerciseMapping: suggestedMapping
+      })
+      .returning();
+
+    const setCount = parsed.sessions.reduce((sum, session) =>
+      sum + session.exercises.reduce((exerciseSum, exercise) => exerciseSum + exercise.sets.length, 0), 0);
+
+    return {
+      importId: created.id,
+      source,
+      weightUnit,
+      sessionCount: parsed.sessions.length,
+      setCount,
+      skippedRows: parsed.skippedRows,
+      dateRange: {
+        from: parsed.sessions[0].date,
+        to: parsed.sessions[parsed.sessions.length - 1].date
+      },
+      exercises: matches,
+      unmatchedCount: matches.filter(entry => !entry.match).length
+    };
+  }
+
+  private static async getOwnedImport(userId: number, importId: number): Promise<WorkoutImport> {
+    const [record] = await db
+      .select()
+      .from(workoutImports)
+      .where(and(eq(workoutImports.id, importId), eq(workoutImports.userId, userId)))
+      .limit(1);
+
+    if (!record) throw new Error(`Import ${importId} not found`);
+    return record;
+  }
+
+  /**
+   * Write the reviewed import into workoutSessions/workoutExercises and backfill
+   * loadProgressionTracking. `mapping` overrides the suggested matches; null skips a name.
+   */
+  static async confirmImport(userId: number, importId: number, mapping: Record<string, number | null> = {}) {
+    const record = await this.getOwnedImport(userId, importId);
+    // Failed imports were rolled back and can be retried
+    if (record.status === 'completed' || record.status === 'importing') {
+      throw new Error(`Import ${importId} has already been completed or is in progress`);
+    }
+
+    const parsed = record.parsedData as ParsedImport;
+    const finalMapping: Record<string, number | null> = {
+      ...(record.exerciseMapping as Record<string, number | null> || {}),
+      ...mapping
+    };
+
+    const sourceNames = new Set(parsed.sessions.flatMap(session => session.exercises.map(exercise => exercise.sourceName)));
+    const unresolved = Array.from(sourceNames).filter(name => finalMapping[name] === undefined);
+    if (unresolved.length > 0) {
+      throw new Error(`Map or skip these exercises before importing: ${unresolved.join(', ')}`);
+    }
+
+    const invalid = Object.keys(finalMapping).filter(name => finalMapping[name] !== null && !Number.isInteger(finalMapping[name]));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid exercise mapping for: ${invalid.join(', ')}`);
+    }
+
+    // Only the user's own exercises and the global library can be logged against
+    const mappedIds = Array.from(new Set(Object.values(finalMapping).filter((id): id is number => Number.isInteger(id))));
+    if (mappedIds.length > 0) {
+      const visible = await db
+        .select({ id: exercises.id })
+        .from(exercises)
+        .where(and(inArray(exercises.id, mappedIds), or(isNull(exercises.userId), eq(exercises.userId, userId))));
+      const visibleIds = new Set(visible.map(exercise => exercise.id));
+      const unknown = mappedIds.filter(id => !visibleIds.has(id));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown exercises in mapping: ${unknown.join(', ')}`);
+      }
+    }
+
+    // Claim the import so a concurrent confirm can't write it a second time
+    const [claimed] = await db
+      .update(workoutImports)
+      .set({ status: 'importing', error: null })
+      .where(and(
+        eq(workoutImports.id, importId),
+        eq(workoutImports.userId, userId),
+        inArray(workoutImports.status, ['pending_review', 'failed'])
+      ))
+      .returning({ id: workoutImports.id });
+    if (!claimed) {
+      throw new Error(`Import ${importId} has already been completed or is in progress`);
+    }
+
+    const weightUnit = record.weightUnit;
+    const summary = { sessionsCreated: 0, exercisesCreated: 0, setsImported: 0, progressionRecords: 0, exercisesSkipped: 0 };
+
+    try {
+      await db.transaction(async (tx) => {
+        // Last imported top set per exercise, used to chain progression records
+        const lastTopSet = new Map<number, { weight: number; reps: number }>();
+
+        for (const session of parsed.sessions) {
+          const mappedExercises = session.exercises.filter(exercise => {
+            const exerciseId = finalMapping[exercise.sourceName];
+            if (!exerciseId) summary.exercisesSkipped++;
+            return !!exerciseId;
+          });
+          if (mappedExercises.length === 0) continue;
+
+          const sessionDate = new Date(session.date);
+          const totalVolume = mappedExercises.reduce((sum, exercise) =>
+            sum + exercise.sets.reduce((setSum, set) => setSum + set.weight * set.reps, 0), 0);
+
+          const [createdSession] = await tx
+            .insert(workoutSessions)
+            .values({
+              userId,
+              date: sessionDate,
+              name: session.name,
+              isCompleted: true,
+              totalVolume: Math.round(totalVolume),
+              duration: session.durationMinutes,
+              features: { importedFrom: record.source, importId: record.id },
+              actualFinishedAt: session.durationMinutes
+                ? new Date(sessionDate.getTime() + session.durationMinutes * 60000)
+                : sessionDate,
+              createdAt: sessionDate
+            })
+            .returning({ id: workoutSessions.id });
+          summary.sessionsCreated++;
+
+          for (let index = 0; index < mappedExercises.length; index++) {
+            const exercise = mappedExercises[index];
+            const exerciseId = finalMapping[exercise.sourceName]!;
+            const rpeValues = exercise.sets.map(set => set.rpe).filter((rpe): rpe is number => rpe !== null);
+            const averageRpe = rpeValues.length > 0 ? rpeValues.reduce((sum, rpe) => sum + rpe, 0) / rpeValues.length : null;
+            const averageRir = averageRpe !== null ? convertRPEtoRIR(averageRpe) : null;
+            const topSet = exercise.sets.reduce((best, set) =>
+              set.weight > best.weight || (set.weight === best.weight && set.reps > best.reps) ? set : best, exercise.sets[0]);
+
+            await tx.insert(workoutExercises).values({
+              sessionId: createdSession.id,
+              exerciseId,
+              orderIndex: index,
+              sets: exercise.sets.length,
+              targetReps: exercise.sets.map(set => set.reps).join(','),
+              actualReps: exercise.sets.map(set => set.reps).join(','),
+              weight: topSet.weight.toString(),
+              rpe: averageRpe !== null ? Math.round(averageRpe) : null,
+              rir: averageRir !== null ? Math.round(averageRir) : null,
+              notes: exercise.notes,
+              isCompleted: true,
+              weightUnit,
+              finishedAt: sessionDate,
+              setsData: exercise.sets.map(set => ({
+                setNumber: set.setNumber,
+                targetReps: set.reps,
+                actualReps: set.reps,
+                weight: set.weight,
+                rpe: set.rpe,
+                ...(set.rpe !== null ? { rir: convertRPEtoRIR(set.rpe) } : {}),
+                completed: true
+              }))
+            });
+            summary.exercisesCreated++;
+            summary.setsImported += exercise.sets.length;
+
+            // Backfill progression history so recommendations have data from day one
+            const previous = lastTopSet.get(exerciseId);
+            const progressionType = !previous
+              ? 'volume'
+              : topSet.weight > previous.weight
+                ? 'weight'
+                : topSet.weight === previous.weight && topSet.reps > previous.reps ? 'reps' : 'volume';
+
+            await tx.insert(loadProgressionTracking).values({
+              userId,
+              exerciseId,
+              sessionId: createdSession.id,
+              previousWeight: previous ? previous.weight.toString() : null,
+              currentWeight: topSet.weight.toString(),
+              rpeAverage: averageRpe !== null ? (Math.round(averageRpe * 10) / 10).toString() : null,
+              rirAverage: averageRir !== null ? (Math.round(averageRir * 10) / 10).toString() : null,
+              progressionType,
+              notes: `Imported from ${record.source}`,
+              createdAt: sessionDate
+            });
+            summary.progressionRecords++;
+            lastTopSet.set(exerciseId, { weight: topSet.weight, reps: topSet.reps });
+          }
+        }
+
+        await tx
+          .update(workoutImports)
+          .set({ status: 'completed', exerciseMapping: finalMapping, summary, completedAt: new Date() })
+          .where(eq(workoutImports.id, importId));
+      });
+    } catch (error: any) {
+      await db
+        .update(workoutImports)
+        .set({ status: 'failed', error: error.message })
+        .where(eq(workoutImports.id, importId));
+      throw error;
+    }
+
+    console.log(`📥 Imported ${summary.sessionsCreated} ${record.source} sessions for user ${userId}`);
+    return { importId, ...summary };
+  }
+
+  static async getImports(userId: number) {
+    return db
+      .select({
+        id: workoutImports.id,
+        source: workoutImports.source,
+        fileName: workoutImports.fileName,
+        status: workoutImports.status,
+        weightUnit: workoutImports.weightUnit,
+        summary: workoutImports.summary,
+        error: workoutImports.error,
+        createdAt: workoutImports.createdAt,
+        completedAt: workoutImports.completedAt
+      })
+      .from(workoutImports)
+      .where(eq(workoutImports.userId, userId))
+      .orderBy(desc(workoutImports.createdAt));
+  }
+}
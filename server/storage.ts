@@ -365,7 +365,9 @@ export class MemStorage implements IStorage {
       mealOrder: log.mealOrder || null,
       scheduledTime: log.scheduledTime || null,
       mealSuitability: log.mealSuitability || null,
-      micronutrients: log.micronutrients || {}
+      micronutrients: log.micronutrients || {},
+      recipeId: log.recipeId || null,
+      aiEstimate: log.aiEstimate || null
     };
     this.nutritionLogs.set(newLog.id, newLog);
     return newLog;
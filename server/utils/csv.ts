@@ -0,0 +1,140 @@
+/**
+ * Minimal CSV/TSV helpers shared by importers and exporters.
+ * Handles quoted fields, escaped quotes ("") and custom delimiters.
+ */
+
+/**
+ * Split a single delimited line into fields
+ */
+export function parseCSVLine(line: string, delimiter: string = ','): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        current += char;
+      }
+    } else if (char === '"' && current === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current);
+  return fields.map(field => field.replace(/\r$/, ''));
+}
+
+/**
+ * Guess the delimiter from a header line (comma, semicolon or tab)
+ */
+export function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+
+  for (const candidate of candidates) {
+    const count = parseCSVLine(headerLine, candidate).length;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Parse full CSV content into records keyed by header name.
+ * Quoted fields may span multiple lines.
+ */
+export function parseCSV(content: string, delimiter?: string): Record<string, string>[] {
+  const lines: string[] = [];
+  let buffer = '';
+
+  // Re-join physical lines that belong to a quoted multi-line field
+  for (const rawLine of content.replace(/^﻿/, '').split('\n')) {
+    buffer = buffer ? `${buffer}\n${rawLine}` : rawLine;
+    const quoteCount = (buffer.match(/"/g) || []).length;
+    if (quoteCount % 2 === 0) {
+      lines.push(buffer);
+      buffer = '';
+    }
+  }
+  if (buffer) lines.push(buffer);
+
+  const nonEmpty = lines.filter(line => line.trim() !== '');
+  if (nonEmpty.length === 0) return [];
+
+  const separator = delimiter || detectDelimiter(nonEmpty[0]);
+  const headers = parseCSVLine(nonEmpty[0], separator).map(header => header.trim());
+
+  return nonEmpty.slice(1).map(line => {
+    const values = parseCSVLine(line, separator);
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = (values[index] ?? '').trim();
+    });
+    return record;
+  });
+}
+
+/**
+ * Serialize a value for a CSV cell, quoting when needed
+ */
+function escapeCSVValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  // Spreadsheets run cells starting with these as formulas. Plain numbers (numeric columns come back
+  // as strings) are left alone so negatives stay numeric.
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !/^[+-]?\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`;
+  }
+
+  if (/[",\n\r]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Build CSV content from flat rows. Columns default to the union of row keys.
+ */
+export function toCSV(rows: Record<string, unknown>[], columns?: string[]): string {
+  const headers = columns || Array.from(
+    rows.reduce((keys, row) => {
+      Object.keys(row).forEach(key => keys.add(key));
+      return keys;
+    }, new Set<string>())
+  );
+
+  const lines = [headers.map(escapeCSVValue).join(',')];
+  for (const row of rows) {
+    lines.push(headers.map(header => escapeCSVValue(row[header])).join(','));
+  }
+
+  return lines.join('\n');
+}
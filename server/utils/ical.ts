@@ -0,0 +1,106 @@
+/**
+ * Minimal iCalendar (RFC 5545) writer for read-only subscription feeds.
+ * Handles text escaping, 75-octet line folding and UTC/all-day date values.
+ */
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  categories?: string[];
+  // Timed events use start/end instants; all-day events use YYYY-MM-DD dates (end exclusive)
+  start: Date | string;
+  end: Date | string;
+  allDay?: boolean;
+}
+
+export interface ICalCalendar {
+  name: string;
+  description?: string;
+  timezone?: string;
+  events: ICalEvent[];
+}
+
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line at 75 octets, continuing with a leading space
+ */
+export function foldICalLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  const limit = () => (parts.length === 0 ? 75 : 74); // continuation lines start with a space
+
+  for (const char of Array.from(line)) {
+    const charBytes = encoder.encode(char).length;
+    if (currentBytes + charBytes > limit()) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+export function formatICalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function formatICalDate(dateString: string): string {
+  return dateString.replace(/-/g, '');
+}
+
+export function buildICalendar(calendar: ICalCalendar, now: Date = new Date()): string {
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TrainPro//Training Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(calendar.name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H'
+  ];
+  if (calendar.description) lines.push(`X-WR-CALDESC:${escapeICalText(calendar.description)}`);
+  if (calendar.timezone) lines.push(`X-WR-TIMEZONE:${calendar.timezone}`);
+
+  const stamp = formatICalDateTime(now);
+
+  for (const event of calendar.events) {
+    lines.push('BEGIN:VEVENT');
+    lines.push(`UID:${event.uid}`);
+    lines.push(`DTSTAMP:${stamp}`);
+
+    if (event.allDay) {
+      lines.push(`DTSTART;VALUE=DATE:${formatICalDate(event.start as string)}`);
+      lines.push(`DTEND;VALUE=DATE:${formatICalDate(event.end as string)}`);
+      lines.push('TRANSP:TRANSPARENT');
+    } else {
+      lines.push(`DTSTART:${formatICalDateTime(event.start as Date)}`);
+      lines.push(`DTEND:${formatICalDateTime(event.end as Date)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeICalText(event.summary)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeICalText).join(',')}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
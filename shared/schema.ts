@@ -1,6 +1,10 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, decimal, varchar, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, decimal, varchar, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
+import { sql } from "drizzle-orm";
 import { z } from "zod";
+import type { ProgressionSchemeMap } from "./utils/progression-schemes";
+import type { MovementPattern } from "./utils/injury-constraints";
+import type { WarmupSchemeOverrides } from "./utils/warmup-sets";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -25,6 +29,9 @@ export const users = pgTable("users", {
   theme: text("theme").notNull().default("dark"),
   showDeveloperFeatures: boolean("show_developer_features").default(false),
   autoAdjustmentSettings: jsonb("auto_adjustment_settings"),
+  calendarFeedToken: text("calendar_feed_token").unique(), // Secret for the public .ics feed URL
+  deloadSettings: jsonb("deload_settings"), // Automatic deload trigger thresholds and volume/load cut rules
+  aiQuotaTier: text("ai_quota_tier"), // AI allowance tier (AI_QUOTA_TIERS in server/config/ai-config), null for the default tier
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   // Replit Auth fields (nullable for existing users)
@@ -50,6 +57,7 @@ export const userProfiles = pgTable("user_profiles", {
   activityLevel: text("activity_level"), // sedentary, lightly_active, moderately_active, very_active
   fitnessGoal: text("fitness_goal").$type<'fat_loss' | 'muscle_gain' | 'maintenance'>(), // Standardized: fat_loss, muscle_gain, maintenance
   dietaryRestrictions: text("dietary_restrictions").array(),
+  warmupSchemes: jsonb("warmup_schemes").$type<WarmupSchemeOverrides>(), // Per-category overrides of WARMUP_SCHEMES, null uses the built-in ones
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -76,10 +84,11 @@ export const pendingOAuthSessions = pgTable("pending_oauth_sessions", {
   sessionId: text("session_id").notNull().unique(),
   provider: text("provider").notNull(), // google, apple
   deviceInfo: text("device_info"),
+  deviceId: text("device_id"), // Random id of the app install that started the flow - only it can claim the session
   createdAt: timestamp("created_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at").notNull(), // Expires after 5 minutes
   consumedAt: timestamp("consumed_at"), // When the session was used
-});
+}, (table) => [index("IDX_pending_oauth_sessions_device").on(table.deviceId)]);
 
 // Registration attempt tracking for security
 export const registrationAttempts = pgTable("registration_attempts", {
@@ -92,6 +101,67 @@ export const registrationAttempts = pgTable("registration_attempts", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Security audit log - sign-ins, lockouts, rate limit hits and account operations
+export const securityEvents = pgTable("security_events", {
+  id: serial("id").primaryKey(),
+  event: text("event").notNull(), // signin_success, signin_failed, account_locked, rate_limited, suspicious_login, password_reset, ...
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  email: text("email"), // Normalized, also set when no account matches
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  details: jsonb("details"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_security_events_email_created").on(table.email, table.createdAt),
+  index("IDX_security_events_ip_created").on(table.ipAddress, table.createdAt),
+  index("IDX_security_events_user_created").on(table.userId, table.createdAt),
+]);
+
+// TOTP two-factor settings - the secret is encrypted at rest and recovery codes are stored as hashes
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  secret: text("secret").notNull(), // AES-GCM encrypted base32 secret
+  enabled: boolean("enabled").default(false).notNull(), // False until enrolment is confirmed with a first code
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().default([]).notNull(), // SHA-256 hashes, removed once used
+  lastUsedStep: integer("last_used_step"), // TOTP time step of the last accepted code, blocks replays
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  enabledAt: timestamp("enabled_at"),
+});
+
+// Devices that skip the 2FA prompt - the cookie carries the token, only its hash is stored
+export const trustedDevices = pgTable("trusted_devices", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_trusted_devices_user").on(table.userId),
+]);
+
+// Coach/athlete relationships - a coach gets read-only access to the athlete's data once the invite is accepted
+export const coachAthleteRelationships = pgTable("coach_athlete_relationships", {
+  id: serial("id").primaryKey(),
+  coachId: integer("coach_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  athleteId: integer("athlete_id").references(() => users.id, { onDelete: "cascade" }), // Set when the invite is accepted
+  inviteEmail: text("invite_email").notNull(),
+  inviteToken: text("invite_token").notNull().unique(),
+  status: text("status", { enum: ["pending", "active", "declined", "revoked"] }).notNull().default("pending"),
+  permissions: text("permissions").array().notNull(), // nutrition, wellness, training, assign_programs
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  respondedAt: timestamp("responded_at"),
+  revokedAt: timestamp("revoked_at"),
+  revokedBy: integer("revoked_by").references(() => users.id),
+}, (table) => [
+  index("IDX_coach_athlete_coach").on(table.coachId, table.status),
+  index("IDX_coach_athlete_athlete").on(table.athleteId, table.status),
+]);
+
 export const nutritionGoals = pgTable("nutrition_goals", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -121,6 +191,8 @@ export const nutritionLogs = pgTable("nutrition_logs", {
   mealSuitability: text("meal_suitability").array(), // pre-workout, post-workout, regular, snack
   // Comprehensive micronutrient data
   micronutrients: jsonb("micronutrients"), // stores MicronutrientData as JSON
+  recipeId: integer("recipe_id").references(() => recipes.id, { onDelete: "set null" }), // set when the entry was logged from a recipe
+  aiEstimate: jsonb("ai_estimate"), // the AI's original estimate when the entry came from AI analysis { source, calories, protein, carbs, fat, quantity, unit } - see server/services/nutrition-estimate-feedback
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -147,7 +219,20 @@ export const foodItems = pgTable("food_items", {
   translations: jsonb("translations"),
   isRestaurant: boolean("is_restaurant").default(false),
   restaurantChain: text("restaurant_chain"),
-});
+  // Local food database fields (bulk imports and remote lookups cached here)
+  brand: text("brand"),
+  source: text("source").default("seed"), // seed, openfoodfacts, usda, user
+  sourceId: text("source_id"), // barcode for OpenFoodFacts, fdcId for USDA
+  micronutrients: jsonb("micronutrients"), // stores MicronutrientData per 100 g as JSON
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_food_items_barcode").on(table.barcode),
+  uniqueIndex("UQ_food_items_source").on(table.source, table.sourceId),
+  index("IDX_food_items_search").using(
+    "gin",
+    sql`to_tsvector('simple', coalesce(${table.name}, '') || ' ' || coalesce(${table.brand}, '') || ' ' || coalesce(${table.translations}::text, ''))`
+  ),
+]);
 
 export const mealPlans = pgTable("meal_plans", {
   id: serial("id").primaryKey(),
@@ -217,6 +302,29 @@ export const weeklyNutritionGoals = pgTable("weekly_nutrition_goals", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Persisted auto-adjustment job queue (one job per user per local week)
+export const autoAdjustmentJobs = pgTable("auto_adjustment_jobs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  weekStartDate: text("week_start_date").notNull(), // YYYY-MM-DD Monday of the run week in the user's timezone
+  timezone: text("timezone").notNull().default("UTC"),
+  frequency: text("frequency").notNull(), // weekly, biweekly
+  status: text("status").notNull().default("pending"), // pending, running, completed, skipped, failed
+  scheduledFor: timestamp("scheduled_for").notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  result: jsonb("result"), // adjustment percentage, new macros, reason
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_auto_adjustment_jobs_user_week").on(table.userId, table.weekStartDate),
+  index("IDX_auto_adjustment_jobs_status").on(table.status, table.scheduledFor),
+]);
+
 // Macro distribution per meal for advanced meal planning
 export const mealMacroDistribution = pgTable("meal_macro_distribution", {
   id: serial("id").primaryKey(),
@@ -285,6 +393,46 @@ export const savedMeals = pgTable("saved_meals", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// User recipes - nutrition is computed server-side from the ingredients
+export const recipes = pgTable("recipes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  servings: decimal("servings", { precision: 6, scale: 2 }).notNull(),
+  yieldWeight: decimal("yield_weight", { precision: 8, scale: 2 }).notNull(), // cooked weight in grams
+  totalCalories: decimal("total_calories", { precision: 8, scale: 2 }).notNull(),
+  totalProtein: decimal("total_protein", { precision: 8, scale: 2 }).notNull(),
+  totalCarbs: decimal("total_carbs", { precision: 8, scale: 2 }).notNull(),
+  totalFat: decimal("total_fat", { precision: 8, scale: 2 }).notNull(),
+  totalMicronutrients: jsonb("total_micronutrients"), // MicronutrientData totals for the whole batch
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_recipes_user").on(table.userId),
+]);
+
+// Recipe ingredients - either a food item, another recipe, or a custom entry with its own nutrition
+export const recipeIngredients = pgTable("recipe_ingredients", {
+  id: serial("id").primaryKey(),
+  recipeId: integer("recipe_id").references(() => recipes.id, { onDelete: "cascade" }).notNull(),
+  position: integer("position").notNull().default(0),
+  foodItemId: integer("food_item_id").references(() => foodItems.id),
+  subRecipeId: integer("sub_recipe_id").references(() => recipes.id),
+  name: text("name").notNull(),
+  quantity: decimal("quantity", { precision: 8, scale: 2 }).notNull(),
+  unit: text("unit").notNull(), // g, ml, serving
+  // Nutrition contributed by this ingredient at the given quantity
+  calories: decimal("calories", { precision: 8, scale: 2 }).notNull(),
+  protein: decimal("protein", { precision: 8, scale: 2 }).notNull(),
+  carbs: decimal("carbs", { precision: 8, scale: 2 }).notNull(),
+  fat: decimal("fat", { precision: 8, scale: 2 }).notNull(),
+  micronutrients: jsonb("micronutrients"),
+}, (table) => [
+  index("IDX_recipe_ingredients_recipe").on(table.recipeId),
+  index("IDX_recipe_ingredients_sub_recipe").on(table.subRecipeId),
+]);
+
 export const trainingPrograms = pgTable("training_programs", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
@@ -488,6 +636,7 @@ export const dietGoals = pgTable("diet_goals", {
   targetFat: decimal("target_fat", { precision: 6, scale: 2 }).notNull(),
   autoRegulation: boolean("auto_regulation").notNull().default(true),
   weeklyWeightTarget: decimal("weekly_weight_target", { precision: 4, scale: 2 }), // kg per week
+  calorieCycling: jsonb("calorie_cycling"), // { enabled, trainingDayRatio, refeedRatio, refeedDays } - see shared/utils/calorie-cycling
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -513,6 +662,7 @@ export const mesocycles = pgTable("mesocycles", {
   userId: integer("user_id").references(() => users.id).notNull(),
   programId: integer("program_id").references(() => trainingPrograms.id),
   templateId: integer("template_id").references(() => trainingTemplates.id),
+  assignedBy: integer("assigned_by").references(() => users.id), // Coach who assigned this mesocycle
   name: text("name").notNull(),
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
@@ -523,9 +673,27 @@ export const mesocycles = pgTable("mesocycles", {
   isPaused: boolean("is_paused").default(false),
   pauseReason: text("pause_reason"),
   pausedAt: timestamp("paused_at"),
+  progressionSchemes: jsonb("progression_schemes").$type<ProgressionSchemeMap>().default({}).notNull(), // Exercise id -> progression scheme, RPE-driven when absent
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Deload weeks proposed or scheduled by the fatigue/performance trigger, with the reasoning behind them
+export const deloadRecommendations = pgTable("deload_recommendations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  mesocycleId: integer("mesocycle_id").references(() => mesocycles.id, { onDelete: "cascade" }).notNull(),
+  week: integer("week").notNull(), // Mesocycle week the deload occupies
+  status: text("status", { enum: ["proposed", "scheduled", "dismissed"] }).notNull().default("proposed"),
+  triggers: text("triggers").array().notNull(), // fatigue, performance_regression
+  fatigueScore: decimal("fatigue_score", { precision: 4, scale: 2 }),
+  reasons: jsonb("reasons").notNull(), // Human-readable reasoning shown to the user
+  regressions: jsonb("regressions"), // Key lifts whose e1RM dropped: { exerciseId, exerciseName, peakE1RM, recentE1RM, dropPercentage }
+  rules: jsonb("rules").notNull(), // Volume/load cuts applied: { volumeReduction, loadReduction }
+  autoInserted: boolean("auto_inserted").default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  respondedAt: timestamp("responded_at"),
+}, (table) => [index("IDX_deload_recommendations_mesocycle").on(table.mesocycleId, table.status)]);
+
 // Load progression tracking
 export const loadProgressionTracking = pgTable("load_progression_tracking", {
   id: serial("id").primaryKey(),
@@ -537,11 +705,43 @@ export const loadProgressionTracking = pgTable("load_progression_tracking", {
   targetWeight: decimal("target_weight", { precision: 6, scale: 2 }),
   rpeAverage: decimal("rpe_average", { precision: 3, scale: 1 }),
   rirAverage: decimal("rir_average", { precision: 3, scale: 1 }),
-  progressionType: text("progression_type").notNull(), // weight, reps, volume
+  progressionType: text("progression_type").notNull(), // Scheme: rpe, double_progression, linear, percentage_wave (older records: weight, reps, volume)
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Personal records detected on workout completion (e1RM, rep and volume PRs)
+export const personalRecords = pgTable("personal_records", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  exerciseId: integer("exercise_id").references(() => exercises.id).notNull(),
+  sessionId: integer("session_id").references(() => workoutSessions.id).notNull(),
+  recordType: text("record_type", { enum: ["e1rm", "reps", "volume"] }).notNull(),
+  value: decimal("value", { precision: 10, scale: 2 }).notNull(), // e1RM (kg), reps, or session volume (kg)
+  previousValue: decimal("previous_value", { precision: 10, scale: 2 }),
+  weight: decimal("weight", { precision: 6, scale: 2 }), // Load used for the record set, in weightUnit
+  reps: integer("reps"),
+  weightUnit: text("weight_unit", { enum: ["kg", "lbs"] }).default("kg"),
+  achievedAt: timestamp("achieved_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_personal_records_user_exercise").on(table.userId, table.exerciseId)]);
+
+// Workout history imported from other training apps (Strong, Hevy, FitNotes CSV exports)
+export const workoutImports = pgTable("workout_imports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  source: text("source", { enum: ["strong", "hevy", "fitnotes"] }).notNull(),
+  fileName: text("file_name"),
+  status: text("status", { enum: ["pending_review", "importing", "completed", "failed"] }).notNull().default("pending_review"), // importing while a confirm is writing it
+  weightUnit: text("weight_unit", { enum: ["kg", "lbs"] }).notNull().default("kg"),
+  parsedData: jsonb("parsed_data").notNull(), // Parsed sessions awaiting confirmation
+  exerciseMapping: jsonb("exercise_mapping"), // { [sourceExerciseName]: exerciseId | null (skipped) }
+  summary: jsonb("summary"), // Counts of created sessions, exercises, sets and skipped rows
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [index("IDX_workout_imports_user").on(table.userId)]);
+
 // Weight goals table for user weight targets
 export const weightGoals = pgTable("weight_goals", {
   id: serial("id").primaryKey(),
@@ -575,9 +775,145 @@ export const savedWorkoutTemplates = pgTable("saved_workout_templates", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Gym equipment profiles (home gym, commercial gym, ...) - recommended loads snap to what the active profile can build
+export const equipmentProfiles = pgTable("equipment_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  unit: text("unit", { enum: ["kg", "lbs"] }).default("kg").notNull(), // Unit of every weight in the profile
+  barWeight: decimal("bar_weight", { precision: 6, scale: 2 }).notNull(),
+  plates: jsonb("plates").$type<{ weight: number; pairs: number }[]>().default([]).notNull(),
+  dumbbells: jsonb("dumbbells").$type<number[]>().default([]).notNull(), // Every available dumbbell weight
+  machineIncrement: decimal("machine_increment", { precision: 6, scale: 2 }).notNull(), // Stack pin step, also used for cables
+  machineMax: decimal("machine_max", { precision: 6, scale: 2 }).notNull(),
+  microplates: jsonb("microplates").$type<number[]>().default([]).notNull(), // Fractional plates, one pair of each
+  excludedEquipment: jsonb("excluded_equipment").$type<string[]>().default([]).notNull(), // Exercise equipment this gym lacks (e.g. cable) - never suggested as a substitute
+  isActive: boolean("is_active").default(false).notNull(), // At most one active profile per user
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_equipment_profiles_user").on(table.userId),
+]);
+
+// Injuries and pain - active ones keep aggravating exercises out of recommendations and substitutes
+export const injuries = pgTable("injuries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  bodyRegion: text("body_region", { enum: ["neck", "shoulder", "elbow", "wrist", "chest", "upper_back", "lower_back", "hip", "knee", "ankle"] }).notNull(),
+  side: text("side", { enum: ["left", "right", "both"] }), // null for midline regions
+  severity: text("severity", { enum: ["mild", "moderate", "severe"] }).notNull(), // mild only flags exercises, moderate and severe exclude them
+  aggravatingPatterns: jsonb("aggravating_patterns").$type<MovementPattern[]>().default([]).notNull(), // Empty - the region's usual patterns apply
+  notes: text("notes"),
+  startDate: timestamp("start_date").notNull(),
+  resolvedDate: timestamp("resolved_date"), // null while the injury is active
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_injuries_user").on(table.userId),
+]);
+
+// AI prompt versions - every edit of a registry prompt is a new row; the active row overrides the built-in default
+export const aiPromptVersions = pgTable("ai_prompt_versions", {
+  id: serial("id").primaryKey(),
+  promptId: text("prompt_id").notNull(), // e.g. exercise-recommendations-v1
+  service: text("service").notNull(),
+  version: text("version").notNull(), // semver, bumped on every update
+  systemPrompt: text("system_prompt").notNull(),
+  userPromptTemplate: text("user_prompt_template").notNull(),
+  parameters: jsonb("parameters").notNull(), // { temperature, maxTokens, responseFormat }
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(false),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_ai_prompt_versions_prompt_version").on(table.promptId, table.version),
+]);
+
+// AI experiments - users are assigned to a variant by hashing experiment name + user ID
+export const aiExperiments = pgTable("ai_experiments", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  service: text("service").notNull(), // exercise-recommendations, nutrition-analysis, ...
+  status: text("status", { enum: ["active", "paused", "completed"] }).notNull().default("active"),
+  variants: jsonb("variants").notNull(), // [{ name, weight, model?, promptVersion? }] - first variant is the control
+  description: text("description"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  endedAt: timestamp("ended_at"),
+});
+
+// Per-request AI metrics for performance, cost and experiment reporting
+export const aiRequestMetrics = pgTable("ai_request_metrics", {
+  id: serial("id").primaryKey(),
+  requestId: text("request_id").notNull().unique(),
+  userId: integer("user_id").references(() => users.id),
+  service: text("service").notNull(),
+  model: text("model").notNull(),
+  provider: text("provider"),
+  promptVersion: text("prompt_version"),
+  experimentName: text("experiment_name"),
+  variant: text("variant"),
+  responseTimeMs: integer("response_time_ms").notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  cost: decimal("cost", { precision: 12, scale: 8 }).notNull().default("0"), // USD from the model's costPerToken
+  success: boolean("success").notNull(),
+  jsonParseable: boolean("json_parseable").notNull().default(false),
+  contentLength: integer("content_length").notNull().default(0),
+  errorMessage: text("error_message"),
+  userRating: integer("user_rating"), // 1-5, set by the user after the response
+  userFeedback: text("user_feedback"),
+  ratedAt: timestamp("rated_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_ai_request_metrics_service_created").on(table.service, table.createdAt),
+  index("IDX_ai_request_metrics_experiment").on(table.experimentName, table.variant),
+  index("IDX_ai_request_metrics_user_created").on(table.userId, table.createdAt),
+]);
+
+// AI coach conversations - chat threads where the model answers from the user's own data via tools
+export const aiConversations = pgTable("ai_conversations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  title: text("title").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_ai_conversations_user").on(table.userId, table.updatedAt),
+]);
+
+export const aiConversationMessages = pgTable("ai_conversation_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").references(() => aiConversations.id, { onDelete: "cascade" }).notNull(),
+  role: text("role", { enum: ["user", "assistant", "tool"] }).notNull(),
+  content: text("content").notNull(),
+  // tool: { ref, tool, arguments, result }; assistant: { citations: [{ ref, tool, arguments }], actionIds }
+  data: jsonb("data"),
+  requestId: text("request_id"), // ai_request_metrics row of the model call that produced an assistant message
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_ai_conversation_messages_conversation").on(table.conversationId, table.createdAt),
+]);
+
+// Write actions proposed by the AI coach - nothing is changed until the user confirms
+export const aiPendingActions = pgTable("ai_pending_actions", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").references(() => aiConversations.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: text("type", { enum: ["log_food", "swap_exercise"] }).notNull(),
+  payload: jsonb("payload").notNull(), // validated tool arguments
+  summary: text("summary").notNull(), // what will happen, shown on the confirmation prompt
+  status: text("status", { enum: ["pending", "confirmed", "rejected", "failed"] }).notNull().default("pending"),
+  result: jsonb("result"), // created log / substitution, or { error }
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
 export const insertUserProfileSchema = createInsertSchema(userProfiles).omit({ id: true, updatedAt: true });
+export const insertCoachAthleteRelationshipSchema = createInsertSchema(coachAthleteRelationships).omit({ id: true, createdAt: true });
 export const insertNutritionGoalSchema = createInsertSchema(nutritionGoals).omit({ id: true, createdAt: true });
 export const insertNutritionLogSchema = createInsertSchema(nutritionLogs).omit({ id: true, createdAt: true });
 export const insertTrainingProgramSchema = createInsertSchema(trainingPrograms).omit({ id: true, createdAt: true });
@@ -589,7 +925,7 @@ export const insertWeightLogSchema = createInsertSchema(weightLogs).omit({ id: t
 
 // Enhanced nutrition schema insert types
 export const insertFoodCategorySchema = createInsertSchema(foodCategories).omit({ id: true });
-export const insertFoodItemSchema = createInsertSchema(foodItems).omit({ id: true });
+export const insertFoodItemSchema = createInsertSchema(foodItems).omit({ id: true, updatedAt: true });
 export const insertMealPlanSchema = createInsertSchema(mealPlans).omit({ id: true, createdAt: true });
 export const insertWeeklyNutritionGoalSchema = createInsertSchema(weeklyNutritionGoals).omit({ id: true, createdAt: true });
 export const insertDailyWellnessCheckinSchema = createInsertSchema(dailyWellnessCheckins).omit({ id: true, createdAt: true, updatedAt: true });
@@ -597,6 +933,8 @@ export const insertWeeklyWellnessSummarySchema = createInsertSchema(weeklyWellne
 export const insertDietPhaseSchema = createInsertSchema(dietPhases).omit({ id: true, createdAt: true });
 export const insertMealTimingPreferenceSchema = createInsertSchema(mealTimingPreferences).omit({ id: true, updatedAt: true });
 export const insertSavedMealSchema = createInsertSchema(savedMeals).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertRecipeSchema = createInsertSchema(recipes).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertRecipeIngredientSchema = createInsertSchema(recipeIngredients).omit({ id: true });
 export const insertBodyMetricSchema = createInsertSchema(bodyMetrics).omit({ id: true, createdAt: true });
 export const insertSavedMealPlanSchema = createInsertSchema(savedMealPlans).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertDietGoalSchema = createInsertSchema(dietGoals).omit({ id: true, createdAt: true, updatedAt: true });
@@ -604,9 +942,20 @@ export const insertDietGoalSchema = createInsertSchema(dietGoals).omit({ id: tru
 // Step 4: Advanced Training System Schemas
 export const insertTrainingTemplateSchema = createInsertSchema(trainingTemplates).omit({ id: true, createdAt: true });
 export const insertMesocycleSchema = createInsertSchema(mesocycles).omit({ id: true, createdAt: true });
+export const insertDeloadRecommendationSchema = createInsertSchema(deloadRecommendations).omit({ id: true, createdAt: true });
 export const insertLoadProgressionTrackingSchema = createInsertSchema(loadProgressionTracking).omit({ id: true, createdAt: true });
 export const insertWeightGoalSchema = createInsertSchema(weightGoals).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertPersonalRecordSchema = createInsertSchema(personalRecords).omit({ id: true, createdAt: true });
+export const insertWorkoutImportSchema = createInsertSchema(workoutImports).omit({ id: true, createdAt: true });
+export const insertAiPromptVersionSchema = createInsertSchema(aiPromptVersions).omit({ id: true, createdAt: true });
+export const insertAiExperimentSchema = createInsertSchema(aiExperiments).omit({ id: true, createdAt: true });
+export const insertAiRequestMetricSchema = createInsertSchema(aiRequestMetrics).omit({ id: true, createdAt: true });
+export const insertAiConversationSchema = createInsertSchema(aiConversations).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertAiConversationMessageSchema = createInsertSchema(aiConversationMessages).omit({ id: true, createdAt: true });
+export const insertAiPendingActionSchema = createInsertSchema(aiPendingActions).omit({ id: true, createdAt: true, resolvedAt: true });
 export const insertSavedWorkoutTemplateSchema = createInsertSchema(savedWorkoutTemplates).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertEquipmentProfileSchema = createInsertSchema(equipmentProfiles).omit({ id: true, userId: true, isActive: true, createdAt: true, updatedAt: true });
+export const insertInjurySchema = createInsertSchema(injuries).omit({ id: true, userId: true, createdAt: true, updatedAt: true });
 
 // Step 2: Volume Landmarks System Schemas
 export const insertMuscleGroupSchema = createInsertSchema(muscleGroups).omit({ id: true });
@@ -615,6 +964,7 @@ export const insertWeeklyVolumeTrackingSchema = createInsertSchema(weeklyVolumeT
 export const insertExerciseMuscleMapping = createInsertSchema(exerciseMuscleMapping).omit({ id: true });
 export const insertMealMacroDistributionSchema = createInsertSchema(mealMacroDistribution).omit({ id: true, createdAt: true });
 export const insertMacroFlexibilityRuleSchema = createInsertSchema(macroFlexibilityRules).omit({ id: true, createdAt: true });
+export const insertAutoAdjustmentJobSchema = createInsertSchema(autoAdjustmentJobs).omit({ id: true, createdAt: true });
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -622,6 +972,8 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpsertUser = typeof users.$inferInsert;
 export type UserProfile = typeof userProfiles.$inferSelect;
 export type InsertUserProfile = z.infer<typeof insertUserProfileSchema>;
+export type CoachAthleteRelationship = typeof coachAthleteRelationships.$inferSelect;
+export type InsertCoachAthleteRelationship = z.infer<typeof insertCoachAthleteRelationshipSchema>;
 export type NutritionGoal = typeof nutritionGoals.$inferSelect;
 export type InsertNutritionGoal = z.infer<typeof insertNutritionGoalSchema>;
 export type NutritionLog = typeof nutritionLogs.$inferSelect;
@@ -648,6 +1000,8 @@ export type MealPlan = typeof mealPlans.$inferSelect;
 export type InsertMealPlan = z.infer<typeof insertMealPlanSchema>;
 export type WeeklyNutritionGoal = typeof weeklyNutritionGoals.$inferSelect;
 export type InsertWeeklyNutritionGoal = z.infer<typeof insertWeeklyNutritionGoalSchema>;
+export type AutoAdjustmentJob = typeof autoAdjustmentJobs.$inferSelect;
+export type InsertAutoAdjustmentJob = z.infer<typeof insertAutoAdjustmentJobSchema>;
 export type DailyWellnessCheckin = typeof dailyWellnessCheckins.$inferSelect;
 export type InsertDailyWellnessCheckin = z.infer<typeof insertDailyWellnessCheckinSchema>;
 export type WeeklyWellnessSummary = typeof weeklyWellnessSummaries.$inferSelect;
@@ -658,6 +1012,10 @@ export type MealTimingPreference = typeof mealTimingPreferences.$inferSelect;
 export type InsertMealTimingPreference = z.infer<typeof insertMealTimingPreferenceSchema>;
 export type SavedMeal = typeof savedMeals.$inferSelect;
 export type InsertSavedMeal = z.infer<typeof insertSavedMealSchema>;
+export type Recipe = typeof recipes.$inferSelect;
+export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
+export type RecipeIngredient = typeof recipeIngredients.$inferSelect;
+export type InsertRecipeIngredient = z.infer<typeof insertRecipeIngredientSchema>;
 export type BodyMetric = typeof bodyMetrics.$inferSelect;
 export type InsertBodyMetric = z.infer<typeof insertBodyMetricSchema>;
 export type SavedMealPlan = typeof savedMealPlans.$inferSelect;
@@ -670,10 +1028,32 @@ export type TrainingTemplate = typeof trainingTemplates.$inferSelect;
 export type InsertTrainingTemplate = z.infer<typeof insertTrainingTemplateSchema>;
 export type Mesocycle = typeof mesocycles.$inferSelect;
 export type InsertMesocycle = z.infer<typeof insertMesocycleSchema>;
+export type DeloadRecommendation = typeof deloadRecommendations.$inferSelect;
+export type InsertDeloadRecommendation = z.infer<typeof insertDeloadRecommendationSchema>;
 export type LoadProgressionTracking = typeof loadProgressionTracking.$inferSelect;
 export type InsertLoadProgressionTracking = z.infer<typeof insertLoadProgressionTrackingSchema>;
 export type WeightGoal = typeof weightGoals.$inferSelect;
 export type InsertWeightGoal = z.infer<typeof insertWeightGoalSchema>;
+export type PersonalRecord = typeof personalRecords.$inferSelect;
+export type InsertPersonalRecord = z.infer<typeof insertPersonalRecordSchema>;
+export type WorkoutImport = typeof workoutImports.$inferSelect;
+export type InsertWorkoutImport = z.infer<typeof insertWorkoutImportSchema>;
+export type AiPromptVersion = typeof aiPromptVersions.$inferSelect;
+export type InsertAiPromptVersion = z.infer<typeof insertAiPromptVersionSchema>;
+export type AiExperiment = typeof aiExperiments.$inferSelect;
+export type InsertAiExperiment = z.infer<typeof insertAiExperimentSchema>;
+export type AiRequestMetric = typeof aiRequestMetrics.$inferSelect;
+export type InsertAiRequestMetric = z.infer<typeof insertAiRequestMetricSchema>;
+export type AiConversation = typeof aiConversations.$inferSelect;
+export type InsertAiConversation = z.infer<typeof insertAiConversationSchema>;
+export type AiConversationMessage = typeof aiConversationMessages.$inferSelect;
+export type InsertAiConversationMessage = z.infer<typeof insertAiConversationMessageSchema>;
+export type AiPendingAction = typeof aiPendingActions.$inferSelect;
+export type InsertAiPendingAction = z.infer<typeof insertAiPendingActionSchema>;
+export type EquipmentProfile = typeof equipmentProfiles.$inferSelect;
+export type InsertEquipmentProfile = z.infer<typeof insertEquipmentProfileSchema>;
+export type Injury = typeof injuries.$inferSelect;
+export type InsertInjury = z.infer<typeof insertInjurySchema>;
 
 // Step 2: Volume Landmarks System Types
 export type MuscleGroup = typeof muscleGroups.$inferSelect;
@@ -764,10 +1144,15 @@ export type SpecialMethodConfig =
 export type AutoRegulationFeedbackType = typeof autoRegulationFeedback.$inferSelect;
 export type EmailVerificationTokenType = typeof emailVerificationTokens.$inferSelect;
 export type RegistrationAttemptType = typeof registrationAttempts.$inferSelect;
+export type SecurityEvent = typeof securityEvents.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type TrustedDevice = typeof trustedDevices.$inferSelect;
 
 // Enhanced schema definitions for registration system
 export const insertEmailVerificationTokenSchema = createInsertSchema(emailVerificationTokens);
 export const insertRegistrationAttemptSchema = createInsertSchema(registrationAttempts);
+export const insertSecurityEventSchema = createInsertSchema(securityEvents).omit({ id: true, createdAt: true });
 
 export type InsertEmailVerificationToken = z.infer<typeof insertEmailVerificationTokenSchema>;
 export type InsertRegistrationAttempt = z.infer<typeof insertRegistrationAttemptSchema>;
+export type InsertSecurityEvent = z.infer<typeof insertSecurityEventSchema>;
@@ -0,0 +1,96 @@
+/**
+ * Calorie/carb cycling
+ * Splits the weekly calorie budget into training, rest and refeed day targets.
+ * Protein and fat stay constant; the calorie difference between day types is carried by carbs.
+ */
+
+export type CycleDayType = 'training' | 'rest' | 'refeed';
+
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface CalorieCyclingSettings {
+  enabled: boolean;
+  trainingDayRatio: number; // Training day calories relative to a rest day (1.15 = 15% more)
+  refeedRatio: number; // Refeed day calories relative to a rest day
+  refeedDays: Weekday[]; // Fixed refeed weekdays, they take precedence over training/rest
+}
+
+export interface DailyMacroTargets {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+}
+
+export const DEFAULT_CALORIE_CYCLING: CalorieCyclingSettings = {
+  enabled: false,
+  trainingDayRatio: 1.15,
+  refeedRatio: 1.4,
+  refeedDays: []
+};
+
+export function normalizeCalorieCyclingSettings(input: unknown): CalorieCyclingSettings {
+  const settings = (input && typeof input === 'object' ? input : {}) as Partial<Record<keyof CalorieCyclingSettings, unknown>>;
+  const ratio = (value: unknown, fallback: number) => {
+    const parsed = Number(value);
+    return value === undefined || value === null || isNaN(parsed) ? fallback : Math.min(2, Math.max(1, parsed));
+  };
+
+  return {
+    enabled: settings.enabled === true,
+    trainingDayRatio: ratio(settings.trainingDayRatio, DEFAULT_CALORIE_CYCLING.trainingDayRatio),
+    refeedRatio: ratio(settings.refeedRatio, DEFAULT_CALORIE_CYCLING.refeedRatio),
+    refeedDays: Array.isArray(settings.refeedDays)
+      ? settings.refeedDays
+          .map(day => String(day).toLowerCase())
+          .filter((day): day is Weekday => (WEEKDAYS as readonly string[]).includes(day))
+          .slice(0, 2)
+      : []
+  };
+}
+
+/**
+ * Weekday name of a YYYY-MM-DD date
+ */
+export function getWeekday(dateString: string): Weekday {
+  return WEEKDAYS[(new Date(`${dateString}T00:00:00Z`).getUTCDay() + 6) % 7];
+}
+
+function macrosForCalories(calories: number, protein: number, fat: number): DailyMacroTargets {
+  const roundedCalories = Math.round(calories);
+  const carbs = (roundedCalories - protein * 4 - fat * 9) / 4;
+
+  // Very low days: drop carbs to zero before cutting into fat
+  if (carbs < 0) {
+    return {
+      calories: roundedCalories,
+      protein,
+      carbs: 0,
+      fat: Math.max(0, Math.round((roundedCalories - protein * 4) / 9))
+    };
+  }
+
+  return { calories: roundedCalories, protein, carbs: Math.round(carbs), fat };
+}
+
+/**
+ * Derive per-day-type targets that add up to the same weekly budget as the flat daily target
+ */
+export function calculateCycledTargets(
+  base: DailyMacroTargets,
+  dayTypes: CycleDayType[],
+  settings: CalorieCyclingSettings
+): Record<CycleDayType, DailyMacroTargets> {
+  const weeklyBudget = base.calories * dayTypes.length;
+  const count = (type: CycleDayType) => dayTypes.filter(dayType => dayType === type).length;
+
+  const weight = count('training') * settings.trainingDayRatio + count('rest') + count('refeed') * settings.refeedRatio;
+  const restCalories = weight > 0 ? weeklyBudget / weight : base.calories;
+
+  return {
+    training: macrosForCalories(restCalories * settings.trainingDayRatio, base.protein, base.fat),
+    rest: macrosForCalories(restCalories, base.protein, base.fat),
+    refeed: macrosForCalories(restCalories * settings.refeedRatio, base.protein, base.fat)
+  };
+}
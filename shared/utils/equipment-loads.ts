@@ -0,0 +1,246 @@
+/**
+ * Equipment Load Utilities
+ * Works out which loads a lifter can actually build with the equipment in their gym
+ * (bar + plate pairs, fixed dumbbells, machine stacks, microplates) and how to load a bar.
+ */
+
+import type { WeightUnit } from "./metric-conversion";
+
+export type LoadingType = 'barbell' | 'dumbbell' | 'machine' | 'bodyweight' | 'other';
+
+export interface PlatePair {
+  weight: number;
+  pairs: number; // Number of pairs available - one plate of each pair goes on each side
+}
+
+export interface EquipmentSetup {
+  unit: WeightUnit;
+  barWeight: number;
+  plates: PlatePair[];
+  dumbbells: number[]; // Every fixed or selectable dumbbell weight available
+  machineIncrement: number; // Stack pin step, also used for cables
+  machineMax: number;
+  microplates: number[]; // Fractional plates, one pair each - added per side on bars, once on dumbbells and stacks
+}
+
+export interface PlateBreakdown {
+  barWeight: number;
+  perSide: number[]; // Plates for one side, heaviest first
+  total: number; // What the bar actually weighs with these plates
+  exact: boolean; // false when the requested load can't be built and `total` is the nearest lower load
+}
+
+const range = (from: number, to: number, step: number): number[] =>
+  Array.from({ length: Math.floor((to - from) / step) + 1 }, (_, index) => Math.round((from + index * step) * 100) / 100);
+
+// Sensible starting points for new profiles
+export const DEFAULT_EQUIPMENT_SETUPS: Record<WeightUnit, EquipmentSetup> = {
+  kg: {
+    unit: 'kg',
+    barWeight: 20,
+    plates: [
+      { weight: 25, pairs: 4 },
+      { weight: 20, pairs: 4 },
+      { weight: 15, pairs: 2 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 },
+      { weight: 2.5, pairs: 2 },
+      { weight: 1.25, pairs: 2 },
+    ],
+    dumbbells: [...range(1, 10, 1), ...range(12, 50, 2)],
+    machineIncrement: 5,
+    machineMax: 150,
+    microplates: [],
+  },
+  lbs: {
+    unit: 'lbs',
+    barWeight: 45,
+    plates: [
+      { weight: 45, pairs: 6 },
+      { weight: 35, pairs: 2 },
+      { weight: 25, pairs: 2 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 },
+      { weight: 2.5, pairs: 2 },
+    ],
+    dumbbells: [...range(5, 100, 5), ...range(110, 150, 10)],
+    machineIncrement: 10,
+    machineMax: 300,
+    microplates: [],
+  },
+};
+
+// Loads are compared in hundredths so fractional plates don't pick up float error
+const toUnits = (weight: number) => Math.round(weight * 100);
+const fromUnits = (units: number) => units / 100;
+
+// Plates and microplates come in quarter steps - keeps the number of distinct per-side loads small
+export const PLATE_WEIGHT_STEP = 0.25;
+export const MAX_PLATES_PER_SIDE = 40;
+// Heaviest bar load worth working out loadings for, bar included
+export const MAX_BAR_LOAD: Record<WeightUnit, number> = { kg: 500, lbs: 1100 };
+
+const MAX_CACHED_LOADINGS = 100;
+const loadingCache = new Map<string, Map<number, number[]>>();
+
+/**
+ * How an exercise is loaded, from the exercise library's equipment field - matches variants
+ * such as "dumbbells", "cable_machine" or "leg_press_machine"
+ */
+export function getLoadingType(equipment: string | null | undefined, isBodyWeight?: boolean | null): LoadingType {
+  if (isBodyWeight) return 'bodyweight';
+
+  const value = (equipment || '').toLowerCase();
+  if (value.includes('dumbbell')) return 'dumbbell';
+  if (value.includes('smith') || value.includes('machine') || value.includes('cable')) return 'machine';
+  if (value.includes('barbell')) return 'barbell';
+  if (value === 'bodyweight') return 'bodyweight';
+  return 'other';
+}
+
+/**
+ * Every distinct sum from picking at most one of each weight, in units
+ */
+function subsetSums(weights: number[]): number[] {
+  let sums = new Set<number>([0]);
+  weights.forEach(weight => {
+    const next = new Set(sums);
+    sums.forEach(sum => next.add(sum + toUnits(weight)));
+    sums = next;
+  });
+  return Array.from(sums).sort((a, b) => a - b);
+}
+
+// Fewer plates wins; on a tie the loading with heavier plates first, the way lifters load a bar
+const isBetterLoading = (candidate: number[], existing: number[]): boolean => {
+  if (candidate.length !== existing.length) return candidate.length < existing.length;
+  const index = candidate.findIndex((plate, i) => plate !== existing[i]);
+  return index >= 0 && candidate[index] > existing[index];
+};
+
+/**
+ * Fewest-plates loading for every buildable per-side weight up to MAX_BAR_LOAD, keyed by units.
+ * Memoized per plate set - callers must not mutate the result.
+ */
+function perSideLoadings(setup: EquipmentSetup): Map<number, number[]> {
+  const plates = [
+    ...setup.plates.flatMap(plate => Array.from({ length: Math.max(0, Math.floor(plate.pairs)) }, () => plate.weight)),
+    ...setup.microplates
+  ]
+    .filter(weight => weight > 0)
+    .sort((a, b) => b - a)
+    .slice(0, MAX_PLATES_PER_SIDE);
+  const maxPerSide = Math.max(0, (toUnits(MAX_BAR_LOAD[setup.unit] ?? MAX_BAR_LOAD.kg) - toUnits(setup.barWeight)) / 2);
+
+  const cacheKey = `${setup.unit}:${setup.barWeight}:${plates.join(',')}`;
+  const cached = loadingCache.get(cacheKey);
+  if (cached) return cached;
+
+  const loadings = new Map<number, number[]>([[0, []]]);
+  plates.forEach(plate => {
+    // Snapshot first - each physical plate can only be used once
+    Array.from(loadings.entries()).forEach(([sum, loading]) => {
+      const next = sum + toUnits(plate);
+      if (next > maxPerSide) return;
+      const candidate = [...loading, plate];
+      const existing = loadings.get(next);
+      if (!existing || isBetterLoading(candidate, existing)) {
+        loadings.set(next, candidate);
+      }
+    });
+  });
+
+  if (loadingCache.size >= MAX_CACHED_LOADINGS) {
+    loadingCache.delete(loadingCache.keys().next().value!);
+  }
+  loadingCache.set(cacheKey, loadings);
+  return loadings;
+}
+
+/**
+ * Every total load that can be built for the loading type, lightest first. Empty for bodyweight and
+ * unknown equipment, where any load is accepted.
+ */
+export function getAchievableLoads(type: LoadingType, setup: EquipmentSetup): number[] {
+  if (type === 'barbell') {
+    const bar = toUnits(setup.barWeight);
+    return Array.from(perSideLoadings(setup).keys())
+      .map(perSide => fromUnits(bar + perSide * 2))
+      .sort((a, b) => a - b);
+  }
+
+  if (type !== 'dumbbell' && type !== 'machine') return [];
+
+  const bases = type === 'dumbbell'
+    ? setup.dumbbells.filter(weight => weight > 0).map(toUnits)
+    : setup.machineIncrement > 0
+      ? range(setup.machineIncrement, Math.max(setup.machineIncrement, setup.machineMax), setup.machineIncrement).map(toUnits)
+      : [];
+  const extras = subsetSums(setup.microplates.filter(weight => weight > 0));
+
+  const loads = new Set<number>();
+  bases.forEach(base => extras.forEach(extra => loads.add(base + extra)));
+  return Array.from(loads).sort((a, b) => a - b).map(fromUnits);
+}
+
+/**
+ * Snap a target load to the nearest buildable one. `direction` picks the nearest load at or
+ * below / at or above the target instead. Returns the target unchanged when nothing constrains it.
+ */
+export function snapToAchievableLoad(
+  target: number,
+  type: LoadingType,
+  setup: EquipmentSetup,
+  direction: 'nearest' | 'down' | 'up' = 'nearest'
+): number {
+  const loads = getAchievableLoads(type, setup);
+  if (loads.length === 0 || isNaN(target)) return target;
+
+  const below = loads.filter(load => load <= target + 1e-9);
+  const above = loads.filter(load => load >= target - 1e-9);
+  const lower = below.length > 0 ? below[below.length - 1] : undefined;
+  const upper = above.length > 0 ? above[0] : undefined;
+
+  if (direction === 'down') return lower ?? loads[0];
+  if (direction === 'up') return upper ?? loads[loads.length - 1];
+  if (lower === undefined) return upper!;
+  if (upper === undefined) return lower;
+  // Ties go to the lighter load
+  return target - lower <= upper - target ? lower : upper;
+}
+
+/**
+ * Smallest step up from the current load the equipment allows, or null when nothing heavier can be built
+ */
+export function getNextLoadStep(currentWeight: number, type: LoadingType, setup: EquipmentSetup): number | null {
+  const loads = getAchievableLoads(type, setup);
+  if (loads.length === 0) return null;
+
+  const next = loads.find(load => load > currentWeight + 1e-9);
+  return next === undefined ? null : Math.round((next - currentWeight) * 100) / 100;
+}
+
+/**
+ * Plates per side for a barbell load. When the load can't be built, returns the heaviest buildable load below it.
+ */
+export function calculatePlateBreakdown(totalWeight: number, setup: EquipmentSetup): PlateBreakdown {
+  const bar = toUnits(setup.barWeight);
+  const target = toUnits(totalWeight);
+  const loadings = perSideLoadings(setup);
+
+  if (target <= bar) {
+    return { barWeight: setup.barWeight, perSide: [], total: setup.barWeight, exact: target === bar };
+  }
+
+  const perSideTarget = (target - bar) / 2;
+  const best = Array.from(loadings.keys())
+    .filter(perSide => perSide <= perSideTarget)
+    .reduce((max, perSide) => Math.max(max, perSide), 0);
+
+  return {
+    barWeight: setup.barWeight,
+    perSide: (loadings.get(best) || []).slice(),
+    total: fromUnits(bar + best * 2),
+    exact: best === perSideTarget
+  };
+}
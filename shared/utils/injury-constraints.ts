@@ -0,0 +1,193 @@
+/**
+ * Injury Constraint Utilities
+ * Maps exercises to the movement patterns that load a painful area ("left shoulder hurts on
+ * overhead pressing") and decides which exercises an active injury rules out. Patterns are
+ * matched against exercise names, like the strength standards - the library's movementPattern
+ * field only says compound / isolation.
+ */
+
+export type BodyRegion =
+  | 'neck' | 'shoulder' | 'elbow' | 'wrist' | 'chest' | 'upper_back'
+  | 'lower_back' | 'hip' | 'knee' | 'ankle';
+
+export type InjurySeverity = 'mild' | 'moderate' | 'severe';
+
+export type MovementPattern =
+  | 'overhead_press' | 'horizontal_press' | 'chest_fly' | 'shoulder_raise'
+  | 'vertical_pull' | 'horizontal_pull' | 'elbow_flexion' | 'elbow_extension' | 'grip'
+  | 'squat' | 'hinge' | 'knee_extension' | 'knee_flexion' | 'calf_raise'
+  | 'spinal_flexion' | 'rotation';
+
+export interface InjuryConstraint {
+  id: number;
+  bodyRegion: BodyRegion;
+  side: 'left' | 'right' | 'both' | null;
+  severity: InjurySeverity;
+  aggravatingPatterns: MovementPattern[];
+}
+
+export interface InjuryConflict {
+  injuryId: number;
+  bodyRegion: BodyRegion;
+  patterns: MovementPattern[]; // The exercise's patterns that aggravate the injury
+  action: 'avoid' | 'caution'; // Mild injuries only flag the exercise
+}
+
+export interface PainPoint {
+  date: Date | string;
+  painScore: number; // 0-10, highest logged in the session
+}
+
+export interface PainTrend {
+  latest: number | null;
+  average: number | null;
+  trend: 'improving' | 'worsening' | 'stable' | null; // null with fewer than two sessions
+}
+
+export const BODY_REGIONS: Record<BodyRegion, string> = {
+  neck: 'Neck',
+  shoulder: 'Shoulder',
+  elbow: 'Elbow',
+  wrist: 'Wrist / hand',
+  chest: 'Chest',
+  upper_back: 'Upper back',
+  lower_back: 'Lower back',
+  hip: 'Hip',
+  knee: 'Knee',
+  ankle: 'Ankle / foot',
+};
+
+/**
+ * Keywords per pattern, matched against lower-cased exercise names. `exclude` keeps e.g. leg curls
+ * out of elbow flexion.
+ */
+export const MOVEMENT_PATTERNS: Record<MovementPattern, { label: string; keywords: string[]; exclude?: string[] }> = {
+  overhead_press: { label: 'Overhead pressing', keywords: ['overhead press', 'military press', 'shoulder press', 'arnold press', 'push press', 'handstand'] },
+  horizontal_press: { label: 'Horizontal pressing', keywords: ['bench press', 'chest press', 'incline press', 'decline press', 'floor press', 'dumbbell press', 'push-up', 'push up', 'pushup', 'dip'], exclude: ['overhead', 'shoulder press', 'military'] },
+  chest_fly: { label: 'Chest flyes', keywords: ['fly', 'flye', 'pec deck', 'crossover'], exclude: ['rear delt', 'reverse fly'] },
+  shoulder_raise: { label: 'Raises and upright rows', keywords: ['lateral raise', 'front raise', 'upright row', 'rear delt', 'reverse fly'] },
+  vertical_pull: { label: 'Vertical pulling', keywords: ['pull-up', 'pull up', 'pullup', 'chin-up', 'chin up', 'pulldown', 'pull-down'] },
+  horizontal_pull: { label: 'Rows', keywords: ['row', 'face pull'], exclude: ['upright row'] },
+  elbow_flexion: { label: 'Curls', keywords: ['curl'], exclude: ['leg curl', 'hamstring curl', 'nordic', 'wrist curl'] },
+  elbow_extension: { label: 'Triceps extensions', keywords: ['tricep', 'skull crusher', 'pushdown', 'push-down', 'kickback', 'close-grip', 'dip'] },
+  grip: { label: 'Gripping and carries', keywords: ['deadlift', 'farmer', 'carry', 'shrug', 'wrist curl', 'hang'] },
+  squat: { label: 'Squatting and lunges', keywords: ['squat', 'leg press', 'hack', 'lunge', 'step-up', 'step up'] },
+  hinge: { label: 'Hip hinging', keywords: ['deadlift', 'rdl', 'good morning', 'hip thrust', 'swing', 'hyperextension', 'back extension'] },
+  knee_extension: { label: 'Leg extensions', keywords: ['leg extension', 'sissy'] },
+  knee_flexion: { label: 'Leg curls', keywords: ['leg curl', 'hamstring curl', 'nordic'] },
+  calf_raise: { label: 'Calf raises', keywords: ['calf'] },
+  spinal_flexion: { label: 'Crunches and sit-ups', keywords: ['crunch', 'sit-up', 'sit up', 'leg raise'] },
+  rotation: { label: 'Twisting', keywords: ['twist', 'woodchop', 'rotation'] },
+};
+
+// Patterns assumed to aggravate a region when the user doesn't name any
+export const REGION_PATTERNS: Record<BodyRegion, MovementPattern[]> = {
+  neck: ['overhead_press', 'shoulder_raise'],
+  shoulder: ['overhead_press', 'shoulder_raise', 'horizontal_press', 'chest_fly'],
+  elbow: ['elbow_flexion', 'elbow_extension'],
+  wrist: ['grip', 'elbow_flexion'],
+  chest: ['horizontal_press', 'chest_fly'],
+  upper_back: ['horizontal_pull', 'vertical_pull'],
+  lower_back: ['hinge', 'squat', 'spinal_flexion', 'rotation'],
+  hip: ['squat', 'hinge'],
+  knee: ['squat', 'knee_extension'],
+  ankle: ['squat', 'calf_raise'],
+};
+
+const PATTERNS = Object.keys(MOVEMENT_PATTERNS) as MovementPattern[];
+
+export function isMovementPattern(value: unknown): value is MovementPattern {
+  return typeof value === 'string' && (PATTERNS as string[]).includes(value);
+}
+
+/**
+ * Movement patterns an exercise trains, from its name
+ */
+export function classifyMovementPatterns(exerciseName: string): MovementPattern[] {
+  const name = exerciseName.toLowerCase();
+  return PATTERNS.filter(pattern => {
+    const { keywords, exclude } = MOVEMENT_PATTERNS[pattern];
+    return keywords.some(keyword => name.includes(keyword)) && !(exclude || []).some(keyword => name.includes(keyword));
+  });
+}
+
+/**
+ * Patterns the injury rules out - the ones the user named, or the region's defaults. Severe
+ * injuries always include the region's defaults.
+ */
+export function getAggravatingPatterns(injury: InjuryConstraint): MovementPattern[] {
+  const named = injury.aggravatingPatterns.filter(isMovementPattern);
+  if (named.length === 0 || injury.severity === 'severe') {
+    return Array.from(new Set([...named, ...REGION_PATTERNS[injury.bodyRegion]]));
+  }
+  return named;
+}
+
+/**
+ * Active injuries an exercise would aggravate. Mild injuries are flagged for caution, moderate and
+ * severe ones rule the exercise out.
+ */
+export function getInjuryConflicts(exerciseName: string, injuries: InjuryConstraint[]): InjuryConflict[] {
+  const patterns = classifyMovementPatterns(exerciseName);
+  if (patterns.length === 0) return [];
+
+  return injuries
+    .map(injury => ({
+      injuryId: injury.id,
+      bodyRegion: injury.bodyRegion,
+      patterns: patterns.filter(pattern => getAggravatingPatterns(injury).includes(pattern)),
+      action: injury.severity === 'mild' ? 'caution' as const : 'avoid' as const
+    }))
+    .filter(conflict => conflict.patterns.length > 0);
+}
+
+export function shouldAvoidExercise(exerciseName: string, injuries: InjuryConstraint[]): boolean {
+  return getInjuryConflicts(exerciseName, injuries).some(conflict => conflict.action === 'avoid');
+}
+
+/**
+ * Plain-text restrictions for AI prompts, e.g. "left shoulder (moderate) - avoid overhead pressing"
+ */
+export function describeInjuries(injuries: InjuryConstraint[]): string[] {
+  return injuries.map(injury => {
+    const region = `${injury.side && injury.side !== 'both' ? `${injury.side} ` : ''}${BODY_REGIONS[injury.bodyRegion].toLowerCase()}`;
+    const patterns = getAggravatingPatterns(injury).map(pattern => MOVEMENT_PATTERNS[pattern].label.toLowerCase());
+    return `${region} (${injury.severity}) - ${injury.severity === 'mild' ? 'go easy on' : 'avoid'} ${patterns.join(', ')}`;
+  });
+}
+
+/**
+ * Highest pain score logged on a set list, or null when no set has one
+ */
+export function getSessionPainScore(sets: unknown[]): number | null {
+  const scores = sets
+    .map(set => (set as { painScore?: unknown })?.painScore)
+    .filter((score): score is number => typeof score === 'number' && score >= 0 && score <= 10);
+  return scores.length > 0 ? Math.max(...scores) : null;
+}
+
+/**
+ * Latest, average and direction of session pain scores - the last three sessions against the
+ * three before them (first against last with fewer), a change of a full point or more counts
+ */
+export function summarizePainTrend(points: PainPoint[]): PainTrend {
+  if (points.length === 0) return { latest: null, average: null, trend: null };
+
+  const sorted = points.slice().sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const scores = sorted.map(point => point.painScore);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  let trend: PainTrend['trend'] = null;
+  if (scores.length >= 2) {
+    const recent = scores.slice(-3);
+    const previous = scores.slice(-6, -3);
+    const change = previous.length > 0 ? mean(recent) - mean(previous) : scores[scores.length - 1] - scores[0];
+    trend = change >= 1 ? 'worsening' : change <= -1 ? 'improving' : 'stable';
+  }
+
+  return {
+    latest: scores[scores.length - 1],
+    average: Math.round(mean(scores) * 10) / 10,
+    trend
+  };
+}
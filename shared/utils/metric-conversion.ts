@@ -3,6 +3,8 @@
  * Handles conversion between KG/LBS for weight and CM/INCHES for measurements
  */
 
+import { getNextLoadStep, type EquipmentSetup, type LoadingType } from "./equipment-loads";
+
 export type WeightUnit = 'kg' | 'lbs';
 export type MeasurementUnit = 'metric' | 'imperial';
 
@@ -45,37 +47,35 @@ export function convertMeasurement(value: number, fromUnit: MeasurementUnit, toU
 }
 
 /**
- * Get appropriate weight increment for load progression based on unit
+ * Get appropriate weight increment for load progression.
+ * With an equipment setup this is the smallest jump to the next load the gym can build;
+ * otherwise the standard step - smaller for isolation lifts, larger above 100 kg.
  */
 export function getWeightIncrement(
-  exerciseName: string, 
-  currentWeight: number, 
-  unit: WeightUnit = 'kg'
+  exerciseName: string,
+  loadingType: LoadingType,
+  currentWeight: number,
+  unit: WeightUnit = 'kg',
+  setup?: EquipmentSetup | null
 ): number {
+  const safeWeight = isNaN(currentWeight) || currentWeight < 0 ? 0 : currentWeight;
+
+  if (setup) {
+    const step = getNextLoadStep(convertWeight(safeWeight, unit, setup.unit), loadingType, setup);
+    if (step !== null) return convertWeight(step, setup.unit, unit);
+  }
+
   const lowerName = exerciseName.toLowerCase();
-  
-  // Base increments in KG
-  let incrementKg: number;
-  
-  // Compound movements - larger increments
-  if (lowerName.includes('squat') || lowerName.includes('deadlift')) {
-    incrementKg = currentWeight > 100 ? 5 : 2.5;
-  } else if (lowerName.includes('bench') || lowerName.includes('press') || lowerName.includes('row')) {
-    incrementKg = currentWeight > 60 ? 2.5 : 1.25;
-  } else if (lowerName.includes('curl') || lowerName.includes('extension') || lowerName.includes('raise')) {
-    // Isolation movements - smaller increments
-    incrementKg = currentWeight > 20 ? 1.25 : 0.625;
-  } else {
-    // Default progression
-    incrementKg = currentWeight > 40 ? 2.5 : 1.25;
+  if (lowerName.includes('curl') || lowerName.includes('raise') || lowerName.includes('extension')) {
+    return unit === 'kg' ? 0.5 : 1.25;
   }
-  
-  // Convert to target unit if needed
-  if (unit === 'lbs') {
-    return convertWeight(incrementKg, 'kg', 'lbs');
+
+  // Threshold is in kg whatever unit the load is logged in
+  if (convertWeight(safeWeight, unit, 'kg') > 100) {
+    return unit === 'kg' ? 2.5 : 5;
   }
-  
-  return incrementKg;
+
+  return unit === 'kg' ? 1.25 : 2.5;
 }
 
 /**
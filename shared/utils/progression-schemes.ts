@@ -0,0 +1,271 @@
+/**
+ * Progression Scheme Utilities
+ * Per-exercise load progression models a mesocycle can assign: RPE-driven auto-regulation,
+ * double progression within a rep range, linear progression and percentage-of-e1RM waves
+ * (5/3/1-style blocks). Exercises without an assigned scheme use RPE-driven progression.
+ *
+ * References:
+ * - Helms et al. (2018) - RPE and velocity-based autoregulation
+ * - Rippetoe (2011) - Starting Strength, linear progression and resets
+ * - Wendler (2011) - 5/3/1, training max and wave loading
+ */
+
+export type ProgressionScheme = 'rpe' | 'double_progression' | 'linear' | 'percentage_wave';
+
+export interface RepRange {
+  min: number;
+  max: number;
+}
+
+export interface ProgressionSchemeConfig {
+  scheme: ProgressionScheme;
+  repRange?: RepRange; // Double progression - defaults to the exercise's target reps
+  increment?: number; // Load added per step, in the exercise's unit - defaults to the equipment step
+  trainingMaxPercent?: number; // Percentage waves - training max as % of e1RM
+}
+
+// Exercise id -> scheme, stored on the mesocycle
+export type ProgressionSchemeMap = Record<string, ProgressionSchemeConfig>;
+
+export interface PrescribedSet {
+  setNumber: number;
+  weight: number; // Unrounded - callers snap to what the equipment can build
+  reps: number;
+  rpe: number;
+  amrap: boolean; // As many reps as possible, with `reps` as the minimum
+}
+
+export interface SchemePrescription {
+  scheme: ProgressionScheme;
+  adjustment: 'weight' | 'reps' | 'volume'; // What changed since the last session
+  sets: PrescribedSet[];
+  reasoning: string[];
+}
+
+export const PROGRESSION_SCHEMES: Record<ProgressionScheme, { label: string; description: string }> = {
+  rpe: {
+    label: 'RPE-driven',
+    description: 'Auto-regulates load from logged RPE/RIR - best for hypertrophy work',
+  },
+  double_progression: {
+    label: 'Double progression',
+    description: 'Add reps until every set hits the top of the range, then add load and reset',
+  },
+  linear: {
+    label: 'Linear',
+    description: 'Add load every session target reps are hit; reset after repeated misses',
+  },
+  percentage_wave: {
+    label: '%e1RM wave (5/3/1)',
+    description: 'Three-week wave off a training max, then a deload week',
+  },
+};
+
+export const DEFAULT_PROGRESSION_SCHEME: ProgressionSchemeConfig = { scheme: 'rpe' };
+
+export const DEFAULT_TRAINING_MAX_PERCENT = 90;
+
+// Linear progression resets after this many sessions in a row without a load increase
+export const LINEAR_STALL_LIMIT = 3;
+const LINEAR_RESET_FACTOR = 0.9;
+
+/**
+ * 5/3/1 wave as % of training max - three loading weeks then a deload. The last set of each
+ * loading week is taken for as many reps as possible.
+ */
+export const PERCENTAGE_WAVE: { percent: number; reps: number; amrap?: boolean }[][] = [
+  [{ percent: 65, reps: 5 }, { percent: 75, reps: 5 }, { percent: 85, reps: 5, amrap: true }],
+  [{ percent: 70, reps: 3 }, { percent: 80, reps: 3 }, { percent: 90, reps: 3, amrap: true }],
+  [{ percent: 75, reps: 5 }, { percent: 85, reps: 3 }, { percent: 95, reps: 1, amrap: true }],
+  [{ percent: 40, reps: 5 }, { percent: 50, reps: 5 }, { percent: 60, reps: 5 }],
+];
+
+const SCHEMES = Object.keys(PROGRESSION_SCHEMES) as ProgressionScheme[];
+
+export function isProgressionScheme(value: unknown): value is ProgressionScheme {
+  return typeof value === 'string' && (SCHEMES as string[]).includes(value);
+}
+
+export function getExerciseScheme(
+  schemes: ProgressionSchemeMap | null | undefined,
+  exerciseId: number
+): ProgressionSchemeConfig {
+  const config = schemes?.[exerciseId.toString()];
+  return config && isProgressionScheme(config.scheme) ? config : DEFAULT_PROGRESSION_SCHEME;
+}
+
+/**
+ * Rep range from a target reps field - "8-12", "5,5,5" or a single number (±2)
+ */
+export function parseRepRange(targetReps: string | null | undefined, fallback: RepRange = { min: 8, max: 12 }): RepRange {
+  const value = (targetReps || '').trim();
+  if (!value) return fallback;
+
+  const numbers = value.split(/[-,]/).map(part => parseInt(part)).filter(n => !isNaN(n) && n > 0);
+  if (numbers.length === 0) return fallback;
+  if (numbers.length === 1 && !value.includes('-') && !value.includes(',')) {
+    return { min: Math.max(1, numbers[0] - 2), max: numbers[0] + 2 };
+  }
+  return { min: Math.min(...numbers), max: Math.max(...numbers) };
+}
+
+/**
+ * Week of the 4-week wave for a mesocycle week (1-based) - waves repeat through longer blocks
+ */
+export function getWaveWeek(mesocycleWeek: number): number {
+  return ((Math.max(1, Math.floor(mesocycleWeek)) - 1) % PERCENTAGE_WAVE.length) + 1;
+}
+
+const straightSets = (totalSets: number, weight: number, reps: number, rpe: number): PrescribedSet[] =>
+  Array.from({ length: Math.max(1, totalSets) }, (_, index) => ({ setNumber: index + 1, weight, reps, rpe, amrap: false }));
+
+/**
+ * Double progression: hold the load and add reps until the lowest set reaches the top of the
+ * range, then add one increment and start again from the bottom.
+ */
+export function calculateDoubleProgression(
+  currentWeight: number,
+  setReps: number[],
+  range: RepRange,
+  increment: number,
+  totalSets: number
+): SchemePrescription {
+  const lowest = setReps.length > 0 ? Math.min(...setReps) : 0;
+
+  if (lowest >= range.max) {
+    return {
+      scheme: 'double_progression',
+      adjustment: 'weight',
+      sets: straightSets(totalSets, currentWeight + increment, range.min, 8),
+      reasoning: [
+        `All sets reached the top of the ${range.min}-${range.max} range - add ${increment} and reset to ${range.min} reps`
+      ]
+    };
+  }
+
+  const targetReps = lowest > 0 ? Math.min(range.max, Math.max(range.min, lowest + 1)) : range.min;
+  return {
+    scheme: 'double_progression',
+    adjustment: 'reps',
+    sets: straightSets(totalSets, currentWeight, targetReps, 8),
+    reasoning: lowest > 0 && lowest < range.min
+      ? [`Fell below ${range.min} reps - hold the load and build back into the range`]
+      : [`Hold the load and add reps - aim for ${targetReps} on every set before increasing`]
+  };
+}
+
+/**
+ * Linear progression: add one increment whenever every set hits the target reps. `stalledSessions`
+ * counts the earlier sessions in a row that repeated the load; after LINEAR_STALL_LIMIT misses the
+ * load resets to 90%.
+ */
+export function calculateLinearProgression(
+  currentWeight: number,
+  setReps: number[],
+  targetReps: number,
+  increment: number,
+  stalledSessions: number,
+  totalSets: number
+): SchemePrescription {
+  const hitTarget = setReps.length > 0 && setReps.every(reps => reps >= targetReps);
+
+  if (hitTarget) {
+    return {
+      scheme: 'linear',
+      adjustment: 'weight',
+      sets: straightSets(totalSets, currentWeight + increment, targetReps, 8),
+      reasoning: [`All sets hit ${targetReps} reps - add ${increment}`]
+    };
+  }
+
+  if (stalledSessions + 1 >= LINEAR_STALL_LIMIT) {
+    return {
+      scheme: 'linear',
+      adjustment: 'weight',
+      sets: straightSets(totalSets, currentWeight * LINEAR_RESET_FACTOR, targetReps, 7),
+      reasoning: [`Missed reps ${LINEAR_STALL_LIMIT} sessions in a row - reset to 90% and build back up`]
+    };
+  }
+
+  return {
+    scheme: 'linear',
+    adjustment: 'volume',
+    sets: straightSets(totalSets, currentWeight, targetReps, 8.5),
+    reasoning: [`Missed target reps - repeat the load (${stalledSessions + 1}/${LINEAR_STALL_LIMIT} before a reset)`]
+  };
+}
+
+/**
+ * Percentage wave off a training max taken from the e1RM. Sets beyond the three wave sets are
+ * back-off sets at the first set's load ("first set last"); with fewer sets the heaviest are kept.
+ */
+export function calculatePercentageWave(
+  e1rm: number,
+  mesocycleWeek: number,
+  totalSets: number,
+  trainingMaxPercent: number = DEFAULT_TRAINING_MAX_PERCENT
+): SchemePrescription {
+  const waveWeek = getWaveWeek(mesocycleWeek);
+  const wave = PERCENTAGE_WAVE[waveWeek - 1];
+  const trainingMax = e1rm * trainingMaxPercent / 100;
+  const isDeload = waveWeek === PERCENTAGE_WAVE.length;
+
+  const steps = totalSets >= wave.length
+    ? [...wave, ...Array.from({ length: totalSets - wave.length }, () => ({ ...wave[0], amrap: false }))]
+    : wave.slice(wave.length - Math.max(1, totalSets));
+
+  return {
+    scheme: 'percentage_wave',
+    adjustment: 'weight',
+    sets: steps.map((step, index) => ({
+      setNumber: index + 1,
+      weight: trainingMax * step.percent / 100,
+      reps: step.reps,
+      rpe: isDeload ? 6 : step.amrap ? 9 : 7,
+      amrap: !!step.amrap
+    })),
+    reasoning: [
+      isDeload
+        ? `Wave week ${waveWeek} - deload at 40-60% of training max`
+        : `Wave week ${waveWeek} of ${PERCENTAGE_WAVE.length} - top set ${wave[wave.length - 1].percent}% for ${wave[wave.length - 1].reps}+ reps`,
+      `Training max ${Math.round(trainingMax * 10) / 10} (${trainingMaxPercent}% of e1RM ${Math.round(e1rm * 10) / 10})`
+    ]
+  };
+}
+
+const clamp = (value: unknown, min: number, max: number): number | undefined => {
+  const number = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(number) ? undefined : Math.min(max, Math.max(min, number));
+};
+
+/**
+ * Keep the valid entries of a scheme map from the builder. RPE-driven entries are dropped since
+ * that's the default, unknown schemes are ignored and numeric settings are clamped to sane ranges.
+ */
+export function sanitizeProgressionSchemes(input: unknown): ProgressionSchemeMap {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return {};
+
+  const schemes: ProgressionSchemeMap = {};
+  Object.entries(input as Record<string, any>).forEach(([exerciseId, config]) => {
+    if (!/^\d+$/.test(exerciseId) || !config || !isProgressionScheme(config.scheme) || config.scheme === 'rpe') return;
+
+    const sanitized: ProgressionSchemeConfig = { scheme: config.scheme };
+    const increment = clamp(config.increment, 0, 50);
+    if (increment) sanitized.increment = increment;
+
+    if (config.scheme === 'double_progression' && config.repRange) {
+      const min = clamp(config.repRange.min, 1, 50);
+      const max = clamp(config.repRange.max, 1, 50);
+      if (min !== undefined && max !== undefined && min < max) {
+        sanitized.repRange = { min: Math.round(min), max: Math.round(max) };
+      }
+    }
+    if (config.scheme === 'percentage_wave') {
+      sanitized.trainingMaxPercent = clamp(config.trainingMaxPercent, 70, 100) ?? DEFAULT_TRAINING_MAX_PERCENT;
+    }
+
+    schemes[exerciseId] = sanitized;
+  });
+
+  return schemes;
+}
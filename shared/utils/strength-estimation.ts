@@ -0,0 +1,190 @@
+/**
+ * Estimated One-Rep Max (e1RM) Utility
+ * Converts logged working sets into an estimated 1RM so strength can be
+ * compared across different rep ranges and effort levels.
+ *
+ * References:
+ * - Epley (1985) - Poundage Chart
+ * - Brzycki (1993) - Strength Testing: Predicting a One-Rep Max from Reps-to-Fatigue
+ * - Helms et al. (2016) - RPE/RIR based percentage chart (reps + RIR ≈ reps to failure)
+ */
+
+import { convertRPEtoRIR } from "./rpe-rir-conversion";
+
+export type E1RMFormula = 'epley' | 'brzycki' | 'rpe_table';
+
+export interface E1RMEstimate {
+  e1rm: number;
+  formula: E1RMFormula;
+  repsToFailure: number; // reps performed + reps in reserve
+  reliable: boolean; // false when reps to failure is too high for a sensible estimate
+}
+
+/**
+ * Percentage of 1RM that can be lifted for N reps to failure.
+ * Index 0 = 1 rep to failure. Values beyond the table fall back to Epley.
+ */
+export const REPS_TO_FAILURE_PERCENTAGE_TABLE: number[] = [
+  1.0, 0.955, 0.922, 0.892, 0.863, 0.837, 0.811, 0.786, 0.762, 0.739, 0.707, 0.68
+];
+
+// Above this many reps to failure the estimate is flagged as unreliable
+const MAX_RELIABLE_REPS = 12;
+
+/**
+ * Epley formula: 1RM = weight × (1 + reps / 30)
+ */
+export function epley(weight: number, reps: number): number {
+  if (reps <= 1) return weight;
+  return weight * (1 + reps / 30);
+}
+
+/**
+ * Brzycki formula: 1RM = weight × 36 / (37 − reps)
+ */
+export function brzycki(weight: number, reps: number): number {
+  if (reps <= 1) return weight;
+  // Formula breaks down at 37 reps - cap to keep the result finite
+  const safeReps = Math.min(reps, 36);
+  return weight * 36 / (37 - safeReps);
+}
+
+/**
+ * RPE-table estimate: look up the %1RM for the total reps to failure
+ */
+export function rpeTable(weight: number, repsToFailure: number): number {
+  const index = Math.round(repsToFailure) - 1;
+  if (index < 0) return weight;
+  if (index >= REPS_TO_FAILURE_PERCENTAGE_TABLE.length) {
+    return epley(weight, repsToFailure);
+  }
+  return weight / REPS_TO_FAILURE_PERCENTAGE_TABLE[index];
+}
+
+/**
+ * Load that can be lifted for N reps to failure at a given 1RM - the inverse of rpeTable
+ */
+export function loadForReps(e1rm: number, repsToFailure: number): number {
+  const index = Math.round(repsToFailure) - 1;
+  if (index <= 0) return e1rm;
+  if (index >= REPS_TO_FAILURE_PERCENTAGE_TABLE.length) {
+    return e1rm / (1 + repsToFailure / 30);
+  }
+  return e1rm * REPS_TO_FAILURE_PERCENTAGE_TABLE[index];
+}
+
+/**
+ * Estimate 1RM for a single set.
+ * When RPE or RIR is known the reps in reserve are added to the reps performed
+ * so a set of 5 @ RPE 8 is treated like a 7-rep max.
+ */
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  options: { rpe?: number | null; rir?: number | null; formula?: E1RMFormula } = {}
+): E1RMEstimate | null {
+  if (isNaN(weight) || isNaN(reps) || weight <= 0 || reps <= 0) {
+    return null;
+  }
+
+  let rir = 0;
+  if (options.rir !== null && options.rir !== undefined && !isNaN(options.rir)) {
+    rir = Math.max(0, options.rir);
+  } else if (options.rpe !== null && options.rpe !== undefined && options.rpe >= 5 && options.rpe <= 10) {
+    rir = convertRPEtoRIR(options.rpe);
+  }
+
+  const repsToFailure = reps + rir;
+  const formula: E1RMFormula = options.formula || (rir > 0 ? 'rpe_table' : 'epley');
+
+  let e1rm: number;
+  switch (formula) {
+    case 'brzycki':
+      e1rm = brzycki(weight, repsToFailure);
+      break;
+    case 'rpe_table':
+      e1rm = rpeTable(weight, repsToFailure);
+      break;
+    case 'epley':
+    default:
+      e1rm = epley(weight, repsToFailure);
+      break;
+  }
+
+  return {
+    e1rm: Math.round(e1rm * 10) / 10,
+    formula,
+    repsToFailure,
+    reliable: repsToFailure <= MAX_RELIABLE_REPS
+  };
+}
+
+/**
+ * Strength standards expressed as e1RM / bodyweight ratios.
+ * Matched against exercise names, so only the main barbell lifts are covered.
+ */
+export const STRENGTH_STANDARDS: Record<string, { keywords: string[]; ratios: Record<StrengthLevel, number> }> = {
+  squat: {
+    keywords: ['squat'],
+    ratios: { beginner: 0.75, novice: 1.25, intermediate: 1.5, advanced: 2.0, elite: 2.5 }
+  },
+  bench_press: {
+    keywords: ['bench press'],
+    ratios: { beginner: 0.5, novice: 0.75, intermediate: 1.0, advanced: 1.5, elite: 2.0 }
+  },
+  deadlift: {
+    keywords: ['deadlift'],
+    ratios: { beginner: 1.0, novice: 1.5, intermediate: 2.0, advanced: 2.5, elite: 3.0 }
+  },
+  overhead_press: {
+    keywords: ['overhead press', 'military press', 'shoulder press'],
+    ratios: { beginner: 0.35, novice: 0.55, intermediate: 0.75, advanced: 1.0, elite: 1.25 }
+  },
+  barbell_row: {
+    keywords: ['barbell row', 'bent over row', 'pendlay row'],
+    ratios: { beginner: 0.5, novice: 0.75, intermediate: 1.0, advanced: 1.25, elite: 1.5 }
+  }
+};
+
+export type StrengthLevel = 'beginner' | 'novice' | 'intermediate' | 'advanced' | 'elite';
+
+/**
+ * Classify an e1RM against bodyweight standards.
+ * Both values must be in the same unit. Returns null for lifts without a standard.
+ */
+export function classifyStrengthLevel(exerciseName: string, e1rm: number, bodyWeight: number): {
+  lift: string;
+  level: StrengthLevel | 'untrained';
+  ratio: number;
+  nextLevel: StrengthLevel | null;
+  nextLevelTarget: number | null;
+} | null {
+  if (!bodyWeight || bodyWeight <= 0 || !e1rm) return null;
+
+  const lowerName = exerciseName.toLowerCase();
+  const lift = Object.keys(STRENGTH_STANDARDS).find(key =>
+    STRENGTH_STANDARDS[key].keywords.some(keyword => lowerName.includes(keyword))
+  );
+  if (!lift) return null;
+
+  const ratios = STRENGTH_STANDARDS[lift].ratios;
+  const levels: StrengthLevel[] = ['beginner', 'novice', 'intermediate', 'advanced', 'elite'];
+  const ratio = e1rm / bodyWeight;
+
+  let level: StrengthLevel | 'untrained' = 'untrained';
+  let nextLevel: StrengthLevel | null = levels[0];
+  for (let i = 0; i < levels.length; i++) {
+    if (ratio >= ratios[levels[i]]) {
+      level = levels[i];
+      nextLevel = levels[i + 1] || null;
+    }
+  }
+
+  return {
+    lift,
+    level,
+    ratio: Math.round(ratio * 100) / 100,
+    nextLevel,
+    nextLevelTarget: nextLevel ? Math.round(ratios[nextLevel] * bodyWeight * 10) / 10 : null
+  };
+}
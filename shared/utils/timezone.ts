@@ -85,4 +85,74 @@ export class TimezoneUtils {
       day: 'numeric'
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Check whether a string is a valid IANA timezone (e.g. "Europe/London")
+   */
+  static isValidTimezone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get calendar parts of an instant as seen in a specific IANA timezone
+   */
+  static getZonedParts(date: Date, timeZone: string): { year: number; month: number; day: number; hour: number; minute: number; weekday: number } {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23'
+    }).formatToParts(date);
+
+    const get = (type: string) => parts.find(part => part.type === type)?.value || '';
+    const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+    return {
+      year: parseInt(get('year')),
+      month: parseInt(get('month')),
+      day: parseInt(get('day')),
+      hour: parseInt(get('hour')),
+      minute: parseInt(get('minute')),
+      weekday: weekdays.indexOf(get('weekday')) // 0 = Sunday
+    };
+  }
+
+  /**
+   * Format an instant as YYYY-MM-DD as seen in a specific IANA timezone
+   */
+  static formatDateInTimezone(date: Date, timeZone: string): string {
+    const { year, month, day } = this.getZonedParts(date, timeZone);
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  /**
+   * Get the Monday (YYYY-MM-DD) of the week containing an instant in a timezone
+   */
+  static getWeekStartInTimezone(date: Date, timeZone: string): string {
+    const { year, month, day, weekday } = this.getZonedParts(date, timeZone);
+    const mondayOffset = weekday === 0 ? -6 : 1 - weekday;
+    const monday = new Date(Date.UTC(year, month - 1, day + mondayOffset));
+    return monday.toISOString().split('T')[0];
+  }
+
+  /**
+   * Convert a local wall-clock time (YYYY-MM-DD + hour[:minute]) in a timezone to a UTC Date
+   */
+  static zonedTimeToUtc(dateString: string, hour: number, timeZone: string, minute: number = 0): Date {
+    const [year, month, day] = dateString.split('-').map(Number);
+    const utcGuess = new Date(Date.UTC(year, month - 1, day, hour, minute));
+    const zoned = this.getZonedParts(utcGuess, timeZone);
+    const zonedAsUtc = Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute);
+    const offset = zonedAsUtc - utcGuess.getTime();
+    return new Date(utcGuess.getTime() - offset);
+  }
+}
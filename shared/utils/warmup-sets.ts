@@ -0,0 +1,166 @@
+/**
+ * Warm-up Set Utilities
+ * Generates ramp-up sets from the first working weight and keeps warm-ups out of
+ * training statistics. Warm-up sets live in setsData next to working sets, flagged
+ * with setType 'warmup', and are numbered separately (W1, W2, ...).
+ */
+
+import type { WeightUnit } from "./metric-conversion";
+import { snapToAchievableLoad, type EquipmentSetup, type LoadingType } from "./equipment-loads";
+
+export type SetType = 'warmup' | 'working';
+
+export interface WarmupStep {
+  percent: number; // Of the first working weight
+  reps: number;
+}
+
+export interface WarmupSet {
+  setNumber: number;
+  targetReps: number;
+  actualReps: number;
+  weight: number;
+  rpe: number;
+  completed: boolean;
+  setType: 'warmup';
+}
+
+// Per-category overrides of WARMUP_SCHEMES, stored on the user profile
+export type WarmupSchemeOverrides = Partial<Record<string, WarmupStep[]>>;
+
+// Ramp-up schemes per exercise category - heavier lower-body work gets more, smaller jumps
+export const WARMUP_SCHEMES: Record<string, WarmupStep[]> = {
+  legs: [
+    { percent: 40, reps: 8 },
+    { percent: 60, reps: 5 },
+    { percent: 75, reps: 3 },
+    { percent: 90, reps: 1 },
+  ],
+  push: [
+    { percent: 50, reps: 8 },
+    { percent: 70, reps: 5 },
+    { percent: 85, reps: 2 },
+  ],
+  pull: [
+    { percent: 50, reps: 8 },
+    { percent: 75, reps: 4 },
+  ],
+  cardio: [],
+  default: [
+    { percent: 50, reps: 10 },
+    { percent: 75, reps: 5 },
+  ],
+};
+
+// Warm-ups are easy by definition - logged at a fixed low RPE so they never read as effort data
+const WARMUP_RPE = 5;
+
+const MAX_WARMUP_STEPS = 8;
+
+/**
+ * Scheme for a category - the user's override when they set one, else the built-in scheme.
+ * Unknown categories use the (possibly overridden) default.
+ */
+export function getWarmupScheme(category: string | null | undefined, overrides?: WarmupSchemeOverrides | null): WarmupStep[] {
+  const key = (category || '').toLowerCase();
+  const schemeKey = key in WARMUP_SCHEMES ? key : 'default';
+  return overrides?.[schemeKey] || WARMUP_SCHEMES[schemeKey];
+}
+
+/**
+ * Check profile overrides - known categories only, ascending percentages below the working weight.
+ * Throws with the offending category so the profile route can return it.
+ */
+export function validateWarmupSchemes(value: unknown): WarmupSchemeOverrides | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'object' || Array.isArray(value)) throw new Error('Warm-up schemes must be an object');
+
+  const schemes: WarmupSchemeOverrides = {};
+  Object.entries(value as Record<string, unknown>).forEach(([category, steps]) => {
+    if (!(category in WARMUP_SCHEMES)) throw new Error(`Unknown warm-up category: ${category}`);
+    const valid = Array.isArray(steps) && steps.length <= MAX_WARMUP_STEPS && steps.every((step, index) =>
+      Number.isInteger(step?.reps) && step.reps >= 1 && step.reps <= 20 &&
+      typeof step?.percent === 'number' && step.percent > 0 && step.percent < 100 &&
+      (index === 0 || step.percent > steps[index - 1].percent)
+    );
+    if (!valid) throw new Error(`Invalid warm-up scheme for ${category}`);
+    schemes[category] = (steps as WarmupStep[]).map(({ percent, reps }) => ({ percent, reps }));
+  });
+  return schemes;
+}
+
+// "40x8, 60x5" - percent x reps, as edited on the profile page
+export function formatWarmupScheme(steps: WarmupStep[]): string {
+  return steps.map(step => `${step.percent}x${step.reps}`).join(', ');
+}
+
+export function parseWarmupScheme(text: string): WarmupStep[] | null {
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  const steps = parts.map(part => {
+    const match = part.match(/^(\d+(?:\.\d+)?)\s*%?\s*[x×]\s*(\d+)$/i);
+    return match ? { percent: parseFloat(match[1]), reps: parseInt(match[2]) } : null;
+  });
+  return steps.every(step => step !== null) ? steps as WarmupStep[] : null;
+}
+
+export function isWarmupSet(set: unknown): boolean {
+  return !!set && (set as { setType?: unknown }).setType === 'warmup';
+}
+
+/**
+ * Working sets only - what volume, progression and strength statistics are based on
+ */
+export function getWorkingSets<T>(sets: T[]): T[] {
+  return sets.filter(set => !isWarmupSet(set));
+}
+
+/**
+ * Number warm-ups and working sets separately, keeping their order
+ */
+export function renumberSets<T extends { setNumber: number }>(sets: T[]): T[] {
+  let warmups = 0;
+  let working = 0;
+  return sets.map(set => ({ ...set, setNumber: isWarmupSet(set) ? ++warmups : ++working }));
+}
+
+/**
+ * Ramp-up sets for the first working weight. Loads are rounded down to what the equipment
+ * setup can build (or to 2.5kg / 5lbs without one); steps that would land on or above the
+ * working weight, or repeat the previous load, are dropped.
+ */
+export function generateWarmupSets(
+  workingWeight: number,
+  category: string | null | undefined,
+  options: { unit?: WeightUnit; loadingType?: LoadingType; setup?: EquipmentSetup | null; scheme?: WarmupStep[] } = {}
+): WarmupSet[] {
+  const unit = options.unit || 'kg';
+  const scheme = options.scheme || getWarmupScheme(category);
+  if (!(workingWeight > 0) || options.loadingType === 'bodyweight') return [];
+
+  const roundingStep = unit === 'kg' ? 2.5 : 5;
+  // Only snap with a setup in the same unit - converted loads would never match the plates
+  const setup = options.setup && options.setup.unit === unit ? options.setup : null;
+
+  const sets: WarmupSet[] = [];
+  scheme.forEach(step => {
+    const target = workingWeight * step.percent / 100;
+    const weight = setup && options.loadingType
+      ? snapToAchievableLoad(target, options.loadingType, setup, 'down')
+      : Math.floor(target / roundingStep) * roundingStep;
+
+    const previous = sets[sets.length - 1];
+    if (weight <= 0 || weight >= workingWeight || (previous && weight <= previous.weight)) return;
+
+    sets.push({
+      setNumber: sets.length + 1,
+      targetReps: step.reps,
+      actualReps: 0,
+      weight,
+      rpe: WARMUP_RPE,
+      completed: false,
+      setType: 'warmup',
+    });
+  });
+
+  return sets;
+}